@@ -0,0 +1,193 @@
+/**
+ * @file AssignmentEditor.tsx
+ * @description Editor for the variable assignments a response option makes when chosen: set, add,
+ *              subtract, append text or toggle, applied in order
+ *
+ * @dependencies assignments, scenario types, UI components
+ * @usage Rendered in the settings popover of ResponseOptionRow
+ */
+
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AssignmentOperation,
+  ScenarioVariable,
+  VariableAssignment,
+  VariableType,
+  VariableValue,
+} from "@/types/scenario";
+import { ASSIGNMENT_OPERATIONS, getOperationsForType } from "@/lib/assignments";
+
+interface AssignmentEditorProps {
+  assignments: VariableAssignment[];
+  variables: Record<string, ScenarioVariable>;
+  onChange: (assignments: VariableAssignment[]) => void;
+  tabIndex?: number;
+}
+
+const getDefaultValueForType = (type: VariableType, operation: AssignmentOperation): VariableValue => {
+  switch (type) {
+    case "text": return "";
+    case "number": return operation === "set" ? 0 : 1;
+    default: return true;
+  }
+};
+
+function AssignmentRow({
+  assignment,
+  variables,
+  onChange,
+  onRemove,
+  tabIndex,
+}: {
+  assignment: VariableAssignment;
+  variables: Record<string, ScenarioVariable>;
+  onChange: (assignment: VariableAssignment) => void;
+  onRemove: () => void;
+  tabIndex?: number;
+}) {
+  const variable = variables[assignment.variableId];
+  const operation = assignment.operation ?? "set";
+  const operations = variable ? getOperationsForType(variable.type) : ["set" as const];
+
+  const handleVariableChange = (variableId: string) => {
+    const next = variables[variableId];
+    if (!next) return;
+    // Keep the operation when the new type supports it; values never carry across types
+    const nextOperation = getOperationsForType(next.type).includes(operation) ? operation : "set";
+    onChange({
+      variableId,
+      operation: nextOperation,
+      value: next.type === variable?.type ? assignment.value : getDefaultValueForType(next.type, nextOperation),
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <Select value={variable ? assignment.variableId : undefined} onValueChange={handleVariableChange}>
+        <SelectTrigger className="h-8 text-xs flex-1 min-w-0" tabIndex={tabIndex} aria-label="Variable">
+          <SelectValue placeholder="Variable" />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(variables).map((v) => (
+            <SelectItem key={v.id} value={v.id}>
+              {v.name} ({v.type})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={operation} onValueChange={(val) => onChange({ ...assignment, operation: val as AssignmentOperation })}>
+        <SelectTrigger className="h-8 text-xs w-[84px] shrink-0" tabIndex={tabIndex} aria-label="Operation">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operations.map((op) => (
+            <SelectItem key={op} value={op}>
+              {ASSIGNMENT_OPERATIONS[op].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Value input based on variable type; toggling needs no value */}
+      {operation === "toggle" ? null : variable?.type === "boolean" ? (
+        <Select
+          value={assignment.value === true ? "true" : "false"}
+          onValueChange={(val) => onChange({ ...assignment, value: val === "true" })}
+        >
+          <SelectTrigger className="h-8 text-xs w-20 shrink-0" tabIndex={tabIndex} aria-label="Value">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">true</SelectItem>
+            <SelectItem value="false">false</SelectItem>
+          </SelectContent>
+        </Select>
+      ) : variable?.type === "number" ? (
+        <Input
+          type="number"
+          value={String(assignment.value)}
+          onChange={(e) => onChange({ ...assignment, value: Number(e.target.value) || 0 })}
+          placeholder="0"
+          tabIndex={tabIndex}
+          aria-label="Value"
+          className="h-8 text-xs w-20 shrink-0"
+        />
+      ) : (
+        <Input
+          value={String(assignment.value)}
+          onChange={(e) => onChange({ ...assignment, value: e.target.value })}
+          placeholder="Value..."
+          tabIndex={tabIndex}
+          aria-label="Value"
+          className="h-8 text-xs w-20 shrink-0"
+        />
+      )}
+
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onRemove}
+        tabIndex={tabIndex}
+        className="h-8 w-8 shrink-0 rounded-lg text-muted-foreground hover:bg-[#FFA2B6] hover:text-[#00178F]"
+        aria-label="Remove assignment"
+      >
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+}
+
+export function AssignmentEditor({ assignments, variables, onChange, tabIndex }: AssignmentEditorProps) {
+  const firstVariable = Object.values(variables)[0];
+
+  const updateAssignment = (index: number, assignment: VariableAssignment | null) => {
+    const next = [...assignments];
+    if (assignment) {
+      next[index] = assignment;
+    } else {
+      next.splice(index, 1);
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {assignments.length === 0 && (
+        <p className="text-xs text-muted-foreground">Choosing this response changes no variables.</p>
+      )}
+
+      {assignments.map((assignment, index) => (
+        <AssignmentRow
+          key={index}
+          assignment={assignment}
+          variables={variables}
+          onChange={(next) => updateAssignment(index, next)}
+          onRemove={() => updateAssignment(index, null)}
+          tabIndex={tabIndex}
+        />
+      ))}
+
+      {firstVariable && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() =>
+            onChange([
+              ...assignments,
+              { variableId: firstVariable.id, operation: "set", value: getDefaultValueForType(firstVariable.type, "set") },
+            ])
+          }
+          tabIndex={tabIndex}
+          className="h-7 gap-1 rounded-lg px-2 text-xs text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+        >
+          <Plus className="h-3 w-3" />
+          Assignment
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,15 @@
 /**
  * @file BuilderLayout.tsx
  * @description Main builder layout component that composes TopBar, LeftPanel, and ChatPreview
- *              into a responsive two-panel interface
+ *              into a responsive two-panel interface. Leaves the expanded canvas when a message asks to
+ *              be previewed.
  *
  * @dependencies ScenarioContext, TopBar, LeftPanel, ChatPreview
  * @usage Rendered by Index page component
  */
 
-import { useState } from "react";
-import { ScenarioProvider, useScenario } from "@/context/ScenarioContext";
+import { useEffect, useState } from "react";
+import { useScenario } from "@/context/ScenarioContext";
 import { TopBar } from "./TopBar";
 import { LeftPanel } from "./LeftPanel";
 import { ChatPreview } from "./ChatPreview";
@@ -18,11 +19,16 @@ import { useWalkthrough } from "@/hooks/use-walkthrough";
 
 function BuilderContent() {
   const walkthrough = useWalkthrough();
-  const { scenario } = useScenario();
+  const { scenario, previewRequest } = useScenario();
   const framePreset = scenario.theme.framePreset ?? "none";
   const frameOrientation = scenario.theme.frameOrientation ?? "vertical";
   const [isCanvasExpanded, setIsCanvasExpanded] = useState(false);
 
+  // "Preview from here" needs the preview panel on screen
+  useEffect(() => {
+    if (previewRequest) setIsCanvasExpanded(false);
+  }, [previewRequest]);
+
   return (
     <div className="flex h-screen flex-col bg-background">
       {/* Skip Link for keyboard users */}
@@ -91,10 +97,7 @@ function BuilderContent() {
   );
 }
 
+// The ScenarioProvider lives in App.tsx so the builder and the library route share one open scenario
 export function BuilderLayout() {
-  return (
-    <ScenarioProvider>
-      <BuilderContent />
-    </ScenarioProvider>
-  );
+  return <BuilderContent />;
 }
@@ -0,0 +1,235 @@
+/**
+ * @file CanvasSearch.tsx
+ * @description Search palette for the canvas: finds messages by text, response options and variable
+ *              names, filters to messages using a variable or ending the conversation, and steps
+ *              through the results by centring each message on the canvas
+ *
+ * @dependencies ScenarioContext, canvasSearch, @xyflow/react, UI components
+ * @usage Rendered in FlowCanvas, opened with Ctrl+F / Ctrl+K or the toolbar Search button
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useReactFlow } from "@xyflow/react";
+import { useScenario } from "@/context/ScenarioContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, ChevronUp, ChevronDown, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { markdown } from "@/lib/markdown";
+import { SearchFilters, SearchMatchField, SearchResult, getSearchSnippet, isSearchActive } from "@/lib/canvasSearch";
+
+const FIELD_LABELS: Record<SearchMatchField, string> = {
+  content: "Message",
+  option: "Response",
+  variable: "Variable",
+};
+
+interface CanvasSearchProps {
+  isOpen: boolean;
+  onClose: () => void;
+  query: string;
+  onQueryChange: (query: string) => void;
+  filters: SearchFilters;
+  onFiltersChange: (filters: SearchFilters) => void;
+  results: SearchResult[];
+  // Bumped by FlowCanvas when the shortcut is pressed again, to focus the open palette
+  focusRequest: number;
+}
+
+export function CanvasSearch({
+  isOpen,
+  onClose,
+  query,
+  onQueryChange,
+  filters,
+  onFiltersChange,
+  results,
+  focusRequest,
+}: CanvasSearchProps) {
+  const { scenario } = useScenario();
+  const { setCenter } = useReactFlow();
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Index of the result last jumped to; -1 until the user steps through them
+  const [currentIndex, setCurrentIndex] = useState(-1);
+
+  // Node numbers match the badges on the canvas
+  const messageNumbers = useMemo(() => {
+    const numbers = new Map<string, number>();
+    Object.keys(scenario.messages).forEach((id, index) => numbers.set(id, index + 1));
+    return numbers;
+  }, [scenario.messages]);
+
+  const variableList = Object.values(scenario.variables || {});
+
+  useEffect(() => {
+    setCurrentIndex(-1);
+  }, [query, filters]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [isOpen, focusRequest]);
+
+  const handleJumpTo = useCallback(
+    (index: number) => {
+      const result = results[index];
+      const message = result && scenario.messages[result.messageId];
+      if (!message) return;
+      setCurrentIndex(index);
+      setCenter(message.position.x + 160, message.position.y + 100, { zoom: 1, duration: 400 });
+    },
+    [results, scenario.messages, setCenter]
+  );
+
+  const handleStep = useCallback(
+    (step: 1 | -1) => {
+      if (results.length === 0) return;
+      const from = currentIndex < 0 && step < 0 ? 0 : currentIndex;
+      handleJumpTo((from + step + results.length) % results.length);
+    },
+    [results.length, currentIndex, handleJumpTo]
+  );
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      handleStep(e.shiftKey ? -1 : 1);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const hasCriteria = isSearchActive(query, filters);
+
+  return (
+    <div
+      className="absolute z-20 top-20 left-1/2 -translate-x-1/2 w-96 bg-card border border-border rounded-xl shadow-lg animate-in slide-in-from-top-2"
+      role="search"
+      aria-label="Search messages"
+    >
+      {/* Query and navigation */}
+      <div className="flex items-center gap-2 p-2 border-b border-border/30">
+        <Search className="h-4 w-4 text-muted-foreground shrink-0 ml-1" aria-hidden="true" />
+        <Input
+          ref={inputRef}
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search messages, responses, variables..."
+          aria-label="Search text"
+          className="h-8 flex-1 text-sm border-0 shadow-none focus-visible:ring-0 px-1"
+        />
+        <span className="text-[10px] font-medium text-muted-foreground shrink-0" aria-live="polite">
+          {hasCriteria && (currentIndex >= 0 ? `${currentIndex + 1} / ${results.length}` : `${results.length} found`)}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => handleStep(-1)}
+          disabled={results.length === 0}
+          className="h-7 w-7 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+          aria-label="Previous result (Shift+Enter)"
+        >
+          <ChevronUp className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => handleStep(1)}
+          disabled={results.length === 0}
+          className="h-7 w-7 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+          aria-label="Next result (Enter)"
+        >
+          <ChevronDown className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onClose}
+          className="h-7 w-7 rounded-lg text-muted-foreground hover:text-foreground"
+          aria-label="Close search"
+        >
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center gap-3 px-3 py-2 border-b border-border/30">
+        <Select
+          value={filters.variableId ?? "any"}
+          onValueChange={(val) => onFiltersChange({ ...filters, variableId: val === "any" ? null : val })}
+        >
+          <SelectTrigger className="h-7 text-xs flex-1 min-w-0 rounded-lg" aria-label="Filter by variable">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any variable</SelectItem>
+            {variableList.map((variable) => (
+              <SelectItem key={variable.id} value={variable.id}>
+                Uses {variable.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-1.5 shrink-0">
+          <Switch
+            id="search-endpoints-only"
+            checked={filters.endpointsOnly}
+            onCheckedChange={(checked) => onFiltersChange({ ...filters, endpointsOnly: checked })}
+          />
+          <Label htmlFor="search-endpoints-only" className="text-xs">
+            Endpoints only
+          </Label>
+        </div>
+      </div>
+
+      {/* Results */}
+      {hasCriteria && (
+        <ScrollArea className="max-h-64">
+          <div className="p-2">
+            {results.length === 0 ? (
+              <p className="py-4 text-center text-xs text-muted-foreground">No messages match</p>
+            ) : (
+              results.map((result, index) => {
+                const match = result.matches[0];
+                const text = match ? match.text : markdown.toPlainText(scenario.messages[result.messageId]?.content ?? "");
+                return (
+                  <button
+                    key={result.messageId}
+                    onClick={() => handleJumpTo(index)}
+                    className={cn(
+                      "w-full text-left rounded-lg p-2 transition-colors hover:bg-[#A7B5FF]/30",
+                      index === currentIndex && "bg-[#A7B5FF]/40"
+                    )}
+                  >
+                    <div className="flex items-start gap-2">
+                      <div className="flex h-5 w-5 items-center justify-center rounded text-[10px] font-bold shrink-0 mt-0.5 bg-primary/15 text-primary">
+                        {messageNumbers.get(result.messageId)}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs text-foreground truncate">{getSearchSnippet(text, query) || "Empty message"}</p>
+                        {match && (
+                          <p className="text-[10px] text-muted-foreground mt-0.5">
+                            {result.matches.map((m) => FIELD_LABELS[m.field]).filter((label, i, all) => all.indexOf(label) === i).join(", ")}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,16 @@
 /**
  * @file CanvasToolbar.tsx
- * @description Canvas toolbar with add node, variables panel, reset canvas, and help buttons
+ * @description Canvas toolbar with add node, sticky note and frame, undo/redo, variables, sub-flows and
+ *              comments panels, search, following the live preview, validation, path coverage, test cases,
+ *              auto-arrange, reset canvas, and help buttons
  * 
- * @dependencies ScenarioContext, VariablesPanel, UI components
+ * @dependencies ScenarioContext, VariablesPanel, SubFlowsPanel, CommentsPanel, CoveragePanel, TestCasesPanel, annotations, autoLayout, UI components
  * @usage Rendered as a Panel in FlowCanvas
  */
 
 import { useState, useRef, useCallback, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Plus, RotateCcw, GripVertical, ShieldCheck } from "lucide-react";
+import { Plus, RotateCcw, GripVertical, ShieldCheck, Undo2, Redo2, Network, ArrowRight, ArrowDown, Search, StickyNote, SquareDashed, Crosshair, Route, FlaskConical } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useScenario } from "@/context/ScenarioContext";
 import {
@@ -28,16 +30,39 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { LayoutDirection } from "@/lib/autoLayout";
 import { VariablesPanel, VariablesTrigger } from "./VariablesPanel";
+import { SubFlowsPanel, SubFlowsTrigger } from "./SubFlowsPanel";
+import { CommentsPanel, CommentsTrigger } from "./CommentsPanel";
+import { CoveragePanel } from "./CoveragePanel";
+import { TestCasesPanel } from "./TestCasesPanel";
+import { countOpenThreads } from "@/lib/annotations";
 
 interface CanvasToolbarProps {
   onAddNode: () => void;
+  onAddNote: () => void;
+  onAddFrame: () => void;
   onValidate: () => void;
+  onAutoArrange: (direction: LayoutDirection) => void;
+  onSearch: () => void;
+  isPreviewPlaying: boolean;
+  isFollowingPreview: boolean;
+  onToggleFollowPreview: () => void;
 }
 
-export function CanvasToolbar({ onAddNode, onValidate }: CanvasToolbarProps) {
-  const { scenario, resetScenario, addRootMessage } = useScenario();
+export function CanvasToolbar({ onAddNode, onAddNote, onAddFrame, onValidate, onAutoArrange, onSearch, isPreviewPlaying, isFollowingPreview, onToggleFollowPreview }: CanvasToolbarProps) {
+  const { scenario, resetScenario, addRootMessage, undo, redo, canUndo, canRedo } = useScenario();
   const [isVariablesPanelOpen, setIsVariablesPanelOpen] = useState(false);
+  const [isSubFlowsPanelOpen, setIsSubFlowsPanelOpen] = useState(false);
+  const [isCommentsPanelOpen, setIsCommentsPanelOpen] = useState(false);
+  const [isCoveragePanelOpen, setIsCoveragePanelOpen] = useState(false);
+  const [isTestCasesPanelOpen, setIsTestCasesPanelOpen] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [position, setPosition] = useState({ x: 16, y: 16 });
   const dragOffset = useRef({ x: 0, y: 0 });
@@ -95,6 +120,8 @@ export function CanvasToolbar({ onAddNode, onValidate }: CanvasToolbarProps) {
   };
 
   const variableCount = Object.keys(scenario.variables || {}).length;
+  const subFlowCount = Object.keys(scenario.subFlows || {}).length;
+  const openCommentCount = countOpenThreads(Object.values(scenario.comments || {}));
 
   return (
     <TooltipProvider>
@@ -146,6 +173,82 @@ export function CanvasToolbar({ onAddNode, onValidate }: CanvasToolbarProps) {
           </TooltipContent>
         </Tooltip>
 
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onAddNote}
+              className="h-9 w-9 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+              tabIndex={0}
+              aria-label="Add sticky note"
+            >
+              <StickyNote className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <p>Add a sticky note</p>
+          </TooltipContent>
+        </Tooltip>
+
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onAddFrame}
+              className="h-9 w-9 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+              tabIndex={0}
+              aria-label="Add frame"
+            >
+              <SquareDashed className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <p>Add a frame to group messages</p>
+          </TooltipContent>
+        </Tooltip>
+
+        <div className="w-px h-6 bg-border" />
+
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={undo}
+              disabled={!canUndo}
+              className="h-9 w-9 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+              tabIndex={0}
+              aria-label="Undo"
+            >
+              <Undo2 className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <p>Undo (Ctrl+Z)</p>
+          </TooltipContent>
+        </Tooltip>
+
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={redo}
+              disabled={!canRedo}
+              className="h-9 w-9 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+              tabIndex={0}
+              aria-label="Redo"
+            >
+              <Redo2 className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <p>Redo (Ctrl+Shift+Z)</p>
+          </TooltipContent>
+        </Tooltip>
+
         <div className="w-px h-6 bg-border" />
 
         <div data-walkthrough="variables-button">
@@ -160,8 +263,70 @@ export function CanvasToolbar({ onAddNode, onValidate }: CanvasToolbarProps) {
           onClose={() => setIsVariablesPanelOpen(false)}
         />
 
+        <SubFlowsTrigger
+          onClick={() => setIsSubFlowsPanelOpen(true)}
+          subFlowCount={subFlowCount}
+        />
+
+        <SubFlowsPanel
+          isOpen={isSubFlowsPanelOpen}
+          onClose={() => setIsSubFlowsPanelOpen(false)}
+        />
+
+        <CommentsTrigger
+          onClick={() => setIsCommentsPanelOpen(true)}
+          openCount={openCommentCount}
+        />
+
+        <CommentsPanel
+          isOpen={isCommentsPanelOpen}
+          onClose={() => setIsCommentsPanelOpen(false)}
+        />
+
         <div className="w-px h-6 bg-border" />
 
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onSearch}
+              className="h-9 w-9 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+              tabIndex={0}
+              aria-label="Search messages"
+            >
+              <Search className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <p>Search (Ctrl+F)</p>
+          </TooltipContent>
+        </Tooltip>
+
+        {isPreviewPlaying && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant={isFollowingPreview ? "secondary" : "ghost"}
+                size="icon"
+                onClick={onToggleFollowPreview}
+                className={cn(
+                  "h-9 w-9 rounded-lg hover:bg-[#A7B5FF] hover:text-[#00178F]",
+                  isFollowingPreview ? "bg-info/20 text-info" : "text-muted-foreground"
+                )}
+                tabIndex={0}
+                aria-pressed={isFollowingPreview}
+                aria-label="Follow the preview"
+              >
+                <Crosshair className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              <p>{isFollowingPreview ? "Stop following the preview" : "Pan to follow the preview"}</p>
+            </TooltipContent>
+          </Tooltip>
+        )}
+
         <Tooltip>
           <TooltipTrigger asChild>
             <Button
@@ -179,6 +344,76 @@ export function CanvasToolbar({ onAddNode, onValidate }: CanvasToolbarProps) {
           </TooltipContent>
         </Tooltip>
 
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsCoveragePanelOpen(true)}
+              className="h-9 w-9 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+              tabIndex={0}
+              aria-label="Path coverage"
+            >
+              <Route className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <p>Enumerate paths and coverage</p>
+          </TooltipContent>
+        </Tooltip>
+        <CoveragePanel isOpen={isCoveragePanelOpen} onClose={() => setIsCoveragePanelOpen(false)} />
+
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsTestCasesPanelOpen(true)}
+              className="h-9 w-9 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+              tabIndex={0}
+              aria-label="Test cases"
+            >
+              <FlaskConical className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <p>Run test cases</p>
+          </TooltipContent>
+        </Tooltip>
+        <TestCasesPanel isOpen={isTestCasesPanelOpen} onClose={() => setIsTestCasesPanelOpen(false)} />
+
+        <DropdownMenu>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={Object.keys(scenario.messages).length < 2}
+                  className="h-9 w-9 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+                  tabIndex={0}
+                  aria-label="Auto-arrange messages"
+                >
+                  <Network className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              <p>Auto-arrange</p>
+            </TooltipContent>
+          </Tooltip>
+          <DropdownMenuContent align="start" className="rounded-xl">
+            <DropdownMenuItem onClick={() => onAutoArrange("LR")} className="gap-2">
+              <ArrowRight className="h-4 w-4" />
+              Left to right
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onAutoArrange("TB")} className="gap-2">
+              <ArrowDown className="h-4 w-4" />
+              Top to bottom
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
         <div className="w-px h-6 bg-border" />
 
         <AlertDialog>
@@ -203,7 +438,7 @@ export function CanvasToolbar({ onAddNode, onValidate }: CanvasToolbarProps) {
             <AlertDialogHeader>
               <AlertDialogTitle>Reset the entire scenario?</AlertDialogTitle>
               <AlertDialogDescription>
-                This will delete all messages and start fresh. This action cannot be undone.
+                This will delete all messages and start fresh. You can still bring it back with Undo.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
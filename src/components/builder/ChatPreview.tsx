@@ -1,35 +1,142 @@
 /**
  * @file ChatPreview.tsx
  * @description Live chat preview panel showing conversation simulation with typing indicators,
- *              themed message bubbles, and interactive response selection
+ *              themed per-speaker message bubbles with Markdown formatting and media attachments,
+ *              interactive response selection and typed answers, a debug drawer with stepping back
+ *              one choice, starting from any message when a canvas node asks to, sharing where the
+ *              play-through is so the canvas can highlight it, and saving the play-through as a test case
  * 
- * @dependencies ScenarioContext, scenario types, UI components
+ * @dependencies ScenarioContext, scenarioEngine, scenarioTests, PreviewDebugDrawer, markdown, assets, scenario types,
+ *               UI components
  * @usage Rendered in BuilderLayout right panel
  */
 
-import { useState, useEffect, useRef } from "react";
-import { useScenario } from "@/context/ScenarioContext";
+import { useState, useEffect, useRef, useMemo } from "react";
+import { useScenario, PreviewRequest, PreviewTrail } from "@/context/ScenarioContext";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
-import { RotateCcw, Play } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { RotateCcw, Play, Send, FileText } from "lucide-react";
 
 import { cn } from "@/lib/utils";
-import { BubbleBorderRadius, MessageSize } from "@/types/scenario";
+import { createScenarioEngine, EngineState } from "@/lib/scenarioEngine";
+import {
+  BubbleBorderRadius,
+  MessageAttachment,
+  MessageSize,
+  ScenarioAsset,
+  Speaker,
+  TestStep,
+  VariableValue,
+  createTestCase,
+  getMessageSpeaker,
+} from "@/types/scenario";
+import { formatFileSize, getLinkHostname, isSafeLinkUrl } from "@/lib/assets";
+import { markdown } from "@/lib/markdown";
+import { settle } from "@/lib/scenarioTests";
+import { PreviewDebugDrawer } from "./PreviewDebugDrawer";
 
 const DEFAULT_SENDER_RADIUS: BubbleBorderRadius = { topLeft: 16, topRight: 4, bottomRight: 16, bottomLeft: 16 };
 const DEFAULT_RECEIVER_RADIUS: BubbleBorderRadius = { topLeft: 4, topRight: 16, bottomRight: 16, bottomLeft: 16 };
 
+// Paragraph, list and link styles for rendered Markdown inside a bubble
+const MARKDOWN_CLASSES =
+  "[&_p+p]:mt-2 [&_p+ul]:mt-1 [&_p+ol]:mt-1 [&_ul+p]:mt-1 [&_ol+p]:mt-1 [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5 [&_a]:underline [&_code]:rounded [&_code]:bg-black/10 [&_code]:px-1 [&_code]:font-mono [&_code]:text-[0.9em]";
+
 interface ChatBubble {
   id: string;
-  content: string;
+  content: string; // Markdown for contact messages, plain text for the learner's own
   isUser: boolean;
+  speakerId?: string;
+  attachments?: MessageAttachment[];
+}
+
+// Where the preview stood when the learner chose or answered, so stepping back can return there
+interface PreviewCheckpoint {
+  state: EngineState;
+  bubbleCount: number;
+  pathLength: number;
+  linkCount: number;
+  stepCount: number;
+}
+
+// Where the play-through began, kept for saving it as a test case; null messageId is the start message
+interface PreviewStart {
+  messageId: string | null;
+  variables: Record<string, VariableValue>;
+}
+
+function getInitials(name: string) {
+  return name
+    .split(" ")
+    .map((word) => word[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+function AttachmentView({ attachment, assets }: { attachment: MessageAttachment; assets: Record<string, ScenarioAsset> }) {
+  if (attachment.kind === "link") {
+    if (!isSafeLinkUrl(attachment.url)) return null;
+    return (
+      <a
+        href={attachment.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="block rounded-lg border border-current/20 bg-background/20 px-3 py-2 no-underline hover:bg-background/30"
+      >
+        <span className="block text-sm font-semibold">{attachment.title || getLinkHostname(attachment.url!)}</span>
+        {attachment.description && <span className="block text-xs opacity-80">{attachment.description}</span>}
+        <span className="block text-xs opacity-60">{getLinkHostname(attachment.url!)}</span>
+      </a>
+    );
+  }
+
+  const asset = attachment.assetId ? assets[attachment.assetId] : undefined;
+  if (!asset) return null;
+
+  switch (attachment.kind) {
+    case "image":
+      return <img src={asset.data} alt={attachment.description ?? ""} className="max-h-64 w-full rounded-lg object-cover" />;
+    case "audio":
+      return <audio src={asset.data} controls className="w-full" aria-label={asset.name} />;
+    case "video":
+      return (
+        <video src={asset.data} controls className="max-h-64 w-full rounded-lg" aria-label={attachment.description || asset.name} />
+      );
+    default:
+      return (
+        <a href={asset.data} download={asset.name} className="flex items-center gap-2 rounded-lg bg-background/20 px-3 py-2 hover:bg-background/30">
+          <FileText className="h-4 w-4 shrink-0" aria-hidden="true" />
+          <span className="truncate text-sm">{asset.name}</span>
+          <span className="shrink-0 text-xs opacity-60">{formatFileSize(asset.size)}</span>
+        </a>
+      );
+  }
+}
+
+function SpeakerAvatar({ speaker, className, fallbackClassName }: { speaker: Speaker; className: string; fallbackClassName: string }) {
+  return (
+    <Avatar className={className}>
+      {speaker.avatar && <AvatarImage src={speaker.avatar} alt={speaker.name} />}
+      <AvatarFallback
+        className={fallbackClassName}
+        style={{
+          background: `linear-gradient(135deg, hsl(${speaker.avatarBackgroundColor ?? '214 100% 65%'}), hsl(${speaker.avatarBackgroundColor ?? '214 100% 65%'} / 0.7))`,
+          color: `hsl(${speaker.avatarTextColor ?? '0 0% 100%'})`,
+        }}
+      >
+        {getInitials(speaker.name)}
+      </AvatarFallback>
+    </Avatar>
+  );
 }
 
 function TypingIndicator({ color }: { color: string }) {
   return (
     <div className="flex items-center gap-1 px-4 py-3" role="status" aria-label="Typing">
       <span 
-        className="w-2 h-2 rounded-full animate-bounce"
+        className="w-2 h-2 rounded-full animate-bounce motion-reduce:animate-none"
         aria-hidden="true"
         style={{ 
           backgroundColor: color,
@@ -38,7 +145,7 @@ function TypingIndicator({ color }: { color: string }) {
         }}
       />
       <span 
-        className="w-2 h-2 rounded-full animate-bounce"
+        className="w-2 h-2 rounded-full animate-bounce motion-reduce:animate-none"
         aria-hidden="true"
         style={{ 
           backgroundColor: color,
@@ -47,7 +154,7 @@ function TypingIndicator({ color }: { color: string }) {
         }}
       />
       <span 
-        className="w-2 h-2 rounded-full animate-bounce"
+        className="w-2 h-2 rounded-full animate-bounce motion-reduce:animate-none"
         aria-hidden="true"
         style={{ 
           backgroundColor: color,
@@ -60,8 +167,12 @@ function TypingIndicator({ color }: { color: string }) {
 }
 
 export function ChatPreview() {
-  const { scenario } = useScenario();
+  const { scenario, previewRequest, clearPreviewRequest, setPreviewTrail, addTestCase } = useScenario();
   const { theme, messages, rootMessageId } = scenario;
+  const engine = useMemo(() => createScenarioEngine(scenario), [scenario]);
+  // Name labels on bubbles only matter once more than one person can speak
+  const isGroupChat = Object.keys(scenario.speakers ?? {}).length > 0;
+  const getSpeaker = (messageId: string) => getMessageSpeaker(scenario, messages[messageId]?.speakerId);
   
   // Fallback for legacy scenarios without border radius
   const senderRadius = theme.senderBorderRadius ?? DEFAULT_SENDER_RADIUS;
@@ -78,12 +189,20 @@ export function ChatPreview() {
   const messageFontSize = getMessageFontSize(theme.messageSize);
 
   const [chatHistory, setChatHistory] = useState<ChatBubble[]>([]);
-  const [currentMessageId, setCurrentMessageId] = useState<string | null>(null);
+  const [engineState, setEngineState] = useState<EngineState | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [typingMessageId, setTypingMessageId] = useState<string | null>(null);
+  const [answer, setAnswer] = useState("");
+  const [path, setPath] = useState<string[]>([]);
+  const [links, setLinks] = useState<PreviewTrail["links"]>([]);
+  const [checkpoints, setCheckpoints] = useState<PreviewCheckpoint[]>([]);
+  const [start, setStart] = useState<PreviewStart>({ messageId: null, variables: {} });
+  const [steps, setSteps] = useState<TestStep[]>([]);
+  const [isDebugOpen, setIsDebugOpen] = useState(false);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  const currentMessage = currentMessageId ? messages[currentMessageId] : null;
+  const visibleOptions = engine.getVisibleOptions(engineState);
+  const inputMessage = engine.isAwaitingInput(engineState) ? engine.getMessage(engineState) : null;
   const rootMessage = rootMessageId ? messages[rootMessageId] : null;
 
   // Cleanup timeout on unmount
@@ -95,13 +214,15 @@ export function ChatPreview() {
     };
   }, []);
 
-  const getInitials = (name: string) => {
-    return name
-      .split(" ")
-      .map((word) => word[0])
-      .join("")
-      .toUpperCase()
-      .slice(0, 2);
+  // Share the play-through with the canvas; nothing is highlighted once the preview stops or unmounts
+  useEffect(() => {
+    setPreviewTrail(isPlaying ? { currentMessageId: engineState?.currentMessageId ?? null, links } : null);
+  }, [isPlaying, engineState, links, setPreviewTrail]);
+
+  useEffect(() => () => setPreviewTrail(null), [setPreviewTrail]);
+
+  const followLink = (messageId: string | null, handle: string) => {
+    if (messageId) setLinks(prev => [...prev, { messageId, handle }]);
   };
 
   // Announce message to screen readers
@@ -113,87 +234,161 @@ export function ChatPreview() {
     }
   };
 
-  const addContactMessage = (messageId: string, content: string, callback?: () => void) => {
+  // Show the engine's current message, then auto-advance when it offers no choices
+  const deliverMessage = (state: EngineState) => {
+    const message = engine.getMessage(state);
+    if (!message) return;
+    setPath(prev => [...prev, message.id]);
     const isRegular = (theme.conversationType ?? 'chat') === 'regular';
-    
+    const speakerName = getSpeaker(message.id).name;
+    // Typed answers may contain Markdown, so variable values are inserted literally
+    const literalValues = Object.fromEntries(
+      Object.entries(state.variables).map(([id, value]) => [id, typeof value === "string" ? markdown.escape(value) : value])
+    );
+    const content = engine.interpolate(message.content, literalValues);
+
+    const show = () => {
+      setChatHistory(prev => [
+        ...prev,
+        // Sub-flows and loops can show the same message more than once
+        { id: `${message.id}-${prev.length}`, content, isUser: false, speakerId: message.speakerId, attachments: message.attachments },
+      ]);
+      setTypingMessageId(null);
+      announceToScreenReader(`${speakerName} says: ${markdown.toPlainText(content)}`);
+
+      if (engine.getAutoAdvanceTarget(state)) {
+        // Short delay before auto-advancing to next message
+        typingTimeoutRef.current = setTimeout(() => {
+          const next = engine.advance(state);
+          followLink(state.currentMessageId, "direct");
+          setEngineState(next);
+          deliverMessage(next);
+        }, engine.getAutoAdvanceDelay());
+      }
+    };
+
     if (isRegular) {
       // In regular mode, show message immediately without typing indicator
-      setChatHistory(prev => [...prev, { id: messageId, content, isUser: false }]);
-      announceToScreenReader(`${theme.contactName} says: ${content}`);
-      callback?.();
-      
-      // Check for auto-advance (message with no responses but has direct connection)
-      const msg = messages[messageId];
-      if (msg && msg.responseOptions.length === 0 && !msg.isEndpoint && msg.nextMessageId) {
-        const nextMsg = messages[msg.nextMessageId];
-        if (nextMsg) {
-          // Short delay before auto-advancing
-          typingTimeoutRef.current = setTimeout(() => {
-            setCurrentMessageId(msg.nextMessageId!);
-            addContactMessage(msg.nextMessageId!, nextMsg.content);
-          }, 500);
-        }
-      }
+      show();
     } else {
       // In chat mode, show typing indicator first
-      setTypingMessageId(messageId);
-      announceToScreenReader(`${theme.contactName} is typing`);
-      
-      // After delay, show actual message
-      typingTimeoutRef.current = setTimeout(() => {
-        setChatHistory(prev => [...prev, { id: messageId, content, isUser: false }]);
-        setTypingMessageId(null);
-        announceToScreenReader(`${theme.contactName} says: ${content}`);
-        callback?.();
-        
-        // Check for auto-advance (message with no responses but has direct connection)
-        const msg = messages[messageId];
-        if (msg && msg.responseOptions.length === 0 && !msg.isEndpoint && msg.nextMessageId) {
-          const nextMsg = messages[msg.nextMessageId];
-          if (nextMsg) {
-            // Short delay before auto-advancing to next message
-            typingTimeoutRef.current = setTimeout(() => {
-              setCurrentMessageId(msg.nextMessageId!);
-              addContactMessage(msg.nextMessageId!, nextMsg.content);
-            }, 300);
-          }
-        }
-      }, 1000);
+      setTypingMessageId(message.id);
+      announceToScreenReader(`${speakerName} is typing`);
+      typingTimeoutRef.current = setTimeout(show, engine.getTypingDelay(message, markdown.toPlainText(content)));
     }
   };
 
   const handleStart = () => {
-    if (!rootMessageId || !rootMessage) return;
+    playFrom(engine.start(), { messageId: null, variables: {} });
+  };
+
+  const playFrom = (state: EngineState | null, from: PreviewStart) => {
+    if (!state) return;
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+    }
     
     setIsPlaying(true);
+    setTypingMessageId(null);
+    setAnswer("");
     setChatHistory([]);
-    setCurrentMessageId(rootMessageId);
+    setPath([]);
+    setLinks([]);
+    setCheckpoints([]);
+    setStart(from);
+    setSteps([]);
+    setEngineState(state);
     
     // Show typing indicator, then the first message
-    addContactMessage(rootMessageId, rootMessage.content);
+    deliverMessage(state);
   };
 
+  // "Preview from here" on a canvas node restarts the preview at that message with seeded values
+  const playRequestRef = useRef<(request: PreviewRequest) => void>();
+  playRequestRef.current = (request) =>
+    playFrom(engine.startAt(request.messageId, request.variables), { messageId: request.messageId, variables: request.variables });
+  useEffect(() => {
+    if (!previewRequest) return;
+    playRequestRef.current?.(previewRequest);
+    clearPreviewRequest();
+  }, [previewRequest, clearPreviewRequest]);
+
   const handleReset = () => {
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
     }
     setIsPlaying(false);
     setChatHistory([]);
-    setCurrentMessageId(null);
+    setEngineState(null);
     setTypingMessageId(null);
+    setAnswer("");
+    setPath([]);
+    setLinks([]);
+    setCheckpoints([]);
+    setSteps([]);
   };
 
-  const handleSelectOption = (optionId: string, optionText: string) => {
-    if (!currentMessage) return;
+  const saveCheckpoint = (state: EngineState) => {
+    setCheckpoints(prev => [
+      ...prev,
+      { state, bubbleCount: chatHistory.length, pathLength: path.length, linkCount: links.length, stepCount: steps.length },
+    ]);
+  };
 
-    const option = currentMessage.responseOptions.find((o) => o.id === optionId);
-    if (!option) return;
+  // The test expects wherever the conversation comes to rest, with every variable's value there
+  const handleSaveTestCase = (name: string) => {
+    if (!engineState) return;
+    const end = settle(engine, engineState);
+    addTestCase(
+      createTestCase(name, {
+        startMessageId: start.messageId,
+        startVariables: start.variables,
+        steps,
+        expectedMessageId: end.currentMessageId,
+        expectedVariables: Object.fromEntries(
+          Object.keys(scenario.variables ?? {})
+            .filter((id) => end.variables[id] !== undefined)
+            .map((id) => [id, end.variables[id]])
+        ),
+      })
+    );
+    announceToScreenReader(`Saved test case ${name}`);
+  };
+
+  // Rewind to just before the last choice or answer, including variable values
+  const handleStepBack = () => {
+    const checkpoint = checkpoints[checkpoints.length - 1];
+    if (!checkpoint) return;
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+    }
+    setCheckpoints(prev => prev.slice(0, -1));
+    setChatHistory(prev => prev.slice(0, checkpoint.bubbleCount));
+    setPath(prev => prev.slice(0, checkpoint.pathLength));
+    setLinks(prev => prev.slice(0, checkpoint.linkCount));
+    setSteps(prev => prev.slice(0, checkpoint.stepCount));
+    setEngineState(checkpoint.state);
+    setTypingMessageId(null);
+    setAnswer("");
+    announceToScreenReader("Stepped back one choice");
+  };
+
+  const handleSelectOption = (optionId: string) => {
+    if (!engineState) return;
+
+    const choice = engine.choose(engineState, optionId);
+    if (!choice) return;
+    // Show the option as it read when chosen, before its assignments apply
+    const optionText = engine.interpolate(choice.option.text, engineState.variables);
+    saveCheckpoint(engineState);
+    followLink(engineState.currentMessageId, optionId);
+    setSteps(prev => [...prev, { kind: "choose", optionId }]);
 
     // Add user's response to history immediately
     setChatHistory(prev => [
       ...prev,
       {
-        id: `user-${optionId}`,
+        id: `user-${optionId}-${prev.length}`,
         content: optionText,
         isUser: true,
       },
@@ -201,37 +396,33 @@ export function ChatPreview() {
     announceToScreenReader(`You selected: ${optionText}`);
 
     // If there's a follow-up message, show typing then message
-    if (option.nextMessageId) {
-      const nextMessage = messages[option.nextMessageId];
-      if (nextMessage) {
-        setCurrentMessageId(option.nextMessageId);
-        addContactMessage(option.nextMessageId, nextMessage.content);
-      } else {
-        setCurrentMessageId(null);
-      }
-    } else {
-      // End of conversation path
-      setCurrentMessageId(null);
-    }
+    setEngineState(choice.state);
+    deliverMessage(choice.state);
   };
 
-  // Conversation ended when: endpoint reached, OR no responses and no direct connection
-  const isConversationEnded =
-    isPlaying &&
-    currentMessage &&
-    (currentMessage.isEndpoint || (currentMessage.responseOptions.length === 0 && !currentMessage.nextMessageId)) &&
-    !typingMessageId;
-
-  const isDeadEnd =
-    isPlaying &&
-    !currentMessageId &&
-    chatHistory.length > 0 &&
-    !typingMessageId;
-
-  // Start screen text with fallbacks
-  const startTitle = theme.startScreenTitle ?? "Ready to Start";
-  const startSubtitle = theme.startScreenSubtitle ?? "Begin the conversation";
-  const startButtonText = theme.startButtonText ?? "Start";
+  const handleSubmitAnswer = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = answer.trim();
+    if (!engineState || !text) return;
+
+    const result = engine.submit(engineState, text);
+    if (!result) return;
+    saveCheckpoint(engineState);
+    followLink(engineState.currentMessageId, result.route ? result.route.id : "direct");
+    setSteps(prev => [...prev, { kind: "answer", text }]);
+
+    setChatHistory(prev => [...prev, { id: `user-${engineState.currentMessageId}-${prev.length}`, content: text, isUser: true }]);
+    announceToScreenReader(`You answered: ${text}`);
+    setAnswer("");
+    setEngineState(result.state);
+    deliverMessage(result.state);
+  };
+
+  // Start screen text with fallbacks; placeholders resolve to default values
+  const defaultVariables = engine.getDefaultVariables();
+  const startTitle = engine.interpolate(theme.startScreenTitle ?? "Ready to Start", defaultVariables);
+  const startSubtitle = engine.interpolate(theme.startScreenSubtitle ?? "Begin the conversation", defaultVariables);
+  const startButtonText = engine.interpolate(theme.startButtonText ?? "Start", defaultVariables);
   const showResetButton = theme.showResetButton ?? true;
   const isRegularMode = (theme.conversationType ?? 'chat') === 'regular';
 
@@ -254,20 +445,11 @@ export function ChatPreview() {
       {/* Chat Header - Only show in chat mode */}
       {!isRegularMode && (
         <header className="flex items-center gap-4 border-b border-border/30 bg-card/90 backdrop-blur-xl px-5 py-3.5">
-          <Avatar className="h-11 w-11 ring-2 ring-border/50 ring-offset-2 ring-offset-card">
-            {theme.contactAvatar && (
-              <AvatarImage src={theme.contactAvatar} alt={theme.contactName} />
-            )}
-            <AvatarFallback
-              className="text-sm font-semibold"
-              style={{
-                background: `linear-gradient(135deg, hsl(${theme.avatarBackgroundColor ?? '214 100% 65%'}), hsl(${theme.avatarBackgroundColor ?? '214 100% 65%'} / 0.7))`,
-                color: `hsl(${theme.avatarTextColor ?? '0 0% 100%'})`,
-              }}
-            >
-              {getInitials(theme.contactName)}
-            </AvatarFallback>
-          </Avatar>
+          <SpeakerAvatar
+            speaker={getMessageSpeaker(scenario, undefined)}
+            className="h-11 w-11 ring-2 ring-border/50 ring-offset-2 ring-offset-card"
+            fallbackClassName="text-sm font-semibold"
+          />
           <div className="flex-1 min-w-0">
             <h2 className="font-semibold text-foreground truncate">{theme.contactName}</h2>
             <p className="text-xs text-muted-foreground flex items-center gap-1.5">
@@ -382,86 +564,87 @@ export function ChatPreview() {
             >
               Message history: {chatHistory.map((bubble, index) => (
                 <span key={bubble.id}>
-                  {bubble.isUser ? 'You' : theme.contactName}: {bubble.content}.{' '}
+                  {bubble.isUser ? 'You' : getMessageSpeaker(scenario, bubble.speakerId).name}: {bubble.isUser ? bubble.content : markdown.toPlainText(bubble.content)}.{' '}
                 </span>
               ))}
             </div>
             
             <div className="space-y-4" role="log" aria-label="Chat messages">
-              {chatHistory.map((bubble) => (
-                <div
-                  key={bubble.id}
-                  className={cn(
-                    "flex animate-fade-in",
-                    bubble.isUser ? "justify-end" : "justify-start"
-                  )}
-                >
-                  {!bubble.isUser && !isRegularMode && (
-                    <Avatar className="mr-3 h-8 w-8 shrink-0 ring-1 ring-border/30">
-                      {theme.contactAvatar && (
-                        <AvatarImage src={theme.contactAvatar} alt={theme.contactName} />
+              {chatHistory.map((bubble) => {
+                const speaker = getMessageSpeaker(scenario, bubble.speakerId);
+                return (
+                  <div
+                    key={bubble.id}
+                    className={cn(
+                      "flex animate-fade-in motion-reduce:animate-none",
+                      bubble.isUser ? "justify-end" : "justify-start"
+                    )}
+                  >
+                    {!bubble.isUser && !isRegularMode && (
+                      <SpeakerAvatar
+                        speaker={speaker}
+                        className="mr-3 h-8 w-8 shrink-0 ring-1 ring-border/30"
+                        fallbackClassName="text-xs font-semibold"
+                      />
+                    )}
+                    <div className="flex max-w-[75%] flex-col">
+                      {!bubble.isUser && isGroupChat && (
+                        <span className="mb-1 px-1 text-xs font-medium text-muted-foreground">{speaker.name}</span>
                       )}
-                      <AvatarFallback
-                        className="text-xs font-semibold"
+                      <div
+                        className="px-4 py-2.5 shadow-sm"
                         style={{
-                          background: `linear-gradient(135deg, hsl(${theme.avatarBackgroundColor ?? '214 100% 65%'}), hsl(${theme.avatarBackgroundColor ?? '214 100% 65%'} / 0.7))`,
-                          color: `hsl(${theme.avatarTextColor ?? '0 0% 100%'})`,
+                          backgroundColor: bubble.isUser
+                            ? `hsl(${theme.senderBubbleColor})`
+                            : `hsl(${speaker.bubbleColor})`,
+                          color: bubble.isUser
+                            ? `hsl(${theme.senderTextColor})`
+                            : `hsl(${speaker.textColor})`,
+                          borderTopLeftRadius: `${bubble.isUser ? senderRadius.topLeft : receiverRadius.topLeft}px`,
+                          borderTopRightRadius: `${bubble.isUser ? senderRadius.topRight : receiverRadius.topRight}px`,
+                          borderBottomRightRadius: `${bubble.isUser ? senderRadius.bottomRight : receiverRadius.bottomRight}px`,
+                          borderBottomLeftRadius: `${bubble.isUser ? senderRadius.bottomLeft : receiverRadius.bottomLeft}px`,
                         }}
                       >
-                        {getInitials(theme.contactName)}
-                      </AvatarFallback>
-                    </Avatar>
-                  )}
-                  <div
-                    className="max-w-[75%] px-4 py-2.5 shadow-sm"
-                    style={{
-                      backgroundColor: bubble.isUser
-                        ? `hsl(${theme.senderBubbleColor})`
-                        : `hsl(${theme.receiverBubbleColor})`,
-                      color: bubble.isUser
-                        ? `hsl(${theme.senderTextColor})`
-                        : `hsl(${theme.receiverTextColor})`,
-                      borderTopLeftRadius: `${bubble.isUser ? senderRadius.topLeft : receiverRadius.topLeft}px`,
-                      borderTopRightRadius: `${bubble.isUser ? senderRadius.topRight : receiverRadius.topRight}px`,
-                      borderBottomRightRadius: `${bubble.isUser ? senderRadius.bottomRight : receiverRadius.bottomRight}px`,
-                      borderBottomLeftRadius: `${bubble.isUser ? senderRadius.bottomLeft : receiverRadius.bottomLeft}px`,
-                    }}
-                  >
-                    {bubble.content || (
-                      <span className="italic opacity-60">Empty message</span>
-                    )}
+                        {bubble.content ? (
+                          bubble.isUser ? bubble.content : (
+                            <div className={MARKDOWN_CLASSES} dangerouslySetInnerHTML={{ __html: markdown.toHtml(bubble.content) }} />
+                          )
+                        ) : (bubble.attachments?.length ? null : (
+                          <span className="italic opacity-60">Empty message</span>
+                        ))}
+                        {bubble.attachments && bubble.attachments.length > 0 && (
+                          <div className={cn("space-y-2", bubble.content && "mt-2")}>
+                            {bubble.attachments.map(attachment => (
+                              <AttachmentView key={attachment.id} attachment={attachment} assets={scenario.assets} />
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
 
               {/* Typing indicator */}
               {typingMessageId && (
-                <div className="flex justify-start animate-fade-in">
-                  <Avatar className="mr-3 h-8 w-8 shrink-0 ring-1 ring-border/30">
-                    {theme.contactAvatar && (
-                      <AvatarImage src={theme.contactAvatar} alt={theme.contactName} />
-                    )}
-                    <AvatarFallback
-                      className="text-xs font-semibold"
-                      style={{
-                        background: `linear-gradient(135deg, hsl(${theme.avatarBackgroundColor ?? '214 100% 65%'}), hsl(${theme.avatarBackgroundColor ?? '214 100% 65%'} / 0.7))`,
-                        color: `hsl(${theme.avatarTextColor ?? '0 0% 100%'})`,
-                      }}
-                    >
-                      {getInitials(theme.contactName)}
-                    </AvatarFallback>
-                  </Avatar>
+                <div className="flex justify-start animate-fade-in motion-reduce:animate-none">
+                  <SpeakerAvatar
+                    speaker={getSpeaker(typingMessageId)}
+                    className="mr-3 h-8 w-8 shrink-0 ring-1 ring-border/30"
+                    fallbackClassName="text-xs font-semibold"
+                  />
                   <div
                     className="shadow-sm"
                     style={{
-                      backgroundColor: `hsl(${theme.receiverBubbleColor})`,
+                      backgroundColor: `hsl(${getSpeaker(typingMessageId).bubbleColor})`,
                       borderTopLeftRadius: `${receiverRadius.topLeft}px`,
                       borderTopRightRadius: `${receiverRadius.topRight}px`,
                       borderBottomRightRadius: `${receiverRadius.bottomRight}px`,
                       borderBottomLeftRadius: `${receiverRadius.bottomLeft}px`,
                     }}
                   >
-                    <TypingIndicator color={`hsl(${theme.receiverTextColor} / 0.5)`} />
+                    <TypingIndicator color={`hsl(${getSpeaker(typingMessageId).textColor} / 0.5)`} />
                   </div>
                 </div>
               )}
@@ -472,7 +655,7 @@ export function ChatPreview() {
       </div>
 
       {/* Response Options - only show when there are response options to choose from */}
-      {isPlaying && currentMessage && !currentMessage.isEndpoint && currentMessage.responseOptions.length > 0 && !typingMessageId && (
+      {isPlaying && visibleOptions.length > 0 && !typingMessageId && (
         <div 
           className="border-t border-border/30 backdrop-blur-xl p-4" 
           role="group" 
@@ -491,10 +674,10 @@ export function ChatPreview() {
             {theme.responsePanelLabelText ?? "Choose a response"}
           </p>
           <div className="flex flex-wrap gap-2">
-            {currentMessage.responseOptions.map((option) => (
+            {visibleOptions.map((option) => (
               <button
                 key={option.id}
-                onClick={() => handleSelectOption(option.id, option.text)}
+                onClick={() => handleSelectOption(option.id)}
                 disabled={!option.text}
                 className="px-3 py-1.5 font-medium border border-border/50 hover:opacity-80 transition-all disabled:opacity-50 text-left"
                 style={{
@@ -504,12 +687,50 @@ export function ChatPreview() {
                   fontSize: `${messageFontSize}px`,
                 }}
               >
-                {option.text || "Empty option"}
+                {engine.interpolate(option.text, engineState?.variables ?? {}) || "Empty option"}
               </button>
             ))}
           </div>
         </div>
       )}
+
+      {/* Typed answer for text input messages */}
+      {isPlaying && inputMessage && !typingMessageId && (
+        <form
+          onSubmit={handleSubmitAnswer}
+          className="flex items-center gap-2 border-t border-border/30 backdrop-blur-xl p-4"
+          style={{
+            backgroundColor: `hsl(${theme.responsePanelBackground ?? '0 0% 100%'})`,
+          }}
+        >
+          <Input
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            placeholder={inputMessage.input?.placeholder || "Type your answer..."}
+            aria-label="Your answer"
+            className="flex-1 rounded-xl"
+            style={{ fontSize: `${messageFontSize}px` }}
+            autoFocus
+          />
+          <Button type="submit" size="icon" disabled={!answer.trim()} className="rounded-xl shrink-0" aria-label="Send answer">
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      )}
+
+      {isPlaying && (
+        <PreviewDebugDrawer
+          engine={engine}
+          engineState={engineState}
+          path={path}
+          isOpen={isDebugOpen}
+          onToggle={() => setIsDebugOpen(!isDebugOpen)}
+          canStepBack={checkpoints.length > 0}
+          onStepBack={handleStepBack}
+          stepCount={steps.length}
+          onSaveTestCase={handleSaveTestCase}
+        />
+      )}
     </div>
   );
 }
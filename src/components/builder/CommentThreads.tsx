@@ -0,0 +1,191 @@
+/**
+ * @file CommentThreads.tsx
+ * @description Review comment threads on a message or its response options: starting a thread,
+ *              replying, resolving or reopening, and deleting
+ *
+ * @dependencies ScenarioContext, annotations, use-comment-author, date-fns, UI components
+ * @usage MessageComments is shown in the MessageFlowNode comments popover; CommentThreadCard is
+ *        also used by CommentsPanel
+ */
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { useScenario } from "@/context/ScenarioContext";
+import { ChatMessage, CommentThread } from "@/types/scenario";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Check, RotateCcw, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getMessageThreads, getThreadTargetLabel } from "@/lib/annotations";
+import { useCommentAuthor } from "@/hooks/use-comment-author";
+
+interface CommentThreadCardProps {
+  thread: CommentThread;
+  message: ChatMessage | undefined;
+  author: string;
+}
+
+export function CommentThreadCard({ thread, message, author }: CommentThreadCardProps) {
+  const { replyToCommentThread, setCommentThreadResolved, deleteCommentThread } = useScenario();
+  const [reply, setReply] = useState("");
+
+  const handleReply = () => {
+    if (!reply.trim()) return;
+    replyToCommentThread(thread.id, reply, author);
+    setReply("");
+  };
+
+  return (
+    <div className={cn("rounded-lg border border-border/50 p-2 space-y-2", thread.resolved && "opacity-60")}>
+      <div className="flex items-center gap-1">
+        <span className="flex-1 min-w-0 truncate text-[10px] font-medium text-muted-foreground">
+          {getThreadTargetLabel(thread, message)}
+          {thread.resolved && " · Resolved"}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setCommentThreadResolved(thread.id, !thread.resolved)}
+          aria-label={thread.resolved ? "Reopen thread" : "Resolve thread"}
+          title={thread.resolved ? "Reopen" : "Resolve"}
+          className="h-6 w-6 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+        >
+          {thread.resolved ? <RotateCcw className="h-3 w-3" /> : <Check className="h-3 w-3" />}
+        </Button>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Delete thread"
+              className="h-6 w-6 rounded-lg text-muted-foreground hover:bg-[#FFA2B6] hover:text-[#00178F]"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent className="rounded-2xl">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete this thread?</AlertDialogTitle>
+              <AlertDialogDescription>
+                All {thread.comments.length} {thread.comments.length === 1 ? "comment" : "comments"} in it will be removed.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel className="rounded-xl">Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => deleteCommentThread(thread.id)}
+                className="rounded-xl bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      {thread.comments.map((comment) => (
+        <div key={comment.id}>
+          <p className="text-[10px] text-muted-foreground">
+            <span className="font-medium text-foreground">{comment.author || "Anonymous"}</span>
+            {` · ${formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}`}
+          </p>
+          <p className="text-xs whitespace-pre-wrap break-words">{comment.text}</p>
+        </div>
+      ))}
+
+      {!thread.resolved && (
+        <Input
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleReply();
+            }
+          }}
+          placeholder="Reply..."
+          aria-label="Reply to thread"
+          className="h-7 text-xs"
+        />
+      )}
+    </div>
+  );
+}
+
+interface MessageCommentsProps {
+  message: ChatMessage;
+}
+
+// Every thread on a message, with a form to start a new one on the message or one of its options
+export function MessageComments({ message }: MessageCommentsProps) {
+  const { scenario, addCommentThread } = useScenario();
+  const [author, setAuthor] = useCommentAuthor();
+  const [target, setTarget] = useState("message");
+  const [text, setText] = useState("");
+  const threads = getMessageThreads(scenario.comments ?? {}, message.id);
+
+  const handleAdd = () => {
+    if (!text.trim()) return;
+    const option = message.responseOptions.find((o) => o.id === target);
+    addCommentThread(message.id, option ? option.id : null, text, author);
+    setText("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Input
+          value={author}
+          onChange={(e) => setAuthor(e.target.value)}
+          placeholder="Your name"
+          aria-label="Your name"
+          className="h-7 text-xs flex-1"
+        />
+        {message.responseOptions.length > 0 && (
+          <Select value={target} onValueChange={setTarget}>
+            <SelectTrigger className="h-7 text-xs w-36 rounded-lg" aria-label="Comment on">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="message">This message</SelectItem>
+              {message.responseOptions.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.text || "Untitled response"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            handleAdd();
+          }
+        }}
+        placeholder="Leave a comment..."
+        aria-label="New comment"
+        className="min-h-[60px] text-xs resize-none"
+      />
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleAdd} disabled={!text.trim()} className="h-7 rounded-lg text-xs">
+          Comment
+        </Button>
+      </div>
+
+      {threads.length > 0 && (
+        <div className="max-h-64 overflow-y-auto space-y-2 pt-1">
+          {threads.map((thread) => (
+            <CommentThreadCard key={thread.id} thread={thread} message={message} author={author} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * @file CommentsPanel.tsx
+ * @description Floating panel listing every review comment thread in the scenario, open ones first,
+ *              with jumping to the message a thread is attached to
+ *
+ * @dependencies ScenarioContext, CommentThreads, FloatingPanel, annotations, markdown, @xyflow/react, UI components
+ * @usage Opened from CanvasToolbar Comments button
+ */
+
+import { useMemo, useState } from "react";
+import { useReactFlow } from "@xyflow/react";
+import { useScenario } from "@/context/ScenarioContext";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { MessageSquare, LocateFixed } from "lucide-react";
+import { countOpenThreads, getMessageThreads } from "@/lib/annotations";
+import { markdown } from "@/lib/markdown";
+import { useCommentAuthor } from "@/hooks/use-comment-author";
+import { CommentThreadCard } from "./CommentThreads";
+import { FloatingPanel } from "./FloatingPanel";
+
+interface CommentsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+export function CommentsPanel({
+  isOpen,
+  onClose
+}: CommentsPanelProps) {
+  const { scenario } = useScenario();
+  const { setCenter } = useReactFlow();
+  const [author] = useCommentAuthor();
+  const [showResolved, setShowResolved] = useState(false);
+  const comments = scenario.comments ?? {};
+
+  // Messages with threads in canvas order, so node numbers read top to bottom
+  const groups = useMemo(() => Object.keys(scenario.messages).map((id, index) => ({
+    message: scenario.messages[id],
+    nodeNumber: index + 1,
+    threads: getMessageThreads(scenario.comments ?? {}, id).filter(thread => showResolved || !thread.resolved)
+  })).filter(group => group.threads.length > 0), [scenario.messages, scenario.comments, showResolved]);
+
+  const totalCount = Object.keys(comments).length;
+  const openCount = countOpenThreads(Object.values(comments));
+
+  const handleJumpToNode = (messageId: string) => {
+    const message = scenario.messages[messageId];
+    if (!message) return;
+    setCenter(message.position.x + 160, message.position.y + 100, {
+      zoom: 1,
+      duration: 400
+    });
+  };
+
+  return <FloatingPanel isOpen={isOpen} onClose={onClose} title="Comments" defaultPosition={{
+    x: 120,
+    y: 140
+  }} width={360}>
+      <div className="flex items-center justify-between gap-2 p-3 border-b border-border border-0">
+        <p className="text-xs text-muted-foreground">
+          {openCount} open · {totalCount - openCount} resolved
+        </p>
+        <div className="flex items-center gap-1.5">
+          <Switch id="comments-show-resolved" checked={showResolved} onCheckedChange={setShowResolved} />
+          <Label htmlFor="comments-show-resolved" className="text-xs">
+            Show resolved
+          </Label>
+        </div>
+      </div>
+
+      <div className="max-h-[400px] overflow-y-auto p-2 space-y-3">
+        {groups.length === 0 && <div className="text-center py-6 text-sm text-muted-foreground">
+            {totalCount === 0 ? "No comments yet. Use the speech bubble on a message to start one." : "No open comments"}
+          </div>}
+
+        {groups.map(({
+        message,
+        nodeNumber,
+        threads
+      }) => {
+        const text = markdown.toPlainText(message.content);
+        return <section key={message.id} aria-label={`Comments on message ${nodeNumber}`} className="space-y-1.5">
+              <div className="flex items-center gap-2 px-1">
+                <div className="flex h-5 w-5 items-center justify-center rounded text-[10px] font-bold shrink-0 bg-primary/15 text-primary">
+                  {nodeNumber}
+                </div>
+                <span className="flex-1 min-w-0 truncate text-xs text-muted-foreground">
+                  {text || "Empty message"}
+                </span>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="ghost" size="icon" onClick={() => handleJumpToNode(message.id)} aria-label={`Show message ${nodeNumber}`} className="h-6 w-6 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]">
+                      <LocateFixed className="h-3 w-3" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="top">
+                    <p>Show on canvas</p>
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+              {threads.map(thread => <CommentThreadCard key={thread.id} thread={thread} message={message} author={author} />)}
+            </section>;
+      })}
+      </div>
+    </FloatingPanel>;
+}
+
+// Trigger button component to open the panel
+interface CommentsTriggerProps {
+  onClick: () => void;
+  openCount: number;
+}
+export function CommentsTrigger({
+  onClick,
+  openCount
+}: CommentsTriggerProps) {
+  return <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClick}
+          className="gap-2 rounded-lg h-9 px-3 text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+          tabIndex={0}
+        >
+          <MessageSquare className="h-4 w-4" />
+          Comments
+          {openCount > 0 && <span className="ml-1 rounded-full text-xs px-1.5 py-0.5 font-medium bg-[#ff708a]/[0.37] text-card-foreground">
+              {openCount}
+            </span>}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent side="bottom">
+        <p>Review comments</p>
+      </TooltipContent>
+    </Tooltip>;
+}
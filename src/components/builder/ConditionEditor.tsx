@@ -0,0 +1,286 @@
+/**
+ * @file ConditionEditor.tsx
+ * @description Editor for compound visibility conditions: comparisons on variables (=, ≠, >, <, ≥, ≤,
+ *              contains) combined into AND / OR groups, with one level of nested groups
+ *
+ * @dependencies conditions, scenario types, UI components
+ * @usage Rendered in the condition popovers of MessageFlowNode and ResponseOptionRow
+ */
+
+import { Plus, X, ListPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Condition,
+  ConditionGroup,
+  ScenarioVariable,
+  VariableCondition,
+  VariableType,
+  VariableValue,
+} from "@/types/scenario";
+import { CONDITION_OPERATORS, getOperatorsForType, isConditionGroup, toConditionGroup } from "@/lib/conditions";
+import { cn } from "@/lib/utils";
+
+interface ConditionEditorProps {
+  condition: Condition | undefined;
+  variables: Record<string, ScenarioVariable>;
+  onChange: (condition: Condition | null) => void;
+  tabIndex?: number;
+}
+
+const getDefaultValueForType = (type: VariableType): VariableValue => {
+  switch (type) {
+    case "text": return "";
+    case "number": return 0;
+    default: return true;
+  }
+};
+
+function createComparison(variable: ScenarioVariable): VariableCondition {
+  return { variableId: variable.id, operator: "eq", requiredValue: getDefaultValueForType(variable.type) };
+}
+
+// Drop empty groups; a root group holding one comparison is stored as that comparison
+function normalize(group: ConditionGroup): Condition | null {
+  const conditions = group.conditions.filter((c) => !isConditionGroup(c) || c.conditions.length > 0);
+  if (conditions.length === 0) return null;
+  if (conditions.length === 1 && !isConditionGroup(conditions[0])) return conditions[0];
+  return { ...group, conditions };
+}
+
+function ComparisonRow({
+  condition,
+  variables,
+  onChange,
+  onRemove,
+  tabIndex,
+}: {
+  condition: VariableCondition;
+  variables: Record<string, ScenarioVariable>;
+  onChange: (condition: VariableCondition) => void;
+  onRemove: () => void;
+  tabIndex?: number;
+}) {
+  const variable = variables[condition.variableId];
+  const operator = condition.operator ?? "eq";
+  const operators = variable ? getOperatorsForType(variable.type) : ["eq" as const];
+
+  const handleVariableChange = (variableId: string) => {
+    const next = variables[variableId];
+    if (!next) return;
+    // Keep the operator when the new type supports it; values never carry across types
+    const keepOperator = getOperatorsForType(next.type).includes(operator);
+    onChange({
+      variableId,
+      operator: keepOperator ? operator : "eq",
+      requiredValue: next.type === variable?.type ? condition.requiredValue : getDefaultValueForType(next.type),
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <Select value={variable ? condition.variableId : undefined} onValueChange={handleVariableChange}>
+        <SelectTrigger className="h-8 text-xs flex-1 min-w-0" tabIndex={tabIndex} aria-label="Variable">
+          <SelectValue placeholder="Variable" />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(variables).map((v) => (
+            <SelectItem key={v.id} value={v.id}>
+              {v.name} ({v.type})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={operator} onValueChange={(val) => onChange({ ...condition, operator: val as VariableCondition["operator"] })}>
+        <SelectTrigger className="h-8 text-xs w-[76px] shrink-0" tabIndex={tabIndex} aria-label="Comparison">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map((op) => (
+            <SelectItem key={op} value={op} aria-label={CONDITION_OPERATORS[op].label}>
+              {CONDITION_OPERATORS[op].symbol}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Value input based on variable type */}
+      {variable?.type === "boolean" ? (
+        <Select
+          value={condition.requiredValue === true ? "true" : "false"}
+          onValueChange={(val) => onChange({ ...condition, requiredValue: val === "true" })}
+        >
+          <SelectTrigger className="h-8 text-xs w-20 shrink-0" tabIndex={tabIndex} aria-label="Value">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">true</SelectItem>
+            <SelectItem value="false">false</SelectItem>
+          </SelectContent>
+        </Select>
+      ) : variable?.type === "number" ? (
+        <Input
+          type="number"
+          value={String(condition.requiredValue)}
+          onChange={(e) => onChange({ ...condition, requiredValue: Number(e.target.value) || 0 })}
+          placeholder="0"
+          tabIndex={tabIndex}
+          aria-label="Value"
+          className="h-8 text-xs w-20 shrink-0"
+        />
+      ) : (
+        <Input
+          value={String(condition.requiredValue)}
+          onChange={(e) => onChange({ ...condition, requiredValue: e.target.value })}
+          placeholder="Value..."
+          tabIndex={tabIndex}
+          aria-label="Value"
+          className="h-8 text-xs w-20 shrink-0"
+        />
+      )}
+
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onRemove}
+        tabIndex={tabIndex}
+        className="h-8 w-8 shrink-0 rounded-lg text-muted-foreground hover:bg-[#FFA2B6] hover:text-[#00178F]"
+        aria-label="Remove condition"
+      >
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+}
+
+function GroupEditor({
+  group,
+  variables,
+  onChange,
+  onRemove,
+  isNested,
+  tabIndex,
+}: {
+  group: ConditionGroup;
+  variables: Record<string, ScenarioVariable>;
+  onChange: (group: ConditionGroup) => void;
+  onRemove?: () => void;
+  isNested?: boolean;
+  tabIndex?: number;
+}) {
+  const firstVariable = Object.values(variables)[0];
+
+  const updateChild = (index: number, child: Condition | null) => {
+    const conditions = [...group.conditions];
+    if (child) {
+      conditions[index] = child;
+    } else {
+      conditions.splice(index, 1);
+    }
+    onChange({ ...group, conditions });
+  };
+
+  const addChild = (child: Condition) => onChange({ ...group, conditions: [...group.conditions, child] });
+
+  return (
+    <div className={cn("space-y-2", isNested && "rounded-lg border border-border/50 bg-secondary/30 p-2")}>
+      {(group.conditions.length > 1 || isNested) && (
+        <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <span>Match</span>
+          <Select value={group.logic} onValueChange={(val) => onChange({ ...group, logic: val as ConditionGroup["logic"] })}>
+            <SelectTrigger className="h-7 text-xs w-[68px]" tabIndex={tabIndex} aria-label="Combine conditions with">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="and">all</SelectItem>
+              <SelectItem value="or">any</SelectItem>
+            </SelectContent>
+          </Select>
+          <span className="flex-1">of these</span>
+          {onRemove && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onRemove}
+              tabIndex={tabIndex}
+              className="h-7 w-7 rounded-lg text-muted-foreground hover:bg-[#FFA2B6] hover:text-[#00178F]"
+              aria-label="Remove group"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+      )}
+
+      {group.conditions.map((child, index) =>
+        isConditionGroup(child) ? (
+          <GroupEditor
+            key={index}
+            group={child}
+            variables={variables}
+            onChange={(next) => updateChild(index, next)}
+            onRemove={() => updateChild(index, null)}
+            isNested
+            tabIndex={tabIndex}
+          />
+        ) : (
+          <ComparisonRow
+            key={index}
+            condition={child}
+            variables={variables}
+            onChange={(next) => updateChild(index, next)}
+            onRemove={() => updateChild(index, null)}
+            tabIndex={tabIndex}
+          />
+        )
+      )}
+
+      {firstVariable && (
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => addChild(createComparison(firstVariable))}
+            tabIndex={tabIndex}
+            className="h-7 gap-1 rounded-lg px-2 text-xs text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+          >
+            <Plus className="h-3 w-3" />
+            Condition
+          </Button>
+          {!isNested && group.conditions.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => addChild({ logic: group.logic === "and" ? "or" : "and", conditions: [createComparison(firstVariable)] })}
+              tabIndex={tabIndex}
+              className="h-7 gap-1 rounded-lg px-2 text-xs text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+            >
+              <ListPlus className="h-3 w-3" />
+              Group
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ConditionEditor({ condition, variables, onChange, tabIndex }: ConditionEditorProps) {
+  const group = toConditionGroup(condition);
+
+  return (
+    <div className="space-y-2">
+      {group.conditions.length === 0 && (
+        <p className="text-xs text-muted-foreground">Always visible. Add a condition to restrict it.</p>
+      )}
+      <GroupEditor
+        group={group}
+        variables={variables}
+        onChange={(next) => onChange(normalize(next))}
+        tabIndex={tabIndex}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+/**
+ * @file CoveragePanel.tsx
+ * @description Floating panel with the automated path coverage report: every path from the start as a
+ *              transcript, messages and responses no path reaches, and Markdown or CSV download
+ *
+ * @dependencies ScenarioContext, pathCoverage, FloatingPanel, @xyflow/react, UI components
+ * @usage Opened from CanvasToolbar Coverage button
+ */
+
+import { useMemo, useState } from "react";
+import { useReactFlow } from "@xyflow/react";
+import { useScenario } from "@/context/ScenarioContext";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ChevronDown, ChevronRight, Download, LocateFixed, Route } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  PATH_OUTCOMES,
+  coverageReportToCsv,
+  coverageReportToMarkdown,
+  enumeratePaths,
+  formatCoverageSummary,
+  formatTranscript,
+} from "@/lib/pathCoverage";
+import { markdown } from "@/lib/markdown";
+import { FloatingPanel } from "./FloatingPanel";
+
+interface CoveragePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PANEL_POSITION = { x: 140, y: 120 };
+
+function downloadText(text: string, fileName: string, type: string) {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function CoveragePanel({ isOpen, onClose }: CoveragePanelProps) {
+  const { scenario } = useScenario();
+  const { setCenter } = useReactFlow();
+  const [expandedPath, setExpandedPath] = useState<number | null>(null);
+
+  // Only enumerate while the panel is open; the report follows every edit
+  const report = useMemo(() => (isOpen ? enumeratePaths(scenario) : null), [isOpen, scenario]);
+  const nodeNumbers = useMemo(
+    () => new Map(Object.keys(scenario.messages).map((id, index) => [id, index + 1])),
+    [scenario.messages]
+  );
+
+  const fileBase = `${scenario.name.replace(/\s+/g, "-").toLowerCase()}-coverage`;
+
+  const handleJumpToNode = (messageId: string) => {
+    const message = scenario.messages[messageId];
+    if (!message) return;
+    setCenter(message.position.x + 160, message.position.y + 100, { zoom: 1, duration: 400 });
+  };
+
+  const jumpButton = (messageId: string) => (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => handleJumpToNode(messageId)}
+          aria-label={`Show message ${nodeNumbers.get(messageId)}`}
+          className="h-6 w-6 shrink-0 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+        >
+          <LocateFixed className="h-3 w-3" />
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent side="top">
+        <p>Show on canvas</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+
+  const nodeBadge = (messageId: string) => (
+    <div className="flex h-5 w-5 shrink-0 items-center justify-center rounded bg-primary/15 text-[10px] font-bold text-primary">
+      {nodeNumbers.get(messageId)}
+    </div>
+  );
+
+  return (
+    <FloatingPanel isOpen={isOpen} onClose={onClose} title="Path coverage" defaultPosition={PANEL_POSITION} width={400}>
+      {report && (
+        <>
+          <div className="space-y-2 border-b border-border p-3">
+            <ul className="space-y-0.5 text-xs text-muted-foreground">
+              {formatCoverageSummary(report).map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadText(coverageReportToMarkdown(report, scenario), `${fileBase}.md`, "text/markdown")}
+                className="h-7 gap-1.5 rounded-lg text-xs"
+              >
+                <Download className="h-3 w-3" aria-hidden="true" />
+                Markdown
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadText(coverageReportToCsv(report, scenario), `${fileBase}.csv`, "text/csv")}
+                className="h-7 gap-1.5 rounded-lg text-xs"
+              >
+                <Download className="h-3 w-3" aria-hidden="true" />
+                CSV
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-3 p-2">
+            {report.unreachedMessageIds.length > 0 && (
+              <section aria-label="Messages never reached" className="space-y-1">
+                <h4 className="px-1 text-xs font-semibold text-muted-foreground">Never reached</h4>
+                {report.unreachedMessageIds.map((id) => (
+                  <div key={id} className="flex items-center gap-2 px-1">
+                    {nodeBadge(id)}
+                    <span className="min-w-0 flex-1 truncate text-xs">
+                      {markdown.toPlainText(scenario.messages[id]?.content ?? "") || "Empty message"}
+                    </span>
+                    {jumpButton(id)}
+                  </div>
+                ))}
+              </section>
+            )}
+
+            {report.unusedOptions.length > 0 && (
+              <section aria-label="Responses never taken" className="space-y-1">
+                <h4 className="px-1 text-xs font-semibold text-muted-foreground">Responses never taken</h4>
+                {report.unusedOptions.map(({ messageId, optionId }) => {
+                  const option = scenario.messages[messageId]?.responseOptions.find((o) => o.id === optionId);
+                  return (
+                    <div key={`${messageId}-${optionId}`} className="flex items-center gap-2 px-1">
+                      {nodeBadge(messageId)}
+                      <span className="min-w-0 flex-1 truncate text-xs">"{option?.text || "Untitled response"}"</span>
+                      {jumpButton(messageId)}
+                    </div>
+                  );
+                })}
+              </section>
+            )}
+
+            <section aria-label="Paths" className="space-y-1">
+              <h4 className="px-1 text-xs font-semibold text-muted-foreground">Paths</h4>
+              {report.paths.length === 0 && (
+                <p className="py-4 text-center text-sm text-muted-foreground">Add a start message to enumerate paths</p>
+              )}
+              {report.paths.map((path, index) => {
+                const isExpanded = expandedPath === index;
+                return (
+                  <div key={index} className="rounded-lg border border-border/50">
+                    <button
+                      type="button"
+                      onClick={() => setExpandedPath(isExpanded ? null : index)}
+                      aria-expanded={isExpanded}
+                      className="flex w-full items-center gap-2 px-2 py-1.5 text-left text-xs hover:bg-secondary/50"
+                    >
+                      {isExpanded ? (
+                        <ChevronDown className="h-3 w-3 shrink-0" aria-hidden="true" />
+                      ) : (
+                        <ChevronRight className="h-3 w-3 shrink-0" aria-hidden="true" />
+                      )}
+                      <Route className="h-3 w-3 shrink-0 text-muted-foreground" aria-hidden="true" />
+                      <span className="font-medium">Path {index + 1}</span>
+                      <span
+                        className={cn(
+                          "ml-auto shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium",
+                          path.outcome === "endpoint" ? "bg-success/20 text-success" : "bg-warning/20 text-warning"
+                        )}
+                      >
+                        {PATH_OUTCOMES[path.outcome]}
+                        {path.finalMessageId && ` at #${nodeNumbers.get(path.finalMessageId)}`}
+                      </span>
+                    </button>
+                    {isExpanded && (
+                      <ol className="list-decimal space-y-0.5 border-t border-border/50 py-1.5 pl-7 pr-2 text-xs">
+                        {formatTranscript(path, scenario).map((line, stepIndex) => (
+                          <li key={stepIndex} className={cn(path.steps[stepIndex].kind !== "message" && "text-primary")}>
+                            {line}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </div>
+                );
+              })}
+              {report.isTruncated && (
+                <p className="px-1 text-xs text-muted-foreground">
+                  Stopped at {report.paths.length} paths. Coverage only counts the paths listed.
+                </p>
+              )}
+            </section>
+          </div>
+        </>
+      )}
+    </FloatingPanel>
+  );
+}
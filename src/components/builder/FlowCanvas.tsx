@@ -1,9 +1,13 @@
 /**
  * @file FlowCanvas.tsx
- * @description React Flow canvas for visual node-based message editing with drag-and-drop
- *              and click-to-connect functionality for building conversation flows
+ * @description React Flow canvas for visual node-based message editing with drag-and-drop,
+ *              click-to-connect, auto-arrange, multi-selection with copy, cut, paste, duplicate
+ *              and grouping into a sub-flow, search that dims messages which don't match, sticky notes,
+ *              frames that group messages as parent nodes and collapse to a summary, and the live preview's
+ *              current message and followed links highlighted, optionally panning along
  * 
- * @dependencies @xyflow/react, ScenarioContext, MessageFlowNode, ResponseEdge, CanvasToolbar
+ * @dependencies @xyflow/react, ScenarioContext, MessageFlowNode, StickyNoteNode, FrameNode, ResponseEdge, CanvasToolbar,
+ *               CanvasSearch, scenarioAnalysis, autoLayout, clipboard, canvasSearch, frames
  * @usage Rendered in LeftPanel Canvas tab
  */
 
@@ -26,21 +30,60 @@ import {
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 import { useScenario } from "@/context/ScenarioContext";
+import { ChatMessage } from "@/types/scenario";
 import { MessageFlowNode } from "./MessageFlowNode";
+import { StickyNoteNode } from "./StickyNoteNode";
+import { FrameNode } from "./FrameNode";
 import { ResponseEdge } from "./ResponseEdge";
 import { CanvasToolbar } from "./CanvasToolbar";
 import { ValidationPanel } from "./ValidationPanel";
+import { CanvasSearch } from "./CanvasSearch";
+import { analyzeScenario, getMessageSeverities } from "@/lib/scenarioAnalysis";
+import { computeAutoLayout, DEFAULT_NODE_SIZE, LayoutDirection, NodeSize } from "@/lib/autoLayout";
+import { ScenarioClipboard, copyMessages, parseClipboard, preparePaste, serializeClipboard } from "@/lib/clipboard";
+import { EMPTY_SEARCH_FILTERS, SearchFilters, isSearchActive, searchMessages } from "@/lib/canvasSearch";
+import {
+  COLLAPSED_FRAME_SIZE,
+  FrameBounds,
+  countFrameLinks,
+  findFrameAt,
+  fitFrameToMessages,
+  getVisibleNodeId,
+} from "@/lib/frames";
 import { Button } from "@/components/ui/button";
-import { Maximize2, Minimize2, Link2, X } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { Maximize2, Minimize2, Link2, X, Copy, Scissors, CopyPlus, Trash2, Workflow, SquareDashed } from "lucide-react";
 
 const nodeTypes = {
   messageNode: MessageFlowNode,
+  stickyNote: StickyNoteNode,
+  frame: FrameNode,
 };
 
 const edgeTypes = {
   responseEdge: ResponseEdge,
 };
 
+// Offset of duplicated messages from the originals
+const DUPLICATE_OFFSET = 40;
+
+// Half the size of a new sticky note, so it is added centred in the view
+const NOTE_CENTER_OFFSET = { x: 104, y: 60 };
+
+// Size of a frame added from the toolbar, before messages are dragged into it
+const NEW_FRAME_SIZE: NodeSize = { width: 720, height: 480 };
+
+// The canvas point a message's centre sits on, used to decide which frame it belongs to
+function getMessageCenter(position: { x: number; y: number }, size: NodeSize = DEFAULT_NODE_SIZE) {
+  return { x: position.x + size.width / 2, y: position.y + size.height / 2 };
+}
+
+// Copy and paste shortcuts stay with text fields while one has focus
+function isTextField(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return !!element && (element.tagName === "INPUT" || element.tagName === "TEXTAREA" || element.isContentEditable);
+}
+
 interface FlowCanvasProps {
   isExpanded: boolean;
   onToggleExpand: () => void;
@@ -50,65 +93,119 @@ function FlowCanvasContent({ isExpanded, onToggleExpand }: FlowCanvasProps) {
   const {
     scenario,
     updateNodePosition,
+    setNodePositions,
     addMessageAtPosition,
+    addNote,
+    updateNote,
+    addFrame,
+    moveFrame,
+    setMessagesFrame,
+    deleteMessages,
+    pasteMessages,
+    createSubFlowFromMessages,
     connectNodes,
     pendingConnection,
     cancelConnection,
+    previewTrail,
+    undo,
+    redo,
   } = useScenario();
 
   const containerRef = useRef<HTMLDivElement>(null);
   const focusedNodeIndexRef = useRef<number>(0);
   const reactFlowInstanceRef = useRef<ReactFlowInstance | null>(null);
   
-  // Track selected node ID for expand/collapse behavior
-  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  // Selected node IDs. A lone selected node expands for editing; several can be copied or moved together.
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
+  // Last copy, for pasting when the system clipboard can't be read
+  const clipboardRef = useRef<ScenarioClipboard | null>(null);
   
   // Track zoom level for condensed node display
   const [zoomLevel, setZoomLevel] = useState(1);
 
+  // Pan to each message the live preview reaches
+  const [isFollowingPreview, setIsFollowingPreview] = useState(false);
+  const previewMessageId = previewTrail?.currentMessageId ?? null;
+  const followedMessageIdRef = useRef<string | null>(null);
+
   // Validation state
   const [isValidationOpen, setIsValidationOpen] = useState(false);
-  const [invalidMessageIds, setInvalidMessageIds] = useState<Set<string>>(new Set());
 
-  // Compute invalid messages when validation is open
-  const computeInvalidIds = useCallback(() => {
-    const ids = new Set<string>();
-    Object.values(scenario.messages).forEach((message) => {
-      // Messages with unconnected response options
-      const hasUnconnectedOption = message.responseOptions.some(
-        (opt) => !opt.nextMessageId
-      );
-      if (hasUnconnectedOption) {
-        ids.add(message.id);
-      }
-      // Messages with no responses, no direct connection, and not an endpoint
-      if (
-        message.responseOptions.length === 0 &&
-        !message.nextMessageId &&
-        !message.isEndpoint
-      ) {
-        ids.add(message.id);
-      }
-    });
-    return ids;
-  }, [scenario.messages]);
+  // Analyse only while the panel is open; results follow every edit
+  const validationIssues = useMemo(
+    () =>
+      isValidationOpen
+        ? analyzeScenario({
+            messages: scenario.messages,
+            variables: scenario.variables,
+            rootMessageId: scenario.rootMessageId,
+            theme: scenario.theme,
+            subFlows: scenario.subFlows,
+          })
+        : [],
+    [isValidationOpen, scenario.messages, scenario.variables, scenario.rootMessageId, scenario.theme, scenario.subFlows]
+  );
+  const messageSeverities = useMemo(() => getMessageSeverities(validationIssues), [validationIssues]);
 
   const handleValidate = useCallback(() => {
-    setInvalidMessageIds(computeInvalidIds());
     setIsValidationOpen(true);
-  }, [computeInvalidIds]);
-
-  // Keep invalid IDs in sync while panel is open
-  useEffect(() => {
-    if (isValidationOpen) {
-      setInvalidMessageIds(computeInvalidIds());
-    }
-  }, [isValidationOpen, computeInvalidIds]);
+  }, []);
 
   const handleCloseValidation = useCallback(() => {
     setIsValidationOpen(false);
-    setInvalidMessageIds(new Set());
   }, []);
+
+  // Search state. The query and filters survive closing the palette; dimming only shows while it's open.
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
+  const [searchFocusRequest, setSearchFocusRequest] = useState(0);
+
+  const searchResults = useMemo(
+    () => (isSearchOpen ? searchMessages(scenario, searchQuery, searchFilters) : []),
+    [isSearchOpen, scenario, searchQuery, searchFilters]
+  );
+  const searchMatchIds = useMemo(
+    () => (isSearchOpen && isSearchActive(searchQuery, searchFilters) ? new Set(searchResults.map((r) => r.messageId)) : null),
+    [isSearchOpen, searchQuery, searchFilters, searchResults]
+  );
+
+  const handleOpenSearch = useCallback(() => {
+    setIsSearchOpen(true);
+    setSearchFocusRequest((count) => count + 1);
+  }, []);
+
+  const handleCloseSearch = useCallback(() => {
+    setIsSearchOpen(false);
+  }, []);
+
+  const getMeasuredSizes = useCallback((): Record<string, NodeSize> => {
+    const sizes: Record<string, NodeSize> = {};
+    reactFlowInstanceRef.current?.getNodes().forEach((node) => {
+      if (node.measured?.width && node.measured?.height) {
+        sizes[node.id] = { width: node.measured.width, height: node.measured.height };
+      }
+    });
+    return sizes;
+  }, []);
+
+  // Lay out every message from its measured size, refit frames around their moved messages, then
+  // bring the result into view
+  const handleAutoArrange = useCallback((direction: LayoutDirection) => {
+    const instance = reactFlowInstanceRef.current;
+    const sizes = getMeasuredSizes();
+    const positions = computeAutoLayout(scenario.messages, scenario.rootMessageId, { direction, sizes });
+    const frameBounds: Record<string, FrameBounds> = {};
+    Object.values(scenario.frames ?? {}).forEach((frame) => {
+      const members = Object.values(scenario.messages)
+        .filter((m) => m.frameId === frame.id)
+        .map((m) => ({ ...m, position: positions[m.id] ?? m.position }));
+      const bounds = fitFrameToMessages(members, sizes);
+      if (bounds) frameBounds[frame.id] = bounds;
+    });
+    setNodePositions(positions, frameBounds);
+    window.setTimeout(() => instance?.fitView({ padding: 0.2, duration: 300 }), 50);
+  }, [scenario.messages, scenario.frames, scenario.rootMessageId, setNodePositions, getMeasuredSizes]);
   
   // Update zoom level when viewport changes
   useOnViewportChange({
@@ -159,6 +256,155 @@ function FlowCanvasContent({ isExpanded, onToggleExpand }: FlowCanvasProps) {
     return () => window.removeEventListener("keydown", handleKeyDown, true);
   }, [pendingConnection, cancelConnection, targetNodeIds]);
 
+  // Undo/redo shortcuts. Text fields keep their native undo so typing is never interrupted.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)
+      ) {
+        return;
+      }
+
+      e.preventDefault();
+      if (key === "y" || e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  const handleCopy = useCallback((): ScenarioClipboard | null => {
+    if (selectedNodeIds.length === 0) return null;
+    clipboardRef.current = copyMessages(scenario, selectedNodeIds);
+    return clipboardRef.current;
+  }, [scenario, selectedNodeIds]);
+
+  // Adds the copy with `position` as its top-left corner and selects the new messages
+  const pasteAt = useCallback((clipboard: ScenarioClipboard, position: { x: number; y: number }) => {
+    const plan = preparePaste(scenario, clipboard, position);
+    // Copies join the frame they land in
+    Object.values(plan.messages).forEach((message) => {
+      const frame = findFrameAt(scenario.frames ?? {}, getMessageCenter(message.position));
+      if (frame) message.frameId = frame.id;
+    });
+    pasteMessages(plan);
+    setSelectedNodeIds(Object.keys(plan.messages));
+  }, [scenario, pasteMessages]);
+
+  const handleDuplicate = useCallback(() => {
+    const clipboard = copyMessages(scenario, selectedNodeIds);
+    if (clipboard.messages.length === 0) return;
+    const left = Math.min(...clipboard.messages.map((m) => m.position.x));
+    const top = Math.min(...clipboard.messages.map((m) => m.position.y));
+    pasteAt(clipboard, { x: left + DUPLICATE_OFFSET, y: top + DUPLICATE_OFFSET });
+  }, [scenario, selectedNodeIds, pasteAt]);
+
+  const handleMakeSubFlow = useCallback(() => {
+    createSubFlowFromMessages(`Sub-flow ${Object.keys(scenario.subFlows).length + 1}`, selectedNodeIds);
+  }, [createSubFlowFromMessages, scenario.subFlows, selectedNodeIds]);
+
+  const handleMakeFrame = useCallback(() => {
+    const members = selectedNodeIds.map((id) => scenario.messages[id]).filter((message) => !!message);
+    const bounds = fitFrameToMessages(members, getMeasuredSizes());
+    if (!bounds) return;
+    addFrame(`Frame ${Object.keys(scenario.frames ?? {}).length + 1}`, bounds, members.map((m) => m.id));
+  }, [addFrame, getMeasuredSizes, scenario.frames, scenario.messages, selectedNodeIds]);
+
+  const handleDeleteSelection = useCallback(() => {
+    deleteMessages(selectedNodeIds);
+    setSelectedNodeIds([]);
+  }, [deleteMessages, selectedNodeIds]);
+
+  // Copy, cut and paste go through the system clipboard as JSON, so messages can move between
+  // scenarios and browser tabs. Events from text fields or other panels are left alone.
+  useEffect(() => {
+    const isCanvasEvent = (e: ClipboardEvent) => {
+      if (isTextField(e.target)) return false;
+      const target = e.target as HTMLElement | null;
+      return target === document.body || !!(target && containerRef.current?.contains(target));
+    };
+
+    const handleCopyEvent = (e: ClipboardEvent) => {
+      if (!isCanvasEvent(e) || window.getSelection()?.toString()) return;
+      const clipboard = handleCopy();
+      if (!clipboard) return;
+      e.preventDefault();
+      e.clipboardData?.setData("text/plain", serializeClipboard(clipboard));
+      if (e.type === "cut") handleDeleteSelection();
+    };
+
+    const handlePasteEvent = (e: ClipboardEvent) => {
+      if (!isCanvasEvent(e)) return;
+      const text = e.clipboardData?.getData("text/plain") ?? "";
+      const clipboard = text ? parseClipboard(text) : clipboardRef.current;
+      const instance = reactFlowInstanceRef.current;
+      const bounds = containerRef.current?.getBoundingClientRect();
+      if (!clipboard || !instance || !bounds) return;
+      e.preventDefault();
+      // Pasted messages land in the middle of the visible canvas
+      pasteAt(clipboard, instance.screenToFlowPosition({ x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 }));
+    };
+
+    window.addEventListener("copy", handleCopyEvent);
+    window.addEventListener("cut", handleCopyEvent);
+    window.addEventListener("paste", handlePasteEvent);
+    return () => {
+      window.removeEventListener("copy", handleCopyEvent);
+      window.removeEventListener("cut", handleCopyEvent);
+      window.removeEventListener("paste", handlePasteEvent);
+    };
+  }, [handleCopy, handleDeleteSelection, pasteAt]);
+
+  // Ctrl/Cmd+F and Ctrl/Cmd+K open search while the canvas has focus; elsewhere the browser keeps them
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.shiftKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== "f" && key !== "k") return;
+      const target = e.target as HTMLElement | null;
+      if (target !== document.body && !(target && containerRef.current?.contains(target))) return;
+      e.preventDefault();
+      handleOpenSearch();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleOpenSearch]);
+
+  // Ctrl/Cmd+D duplicates the selection instead of bookmarking the page
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== "d") return;
+      if (isTextField(e.target) || selectedNodeIds.length === 0) return;
+      e.preventDefault();
+      handleDuplicate();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleDuplicate, selectedNodeIds.length]);
+
+  // Buttons in the selection bar: copying also fills the system clipboard when the browser allows it
+  const handleCopyClick = useCallback(() => {
+    const clipboard = handleCopy();
+    if (clipboard) navigator.clipboard?.writeText(serializeClipboard(clipboard)).catch(() => {});
+  }, [handleCopy]);
+
+  const handleCutClick = useCallback(() => {
+    handleCopyClick();
+    handleDeleteSelection();
+  }, [handleCopyClick, handleDeleteSelection]);
+
   // Reset focused index when entering connection mode
   useEffect(() => {
     if (pendingConnection) {
@@ -180,26 +426,80 @@ function FlowCanvasContent({ isExpanded, onToggleExpand }: FlowCanvasProps) {
     return option?.text || "response";
   }, [pendingConnection, scenario.messages]);
 
-  // Convert scenario messages to React Flow nodes
+  // Convert scenario messages to React Flow nodes. Frames come first because React Flow needs parent
+  // nodes before their children; sticky notes come last.
   const nodes: Node[] = useMemo(() => {
     const messageList = Object.values(scenario.messages);
-    return messageList.map((message, index) => ({
+    const selectedIds = new Set(selectedNodeIds);
+    const frames = scenario.frames ?? {};
+    const frameNodes: Node[] = Object.values(frames).map((frame) => ({
+      id: frame.id,
+      type: "frame",
+      position: frame.position,
+      width: frame.collapsed ? COLLAPSED_FRAME_SIZE.width : frame.width,
+      height: frame.collapsed ? COLLAPSED_FRAME_SIZE.height : frame.height,
+      selectable: false,
+      dragHandle: ".frame-drag-handle",
+      data: {
+        frame,
+        memberCount: messageList.filter((m) => m.frameId === frame.id).length,
+        links: countFrameLinks(scenario.messages, frame.id),
+      },
+    }));
+    const messageNodes: Node[] = messageList.map((message, index) => {
+      // Fallback position for messages without coordinates (legacy data)
+      const position = message.position || { x: 100 + (index % 3) * 400, y: 100 + Math.floor(index / 3) * 300 };
+      // Messages in a frame are its children, placed relative to it and hidden while it is collapsed
+      const frame = message.frameId ? frames[message.frameId] : undefined;
+      return {
       id: message.id,
       type: "messageNode",
-      // Fallback position for messages without coordinates (legacy data)
-      position: message.position || { x: 100 + (index % 3) * 400, y: 100 + Math.floor(index / 3) * 300 },
-      selected: message.id === selectedNodeId,
+      position: frame ? { x: position.x - frame.position.x, y: position.y - frame.position.y } : position,
+      parentId: frame?.id,
+      hidden: frame?.collapsed,
+      selected: selectedIds.has(message.id),
+      className: searchMatchIds && !searchMatchIds.has(message.id) ? "opacity-30 transition-opacity" : "transition-opacity",
       data: {
         message,
         isRoot: message.id === scenario.rootMessageId,
         nodeNumber: index + 1,
         pendingConnection,
         variables: scenario.variables || {},
+        speakers: scenario.speakers || {},
         isCondensed: zoomLevel < 0.4, // Show condensed view when zoomed below 40%
-        isInvalid: invalidMessageIds.has(message.id),
+        validationSeverity: messageSeverities.get(message.id) ?? null,
+        isMultiSelected: selectedIds.size > 1,
+        isPreviewCurrent: message.id === previewMessageId,
       },
+      };
+    });
+    // Notes can be dragged but stay out of selections, so copy, cut and delete only touch messages
+    const noteNodes: Node[] = Object.values(scenario.notes ?? {}).map((note) => ({
+      id: note.id,
+      type: "stickyNote",
+      position: note.position,
+      selectable: false,
+      data: { note },
     }));
-  }, [scenario.messages, scenario.rootMessageId, pendingConnection, scenario.variables, selectedNodeId, zoomLevel, invalidMessageIds]);
+    return [...frameNodes, ...messageNodes, ...noteNodes];
+  }, [scenario.messages, scenario.notes, scenario.frames, scenario.rootMessageId, pendingConnection, scenario.variables, scenario.speakers, selectedNodeIds, zoomLevel, messageSeverities, searchMatchIds, previewMessageId]);
+
+  // Only a new preview position pans; editing the message while it plays leaves the view alone
+  useEffect(() => {
+    if (!isFollowingPreview || !previewMessageId) {
+      followedMessageIdRef.current = null;
+      return;
+    }
+    const instance = reactFlowInstanceRef.current;
+    const message = scenario.messages[previewMessageId];
+    if (!instance || !message || followedMessageIdRef.current === previewMessageId) return;
+    followedMessageIdRef.current = previewMessageId;
+    instance.setCenter(
+      message.position.x + DEFAULT_NODE_SIZE.width / 2,
+      message.position.y + DEFAULT_NODE_SIZE.height / 2,
+      { zoom: instance.getZoom(), duration: 400 }
+    );
+  }, [isFollowingPreview, previewMessageId, scenario.messages]);
 
   // Ensure nodes are visible when entering expanded mode.
   // Using onInit avoids injecting custom children into <ReactFlow> (which can trigger ref warnings).
@@ -215,51 +515,114 @@ function FlowCanvasContent({ isExpanded, onToggleExpand }: FlowCanvasProps) {
     return () => window.clearTimeout(timer);
   }, [isExpanded, nodes.length]);
 
-  // Convert response options to React Flow edges
+  // Convert response options to React Flow edges. Links into or out of a collapsed frame attach to
+  // the frame, once per pair of ends; links inside it are hidden with its messages. Links the live
+  // preview has followed are marked as traversed.
   const edges: Edge[] = useMemo(() => {
     const edgeList: Edge[] = [];
-    Object.values(scenario.messages).forEach((message) => {
-      // Response option edges
-      message.responseOptions.forEach((option) => {
-        if (option.nextMessageId) {
-          edgeList.push({
-            id: `${message.id}-${option.id}`,
-            source: message.id,
-            target: option.nextMessageId,
-            sourceHandle: option.id,
-            type: "responseEdge",
-            data: { label: option.text },
-          });
-        }
-      });
-      // Direct message-to-message edge
-      if (message.nextMessageId) {
+    const frames = scenario.frames ?? {};
+    const reroutedEdges = new Map<string, Edge>();
+    const traversedLinks = new Set((previewTrail?.links ?? []).map((link) => `${link.messageId}:${link.handle}`));
+    const addEdge = (message: ChatMessage, sourceHandle: string, targetId: string, label: string) => {
+      const target = scenario.messages[targetId];
+      const source = getVisibleNodeId(message, frames);
+      const visibleTarget = target ? getVisibleNodeId(target, frames) : targetId;
+      const fromFrame = source !== message.id;
+      const isTraversed = traversedLinks.has(`${message.id}:${sourceHandle}`);
+      if (!fromFrame && visibleTarget === targetId) {
         edgeList.push({
-          id: `${message.id}-direct`,
+          id: `${message.id}-${sourceHandle}`,
           source: message.id,
-          target: message.nextMessageId,
-          sourceHandle: "direct",
+          target: targetId,
+          sourceHandle,
           type: "responseEdge",
-          data: { label: "continues to" },
+          data: { label, isTraversed },
         });
+        return;
+      }
+      if (source === visibleTarget) return;
+      const handle = fromFrame ? "frame-out" : sourceHandle;
+      const key = `${source}:${handle}->${visibleTarget}`;
+      const existing = reroutedEdges.get(key);
+      if (existing) {
+        if (isTraversed) existing.data = { ...existing.data, isTraversed };
+        return;
       }
+      const edge: Edge = {
+        id: `frame-${key}`,
+        source,
+        target: visibleTarget,
+        sourceHandle: handle,
+        type: "responseEdge",
+        data: { label: fromFrame ? undefined : label, isTraversed },
+      };
+      reroutedEdges.set(key, edge);
+      edgeList.push(edge);
+    };
+    Object.values(scenario.messages).forEach((message) => {
+      // Response option edges
+      message.responseOptions.forEach((option) => {
+        if (option.nextMessageId) addEdge(message, option.id, option.nextMessageId, option.text);
+      });
+      // Direct message-to-message edge
+      if (message.nextMessageId) addEdge(message, "direct", message.nextMessageId, "continues to");
     });
     return edgeList;
-  }, [scenario.messages]);
+  }, [scenario.messages, scenario.frames, previewTrail]);
 
   const onNodesChange = useCallback(
     (changes: NodeChange[]) => {
+      const frames = scenario.frames ?? {};
+      // Resizing a frame also reports its messages as moved; FrameNode saves the resize and the
+      // messages keep their canvas positions
+      if (changes.some((change) => change.type === "dimensions" && change.resizing !== undefined && frames[change.id])) {
+        return;
+      }
       changes.forEach((change) => {
         if (change.type === "position" && change.position && change.id) {
-          updateNodePosition(change.id, change.position);
+          const parent = frames[scenario.messages[change.id]?.frameId ?? ""];
+          if (frames[change.id]) {
+            moveFrame(change.id, change.position);
+          } else if (scenario.notes?.[change.id]) {
+            updateNote(change.id, { position: change.position });
+          } else if (parent) {
+            updateNodePosition(change.id, { x: change.position.x + parent.position.x, y: change.position.y + parent.position.y });
+          } else {
+            updateNodePosition(change.id, change.position);
+          }
         }
         // Handle selection changes
         if (change.type === "select" && change.id) {
-          setSelectedNodeId(change.selected ? change.id : null);
+          const { id, selected } = change;
+          setSelectedNodeIds((ids) => (selected ? (ids.includes(id) ? ids : [...ids, id]) : ids.filter((other) => other !== id)));
         }
       });
     },
-    [updateNodePosition]
+    [updateNodePosition, updateNote, moveFrame, scenario.notes, scenario.frames, scenario.messages]
+  );
+
+  // Dropping messages inside a frame adds them to it; dropping them outside takes them out
+  const onNodeDragStop = useCallback(
+    (_event: React.MouseEvent, _node: Node, draggedNodes: Node[]) => {
+      const frames = scenario.frames ?? {};
+      const moves = new Map<string | null, string[]>();
+      draggedNodes.forEach((node) => {
+        const message = scenario.messages[node.id];
+        if (!message) return;
+        const parent = node.parentId ? frames[node.parentId] : undefined;
+        const position = parent
+          ? { x: node.position.x + parent.position.x, y: node.position.y + parent.position.y }
+          : node.position;
+        const size = node.measured?.width && node.measured?.height
+          ? { width: node.measured.width, height: node.measured.height }
+          : DEFAULT_NODE_SIZE;
+        const frameId = findFrameAt(frames, getMessageCenter(position, size))?.id ?? null;
+        if (frameId === (message.frameId ?? null)) return;
+        moves.set(frameId, [...(moves.get(frameId) ?? []), message.id]);
+      });
+      moves.forEach((messageIds, frameId) => setMessagesFrame(messageIds, frameId));
+    },
+    [scenario.frames, scenario.messages, setMessagesFrame]
   );
 
   const onConnect = useCallback(
@@ -278,6 +641,31 @@ function FlowCanvasContent({ isExpanded, onToggleExpand }: FlowCanvasProps) {
     [addMessageAtPosition]
   );
 
+  // New notes and frames appear in the middle of the visible canvas
+  const getViewportCenter = useCallback(() => {
+    const instance = reactFlowInstanceRef.current;
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!instance || !bounds) return { x: 200, y: 200 };
+    return instance.screenToFlowPosition({ x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 });
+  }, []);
+
+  const handleAddNote = useCallback(() => {
+    const center = getViewportCenter();
+    addNote({ x: center.x - NOTE_CENTER_OFFSET.x, y: center.y - NOTE_CENTER_OFFSET.y });
+  }, [addNote, getViewportCenter]);
+
+  const handleAddFrame = useCallback(() => {
+    const center = getViewportCenter();
+    addFrame(
+      `Frame ${Object.keys(scenario.frames ?? {}).length + 1}`,
+      {
+        position: { x: center.x - NEW_FRAME_SIZE.width / 2, y: center.y - NEW_FRAME_SIZE.height / 2 },
+        width: NEW_FRAME_SIZE.width,
+        height: NEW_FRAME_SIZE.height,
+      }
+    );
+  }, [addFrame, getViewportCenter, scenario.frames]);
+
   return (
     <div 
       ref={containerRef}
@@ -286,12 +674,33 @@ function FlowCanvasContent({ isExpanded, onToggleExpand }: FlowCanvasProps) {
       aria-label="Message flow canvas. Use Tab to navigate to controls, or click to interact with the canvas."
     >
       {/* FIRST in DOM = First in focus order */}
-      <CanvasToolbar onAddNode={() => handleAddNode({ x: 200, y: 200 })} onValidate={handleValidate} />
+      <CanvasToolbar
+        onAddNode={() => handleAddNode({ x: 200, y: 200 })}
+        onAddNote={handleAddNote}
+        onAddFrame={handleAddFrame}
+        onValidate={handleValidate}
+        onAutoArrange={handleAutoArrange}
+        onSearch={handleOpenSearch}
+        isPreviewPlaying={!!previewTrail}
+        isFollowingPreview={isFollowingPreview}
+        onToggleFollowPreview={() => setIsFollowingPreview(!isFollowingPreview)}
+      />
 
       <ValidationPanel
         isOpen={isValidationOpen}
         onClose={handleCloseValidation}
-        invalidMessageIds={invalidMessageIds}
+        issues={validationIssues}
+      />
+
+      <CanvasSearch
+        isOpen={isSearchOpen}
+        onClose={handleCloseSearch}
+        query={searchQuery}
+        onQueryChange={setSearchQuery}
+        filters={searchFilters}
+        onFiltersChange={setSearchFilters}
+        results={searchResults}
+        focusRequest={searchFocusRequest}
       />
 
       <div className="absolute top-4 right-4 z-10">
@@ -316,6 +725,7 @@ function FlowCanvasContent({ isExpanded, onToggleExpand }: FlowCanvasProps) {
         nodes={nodes}
         edges={edges}
         onNodesChange={onNodesChange}
+        onNodeDragStop={onNodeDragStop}
         onConnect={onConnect}
         onInit={(instance) => {
           reactFlowInstanceRef.current = instance;
@@ -329,7 +739,8 @@ function FlowCanvasContent({ isExpanded, onToggleExpand }: FlowCanvasProps) {
         className="bg-secondary/20"
         proOptions={{ hideAttribution: true }}
         deleteKeyCode={null}
-        selectionKeyCode={null}
+        selectionKeyCode="Shift"
+        multiSelectionKeyCode={["Shift", "Meta", "Control"]}
         tabIndex={-1}
         aria-label="Flow canvas area"
         connectOnClick={false}
@@ -348,6 +759,85 @@ function FlowCanvasContent({ isExpanded, onToggleExpand }: FlowCanvasProps) {
           showInteractive={false}
         />
 
+        {/* Actions for a multi-selection */}
+        {selectedNodeIds.length > 1 && !pendingConnection && (
+          <Panel position="bottom-center" className="mb-4">
+            <TooltipProvider delayDuration={300}>
+              <div
+                className="flex items-center gap-1 px-2 py-1.5 bg-card border border-border rounded-xl shadow-lg"
+                role="toolbar"
+                aria-label="Selected messages"
+              >
+                <span className="px-2 text-sm font-medium" aria-live="polite">
+                  {selectedNodeIds.length} selected
+                </span>
+                {[
+                  { label: "Copy", shortcut: "Ctrl+C", icon: Copy, onClick: handleCopyClick },
+                  { label: "Cut", shortcut: "Ctrl+X", icon: Scissors, onClick: handleCutClick },
+                  { label: "Duplicate", shortcut: "Ctrl+D", icon: CopyPlus, onClick: handleDuplicate },
+                ].map(({ label, shortcut, icon: Icon, onClick }) => (
+                  <Tooltip key={label}>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={onClick}
+                        className="h-8 w-8 rounded-lg hover:bg-[#A7B5FF] hover:text-[#00178F]"
+                        aria-label={`${label} selected messages`}
+                      >
+                        <Icon className="h-4 w-4" aria-hidden="true" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>{label} ({shortcut})</TooltipContent>
+                  </Tooltip>
+                ))}
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={handleMakeSubFlow}
+                      className="h-8 w-8 rounded-lg hover:bg-[#A7B5FF] hover:text-[#00178F]"
+                      aria-label="Make a sub-flow from the selected messages"
+                    >
+                      <Workflow className="h-4 w-4" aria-hidden="true" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Make sub-flow</TooltipContent>
+                </Tooltip>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={handleMakeFrame}
+                      className="h-8 w-8 rounded-lg hover:bg-[#A7B5FF] hover:text-[#00178F]"
+                      aria-label="Draw a frame around the selected messages"
+                    >
+                      <SquareDashed className="h-4 w-4" aria-hidden="true" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Frame selection</TooltipContent>
+                </Tooltip>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={handleDeleteSelection}
+                      className="h-8 w-8 rounded-lg hover:bg-[#FFA2B6]"
+                      aria-label="Delete selected messages"
+                    >
+                      <Trash2 className="h-4 w-4" aria-hidden="true" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Delete</TooltipContent>
+                </Tooltip>
+              </div>
+            </TooltipProvider>
+          </Panel>
+        )}
+
         {/* Connection mode banner */}
         {pendingConnection && (
           <Panel position="top-center" className="mt-4">
@@ -0,0 +1,74 @@
+/**
+ * @file FormattingToolbar.tsx
+ * @description Markdown formatting buttons (bold, italic, code, link, bullet and numbered lists) for a
+ *              message textarea. Wraps or prefixes the current selection and keeps focus in the field.
+ *
+ * @dependencies markdown, UI components
+ * @usage Rendered by MessageFlowNode above the content textarea while the node is selected
+ */
+
+import { RefObject } from "react";
+import { Bold, Italic, Code, Link, List, ListOrdered } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { MarkdownFormat, applyMarkdownFormat } from "@/lib/markdown";
+
+const FORMAT_BUTTONS: { format: MarkdownFormat; label: string; icon: typeof Bold }[] = [
+  { format: "bold", label: "Bold", icon: Bold },
+  { format: "italic", label: "Italic", icon: Italic },
+  { format: "code", label: "Code", icon: Code },
+  { format: "link", label: "Link", icon: Link },
+  { format: "bulletList", label: "Bullet list", icon: List },
+  { format: "numberedList", label: "Numbered list", icon: ListOrdered },
+];
+
+interface FormattingToolbarProps {
+  textareaRef: RefObject<HTMLTextAreaElement>;
+  value: string;
+  onChange: (value: string) => void;
+  tabIndex?: number;
+}
+
+export function FormattingToolbar({ textareaRef, value, onChange, tabIndex }: FormattingToolbarProps) {
+  const handleFormat = (format: MarkdownFormat) => {
+    const el = textareaRef.current;
+    const start = el?.selectionStart ?? value.length;
+    const end = el?.selectionEnd ?? value.length;
+    const edit = applyMarkdownFormat(value, start, end, format);
+    onChange(edit.value);
+    // Restore the selection once React has written the new value
+    requestAnimationFrame(() => {
+      if (!textareaRef.current) return;
+      textareaRef.current.focus();
+      textareaRef.current.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
+  return (
+    <TooltipProvider>
+      <div className="mb-1.5 flex items-center gap-0.5" role="toolbar" aria-label="Text formatting">
+        {FORMAT_BUTTONS.map(({ format, label, icon: Icon }) => (
+          <Tooltip key={format}>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                // Keep the textarea selection while clicking
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handleFormat(format)}
+                tabIndex={tabIndex}
+                className="h-6 w-6 rounded text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F] nodrag"
+                aria-label={label}
+              >
+                <Icon className="h-3 w-3" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="top">
+              <p>{label}</p>
+            </TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+    </TooltipProvider>
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * @file FrameNode.tsx
+ * @description Canvas frame grouping related messages: a labelled, coloured, resizable area that is
+ *              dragged by its label bar and moves its messages along. Collapsed, it becomes a single
+ *              summary node with the number of links coming in and going out.
+ *
+ * @dependencies @xyflow/react, ScenarioContext, frames, UI components
+ * @usage Registered as custom node type in FlowCanvas, as the parent node of its messages
+ */
+
+import { memo } from "react";
+import { Handle, NodeProps, NodeResizer, Position } from "@xyflow/react";
+import { useScenario } from "@/context/ScenarioContext";
+import { CanvasFrame, FrameColor } from "@/types/scenario";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { ChevronsDownUp, ChevronsUpDown, GripVertical, ArrowDownToLine, ArrowUpFromLine, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { FrameLinkCounts, MIN_FRAME_SIZE } from "@/lib/frames";
+
+interface FrameNodeData {
+  frame: CanvasFrame;
+  memberCount: number;
+  links: FrameLinkCounts;
+}
+
+const FRAME_COLORS: Record<FrameColor, { label: string; frame: string; bar: string; swatch: string }> = {
+  blue: { label: "Blue", frame: "border-sky-400 bg-sky-400/10", bar: "bg-sky-400/25", swatch: "bg-sky-400" },
+  green: { label: "Green", frame: "border-emerald-400 bg-emerald-400/10", bar: "bg-emerald-400/25", swatch: "bg-emerald-400" },
+  yellow: { label: "Yellow", frame: "border-amber-400 bg-amber-400/10", bar: "bg-amber-400/25", swatch: "bg-amber-400" },
+  pink: { label: "Pink", frame: "border-pink-400 bg-pink-400/10", bar: "bg-pink-400/25", swatch: "bg-pink-400" },
+  gray: { label: "Gray", frame: "border-slate-400 bg-slate-400/10", bar: "bg-slate-400/25", swatch: "bg-slate-400" },
+};
+
+// Hidden handles so edges rerouted to a collapsed frame have somewhere to attach
+const HIDDEN_HANDLE_CLASS = "!w-0 !h-0 !bg-transparent !border-0 !min-w-0 !min-h-0 !opacity-0 !pointer-events-none";
+
+function FrameNodeComponent({ data }: NodeProps) {
+  const { frame, memberCount, links } = data as unknown as FrameNodeData;
+  const { updateFrame, deleteFrame } = useScenario();
+  const colors = FRAME_COLORS[frame.color];
+
+  const collapseButton = (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => updateFrame(frame.id, { collapsed: !frame.collapsed })}
+          aria-label={frame.collapsed ? "Expand frame" : "Collapse frame"}
+          className="nodrag h-6 w-6 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+        >
+          {frame.collapsed ? <ChevronsUpDown className="h-3.5 w-3.5" /> : <ChevronsDownUp className="h-3.5 w-3.5" />}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent side="top">
+        <p>{frame.collapsed ? "Show its messages" : "Collapse to a summary"}</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+
+  const labelInput = (
+    <input
+      value={frame.label}
+      onChange={(e) => updateFrame(frame.id, { label: e.target.value })}
+      placeholder="Untitled frame"
+      aria-label="Frame label"
+      className="nodrag min-w-0 flex-1 bg-transparent text-sm font-semibold text-foreground placeholder:text-muted-foreground focus:outline-none"
+    />
+  );
+
+  if (frame.collapsed) {
+    return (
+      <TooltipProvider delayDuration={300}>
+        <div
+          className={cn("h-full w-full rounded-2xl border-2 bg-card shadow-lg", colors.frame)}
+          role="group"
+          aria-label={`Collapsed frame ${frame.label || "Untitled frame"}`}
+        >
+          <Handle type="target" position={Position.Left} className={HIDDEN_HANDLE_CLASS} />
+          <div className={cn("frame-drag-handle flex items-center gap-1 rounded-t-xl px-2 py-1.5 cursor-grab active:cursor-grabbing", colors.bar)}>
+            <GripVertical className="h-3.5 w-3.5 shrink-0 text-muted-foreground" aria-hidden="true" />
+            {labelInput}
+            {collapseButton}
+          </div>
+          <div className="space-y-1 px-3 py-2 text-xs text-muted-foreground">
+            <p>
+              {memberCount} {memberCount === 1 ? "message" : "messages"}
+            </p>
+            <p className="flex items-center gap-3">
+              <span className="flex items-center gap-1" aria-label={`${links.incoming} links in`}>
+                <ArrowDownToLine className="h-3 w-3" aria-hidden="true" />
+                {links.incoming} in
+              </span>
+              <span className="flex items-center gap-1" aria-label={`${links.outgoing} links out`}>
+                <ArrowUpFromLine className="h-3 w-3" aria-hidden="true" />
+                {links.outgoing} out
+              </span>
+            </p>
+          </div>
+          <Handle type="source" position={Position.Right} id="frame-out" className={HIDDEN_HANDLE_CLASS} />
+        </div>
+      </TooltipProvider>
+    );
+  }
+
+  return (
+    <TooltipProvider delayDuration={300}>
+      <NodeResizer
+        minWidth={MIN_FRAME_SIZE.width}
+        minHeight={MIN_FRAME_SIZE.height}
+        lineClassName="!border-transparent"
+        handleClassName="!h-2.5 !w-2.5 !rounded-sm !border-border !bg-card"
+        onResize={(_, { x, y, width, height }) => updateFrame(frame.id, { position: { x, y }, width, height })}
+      />
+      <div
+        className={cn("h-full w-full rounded-2xl border-2 border-dashed", colors.frame)}
+        role="group"
+        aria-label={`Frame ${frame.label || "Untitled frame"}`}
+      >
+        <Handle type="target" position={Position.Left} className={HIDDEN_HANDLE_CLASS} />
+        <div className={cn("frame-drag-handle flex items-center gap-1 rounded-t-xl px-2 py-1.5 cursor-grab active:cursor-grabbing", colors.bar)}>
+          <GripVertical className="h-3.5 w-3.5 shrink-0 text-muted-foreground" aria-hidden="true" />
+          {labelInput}
+          {(Object.keys(FRAME_COLORS) as FrameColor[]).map((color) => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => updateFrame(frame.id, { color })}
+              aria-label={`${FRAME_COLORS[color].label} frame`}
+              aria-pressed={frame.color === color}
+              className={cn(
+                "nodrag h-3.5 w-3.5 shrink-0 rounded-full",
+                FRAME_COLORS[color].swatch,
+                frame.color === color && "ring-2 ring-foreground/60 ring-offset-1"
+              )}
+            />
+          ))}
+          {collapseButton}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteFrame(frame.id)}
+                aria-label="Remove frame"
+                className="nodrag h-6 w-6 rounded-lg text-muted-foreground hover:bg-[#FFA2B6] hover:text-[#00178F]"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="top">
+              <p>Remove frame (messages stay)</p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
+        <Handle type="source" position={Position.Right} id="frame-out" className={HIDDEN_HANDLE_CLASS} />
+      </div>
+    </TooltipProvider>
+  );
+}
+
+export const FrameNode = memo(FrameNodeComponent);
@@ -0,0 +1,217 @@
+/**
+ * @file MessageAttachments.tsx
+ * @description Attachment list for a message node: upload images, audio, video and files as
+ *              scenario assets, add link cards, edit alt text and link details, and remove them
+ *
+ * @dependencies ScenarioContext, assets, scenario types, UI components, use-toast
+ * @usage Rendered by MessageFlowNode below the message text
+ */
+
+import { useRef, useState } from "react";
+import { useScenario } from "@/context/ScenarioContext";
+import { AttachmentKind, ChatMessage, MessageAttachment, createAttachment } from "@/types/scenario";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Paperclip, Link2, X, Image as ImageIcon, Music, Film, FileText, Globe } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ASSET_ACCEPT, formatFileSize, getAttachmentKindForMime, readFileAsAsset } from "@/lib/assets";
+
+const KIND_ICONS: Record<AttachmentKind, typeof ImageIcon> = {
+  image: ImageIcon,
+  audio: Music,
+  video: Film,
+  file: FileText,
+  link: Globe,
+};
+
+interface MessageAttachmentsProps {
+  message: ChatMessage;
+  isExpanded: boolean;
+  tabIndex?: number;
+}
+
+export function MessageAttachments({ message, isExpanded, tabIndex }: MessageAttachmentsProps) {
+  const { scenario, addAttachment, updateAttachment, removeAttachment } = useScenario();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isLinkOpen, setIsLinkOpen] = useState(false);
+  const [linkUrl, setLinkUrl] = useState("");
+  const [linkTitle, setLinkTitle] = useState("");
+  const attachments = message.attachments ?? [];
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Reset input so same file can be selected again
+    e.target.value = "";
+    for (const file of files) {
+      try {
+        const asset = await readFileAsAsset(file);
+        addAttachment(message.id, createAttachment(getAttachmentKindForMime(asset.mimeType), { assetId: asset.id }), asset);
+      } catch (error) {
+        toast({
+          title: "Upload failed",
+          description: error instanceof Error ? error.message : `Could not add ${file.name}.`,
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleAddLink = () => {
+    const url = linkUrl.trim();
+    if (!url) return;
+    addAttachment(message.id, createAttachment("link", { url, title: linkTitle.trim() || undefined }));
+    setLinkUrl("");
+    setLinkTitle("");
+    setIsLinkOpen(false);
+  };
+
+  const getLabel = (attachment: MessageAttachment) => {
+    if (attachment.kind === "link") return attachment.title || attachment.url || "Link";
+    const asset = attachment.assetId ? scenario.assets[attachment.assetId] : undefined;
+    return asset ? `${asset.name} (${formatFileSize(asset.size)})` : "Missing file";
+  };
+
+  if (attachments.length === 0 && !isExpanded) return null;
+
+  return (
+    <div className="mt-2 space-y-1.5">
+      {attachments.map((attachment) => {
+        const Icon = KIND_ICONS[attachment.kind];
+        const asset = attachment.assetId ? scenario.assets[attachment.assetId] : undefined;
+        return (
+          <div key={attachment.id} className="rounded-lg bg-secondary/30 p-1.5 space-y-1.5">
+            <div className="flex items-center gap-1.5">
+              {attachment.kind === "image" && asset ? (
+                <img src={asset.data} alt="" className="h-6 w-6 shrink-0 rounded object-cover" />
+              ) : (
+                <Icon className="h-3.5 w-3.5 shrink-0 text-muted-foreground" aria-hidden="true" />
+              )}
+              <span className="flex-1 truncate text-xs" title={getLabel(attachment)}>
+                {getLabel(attachment)}
+              </span>
+              {isExpanded && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeAttachment(message.id, attachment.id)}
+                  tabIndex={tabIndex}
+                  className="h-6 w-6 shrink-0 rounded text-muted-foreground hover:bg-[#FFA2B6] hover:text-[#00178F]"
+                  aria-label="Remove attachment"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+
+            {/* Alt text for visual media, details for link cards */}
+            {isExpanded && (attachment.kind === "image" || attachment.kind === "video") && (
+              <Input
+                value={attachment.description ?? ""}
+                onChange={(e) => updateAttachment(message.id, attachment.id, { description: e.target.value })}
+                placeholder="Describe it for screen readers..."
+                tabIndex={tabIndex}
+                aria-label="Alt text"
+                className="h-7 text-xs rounded-md border-border/30 bg-card nodrag"
+              />
+            )}
+            {isExpanded && attachment.kind === "link" && (
+              <>
+                <Input
+                  value={attachment.url ?? ""}
+                  onChange={(e) => updateAttachment(message.id, attachment.id, { url: e.target.value })}
+                  placeholder="https://..."
+                  tabIndex={tabIndex}
+                  aria-label="Link URL"
+                  className="h-7 text-xs rounded-md border-border/30 bg-card nodrag"
+                />
+                <Input
+                  value={attachment.title ?? ""}
+                  onChange={(e) => updateAttachment(message.id, attachment.id, { title: e.target.value })}
+                  placeholder="Card title"
+                  tabIndex={tabIndex}
+                  aria-label="Link title"
+                  className="h-7 text-xs rounded-md border-border/30 bg-card nodrag"
+                />
+                <Input
+                  value={attachment.description ?? ""}
+                  onChange={(e) => updateAttachment(message.id, attachment.id, { description: e.target.value })}
+                  placeholder="Short summary"
+                  tabIndex={tabIndex}
+                  aria-label="Link summary"
+                  className="h-7 text-xs rounded-md border-border/30 bg-card nodrag"
+                />
+              </>
+            )}
+          </div>
+        );
+      })}
+
+      {isExpanded && (
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            tabIndex={tabIndex}
+            className="h-7 gap-1 rounded-lg px-2 text-xs text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+          >
+            <Paperclip className="h-3 w-3" />
+            File
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ASSET_ACCEPT}
+            multiple
+            onChange={handleFileChange}
+            className="hidden"
+            aria-hidden="true"
+            tabIndex={-1}
+          />
+
+          <Popover open={isLinkOpen} onOpenChange={setIsLinkOpen}>
+            <PopoverTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                tabIndex={tabIndex}
+                className="h-7 gap-1 rounded-lg px-2 text-xs text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+              >
+                <Link2 className="h-3 w-3" />
+                Link
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 p-3 space-y-2" align="start">
+              <label className="text-xs font-medium text-muted-foreground block">Link card</label>
+              <Input
+                value={linkUrl}
+                onChange={(e) => setLinkUrl(e.target.value)}
+                placeholder="https://..."
+                aria-label="Link URL"
+                className="h-8 text-xs"
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleAddLink();
+                  }
+                }}
+              />
+              <Input
+                value={linkTitle}
+                onChange={(e) => setLinkTitle(e.target.value)}
+                placeholder="Title (optional)"
+                aria-label="Link title"
+                className="h-8 text-xs"
+              />
+              <Button size="sm" onClick={handleAddLink} disabled={!linkUrl.trim()} className="h-7 w-full text-xs rounded-md">
+                Add link
+              </Button>
+            </PopoverContent>
+          </Popover>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,34 +1,50 @@
 /**
  * @file MessageFlowNode.tsx
- * @description Individual message node component for the flow canvas with content editing,
- *              response options, variable conditions, and connection handling
+ * @description Individual message node component for the flow canvas with content editing and
+ *              Markdown formatting, speaker selection, attachments, typing delay, response options or text
+ *              input routes, variable conditions, sub-flow membership, review comments, previewing from
+ *              the message, highlighting while the preview is on it, and connection handling. Also renders sub-flow call nodes.
  * 
- * @dependencies @xyflow/react, ScenarioContext, ResponseOptionRow, UI components
+ * @dependencies @xyflow/react, ScenarioContext, ResponseOptionRow, ConditionEditor, MessageAttachments,
+ *               FormattingToolbar, PacingEditor, CommentThreads, PreviewFromHereDialog, conditions, annotations, markdown, UI components
  * @usage Registered as custom node type in FlowCanvas
  */
 
 import { memo, useState, useRef, useEffect, useCallback } from "react";
 import { Handle, Position, NodeProps } from "@xyflow/react";
 import { useScenario, PendingConnection } from "@/context/ScenarioContext";
-import { ChatMessage, ScenarioVariable, VariableValue } from "@/types/scenario";
+import { ChatMessage, DEFAULT_THEME, ScenarioVariable, Speaker } from "@/types/scenario";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Flag, Plus, Trash2, Eye, Link2, Unlink } from "lucide-react";
+import { Flag, Plus, Trash2, Eye, Link2, Unlink, UserRound, TextCursorInput, Hourglass, Workflow, LogIn, MessageSquare, Play } from "lucide-react";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
+import type { ValidationSeverity } from "@/lib/scenarioAnalysis";
+import { describeCondition, getConditionLeaves } from "@/lib/conditions";
+import { markdown } from "@/lib/markdown";
+import { countOpenThreads, getMessageThreads } from "@/lib/annotations";
 import { ResponseOptionRow } from "./ResponseOptionRow";
+import { ConditionEditor } from "./ConditionEditor";
+import { MessageAttachments } from "./MessageAttachments";
+import { FormattingToolbar } from "./FormattingToolbar";
+import { PacingEditor } from "./PacingEditor";
+import { MessageComments } from "./CommentThreads";
+import { PreviewFromHereDialog } from "./PreviewFromHereDialog";
 interface MessageFlowNodeData {
   message: ChatMessage;
   isRoot: boolean;
   nodeNumber: number;
   pendingConnection: PendingConnection | null;
   variables: Record<string, ScenarioVariable>;
+  speakers: Record<string, Speaker>;
   isCondensed?: boolean;
-  isInvalid?: boolean;
+  validationSeverity?: ValidationSeverity | null;
+  isMultiSelected?: boolean; // Part of a multi-selection, so the node stays collapsed
+  isPreviewCurrent?: boolean; // The message the playing preview is on
 }
 function MessageFlowNodeComponent({
   data,
@@ -41,9 +57,14 @@ function MessageFlowNodeComponent({
     nodeNumber,
     pendingConnection,
     variables,
+    speakers,
     isCondensed = false,
-    isInvalid = false,
+    validationSeverity = null,
+    isMultiSelected = false,
+    isPreviewCurrent = false,
   } = nodeData;
+  // Only a lone selected node opens its editing controls
+  const isExpanded = selected === true && !isMultiSelected;
   const {
     updateMessage,
     deleteMessage,
@@ -52,8 +73,18 @@ function MessageFlowNodeComponent({
     completeConnection,
     setMessageCondition,
     startConnection,
-    disconnectMessageDirect
+    disconnectMessageDirect,
+    setMessageSpeaker,
+    setMessageInput,
+    setMessagePacing,
+    setMessageSubFlow,
+    setSubFlowCall,
+    updateSubFlow,
+    scenario
   } = useScenario();
+  const theme = scenario.theme;
+  // Regular conversations show messages without a typing indicator
+  const isRegularMode = (theme.conversationType ?? 'chat') === 'regular';
   const [newOptionText, setNewOptionText] = useState("");
   const [isEditing, setIsEditing] = useState(false);
   const [localContent, setLocalContent] = useState(message.content);
@@ -80,6 +111,29 @@ function MessageFlowNodeComponent({
     el.style.height = `${Math.max(60, scrollH)}px`;
   }, []);
 
+  const handleContentChange = (value: string) => {
+    setLocalContent(value);
+    updateMessage(message.id, value);
+    // Resize after local state update
+    requestAnimationFrame(() => autoResizeTextarea());
+  };
+
+  // Call nodes play a sub-flow and have no text of their own
+  const subFlows = scenario.subFlows ?? {};
+  const subFlowList = Object.values(subFlows);
+  const isCall = !!message.call;
+  const calledSubFlow = message.call?.subFlowId ? subFlows[message.call.subFlowId] : undefined;
+  const memberSubFlow = message.subFlowId ? subFlows[message.subFlowId] : undefined;
+  const isEntry = !!memberSubFlow && memberSubFlow.entryMessageId === message.id;
+
+  const threads = getMessageThreads(scenario.comments ?? {}, message.id);
+  const openThreadCount = countOpenThreads(threads);
+
+  // Markdown markers are left out of labels and previews
+  const plainContent = isCall
+    ? `Plays ${calledSubFlow ? calledSubFlow.name || "Untitled sub-flow" : "no sub-flow"}`
+    : markdown.toPlainText(message.content);
+
   const handleAddOption = () => {
     if (newOptionText.trim()) {
       addResponseOption(message.id, newOptionText.trim());
@@ -91,45 +145,15 @@ function MessageFlowNodeComponent({
   const isPendingSource = pendingConnection?.sourceMessageId === message.id;
   const canReceiveConnection = isConnecting && !isPendingSource;
   const hasNoResponses = message.responseOptions.length === 0 && !message.isEndpoint;
+  const isTextInput = !!message.input && !message.isEndpoint;
   const variableList = Object.values(variables || {});
-  const handleMessageCondition = (variableId: string | null, requiredValue: VariableValue) => {
-    if (variableId) {
-      setMessageCondition(message.id, {
-        variableId,
-        requiredValue
-      });
-    } else {
-      setMessageCondition(message.id, null);
-    }
-  };
-  const handleMessageConditionValueChange = (requiredValue: VariableValue) => {
-    if (message.condition) {
-      setMessageCondition(message.id, {
-        variableId: message.condition.variableId,
-        requiredValue
-      });
-    }
-  };
-  const getMessageConditionVariable = () => {
-    if (!message.condition) return null;
-    return variables?.[message.condition.variableId] || null;
-  };
-  const messageConditionVariable = getMessageConditionVariable();
-  const getDefaultValueForType = (type: string): VariableValue => {
-    switch (type) {
-      case "text":
-        return "";
-      case "number":
-        return 0;
-      default:
-        return true;
-    }
-  };
-  const formatDisplayValue = (value: VariableValue): string => {
-    if (typeof value === "boolean") return value ? "true" : "false";
-    if (typeof value === "string") return value || '""';
-    return String(value);
-  };
+  const textVariables = variableList.filter(v => v.type === "text");
+  const speakerList = Object.values(speakers || {});
+  const speaker = message.speakerId ? speakers?.[message.speakerId] : undefined;
+  const conditionLeaves = getConditionLeaves(message.condition);
+  const conditionBadgeLabel = conditionLeaves.length === 1
+    ? variables?.[conditionLeaves[0].variableId]?.name ?? "Condition"
+    : `${conditionLeaves.length} conditions`;
 
   // Handle keyboard activation for connection targets or entering edit mode
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -167,13 +191,13 @@ function MessageFlowNodeComponent({
     return () => nodeRef.current?.removeEventListener('focusout', handleFocusOut);
   }, [isEditing]);
 
-  // Re-measure textarea height when selected (textarea mounts) or content changes externally
+  // Re-measure textarea height when expanded (textarea mounts) or content changes externally
   useEffect(() => {
-    if (selected) {
-      // Delay to ensure textarea is mounted after selected changes
+    if (isExpanded) {
+      // Delay to ensure textarea is mounted after selection changes
       requestAnimationFrame(() => autoResizeTextarea());
     }
-  }, [selected, message.content, localContent, autoResizeTextarea]);
+  }, [isExpanded, message.content, localContent, autoResizeTextarea]);
 
   // Internal elements are only tabbable when in edit mode and not connecting
   const internalTabIndex = (isEditing && !isConnecting) ? 0 : -1;
@@ -187,8 +211,9 @@ function MessageFlowNodeComponent({
               ref={nodeRef}
               className={cn(
                 "w-16 h-16 rounded-2xl border-2 bg-card shadow-lg transition-all flex items-center justify-center relative",
-                isInvalid ? "border-destructive shadow-destructive/20" : selected ? "border-primary shadow-primary/20" : "border-border/50",
+                validationSeverity === "error" ? "border-destructive shadow-destructive/20" : validationSeverity === "warning" ? "border-warning shadow-warning/20" : selected ? "border-primary shadow-primary/20" : "border-border/50",
                 isRoot && "ring-2 ring-primary/30 ring-offset-2 ring-offset-background",
+                isPreviewCurrent && "ring-4 ring-success/60 ring-offset-2 ring-offset-background",
                 canReceiveConnection && "ring-2 ring-success/50 cursor-pointer focus:ring-success focus:outline-none"
               )}
               onClick={canReceiveConnection ? () => completeConnection(message.id) : undefined}
@@ -229,20 +254,84 @@ function MessageFlowNodeComponent({
           </TooltipTrigger>
           <TooltipContent side="top" className="max-w-[200px]">
             <p className="font-medium">{isRoot ? "Start: " : ""}Message {nodeNumber}</p>
-            <p className="text-xs text-muted-foreground truncate">{message.content.slice(0, 50)}{message.content.length > 50 ? "..." : ""}</p>
+            <p className="text-xs text-muted-foreground truncate">{plainContent.slice(0, 50)}{plainContent.length > 50 ? "..." : ""}</p>
           </TooltipContent>
         </Tooltip>
       </TooltipProvider>
     );
   }
 
+  // Direct connection: the next message for messages without responses, or the fallback for text input
+  const directConnection = (
+    <div className="border-t border-border/30 p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-muted-foreground">
+          {isTextInput
+            ? "Any other answer - connect to the next message"
+            : isCall
+              ? "After the sub-flow - connect to the next message"
+              : "No responses - connect directly to next message"}
+        </span>
+        <div className="flex items-center gap-1">
+          {/* Link button for direct connection */}
+          {!message.nextMessageId && !isConnecting && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button 
+                  variant="ghost" 
+                  size="icon" 
+                  onClick={() => startConnection(message.id, null)} 
+                  tabIndex={internalTabIndex} 
+                  className="h-7 w-7 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+                  aria-label="Link to another message"
+                >
+                  <Link2 className="h-3.5 w-3.5" aria-hidden="true" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent side="top">
+                <p>Connect to next message</p>
+              </TooltipContent>
+            </Tooltip>
+          )}
+          {/* Unlink button when connected */}
+          {message.nextMessageId && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button 
+                  variant="ghost" 
+                  size="icon" 
+                  onClick={() => disconnectMessageDirect(message.id)} 
+                  tabIndex={internalTabIndex} 
+                  className="h-7 w-7 rounded-lg text-muted-foreground hover:bg-[#FFA2B6] hover:text-[#00178F]"
+                >
+                  <Unlink className="h-3.5 w-3.5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent side="top">
+                <p>Disconnect</p>
+              </TooltipContent>
+            </Tooltip>
+          )}
+        </div>
+      </div>
+      {/* Hidden source handle - required by React Flow for edge rendering */}
+      <Handle 
+        type="source" 
+        position={Position.Right} 
+        id="direct" 
+        className="!w-0 !h-0 !bg-transparent !border-0 !min-w-0 !min-h-0 !opacity-0 !pointer-events-none !right-[-6px] !top-auto !bottom-4"
+      />
+    </div>
+  );
+
   return <TooltipProvider>
       <div 
         ref={nodeRef}
         className={cn(
           "w-[320px] rounded-2xl border-2 bg-card shadow-lg transition-all",
-          isInvalid ? "border-destructive shadow-destructive/20" : selected ? "border-primary shadow-primary/20" : "border-border/50",
+          validationSeverity === "error" ? "border-destructive shadow-destructive/20" : validationSeverity === "warning" ? "border-warning shadow-warning/20" : selected ? "border-primary shadow-primary/20" : "border-border/50",
           isRoot && "ring-2 ring-primary/30 ring-offset-2 ring-offset-background",
+          isPreviewCurrent && "ring-4 ring-success/60 ring-offset-2 ring-offset-background",
           canReceiveConnection && "ring-2 ring-success/50 cursor-pointer focus:ring-success focus:outline-none",
           isEditing && "ring-2 ring-primary focus:outline-none"
         )}
@@ -252,8 +341,8 @@ function MessageFlowNodeComponent({
         role="group"
         aria-label={
           canReceiveConnection 
-            ? `Connect to message ${nodeNumber}: ${message.content.slice(0, 50)}`
-            : `Message ${nodeNumber}${isRoot ? " (Start)" : ""}: ${message.content.slice(0, 50)}. Press Enter to edit.`
+            ? `Connect to message ${nodeNumber}: ${plainContent.slice(0, 50)}`
+            : `Message ${nodeNumber}${isRoot ? " (Start)" : ""}: ${plainContent.slice(0, 50)}. Press Enter to edit.`
         }
         aria-expanded={isEditing}
         aria-describedby={`node-${message.id}-instructions`}
@@ -281,22 +370,40 @@ function MessageFlowNodeComponent({
               {canReceiveConnection ? <Link2 className="h-4 w-4 text-success" /> : nodeNumber}
             </div>
             <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
-              {isRoot ? "Start" : "Message"}
+              {isRoot ? "Start" : isCall ? "Sub-flow" : "Message"}
             </span>
             
             {/* Message condition badge */}
-            {message.condition && variables?.[message.condition.variableId] && <Tooltip>
+            {message.condition && conditionLeaves.length > 0 && <Tooltip>
                 <TooltipTrigger asChild>
                   <span className="flex items-center gap-0.5 text-[10px] bg-info/20 text-info px-1.5 py-0.5 rounded font-medium">
                     <Eye className="h-2.5 w-2.5" />
-                    {variables[message.condition.variableId].name}
+                    {conditionBadgeLabel}
                   </span>
                 </TooltipTrigger>
                 <TooltipContent side="top">
-                  <p>Requires: {variables[message.condition.variableId].name} = {formatDisplayValue(message.condition.requiredValue)}</p>
+                  <p>Requires: {describeCondition(message.condition, variables)}</p>
                 </TooltipContent>
               </Tooltip>}
 
+            {/* Sub-flow membership badge */}
+            {memberSubFlow && <span className="flex items-center gap-0.5 text-[10px] bg-info/20 text-info px-1.5 py-0.5 rounded font-medium max-w-[120px]" title={memberSubFlow.name}>
+                {isEntry ? <LogIn className="h-2.5 w-2.5 shrink-0" /> : <Workflow className="h-2.5 w-2.5 shrink-0" />}
+                <span className="truncate">{memberSubFlow.name || "Untitled sub-flow"}</span>
+              </span>}
+
+            {/* Text input badge */}
+            {isTextInput && <span className="flex items-center gap-0.5 text-[10px] bg-info/20 text-info px-1.5 py-0.5 rounded font-medium">
+                <TextCursorInput className="h-2.5 w-2.5" />
+                Input
+              </span>}
+
+            {/* Live preview position */}
+            {isPreviewCurrent && <span className="flex items-center gap-1 text-[10px] bg-success/20 text-success px-1.5 py-0.5 rounded font-medium">
+                <Play className="h-2.5 w-2.5" aria-hidden="true" />
+                In preview
+              </span>}
+
             {/* Connection mode indicator */}
             {canReceiveConnection && <span className="flex items-center gap-1 text-[10px] bg-success/20 text-success px-1.5 py-0.5 rounded font-medium" aria-hidden="true">
                 Connect
@@ -304,6 +411,31 @@ function MessageFlowNodeComponent({
           </div>
 
           <div className="flex items-center gap-1">
+            <PreviewFromHereDialog messageId={message.id} nodeNumber={nodeNumber} tabIndex={internalTabIndex} />
+
+            {/* Review comments popover */}
+            <Popover>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <PopoverTrigger asChild>
+                    <Button variant={openThreadCount > 0 ? "secondary" : "ghost"} size={openThreadCount > 0 ? "sm" : "icon"} tabIndex={internalTabIndex} aria-label={`Comments${threads.length > 0 ? ` (${openThreadCount} open)` : ""}`} className={cn("h-7 rounded-lg", openThreadCount > 0 ? "gap-1 px-2 text-xs bg-warning/20 text-warning hover:bg-[#A7B5FF] hover:text-[#00178F]" : "w-7 text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]")}>
+                      <MessageSquare className="h-3.5 w-3.5" />
+                      {openThreadCount > 0 && openThreadCount}
+                    </Button>
+                  </PopoverTrigger>
+                </TooltipTrigger>
+                <TooltipContent side="top">
+                  <p>Comments</p>
+                </TooltipContent>
+              </Tooltip>
+              <PopoverContent className="w-80 p-3" align="end">
+                <label className="text-xs font-medium text-muted-foreground mb-1.5 block">
+                  Review comments
+                </label>
+                <MessageComments message={message} />
+              </PopoverContent>
+            </Popover>
+
             {/* Message condition popover */}
             {variableList.length > 0 && !isRoot && <Popover>
                 <Tooltip>
@@ -318,51 +450,63 @@ function MessageFlowNodeComponent({
                     <p>Set visibility condition</p>
                   </TooltipContent>
                 </Tooltip>
-                <PopoverContent className="w-64 p-3" align="end">
+                <PopoverContent className="w-96 p-3" align="end">
                   <div>
                     <label className="text-xs font-medium text-muted-foreground mb-1.5 block">
                       Show message only if
                     </label>
-                    <div className="flex gap-2">
-                      <Select value={message.condition?.variableId || "none"} onValueChange={val => {
-                    if (val === "none") {
-                      handleMessageCondition(null, true);
-                    } else {
-                      const selectedVar = variables?.[val];
-                      const defaultVal = selectedVar ? getDefaultValueForType(selectedVar.type) : true;
-                      handleMessageCondition(val, defaultVal);
-                    }
-                  }}>
-                        <SelectTrigger className="h-8 text-xs flex-1">
-                          <SelectValue placeholder="Always visible" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="none">Always visible</SelectItem>
-                          {variableList.map(v => <SelectItem key={v.id} value={v.id}>
-                              {v.name} ({v.type})
-                            </SelectItem>)}
-                        </SelectContent>
-                      </Select>
-                      
-                      {/* Condition value input based on variable type */}
-                      {message.condition && messageConditionVariable && (messageConditionVariable.type === "boolean" ? <Select value={message.condition.requiredValue === true ? "true" : "false"} onValueChange={val => handleMessageConditionValueChange(val === "true")}>
-                            <SelectTrigger className="h-8 text-xs w-20">
-                              <SelectValue />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="true">= true</SelectItem>
-                              <SelectItem value="false">= false</SelectItem>
-                            </SelectContent>
-                          </Select> : messageConditionVariable.type === "text" ? <Input value={String(message.condition.requiredValue)} onChange={e => handleMessageConditionValueChange(e.target.value)} placeholder="Value..." className="h-8 text-xs w-24" /> : messageConditionVariable.type === "number" ? <Input type="number" value={String(message.condition.requiredValue)} onChange={e => handleMessageConditionValueChange(Number(e.target.value) || 0)} placeholder="0" className="h-8 text-xs w-20" /> : null)}
-                    </div>
+                    <ConditionEditor
+                      condition={message.condition}
+                      variables={variables}
+                      onChange={condition => setMessageCondition(message.id, condition)}
+                    />
                   </div>
                 </PopoverContent>
               </Popover>}
 
-            <Button variant={message.isEndpoint ? "secondary" : "ghost"} size="sm" onClick={() => toggleEndpoint(message.id)} tabIndex={internalTabIndex} className={cn("gap-1 text-xs rounded-lg h-7 px-2", message.isEndpoint && "bg-success/20 text-success hover:bg-success/30")}>
+            {/* Typing delay popover */}
+            {!isRegularMode && !isCall && <Popover>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <PopoverTrigger asChild>
+                      <Button variant={message.pacing ? "secondary" : "ghost"} size="icon" tabIndex={internalTabIndex} aria-label="Typing delay" className={cn("h-7 w-7 rounded-lg", message.pacing ? "bg-info/20 text-info hover:bg-[#A7B5FF] hover:text-[#00178F]" : "text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]")}>
+                        <Hourglass className="h-3.5 w-3.5" />
+                      </Button>
+                    </PopoverTrigger>
+                  </TooltipTrigger>
+                  <TooltipContent side="top">
+                    <p>Set typing delay</p>
+                  </TooltipContent>
+                </Tooltip>
+                <PopoverContent className="w-80 p-3" align="end">
+                  <label className="text-xs font-medium text-muted-foreground mb-1.5 block">
+                    Typing indicator before this message
+                  </label>
+                  <PacingEditor
+                    pacing={message.pacing}
+                    defaultPacing={theme.pacing ?? DEFAULT_THEME.pacing}
+                    onChange={pacing => setMessagePacing(message.id, pacing)}
+                    idPrefix={`pacing-${message.id}`}
+                  />
+                </PopoverContent>
+              </Popover>}
+
+            {/* Text input toggle */}
+            {!message.isEndpoint && !isCall && <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button variant={message.input ? "secondary" : "ghost"} size="icon" onClick={() => setMessageInput(message.id, message.input ? null : { variableId: null })} tabIndex={internalTabIndex} aria-pressed={!!message.input} aria-label="Learner types an answer" className={cn("h-7 w-7 rounded-lg", message.input ? "bg-info/20 text-info hover:bg-[#A7B5FF] hover:text-[#00178F]" : "text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]")}>
+                    <TextCursorInput className="h-3.5 w-3.5" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent side="top">
+                  <p>{message.input ? "Switch back to response options" : "Ask for a typed answer"}</p>
+                </TooltipContent>
+              </Tooltip>}
+
+            {!isCall && <Button variant={message.isEndpoint ? "secondary" : "ghost"} size="sm" onClick={() => toggleEndpoint(message.id)} tabIndex={internalTabIndex} className={cn("gap-1 text-xs rounded-lg h-7 px-2", message.isEndpoint && "bg-success/20 text-success hover:bg-success/30")}>
               <Flag className="h-3 w-3" />
               {message.isEndpoint ? "End" : "End"}
-            </Button>
+            </Button>}
 
             {!isRoot && <AlertDialog>
                 <AlertDialogTrigger asChild>
@@ -388,15 +532,74 @@ function MessageFlowNodeComponent({
           </div>
         </div>
 
+        {/* Sub-flow call: which sub-flow to play */}
+        {isCall ? <div className="p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Workflow className="h-3.5 w-3.5 text-muted-foreground shrink-0" aria-hidden="true" />
+              {isExpanded ? <Select value={message.call?.subFlowId ?? "none"} onValueChange={val => setSubFlowCall(message.id, val === "none" ? null : val)}>
+                  <SelectTrigger className="h-7 text-xs flex-1 rounded-lg nodrag" tabIndex={internalTabIndex} aria-label="Sub-flow to play">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Choose a sub-flow</SelectItem>
+                    {subFlowList.map(s => <SelectItem key={s.id} value={s.id}>
+                        {s.name || "Untitled sub-flow"}
+                      </SelectItem>)}
+                  </SelectContent>
+                </Select> : <span className="text-sm font-medium truncate">
+                  {calledSubFlow ? calledSubFlow.name || "Untitled sub-flow" : <span className="text-muted-foreground">Choose a sub-flow</span>}
+                </span>}
+            </div>
+            <p className="text-[10px] text-muted-foreground">Plays the sub-flow from its entry message. When it reaches a link that leads nowhere, the conversation continues below.</p>
+          </div> : <>
         {/* Content */}
         <div className="p-3">
-          {selected ? (
-            <Textarea value={localContent} onChange={e => {
-              setLocalContent(e.target.value);
-              updateMessage(message.id, e.target.value);
-              // Resize after local state update
-              requestAnimationFrame(() => autoResizeTextarea());
-            }} onFocus={() => {
+          {/* Sub-flow membership, once the scenario has sub-flows */}
+          {isExpanded && subFlowList.length > 0 && <div className="mb-2 flex items-center gap-2">
+              <Workflow className="h-3.5 w-3.5 text-muted-foreground shrink-0" aria-hidden="true" />
+              <Select value={message.subFlowId ?? "none"} onValueChange={val => setMessageSubFlow(message.id, val === "none" ? null : val)}>
+                <SelectTrigger className="h-7 text-xs flex-1 rounded-lg nodrag" tabIndex={internalTabIndex} aria-label="Sub-flow">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Main conversation</SelectItem>
+                  {subFlowList.map(s => <SelectItem key={s.id} value={s.id}>
+                      In {s.name || "Untitled sub-flow"}
+                    </SelectItem>)}
+                </SelectContent>
+              </Select>
+              {memberSubFlow && <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant={isEntry ? "secondary" : "ghost"} size="icon" onClick={() => updateSubFlow(memberSubFlow.id, { entryMessageId: message.id })} disabled={isEntry} tabIndex={internalTabIndex} aria-label="Start the sub-flow here" className={cn("h-7 w-7 rounded-lg shrink-0", isEntry ? "bg-info/20 text-info" : "text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]")}>
+                      <LogIn className="h-3.5 w-3.5" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="top">
+                    <p>{isEntry ? "Entry message" : "Make this the entry message"}</p>
+                  </TooltipContent>
+                </Tooltip>}
+            </div>}
+
+          {/* Speaker picker, only needed once the scenario has extra speakers */}
+          {speakerList.length > 0 && <div className="mb-2 flex items-center gap-2">
+              <UserRound className="h-3.5 w-3.5 text-muted-foreground shrink-0" aria-hidden="true" />
+              {isExpanded ? <Select value={speaker ? speaker.id : "contact"} onValueChange={val => setMessageSpeaker(message.id, val === "contact" ? null : val)}>
+                  <SelectTrigger className="h-7 text-xs flex-1 rounded-lg nodrag" tabIndex={internalTabIndex} aria-label="Speaker">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="contact">Contact (default)</SelectItem>
+                    {speakerList.map(s => <SelectItem key={s.id} value={s.id}>
+                        {s.name || "Unnamed speaker"}
+                      </SelectItem>)}
+                  </SelectContent>
+                </Select> : <span className="text-xs font-medium text-muted-foreground truncate">
+                  {speaker ? speaker.name || "Unnamed speaker" : "Contact"}
+                </span>}
+            </div>}
+          {isExpanded ? (<>
+            <FormattingToolbar textareaRef={textareaRef} value={localContent} onChange={handleContentChange} tabIndex={internalTabIndex} />
+            <Textarea value={localContent} onChange={e => handleContentChange(e.target.value)} onFocus={() => {
               isFocusedRef.current = true;
               autoResizeTextarea();
             }} onBlur={() => {
@@ -406,12 +609,14 @@ function MessageFlowNodeComponent({
                 updateMessage(message.id, localContent);
               }
             }} placeholder="Enter the contact's message..." tabIndex={internalTabIndex} className="min-h-[60px] resize-none rounded-xl border-border/50 bg-secondary/30 text-sm nodrag overflow-hidden" ref={textareaRef} />
-          ) : (
+          </>) : (
             <div className="text-sm text-foreground rounded-xl border border-border/50 bg-secondary/30 px-3 py-2 min-h-[40px] nodrag">
-              {localContent.length > 100 ? `${localContent.slice(0, 100)}…` : (localContent || <span className="text-muted-foreground">Enter the contact's message...</span>)}
+              {plainContent.length > 100 ? `${plainContent.slice(0, 100)}…` : (plainContent || <span className="text-muted-foreground">Enter the contact's message...</span>)}
             </div>
           )}
 
+          <MessageAttachments message={message} isExpanded={isExpanded} tabIndex={internalTabIndex} />
+
           {/* Status indicators */}
           {!isComplete && !hasNoResponses && <div className="mt-2">
               <span className="inline-flex items-center gap-1.5 rounded-full bg-warning/15 px-2 py-0.5 text-xs font-medium text-warning">
@@ -421,73 +626,35 @@ function MessageFlowNodeComponent({
         </div>
 
         {/* Direct message connection for messages without responses */}
-        {hasNoResponses && (
-          <div className="border-t border-border/30 p-3">
-            <div className="flex items-center justify-between">
-              <span className="text-xs font-medium text-muted-foreground">
-                No responses - connect directly to next message
-              </span>
-              <div className="flex items-center gap-1">
-                {/* Link button for direct connection */}
-                {!message.nextMessageId && !isConnecting && (
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button 
-                        variant="ghost" 
-                        size="icon" 
-                        onClick={() => startConnection(message.id, null)} 
-                        tabIndex={internalTabIndex} 
-                        className="h-7 w-7 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
-                        aria-label="Link to another message"
-                      >
-                        <Link2 className="h-3.5 w-3.5" aria-hidden="true" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent side="top">
-                      <p>Connect to next message</p>
-                    </TooltipContent>
-                  </Tooltip>
-                )}
-                {/* Unlink button when connected */}
-                {message.nextMessageId && (
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button 
-                        variant="ghost" 
-                        size="icon" 
-                        onClick={() => disconnectMessageDirect(message.id)} 
-                        tabIndex={internalTabIndex} 
-                        className="h-7 w-7 rounded-lg text-muted-foreground hover:bg-[#FFA2B6] hover:text-[#00178F]"
-                      >
-                        <Unlink className="h-3.5 w-3.5" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent side="top">
-                      <p>Disconnect</p>
-                    </TooltipContent>
-                  </Tooltip>
-                )}
-              </div>
-            </div>
-            {/* Hidden source handle - required by React Flow for edge rendering */}
-            <Handle 
-              type="source" 
-              position={Position.Right} 
-              id="direct" 
-              className="!w-0 !h-0 !bg-transparent !border-0 !min-w-0 !min-h-0 !opacity-0 !pointer-events-none !right-[-6px] !top-auto !bottom-4"
-            />
-          </div>
-        )}
+        {hasNoResponses && !isTextInput && directConnection}
 
-        {/* Response Options */}
+        {/* Text input settings */}
+        {isTextInput && message.input && <div className="border-t border-border/30 p-3 space-y-2">
+            <span className="text-xs font-medium text-muted-foreground">Learner answer</span>
+            <Select value={message.input.variableId ?? "none"} onValueChange={val => setMessageInput(message.id, { ...message.input!, variableId: val === "none" ? null : val })}>
+              <SelectTrigger className="h-7 text-xs rounded-lg nodrag" tabIndex={internalTabIndex} aria-label="Save answer to variable">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Don't save the answer</SelectItem>
+                {textVariables.map(v => <SelectItem key={v.id} value={v.id}>
+                    Save to {v.name}
+                  </SelectItem>)}
+              </SelectContent>
+            </Select>
+            {textVariables.length === 0 && <p className="text-[10px] text-muted-foreground">Add a text variable to save the answer.</p>}
+            <Input value={message.input.placeholder ?? ""} onChange={e => setMessageInput(message.id, { ...message.input!, placeholder: e.target.value })} placeholder="Input hint, e.g. Type your name..." tabIndex={internalTabIndex} aria-label="Input hint" className="h-7 text-xs rounded-md border-border/30 bg-card nodrag" />
+          </div>}
+
+        {/* Response Options, or routes for the typed answer */}
         {!message.isEndpoint && <div className="border-t border-border/30 p-3 space-y-2" data-walkthrough="response-options-section">
-            <span className="text-xs font-medium text-muted-foreground">Response Options</span>
+            <span className="text-xs font-medium text-muted-foreground">{isTextInput ? "Routes (first match wins)" : "Response Options"}</span>
             
-            {message.responseOptions.map((option, index) => <ResponseOptionRow key={option.id} option={option} index={index} messageId={message.id} variables={variables || {}} pendingConnection={pendingConnection} isConnecting={isConnecting} internalTabIndex={internalTabIndex} isExpanded={selected === true} />)}
+            {message.responseOptions.map((option, index) => <ResponseOptionRow key={option.id} option={option} index={index} messageId={message.id} variables={variables || {}} pendingConnection={pendingConnection} isConnecting={isConnecting} internalTabIndex={internalTabIndex} isExpanded={isExpanded} isRoute={isTextInput} />)}
 
             {/* Add new option */}
             <div className="flex items-center gap-2 rounded-lg border border-dashed border-border/50 p-2" data-walkthrough="add-response-input">
-              <Input value={newOptionText} onChange={e => setNewOptionText(e.target.value)} placeholder="New response..." tabIndex={internalTabIndex} className="flex-1 h-7 text-xs border-0 bg-transparent focus-visible:ring-0 nodrag" onKeyDown={e => {
+              <Input value={newOptionText} onChange={e => setNewOptionText(e.target.value)} placeholder={isTextInput ? "New route..." : "New response..."} tabIndex={internalTabIndex} className="flex-1 h-7 text-xs border-0 bg-transparent focus-visible:ring-0 nodrag" onKeyDown={e => {
             if (e.key === "Enter") {
               e.preventDefault();
               handleAddOption();
@@ -499,6 +666,13 @@ function MessageFlowNodeComponent({
               </Button>
             </div>
           </div>}
+
+        {/* Fallback for answers no route matches */}
+        {isTextInput && directConnection}
+        </>}
+
+        {/* Where the conversation continues after the sub-flow */}
+        {isCall && directConnection}
       </div>
     </TooltipProvider>;
 }
@@ -0,0 +1,86 @@
+/**
+ * @file PacingEditor.tsx
+ * @description Typing delay settings: a fixed delay in seconds, or a words-per-minute typing speed
+ *              that makes longer messages take longer. Optionally offers "scenario default".
+ *
+ * @dependencies scenario types, UI components
+ * @usage Rendered in ThemeTab for the scenario default and in MessageFlowNode's pacing popover
+ */
+
+import { DEFAULT_THEME, MessagePacing, PacingMode } from "@/types/scenario";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const PACING_MODES: Record<PacingMode, string> = {
+  fixed: "Fixed delay",
+  wpm: "Typing speed",
+};
+
+interface PacingEditorProps {
+  pacing: MessagePacing | undefined; // undefined means the scenario default
+  defaultPacing?: MessagePacing; // When given, "Scenario default" can be chosen and is the starting point
+  onChange: (pacing: MessagePacing | null) => void;
+  idPrefix: string;
+  tabIndex?: number;
+}
+
+export function PacingEditor({ pacing, defaultPacing, onChange, idPrefix, tabIndex }: PacingEditorProps) {
+  const base: MessagePacing = pacing ?? defaultPacing ?? DEFAULT_THEME.pacing;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={pacing ? pacing.mode : defaultPacing ? "default" : base.mode}
+        onValueChange={(val) => onChange(val === "default" ? null : { ...base, mode: val as PacingMode })}
+      >
+        <SelectTrigger className="h-8 text-xs flex-1 min-w-0" tabIndex={tabIndex} aria-label="Typing delay">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {defaultPacing && <SelectItem value="default">Scenario default</SelectItem>}
+          {(Object.keys(PACING_MODES) as PacingMode[]).map((mode) => (
+            <SelectItem key={mode} value={mode}>
+              {PACING_MODES[mode]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {pacing || !defaultPacing ? (
+        base.mode === "fixed" ? (
+          <div className="flex items-center gap-1.5 shrink-0">
+            <Input
+              id={`${idPrefix}-delay`}
+              type="number"
+              min={0}
+              max={30}
+              step={0.1}
+              value={base.delayMs / 1000}
+              onChange={(e) => onChange({ ...base, delayMs: Math.max(0, Math.round((Number(e.target.value) || 0) * 1000)) })}
+              tabIndex={tabIndex}
+              aria-label="Delay in seconds"
+              className="h-8 w-20 text-xs"
+            />
+            <span className="text-xs text-muted-foreground">sec</span>
+          </div>
+        ) : (
+          <div className="flex items-center gap-1.5 shrink-0">
+            <Input
+              id={`${idPrefix}-wpm`}
+              type="number"
+              min={10}
+              max={1000}
+              step={10}
+              value={base.wordsPerMinute}
+              onChange={(e) => onChange({ ...base, wordsPerMinute: Math.max(1, Number(e.target.value) || 1) })}
+              tabIndex={tabIndex}
+              aria-label="Words per minute"
+              className="h-8 w-20 text-xs"
+            />
+            <span className="text-xs text-muted-foreground">wpm</span>
+          </div>
+        )
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+/**
+ * @file PreviewDebugDrawer.tsx
+ * @description Debug drawer at the bottom of the live preview: current variable values, how each
+ *              response option's condition evaluated, the path of messages taken so far, stepping
+ *              back one choice, and saving the play-through as a named test case
+ *
+ * @dependencies ScenarioContext, scenarioEngine, previewDebug, conditions, markdown, UI components
+ * @usage Rendered by ChatPreview while a preview is playing
+ */
+
+import { useState } from "react";
+import { useScenario } from "@/context/ScenarioContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Bug, Check, ChevronDown, ChevronUp, Eye, EyeOff, FlaskConical, Undo2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { EngineState, ScenarioEngine } from "@/lib/scenarioEngine";
+import { ConditionTrace, traceOptions } from "@/lib/previewDebug";
+import { formatConditionValue } from "@/lib/conditions";
+import { markdown } from "@/lib/markdown";
+
+interface PreviewDebugDrawerProps {
+  engine: ScenarioEngine;
+  engineState: EngineState | null;
+  path: string[];
+  isOpen: boolean;
+  onToggle: () => void;
+  canStepBack: boolean;
+  onStepBack: () => void;
+  stepCount: number; // Choices and answers recorded since the preview started
+  onSaveTestCase: (name: string) => void;
+}
+
+function ResultIcon({ passed }: { passed: boolean }) {
+  return passed ? (
+    <Check className="h-3 w-3 shrink-0 text-success" aria-label="Passed" />
+  ) : (
+    <X className="h-3 w-3 shrink-0 text-destructive" aria-label="Failed" />
+  );
+}
+
+// Single-item groups read as their only comparison; larger groups list their children indented
+function ConditionTraceView({ trace }: { trace: ConditionTrace }) {
+  if (trace.children.length === 1) return <ConditionTraceView trace={trace.children[0]} />;
+  if (trace.children.length > 1) {
+    return (
+      <div>
+        <p className="flex items-center gap-1.5">
+          <ResultIcon passed={trace.passed} />
+          <span className="font-medium">{trace.logic === "or" ? "Any of" : "All of"}</span>
+        </p>
+        <ul className="ml-1.5 border-l border-border pl-3">
+          {trace.children.map((child, index) => (
+            <li key={index}>
+              <ConditionTraceView trace={child} />
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+  return (
+    <p className="flex items-center gap-1.5">
+      <ResultIcon passed={trace.passed} />
+      <span className="font-mono">{trace.description}</span>
+      {trace.actualValue !== undefined && <span className="text-muted-foreground">(is {trace.actualValue})</span>}
+    </p>
+  );
+}
+
+export function PreviewDebugDrawer({
+  engine,
+  engineState,
+  path,
+  isOpen,
+  onToggle,
+  canStepBack,
+  onStepBack,
+  stepCount,
+  onSaveTestCase,
+}: PreviewDebugDrawerProps) {
+  const { scenario } = useScenario();
+  const [testName, setTestName] = useState<string | null>(null); // null while the save form is closed
+  const messageIds = Object.keys(scenario.messages);
+  const variables = Object.values(scenario.variables ?? {});
+  const currentMessage = engine.getMessage(engineState);
+  const optionTraces = traceOptions(engine, engineState, scenario.variables ?? {});
+
+  const handleSaveTestCase = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (testName === null) return;
+    onSaveTestCase(testName.trim() || `Test ${Object.keys(scenario.testCases ?? {}).length + 1}`);
+    setTestName(null);
+  };
+
+  return (
+    <div className="border-t border-border bg-card font-sans text-xs text-foreground" role="region" aria-label="Preview debugger">
+      <div className="flex items-center gap-2 px-3 py-1.5">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onToggle}
+          aria-expanded={isOpen}
+          className="h-7 gap-1.5 rounded-lg px-2 text-xs text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+        >
+          <Bug className="h-3.5 w-3.5" aria-hidden="true" />
+          Debug
+          {isOpen ? <ChevronDown className="h-3.5 w-3.5" aria-hidden="true" /> : <ChevronUp className="h-3.5 w-3.5" aria-hidden="true" />}
+        </Button>
+        <Button
+          variant={testName !== null ? "secondary" : "ghost"}
+          size="sm"
+          onClick={() => setTestName(testName === null ? "" : null)}
+          aria-expanded={testName !== null}
+          className={cn(
+            "ml-auto h-7 gap-1.5 rounded-lg px-2 text-xs",
+            testName !== null ? "bg-info/20 text-info" : "text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+          )}
+        >
+          <FlaskConical className="h-3.5 w-3.5" aria-hidden="true" />
+          Save as test
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onStepBack}
+          disabled={!canStepBack}
+          className="h-7 gap-1.5 rounded-lg px-2 text-xs text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+        >
+          <Undo2 className="h-3.5 w-3.5" aria-hidden="true" />
+          Step back
+        </Button>
+      </div>
+
+      {testName !== null && (
+        <form onSubmit={handleSaveTestCase} className="space-y-1.5 border-t border-border px-3 py-2">
+          <p className="text-muted-foreground">
+            Replays {stepCount === 1 ? "1 step" : `${stepCount} steps`} from where this preview started and expects it to
+            end where it is now, with the current variable values.
+          </p>
+          <div className="flex gap-2">
+            <Input
+              value={testName}
+              onChange={(e) => setTestName(e.target.value)}
+              placeholder="Test case name..."
+              aria-label="Test case name"
+              className="h-7 rounded-lg text-xs"
+              autoFocus
+            />
+            <Button type="submit" size="sm" className="h-7 rounded-lg text-xs">
+              Save
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {isOpen && (
+        <div className="max-h-64 space-y-3 overflow-y-auto border-t border-border px-3 py-2">
+          <section aria-label="Path taken">
+            <h4 className="mb-1 font-semibold uppercase tracking-wide text-muted-foreground">Path</h4>
+            <ol className="flex flex-wrap items-center gap-1">
+              {path.map((messageId, index) => {
+                const message = scenario.messages[messageId];
+                const text = message ? markdown.toPlainText(message.content) : "Deleted message";
+                return (
+                  <li key={index} className="flex items-center gap-1" title={messageId}>
+                    {index > 0 && <span className="text-muted-foreground" aria-hidden="true">→</span>}
+                    <span
+                      className={cn(
+                        "flex max-w-[10rem] items-center gap-1 rounded-md border border-border px-1.5 py-0.5",
+                        index === path.length - 1 && "border-primary bg-primary/10"
+                      )}
+                    >
+                      <span className="font-bold">{messageIds.indexOf(messageId) + 1 || "?"}</span>
+                      <span className="truncate">{text || "Empty message"}</span>
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+          </section>
+
+          <section aria-label="Variables">
+            <h4 className="mb-1 font-semibold uppercase tracking-wide text-muted-foreground">Variables</h4>
+            {variables.length === 0 ? (
+              <p className="text-muted-foreground">No variables</p>
+            ) : (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+                {variables.map((variable) => {
+                  const value = engineState?.variables[variable.id] ?? variable.defaultValue;
+                  const isChanged = value !== variable.defaultValue;
+                  return (
+                    <div key={variable.id} className="contents">
+                      <dt className="font-mono">{variable.name}</dt>
+                      <dd className="min-w-0 truncate">
+                        <span className={cn("font-mono", isChanged && "font-semibold text-primary")}>{formatConditionValue(value)}</span>
+                        {isChanged && (
+                          <span className="text-muted-foreground"> (default {formatConditionValue(variable.defaultValue)})</span>
+                        )}
+                      </dd>
+                    </div>
+                  );
+                })}
+              </dl>
+            )}
+          </section>
+
+          <section aria-label="Response conditions">
+            <h4 className="mb-1 font-semibold uppercase tracking-wide text-muted-foreground">
+              {currentMessage?.input ? "Answer routes" : "Responses"}
+            </h4>
+            {!currentMessage ? (
+              <p className="text-muted-foreground">The conversation has ended</p>
+            ) : optionTraces.length === 0 ? (
+              <p className="text-muted-foreground">{currentMessage.isEndpoint ? "Endpoint reached" : "No responses on this message"}</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {optionTraces.map(({ option, visible, condition }) => (
+                  <li key={option.id} className={cn("rounded-md border border-border px-2 py-1", !visible && "opacity-70")}>
+                    <p className="flex items-center gap-1.5 font-medium">
+                      {visible ? (
+                        <Eye className="h-3 w-3 shrink-0 text-success" aria-hidden="true" />
+                      ) : (
+                        <EyeOff className="h-3 w-3 shrink-0 text-destructive" aria-hidden="true" />
+                      )}
+                      <span className="truncate">{engine.interpolate(option.text, engineState?.variables ?? {}) || "Empty option"}</span>
+                      <span className="ml-auto shrink-0 text-muted-foreground">
+                        {currentMessage.input ? (visible ? "Can match" : "Skipped") : visible ? "Shown" : "Hidden"}
+                      </span>
+                    </p>
+                    <div className="mt-0.5 pl-4">
+                      {condition ? <ConditionTraceView trace={condition} /> : <p className="text-muted-foreground">No condition</p>}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * @file PreviewFromHereDialog.tsx
+ * @description "Preview from here" button and dialog for a message node: seed each variable, starting
+ *              from its default value, then play the preview from that message
+ *
+ * @dependencies ScenarioContext, scenario types, UI components
+ * @usage Rendered in the MessageFlowNode header
+ */
+
+import { useState } from "react";
+import { useScenario } from "@/context/ScenarioContext";
+import { ScenarioVariable, VariableValue } from "@/types/scenario";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { PlayCircle } from "lucide-react";
+
+interface PreviewFromHereDialogProps {
+  messageId: string;
+  nodeNumber: number;
+  tabIndex?: number;
+}
+
+function getDefaultValues(variables: ScenarioVariable[]): Record<string, VariableValue> {
+  return Object.fromEntries(variables.map((variable) => [variable.id, variable.defaultValue]));
+}
+
+export function PreviewFromHereDialog({ messageId, nodeNumber, tabIndex }: PreviewFromHereDialogProps) {
+  const { scenario, requestPreview } = useScenario();
+  const variables = Object.values(scenario.variables ?? {});
+  const [isOpen, setIsOpen] = useState(false);
+  const [values, setValues] = useState<Record<string, VariableValue>>({});
+
+  // Every opening starts again from the defaults
+  const handleOpenChange = (open: boolean) => {
+    if (open) setValues(getDefaultValues(variables));
+    setIsOpen(open);
+  };
+
+  const setValue = (variableId: string, value: VariableValue) => {
+    setValues((prev) => ({ ...prev, [variableId]: value }));
+  };
+
+  const handleStart = () => {
+    requestPreview(messageId, values);
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DialogTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              tabIndex={tabIndex}
+              aria-label="Preview from here"
+              className="h-7 w-7 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+            >
+              <PlayCircle className="h-3.5 w-3.5" />
+            </Button>
+          </DialogTrigger>
+        </TooltipTrigger>
+        <TooltipContent side="top">
+          <p>Preview from here</p>
+        </TooltipContent>
+      </Tooltip>
+
+      <DialogContent className="sm:max-w-md rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>Preview from message {nodeNumber}</DialogTitle>
+          <DialogDescription>
+            The preview starts at this message with these variable values, so you can test a branch without playing
+            through from the start.
+          </DialogDescription>
+        </DialogHeader>
+
+        {variables.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This scenario has no variables to set.</p>
+        ) : (
+          <div className="flex max-h-[50vh] flex-col gap-3 overflow-y-auto">
+            {variables.map((variable) => {
+              const inputId = `preview-seed-${messageId}-${variable.id}`;
+              const value = values[variable.id] ?? variable.defaultValue;
+              return (
+                <div key={variable.id} className="flex items-center gap-3">
+                  <Label htmlFor={inputId} className="w-32 shrink-0 truncate font-mono text-xs">
+                    {variable.name}
+                  </Label>
+                  {variable.type === "boolean" ? (
+                    <Switch id={inputId} checked={value === true} onCheckedChange={(checked) => setValue(variable.id, checked)} />
+                  ) : variable.type === "number" ? (
+                    <Input
+                      id={inputId}
+                      type="number"
+                      value={String(value)}
+                      onChange={(e) => setValue(variable.id, Number(e.target.value) || 0)}
+                      className="h-9 rounded-lg"
+                    />
+                  ) : (
+                    <Input
+                      id={inputId}
+                      value={String(value)}
+                      onChange={(e) => setValue(variable.id, e.target.value)}
+                      placeholder="Value..."
+                      className="h-9 rounded-lg"
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {variables.length > 0 && (
+            <Button variant="ghost" onClick={() => setValues(getDefaultValues(variables))} className="rounded-xl sm:mr-auto">
+              Reset to defaults
+            </Button>
+          )}
+          <Button variant="secondary" onClick={() => setIsOpen(false)} className="rounded-xl">
+            Cancel
+          </Button>
+          <Button onClick={handleStart} className="rounded-xl">
+            Start preview
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
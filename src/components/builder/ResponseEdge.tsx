@@ -1,7 +1,8 @@
 /**
  * @file ResponseEdge.tsx
  * @description Custom edge component for React Flow that displays bezier curves
- *              with response option labels between connected message nodes
+ *              with response option labels between connected message nodes, highlighted once the
+ *              live preview has followed them
  * 
  * @dependencies @xyflow/react
  * @usage Registered as custom edge type in FlowCanvas
@@ -14,9 +15,11 @@ import {
   EdgeLabelRenderer,
   BaseEdge,
 } from "@xyflow/react";
+import { cn } from "@/lib/utils";
 
 interface ResponseEdgeData {
   label?: string;
+  isTraversed?: boolean; // Followed in the playing preview
 }
 
 function ResponseEdgeComponent({
@@ -47,8 +50,8 @@ function ResponseEdgeComponent({
         id={id}
         path={edgePath}
         style={{
-          stroke: selected ? "hsl(var(--primary))" : "hsl(var(--muted-foreground))",
-          strokeWidth: selected ? 3 : 2.5,
+          stroke: selected ? "hsl(var(--primary))" : edgeData?.isTraversed ? "hsl(var(--success))" : "hsl(var(--muted-foreground))",
+          strokeWidth: selected || edgeData?.isTraversed ? 3 : 2.5,
         }}
       />
       {edgeData?.label && (
@@ -59,7 +62,10 @@ function ResponseEdgeComponent({
               transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`,
               pointerEvents: "all",
             }}
-            className="px-2 py-1 rounded-md bg-card border border-border/50 text-xs text-muted-foreground shadow-sm max-w-[150px] truncate"
+            className={cn(
+              "px-2 py-1 rounded-md bg-card border text-xs shadow-sm max-w-[150px] truncate",
+              edgeData.isTraversed ? "border-success text-success" : "border-border/50 text-muted-foreground"
+            )}
           >
             {edgeData.label}
           </div>
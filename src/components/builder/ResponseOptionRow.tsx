@@ -1,15 +1,17 @@
 /**
  * @file ResponseOptionRow.tsx
  * @description Response option UI component with text editing, variable assignments,
- *              visibility conditions, and connection controls (link/unlink)
+ *              visibility conditions, answer matching for text input routes, and connection
+ *              controls (link/unlink)
  * 
- * @dependencies @xyflow/react, ScenarioContext, scenario types, UI components
+ * @dependencies @xyflow/react, ScenarioContext, ConditionEditor, AssignmentEditor, conditions, assignments,
+ *               scenario types, UI components
  * @usage Rendered by MessageFlowNode for each response option
  */
 
 import { Handle, Position } from "@xyflow/react";
 import { useScenario, PendingConnection } from "@/context/ScenarioContext";
-import { ResponseOption, ScenarioVariable, VariableAssignment, VariableCondition, VariableValue } from "@/types/scenario";
+import { InputMatch, InputMatchType, ResponseOption, ScenarioVariable } from "@/types/scenario";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -18,6 +20,26 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
+import { describeCondition } from "@/lib/conditions";
+import { describeAssignments } from "@/lib/assignments";
+import { ConditionEditor } from "./ConditionEditor";
+import { AssignmentEditor } from "./AssignmentEditor";
+
+const INPUT_MATCH_TYPES: Record<InputMatchType, { label: string; placeholder: string }> = {
+  keywords: { label: "Keywords", placeholder: "yes, sure, of course" },
+  exact: { label: "Exact", placeholder: "yes, no" },
+  regex: { label: "Pattern", placeholder: "^\\d{4}$" },
+};
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
 interface ResponseOptionRowProps {
   option: ResponseOption;
   index: number;
@@ -27,6 +49,7 @@ interface ResponseOptionRowProps {
   isConnecting: boolean;
   internalTabIndex?: number;
   isExpanded?: boolean;
+  isRoute?: boolean; // The option routes a typed answer instead of being a clickable response
 }
 export function ResponseOptionRow({
   option,
@@ -36,89 +59,27 @@ export function ResponseOptionRow({
   pendingConnection,
   isConnecting,
   internalTabIndex,
-  isExpanded
+  isExpanded,
+  isRoute = false
 }: ResponseOptionRowProps) {
   const {
     updateResponseOption,
     deleteResponseOption,
     disconnectOption,
     startConnection,
-    setResponseVariableAssignment,
-    setResponseCondition
+    setResponseAssignments,
+    setResponseCondition,
+    setResponseMatch
   } = useScenario();
   const variableList = Object.values(variables);
   const isPendingSource = pendingConnection?.sourceMessageId === messageId && pendingConnection?.optionId === option.id;
-  const handleSetVariable = (variableId: string | null, value: VariableValue) => {
-    if (variableId) {
-      setResponseVariableAssignment(messageId, option.id, {
-        variableId,
-        value
-      });
-    } else {
-      setResponseVariableAssignment(messageId, option.id, null);
-    }
-  };
-
-  const handleVariableValueChange = (value: VariableValue) => {
-    if (option.setsVariable) {
-      setResponseVariableAssignment(messageId, option.id, {
-        variableId: option.setsVariable.variableId,
-        value
-      });
-    }
-  };
-
-  const getSelectedVariable = () => {
-    if (!option.setsVariable) return null;
-    return variables[option.setsVariable.variableId] || null;
-  };
-
-  const selectedVariable = getSelectedVariable();
-
-  const getDefaultValueForType = (type: string): VariableValue => {
-    switch (type) {
-      case "text": return "";
-      case "number": return 0;
-      default: return true;
-    }
-  };
-
-  const formatDisplayValue = (value: VariableValue): string => {
-    if (typeof value === "boolean") return value ? "true" : "false";
-    if (typeof value === "string") return value || '""';
-    return String(value);
-  };
-  const handleSetCondition = (variableId: string | null, requiredValue: VariableValue) => {
-    if (variableId) {
-      setResponseCondition(messageId, option.id, {
-        variableId,
-        requiredValue
-      });
-    } else {
-      setResponseCondition(messageId, option.id, null);
-    }
-  };
-
-  const handleConditionValueChange = (requiredValue: VariableValue) => {
-    if (option.condition) {
-      setResponseCondition(messageId, option.id, {
-        variableId: option.condition.variableId,
-        requiredValue
-      });
-    }
-  };
-
-  const getConditionVariable = () => {
-    if (!option.condition) return null;
-    return variables[option.condition.variableId] || null;
-  };
-
-  const conditionVariable = getConditionVariable();
+  const match: InputMatch = option.match ?? { type: "keywords", pattern: "" };
+  const isInvalidPattern = match.type === "regex" && !isValidPattern(match.pattern);
   return <TooltipProvider>
       <div className={cn(
         "group relative flex gap-2 rounded-lg bg-secondary/30 p-2 transition-all duration-200",
         isPendingSource && "ring-2 ring-[#d3f3df] bg-[#d3f3df]/20",
-        isExpanded ? "flex-col items-stretch" : "flex-row items-center"
+        isExpanded || isRoute ? "flex-col items-stretch" : "flex-row items-center"
       )}>
         <div className={cn("flex gap-2", isExpanded ? "items-start" : "items-center")}>
           <div className="flex h-5 w-5 items-center justify-center rounded bg-primary/10 text-xs font-semibold text-primary shrink-0">
@@ -139,7 +100,7 @@ export function ResponseOptionRow({
                 e.target.style.height = 'auto';
                 e.target.style.height = e.target.scrollHeight + 'px';
               }}
-              placeholder="Response text..." 
+              placeholder={isRoute ? "Route label..." : "Response text..."} 
               tabIndex={internalTabIndex} 
               className="flex-1 min-h-[40px] text-xs rounded-md border-border/30 bg-card nodrag resize-none overflow-hidden" 
             />
@@ -147,34 +108,57 @@ export function ResponseOptionRow({
             <Input 
               value={option.text} 
               onChange={e => updateResponseOption(messageId, option.id, e.target.value)} 
-              placeholder="Response text..." 
+              placeholder={isRoute ? "Route label..." : "Response text..."} 
               tabIndex={internalTabIndex} 
               className="flex-1 h-7 text-xs rounded-md border-border/30 bg-card nodrag" 
             />
           )}
         </div>
 
-        <div className={cn("flex items-center gap-1", isExpanded && "justify-end")}>
+        {/* Answers that take this route */}
+        {isRoute && <div className="flex items-center gap-1.5">
+            <Select value={match.type} onValueChange={val => setResponseMatch(messageId, option.id, { ...match, type: val as InputMatchType })}>
+              <SelectTrigger className="h-7 text-xs w-[96px] shrink-0 rounded-md border-border/30 bg-card nodrag" tabIndex={internalTabIndex} aria-label="Match answers by">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(INPUT_MATCH_TYPES) as InputMatchType[]).map(type => <SelectItem key={type} value={type}>
+                    {INPUT_MATCH_TYPES[type].label}
+                  </SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Input
+              value={match.pattern}
+              onChange={e => setResponseMatch(messageId, option.id, { ...match, pattern: e.target.value })}
+              placeholder={INPUT_MATCH_TYPES[match.type].placeholder}
+              tabIndex={internalTabIndex}
+              aria-label="Answers to match"
+              aria-invalid={isInvalidPattern}
+              className={cn("flex-1 h-7 text-xs rounded-md border-border/30 bg-card nodrag", isInvalidPattern && "border-destructive")}
+            />
+          </div>}
+
+        <div className={cn("flex items-center gap-1", (isExpanded || isRoute) && "justify-end")}>
           {/* Variable indicators */}
-          {option.setsVariable && variables[option.setsVariable.variableId] && <Tooltip>
+          {option.assignments && option.assignments.length > 0 && <Tooltip>
               <TooltipTrigger asChild>
                 <span className="flex items-center gap-0.5 text-[10px] bg-warning/20 text-warning px-1.5 py-1.5 rounded font-medium">
                   <Zap className="h-2.5 w-2.5" />
                 </span>
               </TooltipTrigger>
               <TooltipContent side="top">
-                <p>Sets: {variables[option.setsVariable.variableId].name} = {formatDisplayValue(option.setsVariable.value)}</p>
+                <p>Sets: {describeAssignments(option.assignments, variables)}</p>
               </TooltipContent>
             </Tooltip>}
 
-          {option.condition && variables[option.condition.variableId] && <Tooltip>
+          {option.condition && <Tooltip>
               <TooltipTrigger asChild>
                 <span className="flex items-center gap-0.5 text-[10px] bg-info/20 text-info px-1.5 py-1.5 rounded font-medium">
                   <Eye className="h-2.5 w-2.5" />
                 </span>
               </TooltipTrigger>
               <TooltipContent side="top">
-                <p>Requires: {variables[option.condition.variableId].name} = {formatDisplayValue(option.condition.requiredValue)}</p>
+                <p>Requires: {describeCondition(option.condition, variables)}</p>
               </TooltipContent>
             </Tooltip>}
 
@@ -189,135 +173,31 @@ export function ResponseOptionRow({
                 </PopoverTrigger>
               </TooltipTrigger>
               <TooltipContent side="top">
-                <p>Configure variable</p>
+                <p>Configure variables</p>
               </TooltipContent>
             </Tooltip>
-            <PopoverContent className="w-72 p-3" align="end">
+            <PopoverContent className="w-96 p-3" align="end">
               <div className="space-y-3">
                 <div>
                   <label className="text-xs font-medium text-muted-foreground mb-1.5 block">
-                    When chosen, set variable
+                    When chosen, update variables
                   </label>
-                  <div className="flex gap-2">
-                    <Select 
-                      value={option.setsVariable?.variableId || "none"} 
-                      onValueChange={val => {
-                        if (val === "none") {
-                          handleSetVariable(null, true);
-                        } else {
-                          const selectedVar = variables[val];
-                          const defaultVal = selectedVar ? getDefaultValueForType(selectedVar.type) : true;
-                          handleSetVariable(val, defaultVal);
-                        }
-                      }}
-                    >
-                      <SelectTrigger className="h-8 text-xs flex-1">
-                        <SelectValue placeholder="None" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="none">None</SelectItem>
-                        {variableList.map(v => <SelectItem key={v.id} value={v.id}>
-                            {v.name} ({v.type})
-                          </SelectItem>)}
-                      </SelectContent>
-                    </Select>
-                    
-                    {/* Value input based on variable type */}
-                    {option.setsVariable && selectedVariable && (
-                      selectedVariable.type === "boolean" ? (
-                        <Select 
-                          value={option.setsVariable.value === true ? "true" : "false"} 
-                          onValueChange={val => handleVariableValueChange(val === "true")}
-                        >
-                          <SelectTrigger className="h-8 text-xs w-20">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="true">true</SelectItem>
-                            <SelectItem value="false">false</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      ) : selectedVariable.type === "text" ? (
-                        <Input
-                          value={String(option.setsVariable.value)}
-                          onChange={e => handleVariableValueChange(e.target.value)}
-                          placeholder="Value..."
-                          className="h-8 text-xs w-24"
-                        />
-                      ) : selectedVariable.type === "number" ? (
-                        <Input
-                          type="number"
-                          value={String(option.setsVariable.value)}
-                          onChange={e => handleVariableValueChange(Number(e.target.value) || 0)}
-                          placeholder="0"
-                          className="h-8 text-xs w-20"
-                        />
-                      ) : null
-                    )}
-                  </div>
+                  <AssignmentEditor
+                    assignments={option.assignments ?? []}
+                    variables={variables}
+                    onChange={assignments => setResponseAssignments(messageId, option.id, assignments)}
+                  />
                 </div>
 
                 <div>
                   <label className="text-xs font-medium text-muted-foreground mb-1.5 block">
                     Show only if
                   </label>
-                  <div className="flex gap-2">
-                    <Select 
-                      value={option.condition?.variableId || "none"} 
-                      onValueChange={val => {
-                        if (val === "none") {
-                          handleSetCondition(null, true);
-                        } else {
-                          const selectedVar = variables[val];
-                          const defaultVal = selectedVar ? getDefaultValueForType(selectedVar.type) : true;
-                          handleSetCondition(val, defaultVal);
-                        }
-                      }}
-                    >
-                      <SelectTrigger className="h-8 text-xs flex-1">
-                        <SelectValue placeholder="Always visible" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="none">Always visible</SelectItem>
-                        {variableList.map(v => <SelectItem key={v.id} value={v.id}>
-                            {v.name} ({v.type})
-                          </SelectItem>)}
-                      </SelectContent>
-                    </Select>
-                    
-                    {/* Condition value input based on variable type */}
-                    {option.condition && conditionVariable && (
-                      conditionVariable.type === "boolean" ? (
-                        <Select 
-                          value={option.condition.requiredValue === true ? "true" : "false"} 
-                          onValueChange={val => handleConditionValueChange(val === "true")}
-                        >
-                          <SelectTrigger className="h-8 text-xs w-20">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="true">= true</SelectItem>
-                            <SelectItem value="false">= false</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      ) : conditionVariable.type === "text" ? (
-                        <Input
-                          value={String(option.condition.requiredValue)}
-                          onChange={e => handleConditionValueChange(e.target.value)}
-                          placeholder="Value..."
-                          className="h-8 text-xs w-24"
-                        />
-                      ) : conditionVariable.type === "number" ? (
-                        <Input
-                          type="number"
-                          value={String(option.condition.requiredValue)}
-                          onChange={e => handleConditionValueChange(Number(e.target.value) || 0)}
-                          placeholder="0"
-                          className="h-8 text-xs w-20"
-                        />
-                      ) : null
-                    )}
-                  </div>
+                  <ConditionEditor
+                    condition={option.condition}
+                    variables={variables}
+                    onChange={condition => setResponseCondition(messageId, option.id, condition)}
+                  />
                 </div>
               </div>
             </PopoverContent>
@@ -0,0 +1,95 @@
+/**
+ * @file StickyNoteNode.tsx
+ * @description Free-floating sticky note on the flow canvas with editable text, a colour choice and
+ *              delete. Notes are for authors and reviewers only and never reach the exported chat.
+ *
+ * @dependencies @xyflow/react, ScenarioContext, UI components
+ * @usage Registered as custom node type in FlowCanvas
+ */
+
+import { memo, useEffect, useRef, useState } from "react";
+import { NodeProps } from "@xyflow/react";
+import { useScenario } from "@/context/ScenarioContext";
+import { StickyNote, StickyNoteColor } from "@/types/scenario";
+import { Button } from "@/components/ui/button";
+import { GripHorizontal, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface StickyNoteNodeData {
+  note: StickyNote;
+}
+
+// Fixed light colours with dark text, so notes read the same in light and dark mode
+const NOTE_COLORS: Record<StickyNoteColor, { label: string; note: string; swatch: string }> = {
+  yellow: { label: "Yellow", note: "bg-yellow-100 border-yellow-300", swatch: "bg-yellow-300" },
+  pink: { label: "Pink", note: "bg-pink-100 border-pink-300", swatch: "bg-pink-300" },
+  blue: { label: "Blue", note: "bg-sky-100 border-sky-300", swatch: "bg-sky-300" },
+  green: { label: "Green", note: "bg-emerald-100 border-emerald-300", swatch: "bg-emerald-300" },
+};
+
+function StickyNoteNodeComponent({ data }: NodeProps) {
+  const { note } = data as unknown as StickyNoteNodeData;
+  const { updateNote, deleteNote } = useScenario();
+  const [localText, setLocalText] = useState(note.text);
+  const isFocusedRef = useRef(false);
+
+  // Sync external changes (undo/redo, imports) unless the author is typing
+  useEffect(() => {
+    if (!isFocusedRef.current) setLocalText(note.text);
+  }, [note.text]);
+
+  const handleTextChange = (value: string) => {
+    setLocalText(value);
+    updateNote(note.id, { text: value });
+  };
+
+  return (
+    <div
+      className={cn("w-52 rounded-lg border shadow-md text-neutral-800", NOTE_COLORS[note.color].note)}
+      role="note"
+      aria-label="Sticky note"
+    >
+      <div className="flex items-center gap-1 px-2 pt-1.5 cursor-grab active:cursor-grabbing">
+        <GripHorizontal className="h-3.5 w-3.5 text-neutral-500 mr-auto" aria-hidden="true" />
+        {(Object.keys(NOTE_COLORS) as StickyNoteColor[]).map((color) => (
+          <button
+            key={color}
+            type="button"
+            onClick={() => updateNote(note.id, { color })}
+            aria-label={`${NOTE_COLORS[color].label} note`}
+            aria-pressed={note.color === color}
+            className={cn(
+              "nodrag h-3.5 w-3.5 rounded-full border border-neutral-400/60",
+              NOTE_COLORS[color].swatch,
+              note.color === color && "ring-2 ring-neutral-600 ring-offset-1"
+            )}
+          />
+        ))}
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => deleteNote(note.id)}
+          aria-label="Delete note"
+          className="nodrag h-6 w-6 rounded-lg text-neutral-500 hover:bg-[#FFA2B6] hover:text-[#00178F]"
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+      <textarea
+        value={localText}
+        onChange={(e) => handleTextChange(e.target.value)}
+        onFocus={() => {
+          isFocusedRef.current = true;
+        }}
+        onBlur={() => {
+          isFocusedRef.current = false;
+        }}
+        placeholder="Write a note..."
+        aria-label="Note text"
+        className="nodrag nowheel block w-full min-h-[96px] resize-y bg-transparent px-3 pb-3 pt-1 text-sm placeholder:text-neutral-500 focus:outline-none"
+      />
+    </div>
+  );
+}
+
+export const StickyNoteNode = memo(StickyNoteNodeComponent);
@@ -0,0 +1,178 @@
+/**
+ * @file SubFlowsPanel.tsx
+ * @description Floating panel for reusable sub-flows: creating them, renaming, picking the entry
+ *              message, adding call nodes that play them, and deleting them
+ *
+ * @dependencies ScenarioContext, FloatingPanel, markdown, UI components
+ * @usage Opened from CanvasToolbar Sub-flows button
+ */
+
+import { useState } from "react";
+import { useScenario } from "@/context/ScenarioContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Workflow, Plus, Trash2, PhoneCall } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { markdown } from "@/lib/markdown";
+import { FloatingPanel } from "./FloatingPanel";
+
+// New entry messages and call nodes appear where the toolbar adds messages
+const NEW_NODE_POSITION = { x: 200, y: 200 };
+
+interface SubFlowsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+export function SubFlowsPanel({
+  isOpen,
+  onClose
+}: SubFlowsPanelProps) {
+  const {
+    scenario,
+    addSubFlow,
+    updateSubFlow,
+    deleteSubFlow,
+    addSubFlowCall
+  } = useScenario();
+  const [newSubFlowName, setNewSubFlowName] = useState("");
+  const subFlows = Object.values(scenario.subFlows || {});
+  const messageList = Object.values(scenario.messages);
+
+  const handleAddSubFlow = () => {
+    if (newSubFlowName.trim()) {
+      addSubFlow(newSubFlowName.trim(), NEW_NODE_POSITION);
+      setNewSubFlowName("");
+    }
+  };
+  const getMessageLabel = (content: string) => {
+    const text = markdown.toPlainText(content);
+    return text.length > 40 ? `${text.slice(0, 40)}…` : text || "Empty message";
+  };
+
+  return <FloatingPanel isOpen={isOpen} onClose={onClose} title="Sub-flows" defaultPosition={{
+    x: 120,
+    y: 140
+  }} width={360}>
+      <div className="p-3 border-b border-border border-0">
+        <p className="text-xs text-muted-foreground">Build an exchange once and play it from several branches. A call node plays the sub-flow from its entry message; links inside it that lead nowhere return to the message after the call.</p>
+      </div>
+
+      {/* Add New Sub-flow */}
+      <div className="p-3 border-b border-border border-0">
+        <div className="flex items-center gap-2">
+          <Input value={newSubFlowName} onChange={e => setNewSubFlowName(e.target.value)} placeholder="New sub-flow name..." className="flex-1 h-9 text-sm" onKeyDown={e => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            handleAddSubFlow();
+          }
+        }} />
+          <Button variant="default" size="sm" onClick={handleAddSubFlow} disabled={!newSubFlowName.trim()} className="h-9 px-4 rounded-lg">
+            <Plus className="h-3.5 w-3.5 mr-1.5" />
+            Add
+          </Button>
+        </div>
+        <p className="mt-2 text-[10px] text-muted-foreground">Or select messages on the canvas and choose "Make sub-flow".</p>
+      </div>
+
+      {/* Sub-flow List */}
+      <div className="max-h-[320px] overflow-y-auto p-2 space-y-2">
+        {subFlows.length === 0 && <div className="text-center py-6 text-sm text-muted-foreground">
+            No sub-flows yet
+          </div>}
+
+        {subFlows.map(subFlow => {
+        const members = messageList.filter(m => m.subFlowId === subFlow.id);
+        const callCount = messageList.filter(m => m.call?.subFlowId === subFlow.id).length;
+        return <div key={subFlow.id} className="group rounded-lg border border-border/50 p-2 space-y-2">
+              <div className="flex items-center gap-2">
+                <Workflow className="h-3.5 w-3.5 text-primary shrink-0" aria-hidden="true" />
+                <Input value={subFlow.name} onChange={e => updateSubFlow(subFlow.id, { name: e.target.value })} aria-label="Sub-flow name" className="h-7 text-xs flex-1" />
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="ghost" size="icon" onClick={() => addSubFlowCall(subFlow.id, NEW_NODE_POSITION)} aria-label={`Add a call to ${subFlow.name}`} className="h-7 w-7 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]">
+                      <PhoneCall className="h-3.5 w-3.5" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="top">
+                    <p>Add a call node</p>
+                  </TooltipContent>
+                </Tooltip>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="icon" aria-label={`Delete ${subFlow.name}`} className="h-7 w-7 rounded-lg text-muted-foreground hover:bg-[#FFA2B6] hover:text-[#00178F]">
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent className="rounded-2xl">
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete this sub-flow?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Its messages stay on the canvas as ordinary messages. Call nodes that play it will be skipped until you choose another sub-flow.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel className="rounded-xl">Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => deleteSubFlow(subFlow.id)} className="rounded-xl bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <span className="text-[10px] text-muted-foreground shrink-0 w-10">Entry</span>
+                <Select value={subFlow.entryMessageId ?? "none"} onValueChange={val => updateSubFlow(subFlow.id, { entryMessageId: val === "none" ? null : val })}>
+                  <SelectTrigger className="h-7 text-xs flex-1 min-w-0 rounded-lg" aria-label={`Entry message of ${subFlow.name}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No entry message</SelectItem>
+                    {members.map(m => <SelectItem key={m.id} value={m.id}>
+                        {getMessageLabel(m.content)}
+                      </SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <p className="text-[10px] text-muted-foreground">
+                {members.length} {members.length === 1 ? "message" : "messages"} · {callCount} {callCount === 1 ? "call" : "calls"}
+              </p>
+            </div>;
+      })}
+      </div>
+    </FloatingPanel>;
+}
+
+// Trigger button component to open the panel
+interface SubFlowsTriggerProps {
+  onClick: () => void;
+  subFlowCount: number;
+}
+export function SubFlowsTrigger({
+  onClick,
+  subFlowCount
+}: SubFlowsTriggerProps) {
+  return <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClick}
+          className="gap-2 rounded-lg h-9 px-3 text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+          tabIndex={0}
+        >
+          <Workflow className="h-4 w-4" />
+          Sub-flows
+          {subFlowCount > 0 && <span className="ml-1 rounded-full text-xs px-1.5 py-0.5 font-medium bg-[#ff708a]/[0.37] text-card-foreground">
+              {subFlowCount}
+            </span>}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent side="bottom">
+        <p>Manage reusable sub-flows</p>
+      </TooltipContent>
+    </Tooltip>;
+}
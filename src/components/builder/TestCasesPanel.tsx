@@ -0,0 +1,213 @@
+/**
+ * @file TestCasesPanel.tsx
+ * @description Floating panel listing the scenario's scripted test cases, re-run against every edit:
+ *              which pass, why the others fail, and renaming, trimming expected values or deleting them
+ *
+ * @dependencies ScenarioContext, scenarioTests, conditions, FloatingPanel, @xyflow/react, UI components
+ * @usage Opened from CanvasToolbar Test cases button; test cases are recorded from the preview debugger
+ */
+
+import { useMemo, useState } from "react";
+import { useReactFlow } from "@xyflow/react";
+import { useScenario } from "@/context/ScenarioContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Check, ChevronDown, ChevronRight, LocateFixed, Trash2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { runTestCases } from "@/lib/scenarioTests";
+import { formatConditionValue } from "@/lib/conditions";
+import { FloatingPanel } from "./FloatingPanel";
+
+interface TestCasesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PANEL_POSITION = { x: 160, y: 140 };
+
+export function TestCasesPanel({ isOpen, onClose }: TestCasesPanelProps) {
+  const { scenario, updateTestCase, deleteTestCase } = useScenario();
+  const { setCenter } = useReactFlow();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const testCases = Object.values(scenario.testCases ?? {});
+  // Only run while the panel is open; results follow every edit
+  const results = useMemo(
+    () => (isOpen ? new Map(runTestCases(scenario).map((result) => [result.testCaseId, result])) : null),
+    [isOpen, scenario]
+  );
+  const nodeNumbers = useMemo(
+    () => new Map(Object.keys(scenario.messages).map((id, index) => [id, index + 1])),
+    [scenario.messages]
+  );
+  const passedCount = results ? [...results.values()].filter((result) => result.passed).length : 0;
+
+  const describeEnd = (messageId: string | null) =>
+    messageId ? `#${nodeNumbers.get(messageId) ?? "?"}` : "the end of the conversation";
+
+  const handleJumpToNode = (messageId: string) => {
+    const message = scenario.messages[messageId];
+    if (!message) return;
+    setCenter(message.position.x + 160, message.position.y + 100, { zoom: 1, duration: 400 });
+  };
+
+  const removeExpectedVariable = (testCaseId: string, variableId: string) => {
+    const { [variableId]: _removed, ...expectedVariables } = scenario.testCases[testCaseId].expectedVariables;
+    updateTestCase(testCaseId, { expectedVariables });
+  };
+
+  return (
+    <FloatingPanel isOpen={isOpen} onClose={onClose} title="Test cases" defaultPosition={PANEL_POSITION} width={380}>
+      <div className="space-y-2 p-2">
+        {testCases.length === 0 ? (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">
+            Play the preview, open Debug and choose Save as test to record a test case
+          </p>
+        ) : (
+          <p className="px-1 text-xs text-muted-foreground" aria-live="polite">
+            {passedCount} of {testCases.length} passing
+          </p>
+        )}
+
+        {testCases.map((testCase) => {
+          const result = results?.get(testCase.id);
+          const isExpanded = expandedId === testCase.id;
+          const expectedVariableIds = Object.keys(testCase.expectedVariables);
+          return (
+            <div key={testCase.id} className="rounded-lg border border-border/50">
+              <div className="flex items-center gap-1.5 px-1.5 py-1">
+                <button
+                  type="button"
+                  onClick={() => setExpandedId(isExpanded ? null : testCase.id)}
+                  aria-expanded={isExpanded}
+                  aria-label={`${isExpanded ? "Hide" : "Show"} details for ${testCase.name}`}
+                  className="flex h-6 w-6 shrink-0 items-center justify-center rounded hover:bg-secondary/50"
+                >
+                  {isExpanded ? (
+                    <ChevronDown className="h-3 w-3" aria-hidden="true" />
+                  ) : (
+                    <ChevronRight className="h-3 w-3" aria-hidden="true" />
+                  )}
+                </button>
+                {result?.passed ? (
+                  <Check className="h-3.5 w-3.5 shrink-0 text-success" aria-label="Passing" />
+                ) : (
+                  <X className="h-3.5 w-3.5 shrink-0 text-destructive" aria-label="Failing" />
+                )}
+                <Input
+                  value={testCase.name}
+                  onChange={(e) => updateTestCase(testCase.id, { name: e.target.value })}
+                  aria-label="Test case name"
+                  className="h-7 min-w-0 flex-1 rounded-lg border-transparent bg-transparent px-1.5 text-xs hover:border-border focus:border-border"
+                />
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteTestCase(testCase.id)}
+                      aria-label={`Delete ${testCase.name}`}
+                      className="h-6 w-6 shrink-0 rounded-lg text-muted-foreground hover:bg-[#FFA2B6] hover:text-[#00178F]"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="top">
+                    <p>Delete test case</p>
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+
+              {result && !result.passed && (
+                <ul className="space-y-0.5 px-3 pb-1.5 text-xs text-destructive">
+                  {result.failures.map((failure) => (
+                    <li key={failure}>{failure}</li>
+                  ))}
+                </ul>
+              )}
+
+              {isExpanded && (
+                <div className="space-y-1.5 border-t border-border/50 px-3 py-2 text-xs">
+                  <p className="flex items-center gap-1">
+                    <span className="text-muted-foreground">Starts at</span>
+                    {testCase.startMessageId ? describeEnd(testCase.startMessageId) : "the start message"}
+                    {Object.keys(testCase.startVariables).length > 0 && (
+                      <span className="text-muted-foreground">with seeded values</span>
+                    )}
+                  </p>
+                  <p>
+                    <span className="text-muted-foreground">Steps </span>
+                    {testCase.steps.length === 0
+                      ? "None"
+                      : testCase.steps
+                          .map((step) => {
+                            if (step.kind === "answer") return `"${step.text}"`;
+                            const option = Object.values(scenario.messages)
+                              .flatMap((message) => message.responseOptions)
+                              .find((o) => o.id === step.optionId);
+                            return option ? `→ ${option.text || "Untitled response"}` : "→ deleted response";
+                          })
+                          .join(", ")}
+                  </p>
+                  <p className="flex items-center gap-1">
+                    <span className="text-muted-foreground">Expects to end at</span>
+                    {describeEnd(testCase.expectedMessageId)}
+                    {testCase.expectedMessageId && scenario.messages[testCase.expectedMessageId] && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleJumpToNode(testCase.expectedMessageId)}
+                            aria-label={`Show message ${describeEnd(testCase.expectedMessageId)}`}
+                            className="h-5 w-5 rounded text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+                          >
+                            <LocateFixed className="h-3 w-3" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent side="top">
+                          <p>Show on canvas</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
+                  </p>
+                  {expectedVariableIds.length > 0 && (
+                    <div>
+                      <p className="text-muted-foreground">With values</p>
+                      <ul>
+                        {expectedVariableIds.map((variableId) => (
+                          <li key={variableId} className="flex items-center gap-1.5">
+                            <span className="font-mono">{scenario.variables[variableId]?.name ?? "deleted variable"}</span>
+                            <span className={cn("font-mono", result?.variables[variableId] !== testCase.expectedVariables[variableId] && "text-destructive")}>
+                              = {formatConditionValue(testCase.expectedVariables[variableId])}
+                            </span>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => removeExpectedVariable(testCase.id, variableId)}
+                              aria-label="Stop checking this value"
+                              className="ml-auto h-5 w-5 rounded text-muted-foreground hover:bg-[#FFA2B6] hover:text-[#00178F]"
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {testCases.length > 0 && (
+          <p className="px-1 text-[11px] text-muted-foreground">
+            Test cases are saved with the scenario. Export it as JSON into src/test/scenarios to run them with npm test.
+          </p>
+        )}
+      </div>
+    </FloatingPanel>
+  );
+}
@@ -1,6 +1,6 @@
 /**
  * @file ThemeTab.tsx
- * @description Theme customization panel for colors, typography, bubble styling, and start screen settings.
+ * @description Theme customization panel for colors, typography, bubble styling, speakers, and start screen settings.
  *              Includes WCAG contrast warnings and live previews.
  * 
  * @dependencies ScenarioContext, contrast utilities, ColorPicker, UI components
@@ -11,15 +11,16 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { useScenario } from "@/context/ScenarioContext";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { useRef } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Upload, X, User, MessageCircle, Play, AlertTriangle, MousePointerClick, Smartphone, Tablet, Square, MessageSquare, FileText, RectangleVertical, RectangleHorizontal } from "lucide-react";
+import { Upload, X, User, MessageCircle, Play, AlertTriangle, MousePointerClick, Smartphone, Tablet, Square, MessageSquare, FileText, RectangleVertical, RectangleHorizontal, Users, Plus, Trash2 } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ColorPicker } from "@/components/ui/color-picker";
 import { cn } from "@/lib/utils";
-import { BubbleBorderRadius, DEFAULT_BORDER_RADIUS, MessageSize, FrameOrientation } from "@/types/scenario";
+import { BubbleBorderRadius, DEFAULT_BORDER_RADIUS, DEFAULT_THEME, MessageSize, FrameOrientation, Speaker } from "@/types/scenario";
 import { Switch } from "@/components/ui/switch";
 import { getContrastLevel } from "@/lib/contrast";
+import { PacingEditor } from "./PacingEditor";
 const DEFAULT_SENDER_RADIUS: BubbleBorderRadius = {
   topLeft: 16,
   topRight: 4,
@@ -103,11 +104,95 @@ function Section({
       {children}
     </section>;
 }
+const getInitials = (name: string) => {
+  return name.split(" ").map(word => word[0]).join("").toUpperCase().slice(0, 2);
+};
+interface SpeakerCardProps {
+  speaker: Speaker;
+  onChange: (updates: Partial<Omit<Speaker, "id">>) => void;
+  onDelete: () => void;
+}
+function SpeakerCard({
+  speaker,
+  onChange,
+  onDelete
+}: SpeakerCardProps) {
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const handleAvatarUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = event => {
+      onChange({
+        avatar: event.target?.result as string
+      });
+    };
+    reader.readAsDataURL(file);
+  };
+  const idPrefix = `speaker-${speaker.id}`;
+  return <div className="flex flex-col gap-3 rounded-xl border border-border/50 bg-secondary/20 p-3">
+      <div className="flex items-center gap-2">
+        <Avatar className="h-8 w-8 shrink-0 ring-2 ring-border/50">
+          {speaker.avatar ? <AvatarImage src={speaker.avatar} alt={speaker.name} /> : null}
+          <AvatarFallback className="font-semibold text-xs" style={{
+          backgroundColor: `hsl(${speaker.avatarBackgroundColor})`,
+          color: `hsl(${speaker.avatarTextColor})`
+        }}>
+            {getInitials(speaker.name)}
+          </AvatarFallback>
+        </Avatar>
+        <Label htmlFor={`${idPrefix}-name`} className="sr-only">Speaker name</Label>
+        <Input id={`${idPrefix}-name`} value={speaker.name} onChange={e => onChange({
+        name: e.target.value
+      })} placeholder="Speaker name" className="h-8 flex-1 rounded-lg border-border/50 bg-background text-sm" />
+        <Button variant="ghost" size="icon" onClick={onDelete} aria-label={`Remove ${speaker.name || "speaker"}`} className="h-8 w-8 rounded-lg text-muted-foreground hover:bg-[#FFA2B6] hover:text-[#00178F] shrink-0">
+          <Trash2 className="h-3.5 w-3.5" aria-hidden="true" />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <input ref={avatarInputRef} type="file" accept="image/*" className="sr-only" onChange={handleAvatarUpload} aria-label={`Upload avatar for ${speaker.name || "speaker"}`} tabIndex={-1} />
+        <Button variant="secondary" size="sm" onClick={() => avatarInputRef.current?.click()} className="gap-1.5 rounded-lg h-8 px-2.5 shrink-0">
+          <Upload className="h-3.5 w-3.5" aria-hidden="true" />
+          Avatar
+        </Button>
+        {speaker.avatar ? <Button variant="ghost" size="sm" onClick={() => onChange({
+        avatar: null
+      })} aria-label="Remove avatar" className="rounded-lg h-8 w-8 p-0 text-muted-foreground hover:text-destructive shrink-0">
+            <X className="h-3.5 w-3.5" aria-hidden="true" />
+          </Button> : <>
+            <ColorPicker id={`${idPrefix}-avatar-bg`} label="Background" value={speaker.avatarBackgroundColor} onChange={value => onChange({
+          avatarBackgroundColor: value
+        })} />
+            <ColorPicker id={`${idPrefix}-avatar-text`} label="Initials" value={speaker.avatarTextColor} onChange={value => onChange({
+          avatarTextColor: value
+        })} />
+          </>}
+      </div>
+
+      <div className="flex gap-4">
+        <ColorPicker id={`${idPrefix}-bubble`} label="Bubble" value={speaker.bubbleColor} onChange={value => onChange({
+        bubbleColor: value
+      })} />
+        <ColorPicker id={`${idPrefix}-text`} label="Text" value={speaker.textColor} onChange={value => onChange({
+        textColor: value
+      })} />
+      </div>
+
+      {!speaker.avatar && <ContrastWarning bgColor={speaker.avatarBackgroundColor} textColor={speaker.avatarTextColor} label="Avatar" />}
+      <ContrastWarning bgColor={speaker.bubbleColor} textColor={speaker.textColor} label="Bubble" />
+    </div>;
+}
 export function ThemeTab() {
   const {
     scenario,
-    updateTheme
+    updateTheme,
+    addSpeaker,
+    updateSpeaker,
+    deleteSpeaker
   } = useScenario();
+  const [newSpeakerName, setNewSpeakerName] = useState("");
+  const speakers = Object.values(scenario.speakers ?? {});
   const {
     theme
   } = scenario;
@@ -127,8 +212,11 @@ export function ThemeTab() {
     };
     reader.readAsDataURL(file);
   };
-  const getInitials = (name: string) => {
-    return name.split(" ").map(word => word[0]).join("").toUpperCase().slice(0, 2);
+  const handleAddSpeaker = () => {
+    if (newSpeakerName.trim()) {
+      addSpeaker(newSpeakerName.trim());
+      setNewSpeakerName("");
+    }
   };
   return <ScrollArea className="h-full">
       <div className="flex flex-col gap-4 p-4">
@@ -301,6 +389,43 @@ export function ThemeTab() {
               </div>
             </div>
 
+            {/* Pacing */}
+            <div>
+              <Label className="mb-1 block text-sm font-semibold">Typing Delay</Label>
+              <span className="mb-3 block text-xs text-muted-foreground">
+                How long the typing indicator shows before each message. Messages can override this.
+              </span>
+              <PacingEditor
+                pacing={theme.pacing ?? DEFAULT_THEME.pacing}
+                onChange={pacing => pacing && updateTheme({ pacing })}
+                idPrefix="theme-pacing"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex flex-col gap-0.5">
+                <Label htmlFor="auto-advance-delay" className="text-sm font-medium">
+                  Auto-advance Pause
+                </Label>
+                <span className="text-xs text-muted-foreground">Before a message without responses moves on</span>
+              </div>
+              <div className="flex items-center gap-1.5 shrink-0">
+                <Input
+                  id="auto-advance-delay"
+                  type="number"
+                  min={0}
+                  max={30}
+                  step={0.1}
+                  value={theme.autoAdvanceDelay !== undefined ? theme.autoAdvanceDelay / 1000 : ""}
+                  placeholder={(theme.conversationType ?? 'chat') === 'regular' ? "0.5" : "0.3"}
+                  onChange={e => updateTheme({
+                    autoAdvanceDelay: e.target.value === "" ? undefined : Math.max(0, Math.round(Number(e.target.value) * 1000))
+                  })}
+                  className="h-8 w-20 text-xs"
+                />
+                <span className="text-xs text-muted-foreground">sec</span>
+              </div>
+            </div>
+
             {/* Orientation */}
             <div>
               <Label id="orientation-label" className="mb-3 block text-sm font-semibold">Orientation</Label>
@@ -489,6 +614,31 @@ export function ThemeTab() {
           </div>
         </Section>
 
+        {/* Speakers */}
+        <Section icon={<Users className="h-4 w-4" />} title="Speakers" id="speakers-heading">
+          <div className="flex flex-col gap-3">
+            <p className="text-xs text-muted-foreground">
+              Add people for group chats, then pick who sends each message on the canvas. Messages without a speaker come from {theme.contactName || "the contact"}.
+            </p>
+
+            {speakers.map(speaker => <SpeakerCard key={speaker.id} speaker={speaker} onChange={updates => updateSpeaker(speaker.id, updates)} onDelete={() => deleteSpeaker(speaker.id)} />)}
+
+            <div className="flex items-center gap-2">
+              <Label htmlFor="new-speaker-name" className="sr-only">New speaker name</Label>
+              <Input id="new-speaker-name" value={newSpeakerName} onChange={e => setNewSpeakerName(e.target.value)} onKeyDown={e => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAddSpeaker();
+              }
+            }} placeholder="e.g. Manager" className="h-9 flex-1 rounded-xl border-border/50 bg-secondary/30 focus:bg-background transition-colors text-sm" />
+              <Button variant="secondary" size="sm" onClick={handleAddSpeaker} disabled={!newSpeakerName.trim()} className="gap-1.5 rounded-lg h-9">
+                <Plus className="h-3.5 w-3.5" aria-hidden="true" />
+                Add
+              </Button>
+            </div>
+          </div>
+        </Section>
+
         {/* Response Panel */}
         <Section icon={<MousePointerClick className="h-4 w-4" />} title="Response Panel" id="response-panel-heading">
           <div className="flex flex-col gap-5">
@@ -1,21 +1,26 @@
 /**
  * @file TopBar.tsx
- * @description Header bar with app branding, import/export JSON buttons, and finalize ZIP dialog
+ * @description Header bar with app branding, library link, import/export JSON buttons, and finalize ZIP dialog
+ *              with package format (web, SCORM, xAPI or cmi5), scoring and LRS settings
  * 
  * @dependencies ScenarioContext, exportZip, UI components
  * @usage Rendered in BuilderLayout header
  */
 
-import { Download, Upload, Package, HelpCircle } from "lucide-react";
+import { Download, Upload, Package, HelpCircle, Library, AlertTriangle } from "lucide-react";
+import { Link } from "react-router-dom";
 import chatScenarioIcon from "@/assets/chatscenario.png";
 import { Button } from "@/components/ui/button";
 import { useScenario } from "@/context/ScenarioContext";
 import { useRef, useState } from "react";
-import { ScenarioData } from "@/types/scenario";
+import { ScenarioData, ExportTarget } from "@/types/scenario";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { generateExportZip } from "@/lib/exportZip";
+import { generateExportZip, stripLrsCredentials } from "@/lib/exportZip";
 import { Separator } from "@/components/ui/separator";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 interface TopBarProps {
   onRestartWalkthrough?: () => void;
 }
@@ -24,8 +29,14 @@ export function TopBar({
 }: TopBarProps) {
   const {
     scenario,
-    importScenario
+    importScenario,
+    updateExportSettings
   } = useScenario();
+  const { exportSettings } = scenario;
+  const isTracked = exportSettings.target !== "web";
+  const isScorm = exportSettings.target === "scorm12" || exportSettings.target === "scorm2004";
+  const isXapi = exportSettings.target === "xapi" || exportSettings.target === "cmi5";
+  const numberVariables = Object.values(scenario.variables).filter(v => v.type === "number");
   const fileInputRef = useRef<HTMLInputElement>(null);
   const {
     toast
@@ -33,7 +44,8 @@ export function TopBar({
   const [isFinalizeDialogOpen, setIsFinalizeDialogOpen] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const handleExportJSON = () => {
-    const dataStr = JSON.stringify(scenario, null, 2);
+    // LRS credentials stay in the builder; exported JSON is shared more widely than the package
+    const dataStr = JSON.stringify(stripLrsCredentials(scenario), null, 2);
     const blob = new Blob([dataStr], {
       type: "application/json"
     });
@@ -99,7 +111,7 @@ export function TopBar({
       URL.revokeObjectURL(url);
       toast({
         title: "Export complete",
-        description: "Your chat scenario has been downloaded as a ZIP file."
+        description: isScorm || exportSettings.target === "cmi5" ? "Your package has been downloaded. Upload the ZIP to your LMS as-is." : "Your chat scenario has been downloaded as a ZIP file."
       });
       setIsFinalizeDialogOpen(false);
     } catch (error) {
@@ -130,6 +142,13 @@ export function TopBar({
             <span>Help</span>
           </Button>
           
+          <Button variant="ghost" size="sm" asChild className="gap-2 rounded-xl text-muted-foreground hover:text-foreground">
+            <Link to="/library">
+              <Library className="h-4 w-4" aria-hidden="true" />
+              <span>Library</span>
+            </Link>
+          </Button>
+          
           <Separator orientation="vertical" className="h-6" />
           
           <div className="flex items-center gap-3" data-walkthrough="import-export">
@@ -156,15 +175,112 @@ export function TopBar({
           <DialogHeader>
             <DialogTitle>Finalize Chat Scenario</DialogTitle>
             <DialogDescription>
-              Do you want to download your chat scenario as a zipped folder? This package can be uploaded to Articulate Rise and similar authoring tools with an embed code feature.
+              {isScorm ? "Download your chat scenario as a SCORM package. Upload the ZIP straight into Moodle, Cornerstone, or any SCORM-compliant LMS." : exportSettings.target === "cmi5" ? "Download your chat scenario as a cmi5 course. The LMS provides the LRS and learner details at launch." : exportSettings.target === "xapi" ? "Download your chat scenario with xAPI tracking. Every message shown and response picked is sent to your Learning Record Store." : "Do you want to download your chat scenario as a zipped folder? This package can be uploaded to Articulate Rise and similar authoring tools with an embed code feature."}
             </DialogDescription>
           </DialogHeader>
+
+          <div className="flex flex-col gap-4">
+            <div>
+              <Label htmlFor="export-target" className="mb-2 block text-sm font-semibold">Package format</Label>
+              <Select value={exportSettings.target} onValueChange={value => updateExportSettings({
+              target: value as ExportTarget
+            })}>
+                <SelectTrigger id="export-target" className="rounded-xl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="web">Web (Rise, embed code)</SelectItem>
+                  <SelectItem value="scorm12">SCORM 1.2</SelectItem>
+                  <SelectItem value="scorm2004">SCORM 2004 (4th edition)</SelectItem>
+                  <SelectItem value="xapi">xAPI (Learning Record Store)</SelectItem>
+                  <SelectItem value="cmi5">cmi5</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isXapi && <div className="flex flex-col gap-3 rounded-xl border border-border/50 bg-secondary/20 p-3">
+                {exportSettings.target === "xapi" && <>
+                    <div>
+                      <Label htmlFor="export-lrs-endpoint" className="mb-1.5 block text-xs font-medium">LRS endpoint</Label>
+                      <Input id="export-lrs-endpoint" value={exportSettings.lrsEndpoint} onChange={e => updateExportSettings({
+                  lrsEndpoint: e.target.value
+                })} placeholder="https://lrs.example.com/xapi" className="h-9 rounded-lg" />
+                    </div>
+                    <div className="flex gap-3">
+                      <div className="flex-1">
+                        <Label htmlFor="export-lrs-key" className="mb-1.5 block text-xs font-medium">Key</Label>
+                        <Input id="export-lrs-key" value={exportSettings.lrsKey} onChange={e => updateExportSettings({
+                    lrsKey: e.target.value
+                  })} autoComplete="off" className="h-9 rounded-lg" />
+                      </div>
+                      <div className="flex-1">
+                        <Label htmlFor="export-lrs-secret" className="mb-1.5 block text-xs font-medium">Secret</Label>
+                        <Input id="export-lrs-secret" type="password" value={exportSettings.lrsSecret} onChange={e => updateExportSettings({
+                    lrsSecret: e.target.value
+                  })} autoComplete="off" className="h-9 rounded-lg" />
+                      </div>
+                    </div>
+                    <div className="flex items-start gap-2 rounded-lg border border-destructive/20 bg-destructive/10 p-2.5" role="note">
+                      <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" aria-hidden="true" />
+                      <p className="text-xs text-muted-foreground">
+                        <span className="font-medium text-destructive">These credentials ship to learners.</span> The key and secret
+                        are written into index.html, where anyone who opens the package can read them. Use a write-only key you
+                        can revoke. Other package formats and exported JSON leave them out.
+                      </p>
+                    </div>
+                  </>}
+                <div>
+                  <Label htmlFor="export-activity-id" className="mb-1.5 block text-xs font-medium">Activity ID (optional)</Label>
+                  <Input id="export-activity-id" value={exportSettings.activityId} onChange={e => updateExportSettings({
+                activityId: e.target.value
+              })} placeholder="https://example.com/activities/onboarding-chat" className="h-9 rounded-lg" />
+                </div>
+              </div>}
+
+            {isTracked && <div className="flex flex-col gap-3 rounded-xl border border-border/50 bg-secondary/20 p-3">
+                <div>
+                  <Label htmlFor="export-score-variable" className="mb-2 block text-sm font-semibold">Score</Label>
+                  <Select value={exportSettings.scoreVariableId ?? "none"} onValueChange={value => updateExportSettings({
+                scoreVariableId: value === "none" ? null : value
+              })}>
+                    <SelectTrigger id="export-score-variable" className="rounded-xl">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not scored (pass on completion)</SelectItem>
+                      {numberVariables.map(v => <SelectItem key={v.id} value={v.id}>
+                          {v.name}
+                        </SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  {numberVariables.length === 0 && <p className="mt-1.5 text-xs text-muted-foreground">
+                      Add a number variable to report a score.
+                    </p>}
+                </div>
+
+                {exportSettings.scoreVariableId && <div className="flex gap-3">
+                    <div className="flex-1">
+                      <Label htmlFor="export-max-score" className="mb-1.5 block text-xs font-medium">Maximum score</Label>
+                      <Input id="export-max-score" type="number" min={1} value={exportSettings.maxScore} onChange={e => updateExportSettings({
+                  maxScore: Math.max(1, Number(e.target.value) || 1)
+                })} className="h-9 rounded-lg" />
+                    </div>
+                    <div className="flex-1">
+                      <Label htmlFor="export-passing-score" className="mb-1.5 block text-xs font-medium">Passing score</Label>
+                      <Input id="export-passing-score" type="number" min={0} value={exportSettings.passingScore} onChange={e => updateExportSettings({
+                  passingScore: Math.max(0, Number(e.target.value) || 0)
+                })} className="h-9 rounded-lg" />
+                    </div>
+                  </div>}
+              </div>}
+          </div>
+
           <DialogFooter className="gap-2 sm:gap-0">
             <Button variant="secondary" onClick={() => setIsFinalizeDialogOpen(false)} className="rounded-xl" disabled={isExporting}>
               No, cancel
             </Button>
             <Button onClick={handleFinalize} className="rounded-xl" disabled={isExporting}>
-              {isExporting ? "Creating..." : "Yes, download ZIP"}
+              {isExporting ? "Creating..." : isScorm ? "Download SCORM package" : exportSettings.target === "cmi5" ? "Download cmi5 package" : "Yes, download ZIP"}
             </Button>
           </DialogFooter>
         </DialogContent>
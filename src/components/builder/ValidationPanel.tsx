@@ -1,9 +1,9 @@
 /**
  * @file ValidationPanel.tsx
- * @description Floating panel that lists unconnected response options.
- *              Users can click items to jump to the relevant message node on the canvas.
+ * @description Floating panel that lists scenario validation issues grouped by type, with severity
+ *              levels. Users can click items to jump to the relevant message node on the canvas.
  * 
- * @dependencies ScenarioContext, @xyflow/react, UI components
+ * @dependencies ScenarioContext, scenarioAnalysis, @xyflow/react, UI components
  * @usage Rendered in FlowCanvas when validation mode is active
  */
 
@@ -11,26 +11,32 @@ import { useMemo, useState, useRef, useCallback, useEffect } from "react";
 import { useReactFlow } from "@xyflow/react";
 import { useScenario } from "@/context/ScenarioContext";
 import { Button } from "@/components/ui/button";
-import { X, GripVertical, AlertTriangle } from "lucide-react";
+import { X, GripVertical, AlertTriangle, AlertCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
-
-interface ValidationIssue {
-  messageId: string;
-  messageNumber: number;
-  messageContent: string;
-  type: "response" | "direct";
-  optionText?: string;
-  optionId?: string;
-}
+import {
+  ValidationIssue,
+  ValidationIssueType,
+  ValidationSeverity,
+  INTERPOLATED_THEME_FIELDS,
+  VALIDATION_ISSUE_TYPES,
+} from "@/lib/scenarioAnalysis";
 
 interface ValidationPanelProps {
   isOpen: boolean;
   onClose: () => void;
-  invalidMessageIds: Set<string>;
+  issues: ValidationIssue[];
+}
+
+function SeverityIcon({ severity, className }: { severity: ValidationSeverity; className?: string }) {
+  return severity === "error" ? (
+    <AlertCircle className={cn("text-destructive", className)} aria-label="Error" />
+  ) : (
+    <AlertTriangle className={cn("text-warning", className)} aria-label="Warning" />
+  );
 }
 
-export function ValidationPanel({ isOpen, onClose, invalidMessageIds }: ValidationPanelProps) {
+export function ValidationPanel({ isOpen, onClose, issues }: ValidationPanelProps) {
   const { scenario } = useScenario();
   const { setCenter } = useReactFlow();
   const [isDragging, setIsDragging] = useState(false);
@@ -38,42 +44,56 @@ export function ValidationPanel({ isOpen, onClose, invalidMessageIds }: Validati
   const dragOffset = useRef({ x: 0, y: 0 });
   const panelRef = useRef<HTMLDivElement>(null);
 
-  const issues: ValidationIssue[] = useMemo(() => {
-    const result: ValidationIssue[] = [];
-    const messageList = Object.values(scenario.messages);
-
-    messageList.forEach((message, index) => {
-      // Check response options without connections
-      message.responseOptions.forEach((option) => {
-        if (!option.nextMessageId) {
-          result.push({
-            messageId: message.id,
-            messageNumber: index + 1,
-            messageContent: message.content,
-            type: "response",
-            optionText: option.text,
-            optionId: option.id,
-          });
-        }
-      });
+  // Node numbers match the badges on the canvas
+  const messageNumbers = useMemo(() => {
+    const numbers = new Map<string, number>();
+    Object.keys(scenario.messages).forEach((id, index) => numbers.set(id, index + 1));
+    return numbers;
+  }, [scenario.messages]);
 
-      // Check messages with no responses and no direct connection and not an endpoint
-      if (
-        message.responseOptions.length === 0 &&
-        !message.nextMessageId &&
-        !message.isEndpoint
-      ) {
-        result.push({
-          messageId: message.id,
-          messageNumber: index + 1,
-          messageContent: message.content,
-          type: "direct",
-        });
+  // Errors first, then warnings, keeping the order issue types are declared in
+  const groups = useMemo(() => {
+    const types = Object.keys(VALIDATION_ISSUE_TYPES) as ValidationIssueType[];
+    return types
+      .map((type) => ({ type, ...VALIDATION_ISSUE_TYPES[type], items: issues.filter((issue) => issue.type === type) }))
+      .filter((group) => group.items.length > 0)
+      .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1));
+  }, [issues]);
+
+  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+
+  const describeIssue = (issue: ValidationIssue): string => {
+    const option = issue.optionId
+      ? scenario.messages[issue.messageId]?.responseOptions.find((o) => o.id === issue.optionId)
+      : undefined;
+    const optionLabel = `"${option?.text || "Untitled response"}"`;
+    switch (issue.type) {
+      case "unconnected-option":
+        return `${optionLabel} not connected`;
+      case "missing-connection":
+        return "No connection or endpoint";
+      case "missing-fallback":
+        return "No fallback for unmatched answers";
+      case "trapped-loop":
+        return `Loop through ${(issue.relatedMessageIds ?? [issue.messageId])
+          .map((id) => `#${messageNumbers.get(id)}`)
+          .join(" → ")}`;
+      case "unreachable":
+        return "Not reachable from the start";
+      case "no-endpoint":
+        return "No path to an endpoint";
+      case "impossible-condition":
+        return issue.optionId ? `${optionLabel} can never be shown` : "Message can never be shown";
+      case "unknown-variable": {
+        const where = issue.themeField
+          ? INTERPOLATED_THEME_FIELDS[issue.themeField]
+          : issue.optionId ? optionLabel : "Message";
+        return `${where} uses ${(issue.references ?? []).map((name) => `{{${name}}}`).join(", ")}`;
       }
-    });
-
-    return result;
-  }, [scenario.messages]);
+      case "empty-call":
+        return "Nothing to play";
+    }
+  };
 
   const handleJumpToNode = useCallback(
     (messageId: string) => {
@@ -110,7 +130,7 @@ export function ValidationPanel({ isOpen, onClose, invalidMessageIds }: Validati
       const parentHeight = parent?.clientHeight || window.innerHeight;
       const newX = e.clientX - dragOffset.current.x;
       const newY = e.clientY - dragOffset.current.y;
-      const maxX = parentWidth - (panelRef.current.offsetWidth || 280);
+      const maxX = parentWidth - (panelRef.current.offsetWidth || 320);
       const maxY = parentHeight - (panelRef.current.offsetHeight || 200);
       setPosition({
         x: Math.max(0, Math.min(newX, maxX)),
@@ -141,7 +161,7 @@ export function ValidationPanel({ isOpen, onClose, invalidMessageIds }: Validati
     <div
       ref={panelRef}
       className={cn(
-        "absolute z-20 w-72 bg-card border border-border rounded-xl shadow-lg animate-in slide-in-from-top-2",
+        "absolute z-20 w-80 bg-card border border-border rounded-xl shadow-lg animate-in slide-in-from-top-2",
         isDragging && "cursor-grabbing select-none"
       )}
       style={{ left: position.x, top: position.y }}
@@ -155,7 +175,11 @@ export function ValidationPanel({ isOpen, onClose, invalidMessageIds }: Validati
         >
           <GripVertical className="h-3.5 w-3.5" />
         </button>
-        <AlertTriangle className="h-4 w-4 text-destructive" />
+        {issues.length > 0 ? (
+          <SeverityIcon severity={errorCount > 0 ? "error" : "warning"} className="h-4 w-4" />
+        ) : (
+          <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+        )}
         <span className="text-sm font-semibold flex-1">
           Validation {issues.length > 0 && `(${issues.length})`}
         </span>
@@ -171,40 +195,57 @@ export function ValidationPanel({ isOpen, onClose, invalidMessageIds }: Validati
       </div>
 
       {/* Content */}
-      <ScrollArea className="max-h-64">
-        <div className="p-2 space-y-1">
+      <ScrollArea className="max-h-80">
+        <div className="p-2 space-y-3">
           {issues.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-6 text-center">
               <span className="text-2xl mb-2">✅</span>
               <span className="text-sm font-medium text-foreground">All connected!</span>
               <span className="text-xs text-muted-foreground mt-0.5">
-                Every response has a connection.
+                Every message can be reached and finished.
               </span>
             </div>
           ) : (
-            issues.map((issue, i) => (
-              <button
-                key={`${issue.messageId}-${issue.optionId || "direct"}-${i}`}
-                onClick={() => handleJumpToNode(issue.messageId)}
-                className="w-full text-left rounded-lg p-2 hover:bg-destructive/10 transition-colors group"
-              >
-                <div className="flex items-start gap-2">
-                  <div className="flex h-5 w-5 items-center justify-center rounded bg-destructive/15 text-[10px] font-bold text-destructive shrink-0 mt-0.5">
-                    {issue.messageNumber}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <p className="text-xs font-medium text-foreground truncate">
-                      {issue.type === "response"
-                        ? `"${issue.optionText || "Untitled response"}" not connected`
-                        : "No connection or endpoint"}
-                    </p>
-                    <p className="text-[10px] text-muted-foreground truncate mt-0.5">
-                      {issue.messageContent.slice(0, 60)}
-                      {issue.messageContent.length > 60 ? "…" : ""}
-                    </p>
-                  </div>
+            groups.map((group) => (
+              <section key={group.type} aria-label={group.label}>
+                <div className="flex items-center gap-1.5 px-2 pb-1">
+                  <SeverityIcon severity={group.severity} className="h-3.5 w-3.5 shrink-0" />
+                  <h3 className="text-xs font-semibold text-foreground flex-1">{group.label}</h3>
+                  <span className="text-[10px] font-medium text-muted-foreground">{group.items.length}</span>
                 </div>
-              </button>
+                <p className="px-2 pb-1 text-[10px] text-muted-foreground">{group.description}</p>
+                {group.items.map((issue, i) => {
+                  const content = scenario.messages[issue.messageId]?.content ?? "";
+                  return (
+                    <button
+                      key={`${issue.messageId}-${issue.optionId || "message"}-${i}`}
+                      onClick={() => handleJumpToNode(issue.messageId)}
+                      className={cn(
+                        "w-full text-left rounded-lg p-2 transition-colors group",
+                        issue.severity === "error" ? "hover:bg-destructive/10" : "hover:bg-warning/10"
+                      )}
+                    >
+                      <div className="flex items-start gap-2">
+                        <div
+                          className={cn(
+                            "flex h-5 w-5 items-center justify-center rounded text-[10px] font-bold shrink-0 mt-0.5",
+                            issue.severity === "error" ? "bg-destructive/15 text-destructive" : "bg-warning/15 text-warning"
+                          )}
+                        >
+                          {messageNumbers.get(issue.messageId)}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs font-medium text-foreground truncate">{describeIssue(issue)}</p>
+                          <p className="text-[10px] text-muted-foreground truncate mt-0.5">
+                            {content.slice(0, 60)}
+                            {content.length > 60 ? "…" : ""}
+                          </p>
+                        </div>
+                      </div>
+                    </button>
+                  );
+                })}
+              </section>
             ))
           )}
         </div>
@@ -3,7 +3,7 @@
  * @description Floating panel for creating and managing scenario variables (boolean, text, number)
  *              with type selection, editing, and delete confirmation for in-use variables
  * 
- * @dependencies ScenarioContext, FloatingPanel, scenario types, UI components
+ * @dependencies ScenarioContext, FloatingPanel, conditions, scenario types, UI components
  * @usage Opened from CanvasToolbar Variables button
  */
 
@@ -15,7 +15,8 @@ import { ToggleLeft, Plus, Trash2, X, Type, Hash } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { cn } from "@/lib/utils";
-import type { VariableType } from "@/types/scenario";
+import type { Condition, VariableType } from "@/types/scenario";
+import { getConditionLeaves } from "@/lib/conditions";
 import { FloatingPanel } from "./FloatingPanel";
 const VARIABLE_TYPES = [{
   id: "boolean" as const,
@@ -83,9 +84,11 @@ export function VariablesPanel({
 
   // Check if a variable is in use
   const isVariableInUse = (variableId: string) => {
+    const usesVariable = (condition: Condition | undefined) =>
+      getConditionLeaves(condition).some(leaf => leaf.variableId === variableId);
     return Object.values(scenario.messages).some(msg => {
-      if (msg.condition?.variableId === variableId) return true;
-      return msg.responseOptions.some(opt => opt.condition?.variableId === variableId || opt.setsVariable?.variableId === variableId);
+      if (usesVariable(msg.condition)) return true;
+      return msg.responseOptions.some(opt => usesVariable(opt.condition) || opt.assignments?.some(a => a.variableId === variableId));
     });
   };
   return <FloatingPanel isOpen={isOpen} onClose={onClose} title="Variables" defaultPosition={{
@@ -93,7 +96,7 @@ export function VariablesPanel({
     y: 120
   }} width={340}>
       <div className="p-3 border-b border-border border-0">
-        <p className="text-xs text-muted-foreground">Create variables to control response visibility and branching logic.</p>
+        <p className="text-xs text-muted-foreground">Create variables to control response visibility and branching logic. Show a value in any message, response or start screen text with {"{{"}name{"}}"}.</p>
       </div>
 
       {/* Type Selector */}
@@ -0,0 +1,264 @@
+/**
+ * @file ScenarioLibrary.tsx
+ * @description Scenario library view listing every scenario stored in IndexedDB with actions to
+ *              create, open, duplicate, rename, and delete
+ *
+ * @dependencies ScenarioContext, scenarioLibrary, @tanstack/react-query, react-router-dom, UI components
+ * @usage Rendered by the Library page at the "/library" route
+ */
+
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowLeft, Copy, FolderOpen, Pencil, Plus, Trash2, MessageSquare } from "lucide-react";
+import { useScenario } from "@/context/ScenarioContext";
+import {
+  ScenarioSummary,
+  deleteScenario,
+  duplicateScenario,
+  listScenarios,
+  renameScenario,
+  saveScenario,
+} from "@/lib/scenarioLibrary";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+const LIBRARY_QUERY_KEY = ["scenario-library"];
+
+export function ScenarioLibrary() {
+  const { scenario, setName, openScenario, createNewScenario } = useScenario();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const { data: summaries = [], isLoading, isError } = useQuery({
+    queryKey: LIBRARY_QUERY_KEY,
+    queryFn: listScenarios,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: LIBRARY_QUERY_KEY });
+
+  // The open scenario may have unsaved edits in memory, so prefer its live name
+  const getDisplayName = (summary: ScenarioSummary) =>
+    summary.id === scenario.id ? scenario.name : summary.name;
+
+  const handleOpen = async (id: string) => {
+    const opened = await openScenario(id);
+    if (!opened) {
+      toast({ title: "Could not open scenario", description: "It may have been deleted.", variant: "destructive" });
+      refresh();
+      return;
+    }
+    navigate("/");
+  };
+
+  const handleCreate = async () => {
+    await createNewScenario();
+    navigate("/");
+  };
+
+  const handleDuplicate = async (id: string) => {
+    if (id === scenario.id) {
+      await saveScenario(scenario);
+    }
+    const copy = await duplicateScenario(id);
+    if (copy) {
+      toast({ title: "Scenario duplicated", description: `Created "${copy.name}".` });
+    }
+    refresh();
+  };
+
+  const handleStartRename = (summary: ScenarioSummary) => {
+    setEditingId(summary.id);
+    setEditingName(getDisplayName(summary));
+  };
+
+  const handleSaveRename = async () => {
+    const name = editingName.trim();
+    if (editingId && name) {
+      if (editingId === scenario.id) {
+        // Route through the reducer so the autosave doesn't overwrite the new name
+        setName(name);
+        await saveScenario({ ...scenario, name });
+      } else {
+        await renameScenario(editingId, name);
+      }
+      refresh();
+    }
+    setEditingId(null);
+    setEditingName("");
+  };
+
+  const handleDelete = async (id: string) => {
+    if (id === scenario.id) {
+      // Switch away first so the autosave can't write the deleted scenario back
+      const fallback = summaries.find((s) => s.id !== id);
+      if (fallback) {
+        await openScenario(fallback.id);
+      } else {
+        await createNewScenario();
+      }
+    }
+    await deleteScenario(id);
+    refresh();
+  };
+
+  return (
+    <div className="flex h-screen flex-col bg-background">
+      <header className="flex h-16 items-center justify-between border-b border-border/50 bg-card/80 backdrop-blur-xl px-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild className="rounded-xl" aria-label="Back to builder">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" aria-hidden="true" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-lg font-semibold text-foreground tracking-tight">Scenario Library</h1>
+            <p className="text-xs text-muted-foreground">Scenarios are saved in this browser.</p>
+          </div>
+        </div>
+
+        <Button variant="default" size="sm" onClick={handleCreate} className="gap-2 rounded-xl shadow-lg shadow-primary/25">
+          <Plus className="h-4 w-4" aria-hidden="true" />
+          <span>New Scenario</span>
+        </Button>
+      </header>
+
+      <ScrollArea className="flex-1">
+        <main className="mx-auto max-w-4xl p-6">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground" role="status">Loading library…</p>
+          ) : isError ? (
+            <p className="text-sm text-destructive" role="alert">
+              The scenario library could not be read. Your browser may block storage for this site.
+            </p>
+          ) : summaries.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16 text-center">
+              <MessageSquare className="h-10 w-10 text-muted-foreground mb-3" aria-hidden="true" />
+              <p className="text-sm font-medium text-foreground">No scenarios yet</p>
+              <p className="text-xs text-muted-foreground mt-1">Create one to get started.</p>
+            </div>
+          ) : (
+            <ul className="flex flex-col gap-2" aria-label="Saved scenarios">
+              {summaries.map((summary) => {
+                const isCurrent = summary.id === scenario.id;
+                const displayName = getDisplayName(summary);
+                const updatedAt = isCurrent ? scenario.updatedAt : summary.updatedAt;
+                return (
+                  <li
+                    key={summary.id}
+                    className={cn(
+                      "flex items-center gap-4 rounded-2xl border bg-card p-4 shadow-sm transition-shadow hover:shadow-md",
+                      isCurrent ? "border-primary/50" : "border-border/50"
+                    )}
+                  >
+                    <div className="flex-1 min-w-0">
+                      {editingId === summary.id ? (
+                        <Input
+                          value={editingName}
+                          onChange={(e) => setEditingName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") handleSaveRename();
+                            if (e.key === "Escape") setEditingId(null);
+                          }}
+                          onBlur={handleSaveRename}
+                          className="h-8 text-sm"
+                          aria-label="Scenario name"
+                          autoFocus
+                        />
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <h2 className="text-sm font-semibold text-foreground truncate">{displayName}</h2>
+                          {isCurrent && (
+                            <span className="rounded-full bg-primary/10 px-2 py-0.5 text-[10px] font-medium text-primary">
+                              Open
+                            </span>
+                          )}
+                        </div>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {summary.messageCount} {summary.messageCount === 1 ? "message" : "messages"}
+                        {updatedAt && ` · edited ${formatDistanceToNow(new Date(updatedAt), { addSuffix: true })}`}
+                      </p>
+                    </div>
+
+                    <div className="flex items-center gap-1">
+                      <Button variant="secondary" size="sm" onClick={() => handleOpen(summary.id)} className="gap-1.5 rounded-lg">
+                        <FolderOpen className="h-3.5 w-3.5" aria-hidden="true" />
+                        Open
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleStartRename(summary)}
+                        className="h-8 w-8 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+                        aria-label={`Rename ${displayName}`}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDuplicate(summary.id)}
+                        className="h-8 w-8 rounded-lg text-muted-foreground hover:bg-[#A7B5FF] hover:text-[#00178F]"
+                        aria-label={`Duplicate ${displayName}`}
+                      >
+                        <Copy className="h-3.5 w-3.5" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 rounded-lg text-muted-foreground hover:bg-[#FFA2B6] hover:text-[#00178F]"
+                            aria-label={`Delete ${displayName}`}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent className="rounded-2xl">
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete "{displayName}"?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This removes the scenario from the library. Export it as JSON first if you want to keep a copy.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel className="rounded-xl">Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleDelete(summary.id)}
+                              className="rounded-xl bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </main>
+      </ScrollArea>
+    </div>
+  );
+}
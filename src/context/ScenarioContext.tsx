@@ -1,13 +1,14 @@
 /**
  * @file ScenarioContext.tsx
  * @description Global state management for chat scenarios using React Context and useReducer.
- *              Handles messages, themes, variables, connections, and localStorage persistence.
+ *              Handles messages, themes, variables, speakers, sub-flows, sticky notes, comment threads,
+ *              canvas frames and scripted test cases, connections, undo/redo history, and autosave into the IndexedDB scenario library.
  * 
- * @dependencies React, scenario types
+ * @dependencies React, scenario types, conditions, clipboard, annotations, frames, history, scenarioLibrary
  * @usage Wrap app in ScenarioProvider; consume with useScenario hook
  */
 
-import React, { createContext, useContext, useReducer, useCallback, useEffect, useState } from "react";
+import React, { createContext, useContext, useReducer, useCallback, useEffect, useRef, useState } from "react";
 import {
   ScenarioData,
   ChatTheme,
@@ -15,14 +16,41 @@ import {
   ResponseOption,
   NodePosition,
   ScenarioVariable,
-  VariableCondition,
+  Condition,
   VariableAssignment,
+  InputMatch,
+  TextInputSettings,
+  MessageAttachment,
+  ScenarioAsset,
+  MessagePacing,
+  SubFlow,
+  createSubFlow,
+  StickyNote,
+  createStickyNote,
+  createCommentThread,
+  createThreadComment,
+  CanvasFrame,
+  createFrame,
+  ScenarioTestCase,
+  VariableValue,
   DEFAULT_THEME,
   createEmptyScenario,
   createMessage,
   createResponseOption,
   createVariable,
+  Speaker,
+  createSpeaker,
+  ExportSettings,
+  DEFAULT_EXPORT_SETTINGS,
 } from "@/types/scenario";
+import { removeVariableFromCondition } from "@/lib/conditions";
+import { removeVariableFromAssignments } from "@/lib/assignments";
+import { findUnusedAssetIds } from "@/lib/assets";
+import type { PastePlan } from "@/lib/clipboard";
+import { pruneCommentThreads } from "@/lib/annotations";
+import type { FrameBounds } from "@/lib/frames";
+import { createHistoryReducer, createHistoryState, DEFAULT_HISTORY_LIMIT } from "@/lib/history";
+import { CURRENT_SCENARIO_KEY, getScenario, listScenarios, migrateLegacyAutosave, saveScenario } from "@/lib/scenarioLibrary";
 
 function migrateScenario(input: any): ScenarioData {
   const scenario = input as Partial<ScenarioData>;
@@ -41,6 +69,7 @@ function migrateScenario(input: any): ScenarioData {
     startScreenSubtitleColor: existingTheme?.startScreenSubtitleColor ?? DEFAULT_THEME.startScreenSubtitleColor,
     startButtonText: existingTheme?.startButtonText ?? DEFAULT_THEME.startButtonText,
     showResetButton: existingTheme?.showResetButton ?? DEFAULT_THEME.showResetButton,
+    pacing: existingTheme?.pacing ?? DEFAULT_THEME.pacing,
   };
 
   // Migrate existing variables to include type field
@@ -52,10 +81,33 @@ function migrateScenario(input: any): ScenarioData {
     };
   });
 
+  // Options used to hold a single `setsVariable`; they now hold a list of assignments
+  type LegacyResponseOption = ResponseOption & { setsVariable?: VariableAssignment };
+  const migratedMessages: Record<string, ChatMessage> = {};
+  Object.entries(scenario.messages ?? {}).forEach(([id, message]) => {
+    migratedMessages[id] = {
+      ...message,
+      responseOptions: message.responseOptions.map((option: LegacyResponseOption) => {
+        if (!option.setsVariable) return option;
+        const { setsVariable, ...rest } = option;
+        return { ...rest, assignments: rest.assignments ?? [setsVariable] };
+      }),
+    };
+  });
+
   return {
     ...(scenario as ScenarioData),
     theme,
+    messages: migratedMessages,
     variables: migratedVariables,
+    speakers: scenario.speakers ?? {},
+    assets: scenario.assets ?? {},
+    subFlows: scenario.subFlows ?? {},
+    notes: scenario.notes ?? {},
+    comments: scenario.comments ?? {},
+    frames: scenario.frames ?? {},
+    testCases: scenario.testCases ?? {},
+    exportSettings: { ...DEFAULT_EXPORT_SETTINGS, ...scenario.exportSettings },
   };
 }
 
@@ -65,6 +117,19 @@ export interface PendingConnection {
   optionId: string | null; // null for direct message-to-message connections
 }
 
+// A request from the canvas for the preview to play from a message with seeded variable values
+export interface PreviewRequest {
+  messageId: string;
+  variables: Record<string, VariableValue>;
+}
+
+// Where a playing preview is, so the canvas can highlight it. Links are the connections followed so
+// far: a response option id, or "direct" for a message's own connection.
+export interface PreviewTrail {
+  currentMessageId: string | null;
+  links: { messageId: string; handle: string }[];
+}
+
 // Action types
 type ScenarioAction =
   | { type: "SET_SCENARIO"; payload: ScenarioData }
@@ -74,7 +139,10 @@ type ScenarioAction =
   | { type: "ADD_MESSAGE_AT_POSITION"; payload: { content: string; position: NodePosition } }
   | { type: "UPDATE_MESSAGE"; payload: { id: string; content: string } }
   | { type: "UPDATE_NODE_POSITION"; payload: { id: string; position: NodePosition } }
+  | { type: "SET_NODE_POSITIONS"; payload: { positions: Record<string, NodePosition>; frames?: Record<string, FrameBounds> } }
   | { type: "DELETE_MESSAGE"; payload: string }
+  | { type: "DELETE_MESSAGES"; payload: string[] }
+  | { type: "PASTE_MESSAGES"; payload: PastePlan }
   | { type: "TOGGLE_ENDPOINT"; payload: string }
   | { type: "ADD_RESPONSE_OPTION"; payload: { messageId: string; text: string } }
   | { type: "UPDATE_RESPONSE_OPTION"; payload: { messageId: string; optionId: string; text: string } }
@@ -90,9 +158,44 @@ type ScenarioAction =
   | { type: "ADD_VARIABLE"; payload: { name: string; type: import("@/types/scenario").VariableType } }
   | { type: "UPDATE_VARIABLE"; payload: { id: string; name: string } }
   | { type: "DELETE_VARIABLE"; payload: string }
-  | { type: "SET_RESPONSE_VARIABLE_ASSIGNMENT"; payload: { messageId: string; optionId: string; assignment: VariableAssignment | null } }
-  | { type: "SET_RESPONSE_CONDITION"; payload: { messageId: string; optionId: string; condition: VariableCondition | null } }
-  | { type: "SET_MESSAGE_CONDITION"; payload: { messageId: string; condition: VariableCondition | null } };
+  | { type: "SET_RESPONSE_ASSIGNMENTS"; payload: { messageId: string; optionId: string; assignments: VariableAssignment[] } }
+  | { type: "SET_RESPONSE_CONDITION"; payload: { messageId: string; optionId: string; condition: Condition | null } }
+  | { type: "SET_MESSAGE_CONDITION"; payload: { messageId: string; condition: Condition | null } }
+  | { type: "SET_MESSAGE_INPUT"; payload: { messageId: string; input: TextInputSettings | null } }
+  | { type: "SET_RESPONSE_MATCH"; payload: { messageId: string; optionId: string; match: InputMatch | null } }
+  | { type: "SET_MESSAGE_PACING"; payload: { messageId: string; pacing: MessagePacing | null } }
+  | { type: "ADD_ATTACHMENT"; payload: { messageId: string; attachment: MessageAttachment; asset?: ScenarioAsset } }
+  | { type: "UPDATE_ATTACHMENT"; payload: { messageId: string; attachmentId: string; updates: Partial<Omit<MessageAttachment, "id">> } }
+  | { type: "REMOVE_ATTACHMENT"; payload: { messageId: string; attachmentId: string } }
+  // Speaker actions
+  | { type: "ADD_SPEAKER"; payload: { name: string } }
+  | { type: "UPDATE_SPEAKER"; payload: { id: string; updates: Partial<Omit<Speaker, "id">> } }
+  | { type: "DELETE_SPEAKER"; payload: string }
+  | { type: "SET_MESSAGE_SPEAKER"; payload: { messageId: string; speakerId: string | null } }
+  // Sub-flow actions
+  | { type: "ADD_SUB_FLOW"; payload: { name: string; position: NodePosition } }
+  | { type: "CREATE_SUB_FLOW_FROM_MESSAGES"; payload: { name: string; messageIds: string[] } }
+  | { type: "UPDATE_SUB_FLOW"; payload: { id: string; updates: Partial<Omit<SubFlow, "id">> } }
+  | { type: "DELETE_SUB_FLOW"; payload: string }
+  | { type: "SET_MESSAGE_SUB_FLOW"; payload: { messageId: string; subFlowId: string | null } }
+  | { type: "ADD_SUB_FLOW_CALL"; payload: { subFlowId: string | null; position: NodePosition } }
+  | { type: "SET_SUB_FLOW_CALL"; payload: { messageId: string; subFlowId: string | null } }
+  | { type: "ADD_NOTE"; payload: { position: NodePosition } }
+  | { type: "UPDATE_NOTE"; payload: { id: string; updates: Partial<Omit<StickyNote, "id">> } }
+  | { type: "DELETE_NOTE"; payload: string }
+  | { type: "ADD_COMMENT_THREAD"; payload: { messageId: string; optionId: string | null; text: string; author: string } }
+  | { type: "REPLY_TO_COMMENT_THREAD"; payload: { threadId: string; text: string; author: string } }
+  | { type: "SET_COMMENT_THREAD_RESOLVED"; payload: { threadId: string; resolved: boolean } }
+  | { type: "DELETE_COMMENT_THREAD"; payload: string }
+  | { type: "ADD_FRAME"; payload: { label: string; bounds: FrameBounds; messageIds: string[] } }
+  | { type: "UPDATE_FRAME"; payload: { id: string; updates: Partial<Omit<CanvasFrame, "id">> } }
+  | { type: "MOVE_FRAME"; payload: { id: string; position: NodePosition } }
+  | { type: "DELETE_FRAME"; payload: string }
+  | { type: "SET_MESSAGES_FRAME"; payload: { messageIds: string[]; frameId: string | null } }
+  | { type: "ADD_TEST_CASE"; payload: ScenarioTestCase }
+  | { type: "UPDATE_TEST_CASE"; payload: { id: string; updates: Partial<Omit<ScenarioTestCase, "id">> } }
+  | { type: "DELETE_TEST_CASE"; payload: string }
+  | { type: "UPDATE_EXPORT_SETTINGS"; payload: Partial<ExportSettings> };
 
 // Helper function to count incoming connections to a message
 function countIncomingConnections(
@@ -110,6 +213,27 @@ function countIncomingConnections(
   return count;
 }
 
+// Drop assets no attachment uses any more. Returns the same record when nothing changes.
+function pruneAssets(messages: Record<string, ChatMessage>, assets: Record<string, ScenarioAsset>): Record<string, ScenarioAsset> {
+  const unusedIds = findUnusedAssetIds(messages, assets);
+  if (unusedIds.length === 0) return assets;
+  const remaining = { ...assets };
+  unusedIds.forEach((id) => delete remaining[id]);
+  return remaining;
+}
+
+// Sub-flows whose entry message was deleted have no entry until one is chosen.
+// Returns the same record when nothing changes.
+function clearDeletedEntries(subFlows: Record<string, SubFlow>, deletedIds: Set<string>): Record<string, SubFlow> {
+  const affected = Object.values(subFlows).filter((s) => s.entryMessageId && deletedIds.has(s.entryMessageId));
+  if (affected.length === 0) return subFlows;
+  const remaining = { ...subFlows };
+  affected.forEach((subFlow) => {
+    remaining[subFlow.id] = { ...subFlow, entryMessageId: null };
+  });
+  return remaining;
+}
+
 // Reducer
 function scenarioReducer(state: ScenarioData, action: ScenarioAction): ScenarioData {
   const now = new Date().toISOString();
@@ -169,6 +293,22 @@ function scenarioReducer(state: ScenarioData, action: ScenarioAction): ScenarioD
       };
     }
 
+    // Moves many nodes at once (auto-arrange) as a single undo step
+    // Frames refitted around their moved messages land in the same undo step
+    case "SET_NODE_POSITIONS": {
+      const entries = Object.entries(action.payload.positions).filter(([id]) => state.messages[id]);
+      if (entries.length === 0) return state;
+      const messages = { ...state.messages };
+      entries.forEach(([id, position]) => {
+        messages[id] = { ...messages[id], position };
+      });
+      const frames = { ...state.frames };
+      Object.entries(action.payload.frames ?? {}).forEach(([id, bounds]) => {
+        if (frames[id]) frames[id] = { ...frames[id], ...bounds };
+      });
+      return { ...state, messages, frames, updatedAt: now };
+    }
+
     case "UPDATE_MESSAGE": {
       const { id, content } = action.payload;
       if (!state.messages[id]) return state;
@@ -213,23 +353,74 @@ function scenarioReducer(state: ScenarioData, action: ScenarioAction): ScenarioD
       
       deleteIfOrphaned(messageId);
       
-      // Update any remaining parent references to deleted messages
+      // Update any remaining parent references to deleted messages.
+      // Copy instead of mutating so earlier states kept for undo stay intact.
       Object.values(newMessages).forEach((msg) => {
-        msg.responseOptions = msg.responseOptions.map((opt) =>
-          deletedIds.has(opt.nextMessageId || '') 
-            ? { ...opt, nextMessageId: null } 
-            : opt
-        );
+        newMessages[msg.id] = {
+          ...msg,
+          nextMessageId: deletedIds.has(msg.nextMessageId || '') ? null : msg.nextMessageId,
+          responseOptions: msg.responseOptions.map((opt) =>
+            deletedIds.has(opt.nextMessageId || '')
+              ? { ...opt, nextMessageId: null }
+              : opt
+          ),
+        };
       });
       
       return {
         ...state,
         messages: newMessages,
+        assets: pruneAssets(newMessages, state.assets),
+        subFlows: clearDeletedEntries(state.subFlows, deletedIds),
+        comments: pruneCommentThreads(state.comments, newMessages),
         rootMessageId: deletedIds.has(state.rootMessageId || '') ? null : state.rootMessageId,
         updatedAt: now,
       };
     }
 
+    // Removes exactly the given messages (cut, or deleting a selection); unlike DELETE_MESSAGE their
+    // children stay, and links into the removed messages are cleared
+    case "DELETE_MESSAGES": {
+      const deletedIds = new Set(action.payload.filter((id) => state.messages[id]));
+      if (deletedIds.size === 0) return state;
+      const newMessages: Record<string, ChatMessage> = {};
+      Object.values(state.messages).forEach((msg) => {
+        if (deletedIds.has(msg.id)) return;
+        newMessages[msg.id] = {
+          ...msg,
+          nextMessageId: deletedIds.has(msg.nextMessageId || '') ? null : msg.nextMessageId,
+          responseOptions: msg.responseOptions.map((opt) =>
+            deletedIds.has(opt.nextMessageId || '') ? { ...opt, nextMessageId: null } : opt
+          ),
+        };
+      });
+      return {
+        ...state,
+        messages: newMessages,
+        assets: pruneAssets(newMessages, state.assets),
+        subFlows: clearDeletedEntries(state.subFlows, deletedIds),
+        comments: pruneCommentThreads(state.comments, newMessages),
+        rootMessageId: deletedIds.has(state.rootMessageId || '') ? null : state.rootMessageId,
+        updatedAt: now,
+      };
+    }
+
+    // Adds copied messages with the variables, speakers and files they need, as a single undo step
+    case "PASTE_MESSAGES": {
+      const { messages, variables, speakers, assets } = action.payload;
+      if (Object.keys(messages).length === 0) return state;
+      return {
+        ...state,
+        messages: { ...state.messages, ...messages },
+        variables: { ...state.variables, ...variables },
+        speakers: { ...state.speakers, ...speakers },
+        assets: { ...state.assets, ...assets },
+        // A paste into an empty scenario starts from the first pasted message
+        rootMessageId: state.rootMessageId ?? Object.keys(messages)[0],
+        updatedAt: now,
+      };
+    }
+
     case "TOGGLE_ENDPOINT": {
       const id = action.payload;
       if (!state.messages[id]) return state;
@@ -318,6 +509,7 @@ function scenarioReducer(state: ScenarioData, action: ScenarioAction): ScenarioD
       return {
         ...state,
         messages: newMessages,
+        comments: pruneCommentThreads(state.comments, newMessages),
         updatedAt: now,
       };
     }
@@ -327,6 +519,9 @@ function scenarioReducer(state: ScenarioData, action: ScenarioAction): ScenarioD
       if (!state.messages[parentMessageId]) return state;
       
       const newMessage = createMessage(content, position);
+      // Messages added inside a sub-flow belong to it
+      const { subFlowId } = state.messages[parentMessageId];
+      if (subFlowId) newMessage.subFlowId = subFlowId;
       
       return {
         ...state,
@@ -434,8 +629,11 @@ function scenarioReducer(state: ScenarioData, action: ScenarioAction): ScenarioD
       };
     }
 
-    case "RESET_SCENARIO":
-      return createEmptyScenario();
+    case "RESET_SCENARIO": {
+      // Keep the library identity so resetting doesn't spawn a second library entry
+      const fresh = createEmptyScenario();
+      return { ...fresh, id: state.id, name: state.name, createdAt: state.createdAt };
+    }
 
     // Variable actions
     case "ADD_VARIABLE": {
@@ -469,17 +667,15 @@ function scenarioReducer(state: ScenarioData, action: ScenarioAction): ScenarioD
       const newMessages = { ...state.messages };
       Object.keys(newMessages).forEach((msgId) => {
         const msg = newMessages[msgId];
-        // Clear message condition if it references this variable
-        if (msg.condition?.variableId === variableId) {
-          newMessages[msgId] = { ...msg, condition: undefined };
-        }
-        // Clear option conditions and assignments
+        // Drop comparisons and assignments on this variable from message and option conditions
         newMessages[msgId] = {
-          ...newMessages[msgId],
+          ...msg,
+          condition: removeVariableFromCondition(msg.condition, variableId),
+          input: msg.input?.variableId === variableId ? { ...msg.input, variableId: null } : msg.input,
           responseOptions: msg.responseOptions.map((opt) => ({
             ...opt,
-            condition: opt.condition?.variableId === variableId ? undefined : opt.condition,
-            setsVariable: opt.setsVariable?.variableId === variableId ? undefined : opt.setsVariable,
+            condition: removeVariableFromCondition(opt.condition, variableId),
+            assignments: removeVariableFromAssignments(opt.assignments, variableId),
           })),
         };
       });
@@ -488,12 +684,15 @@ function scenarioReducer(state: ScenarioData, action: ScenarioAction): ScenarioD
         ...state,
         variables: newVariables,
         messages: newMessages,
+        exportSettings: state.exportSettings.scoreVariableId === variableId
+          ? { ...state.exportSettings, scoreVariableId: null }
+          : state.exportSettings,
         updatedAt: now,
       };
     }
 
-    case "SET_RESPONSE_VARIABLE_ASSIGNMENT": {
-      const { messageId, optionId, assignment } = action.payload;
+    case "SET_RESPONSE_ASSIGNMENTS": {
+      const { messageId, optionId, assignments } = action.payload;
       if (!state.messages[messageId]) return state;
       
       return {
@@ -503,7 +702,7 @@ function scenarioReducer(state: ScenarioData, action: ScenarioAction): ScenarioD
           [messageId]: {
             ...state.messages[messageId],
             responseOptions: state.messages[messageId].responseOptions.map((opt) =>
-              opt.id === optionId ? { ...opt, setsVariable: assignment || undefined } : opt
+              opt.id === optionId ? { ...opt, assignments: assignments.length > 0 ? assignments : undefined } : opt
             ),
           },
         },
@@ -544,11 +743,466 @@ function scenarioReducer(state: ScenarioData, action: ScenarioAction): ScenarioD
       };
     }
 
+    case "SET_MESSAGE_INPUT": {
+      const { messageId, input } = action.payload;
+      if (!state.messages[messageId]) return state;
+
+      return {
+        ...state,
+        messages: {
+          ...state.messages,
+          [messageId]: { ...state.messages[messageId], input: input || undefined },
+        },
+        updatedAt: now,
+      };
+    }
+
+    case "SET_MESSAGE_PACING": {
+      const { messageId, pacing } = action.payload;
+      if (!state.messages[messageId]) return state;
+
+      return {
+        ...state,
+        messages: {
+          ...state.messages,
+          [messageId]: { ...state.messages[messageId], pacing: pacing || undefined },
+        },
+        updatedAt: now,
+      };
+    }
+
+    case "SET_RESPONSE_MATCH": {
+      const { messageId, optionId, match } = action.payload;
+      if (!state.messages[messageId]) return state;
+
+      return {
+        ...state,
+        messages: {
+          ...state.messages,
+          [messageId]: {
+            ...state.messages[messageId],
+            responseOptions: state.messages[messageId].responseOptions.map((opt) =>
+              opt.id === optionId ? { ...opt, match: match || undefined } : opt
+            ),
+          },
+        },
+        updatedAt: now,
+      };
+    }
+
+    case "ADD_ATTACHMENT": {
+      const { messageId, attachment, asset } = action.payload;
+      const message = state.messages[messageId];
+      if (!message) return state;
+
+      return {
+        ...state,
+        messages: {
+          ...state.messages,
+          [messageId]: { ...message, attachments: [...(message.attachments ?? []), attachment] },
+        },
+        assets: asset ? { ...state.assets, [asset.id]: asset } : state.assets,
+        updatedAt: now,
+      };
+    }
+
+    case "UPDATE_ATTACHMENT": {
+      const { messageId, attachmentId, updates } = action.payload;
+      const message = state.messages[messageId];
+      if (!message) return state;
+
+      return {
+        ...state,
+        messages: {
+          ...state.messages,
+          [messageId]: {
+            ...message,
+            attachments: (message.attachments ?? []).map((a) => (a.id === attachmentId ? { ...a, ...updates } : a)),
+          },
+        },
+        updatedAt: now,
+      };
+    }
+
+    case "REMOVE_ATTACHMENT": {
+      const { messageId, attachmentId } = action.payload;
+      const message = state.messages[messageId];
+      if (!message) return state;
+
+      const remaining = (message.attachments ?? []).filter((a) => a.id !== attachmentId);
+      const newMessages = {
+        ...state.messages,
+        [messageId]: { ...message, attachments: remaining.length > 0 ? remaining : undefined },
+      };
+      return {
+        ...state,
+        messages: newMessages,
+        assets: pruneAssets(newMessages, state.assets),
+        updatedAt: now,
+      };
+    }
+
+    // Speaker actions
+    case "ADD_SPEAKER": {
+      const newSpeaker = createSpeaker(action.payload.name);
+      return {
+        ...state,
+        speakers: { ...state.speakers, [newSpeaker.id]: newSpeaker },
+        updatedAt: now,
+      };
+    }
+
+    case "UPDATE_SPEAKER": {
+      const { id, updates } = action.payload;
+      if (!state.speakers[id]) return state;
+      return {
+        ...state,
+        speakers: {
+          ...state.speakers,
+          [id]: { ...state.speakers[id], ...updates },
+        },
+        updatedAt: now,
+      };
+    }
+
+    case "DELETE_SPEAKER": {
+      const speakerId = action.payload;
+      const newSpeakers = { ...state.speakers };
+      delete newSpeakers[speakerId];
+
+      // Messages sent by this speaker fall back to the contact
+      const newMessages = { ...state.messages };
+      Object.values(newMessages).forEach((msg) => {
+        if (msg.speakerId === speakerId) {
+          newMessages[msg.id] = { ...msg, speakerId: undefined };
+        }
+      });
+
+      return {
+        ...state,
+        speakers: newSpeakers,
+        messages: newMessages,
+        updatedAt: now,
+      };
+    }
+
+    case "SET_MESSAGE_SPEAKER": {
+      const { messageId, speakerId } = action.payload;
+      if (!state.messages[messageId]) return state;
+      return {
+        ...state,
+        messages: {
+          ...state.messages,
+          [messageId]: { ...state.messages[messageId], speakerId: speakerId || undefined },
+        },
+        updatedAt: now,
+      };
+    }
+
+    // A new sub-flow starts with an empty entry message
+    case "ADD_SUB_FLOW": {
+      const { name, position } = action.payload;
+      const entry = createMessage("New message...", position);
+      const subFlow = createSubFlow(name, entry.id);
+      entry.subFlowId = subFlow.id;
+      return {
+        ...state,
+        messages: { ...state.messages, [entry.id]: entry },
+        subFlows: { ...state.subFlows, [subFlow.id]: subFlow },
+        updatedAt: now,
+      };
+    }
+
+    // Groups existing messages. The entry is the first one no other grouped message links to.
+    case "CREATE_SUB_FLOW_FROM_MESSAGES": {
+      const { name } = action.payload;
+      const ids = new Set(action.payload.messageIds.filter((id) => state.messages[id] && !state.messages[id].call));
+      if (ids.size === 0) return state;
+      const linkedIds = new Set<string>();
+      ids.forEach((id) => {
+        const msg = state.messages[id];
+        [msg.nextMessageId, ...msg.responseOptions.map((opt) => opt.nextMessageId)].forEach((target) => {
+          if (target && target !== id) linkedIds.add(target);
+        });
+      });
+      const ordered = Object.keys(state.messages).filter((id) => ids.has(id));
+      const subFlow = createSubFlow(name, ordered.find((id) => !linkedIds.has(id)) ?? ordered[0]);
+      const newMessages = { ...state.messages };
+      ordered.forEach((id) => {
+        newMessages[id] = { ...newMessages[id], subFlowId: subFlow.id };
+      });
+      return {
+        ...state,
+        messages: newMessages,
+        subFlows: { ...state.subFlows, [subFlow.id]: subFlow },
+        updatedAt: now,
+      };
+    }
+
+    case "UPDATE_SUB_FLOW": {
+      const { id, updates } = action.payload;
+      if (!state.subFlows[id]) return state;
+      return {
+        ...state,
+        subFlows: { ...state.subFlows, [id]: { ...state.subFlows[id], ...updates } },
+        updatedAt: now,
+      };
+    }
+
+    // Its messages stay as ordinary messages, and calls to it wait for another sub-flow
+    case "DELETE_SUB_FLOW": {
+      const subFlowId = action.payload;
+      if (!state.subFlows[subFlowId]) return state;
+      const newSubFlows = { ...state.subFlows };
+      delete newSubFlows[subFlowId];
+      const newMessages = { ...state.messages };
+      Object.values(newMessages).forEach((msg) => {
+        if (msg.subFlowId === subFlowId) newMessages[msg.id] = { ...msg, subFlowId: undefined };
+        // A call inside the sub-flow it calls needs both changes
+        if (msg.call?.subFlowId === subFlowId) newMessages[msg.id] = { ...newMessages[msg.id], call: { subFlowId: null } };
+      });
+      return { ...state, messages: newMessages, subFlows: newSubFlows, updatedAt: now };
+    }
+
+    case "SET_MESSAGE_SUB_FLOW": {
+      const { messageId, subFlowId } = action.payload;
+      const msg = state.messages[messageId];
+      if (!msg || (subFlowId && !state.subFlows[subFlowId])) return state;
+      const previous = msg.subFlowId ? state.subFlows[msg.subFlowId] : undefined;
+      return {
+        ...state,
+        messages: { ...state.messages, [messageId]: { ...msg, subFlowId: subFlowId ?? undefined } },
+        // A message leaving its sub-flow stops being the entry
+        subFlows: previous?.entryMessageId === messageId
+          ? { ...state.subFlows, [previous.id]: { ...previous, entryMessageId: null } }
+          : state.subFlows,
+        updatedAt: now,
+      };
+    }
+
+    case "ADD_SUB_FLOW_CALL": {
+      const { subFlowId, position } = action.payload;
+      const callNode: ChatMessage = { ...createMessage("", position), call: { subFlowId } };
+      return {
+        ...state,
+        messages: { ...state.messages, [callNode.id]: callNode },
+        rootMessageId: state.rootMessageId ?? callNode.id,
+        updatedAt: now,
+      };
+    }
+
+    case "SET_SUB_FLOW_CALL": {
+      const { messageId, subFlowId } = action.payload;
+      const msg = state.messages[messageId];
+      if (!msg?.call) return state;
+      return {
+        ...state,
+        messages: { ...state.messages, [messageId]: { ...msg, call: { subFlowId } } },
+        updatedAt: now,
+      };
+    }
+
+    case "ADD_FRAME": {
+      const { label, bounds, messageIds } = action.payload;
+      const frame = createFrame(label, bounds.position, bounds.width, bounds.height);
+      const newMessages = { ...state.messages };
+      messageIds.forEach((id) => {
+        if (newMessages[id]) newMessages[id] = { ...newMessages[id], frameId: frame.id };
+      });
+      return { ...state, messages: newMessages, frames: { ...state.frames, [frame.id]: frame }, updatedAt: now };
+    }
+
+    case "UPDATE_FRAME": {
+      const { id, updates } = action.payload;
+      if (!state.frames[id]) return state;
+      return { ...state, frames: { ...state.frames, [id]: { ...state.frames[id], ...updates } }, updatedAt: now };
+    }
+
+    // Members keep absolute positions, so they move by the same amount as the frame
+    case "MOVE_FRAME": {
+      const { id, position } = action.payload;
+      const frame = state.frames[id];
+      if (!frame) return state;
+      const dx = position.x - frame.position.x;
+      const dy = position.y - frame.position.y;
+      if (dx === 0 && dy === 0) return state;
+      const newMessages = { ...state.messages };
+      Object.values(state.messages).forEach((msg) => {
+        if (msg.frameId !== id) return;
+        newMessages[msg.id] = { ...msg, position: { x: msg.position.x + dx, y: msg.position.y + dy } };
+      });
+      return { ...state, messages: newMessages, frames: { ...state.frames, [id]: { ...frame, position } }, updatedAt: now };
+    }
+
+    // Removes only the frame; its messages stay where they are
+    case "DELETE_FRAME": {
+      const frameId = action.payload;
+      if (!state.frames[frameId]) return state;
+      const newFrames = { ...state.frames };
+      delete newFrames[frameId];
+      const newMessages = { ...state.messages };
+      Object.values(state.messages).forEach((msg) => {
+        if (msg.frameId === frameId) newMessages[msg.id] = { ...msg, frameId: undefined };
+      });
+      return { ...state, messages: newMessages, frames: newFrames, updatedAt: now };
+    }
+
+    case "SET_MESSAGES_FRAME": {
+      const { messageIds, frameId } = action.payload;
+      if (frameId && !state.frames[frameId]) return state;
+      const newMessages = { ...state.messages };
+      let changed = false;
+      messageIds.forEach((id) => {
+        const msg = newMessages[id];
+        if (!msg || (msg.frameId ?? null) === frameId) return;
+        changed = true;
+        newMessages[id] = { ...msg, frameId: frameId ?? undefined };
+      });
+      return changed ? { ...state, messages: newMessages, updatedAt: now } : state;
+    }
+
+    case "ADD_TEST_CASE": {
+      const testCase = action.payload;
+      return { ...state, testCases: { ...state.testCases, [testCase.id]: testCase }, updatedAt: now };
+    }
+
+    case "UPDATE_TEST_CASE": {
+      const { id, updates } = action.payload;
+      if (!state.testCases[id]) return state;
+      return { ...state, testCases: { ...state.testCases, [id]: { ...state.testCases[id], ...updates } }, updatedAt: now };
+    }
+
+    case "DELETE_TEST_CASE": {
+      if (!state.testCases[action.payload]) return state;
+      const newTestCases = { ...state.testCases };
+      delete newTestCases[action.payload];
+      return { ...state, testCases: newTestCases, updatedAt: now };
+    }
+
+    case "ADD_NOTE": {
+      const note = createStickyNote(action.payload.position);
+      return { ...state, notes: { ...state.notes, [note.id]: note }, updatedAt: now };
+    }
+
+    case "UPDATE_NOTE": {
+      const { id, updates } = action.payload;
+      if (!state.notes[id]) return state;
+      return { ...state, notes: { ...state.notes, [id]: { ...state.notes[id], ...updates } }, updatedAt: now };
+    }
+
+    case "DELETE_NOTE": {
+      if (!state.notes[action.payload]) return state;
+      const newNotes = { ...state.notes };
+      delete newNotes[action.payload];
+      return { ...state, notes: newNotes, updatedAt: now };
+    }
+
+    case "ADD_COMMENT_THREAD": {
+      const { messageId, optionId, text, author } = action.payload;
+      if (!state.messages[messageId] || !text.trim()) return state;
+      const thread = createCommentThread(messageId, optionId, createThreadComment(text.trim(), author.trim()));
+      return { ...state, comments: { ...state.comments, [thread.id]: thread }, updatedAt: now };
+    }
+
+    case "REPLY_TO_COMMENT_THREAD": {
+      const { threadId, text, author } = action.payload;
+      const thread = state.comments[threadId];
+      if (!thread || !text.trim()) return state;
+      return {
+        ...state,
+        comments: {
+          ...state.comments,
+          [threadId]: { ...thread, comments: [...thread.comments, createThreadComment(text.trim(), author.trim())] },
+        },
+        updatedAt: now,
+      };
+    }
+
+    case "SET_COMMENT_THREAD_RESOLVED": {
+      const { threadId, resolved } = action.payload;
+      const thread = state.comments[threadId];
+      if (!thread) return state;
+      return { ...state, comments: { ...state.comments, [threadId]: { ...thread, resolved } }, updatedAt: now };
+    }
+
+    case "DELETE_COMMENT_THREAD": {
+      if (!state.comments[action.payload]) return state;
+      const newComments = { ...state.comments };
+      delete newComments[action.payload];
+      return { ...state, comments: newComments, updatedAt: now };
+    }
+
+    case "UPDATE_EXPORT_SETTINGS":
+      return {
+        ...state,
+        exportSettings: { ...state.exportSettings, ...action.payload },
+        updatedAt: now,
+      };
+
     default:
       return state;
   }
 }
 
+// Bursts of these actions (typing, dragging, colour picking) collapse into a single undo step
+function getHistoryGroupKey(action: ScenarioAction): string | null {
+  switch (action.type) {
+    case "UPDATE_MESSAGE":
+      return `message:${action.payload.id}`;
+    case "UPDATE_NODE_POSITION":
+      return `position:${action.payload.id}`;
+    case "UPDATE_RESPONSE_OPTION":
+      return `option:${action.payload.optionId}`;
+    case "UPDATE_THEME":
+      return `theme:${Object.keys(action.payload).sort().join(",")}`;
+    case "SET_NAME":
+      return "name";
+    // Typing a comparison value in the condition editor
+    case "SET_RESPONSE_CONDITION":
+      return `condition:${action.payload.optionId}`;
+    case "SET_MESSAGE_CONDITION":
+      return `condition:${action.payload.messageId}`;
+    // Typing an assignment value
+    case "SET_RESPONSE_ASSIGNMENTS":
+      return `assignments:${action.payload.optionId}`;
+    // Typing an input placeholder or a route pattern
+    case "SET_MESSAGE_INPUT":
+      return `input:${action.payload.messageId}`;
+    case "SET_RESPONSE_MATCH":
+      return `match:${action.payload.optionId}`;
+    case "SET_MESSAGE_PACING":
+      return `pacing:${action.payload.messageId}`;
+    // Typing alt text or link card details
+    case "UPDATE_ATTACHMENT":
+      return `attachment:${action.payload.attachmentId}:${Object.keys(action.payload.updates).sort().join(",")}`;
+    case "UPDATE_SUB_FLOW":
+      return `subflow:${action.payload.id}:${Object.keys(action.payload.updates).sort().join(",")}`;
+    // Typing a frame label, resizing or dragging a frame
+    case "UPDATE_FRAME":
+      return `frame:${action.payload.id}:${Object.keys(action.payload.updates).sort().join(",")}`;
+    case "MOVE_FRAME":
+      return `frame-position:${action.payload.id}`;
+    // Typing a test case name
+    case "UPDATE_TEST_CASE":
+      return `test-case:${action.payload.id}:${Object.keys(action.payload.updates).sort().join(",")}`;
+    // Typing in a sticky note, or dragging it
+    case "UPDATE_NOTE":
+      return `note:${action.payload.id}:${Object.keys(action.payload.updates).sort().join(",")}`;
+    case "UPDATE_SPEAKER":
+      return `speaker:${action.payload.id}:${Object.keys(action.payload.updates).sort().join(",")}`;
+    case "UPDATE_EXPORT_SETTINGS":
+      return `export:${Object.keys(action.payload).sort().join(",")}`;
+    default:
+      return null;
+  }
+}
+
+const scenarioHistoryReducer = createHistoryReducer(scenarioReducer, {
+  limit: DEFAULT_HISTORY_LIMIT,
+  getGroupKey: getHistoryGroupKey,
+  groupWindowMs: 1000,
+});
+
 // Context types
 interface ScenarioContextType {
   scenario: ScenarioData;
@@ -560,7 +1214,10 @@ interface ScenarioContextType {
   addMessageAtPosition: (content: string, position: NodePosition) => void;
   updateMessage: (id: string, content: string) => void;
   updateNodePosition: (id: string, position: NodePosition) => void;
+  setNodePositions: (positions: Record<string, NodePosition>, frames?: Record<string, FrameBounds>) => void;
   deleteMessage: (id: string) => void;
+  deleteMessages: (ids: string[]) => void;
+  pasteMessages: (plan: PastePlan) => void;
   toggleEndpoint: (id: string) => void;
   // Response options
   addResponseOption: (messageId: string, text: string) => void;
@@ -576,51 +1233,166 @@ interface ScenarioContextType {
   addVariable: (name: string, type: import("@/types/scenario").VariableType) => void;
   updateVariable: (id: string, name: string) => void;
   deleteVariable: (id: string) => void;
-  setResponseVariableAssignment: (messageId: string, optionId: string, assignment: VariableAssignment | null) => void;
-  setResponseCondition: (messageId: string, optionId: string, condition: VariableCondition | null) => void;
-  setMessageCondition: (messageId: string, condition: VariableCondition | null) => void;
+  setResponseAssignments: (messageId: string, optionId: string, assignments: VariableAssignment[]) => void;
+  setResponseCondition: (messageId: string, optionId: string, condition: Condition | null) => void;
+  setMessageCondition: (messageId: string, condition: Condition | null) => void;
+  // Text input
+  setMessageInput: (messageId: string, input: TextInputSettings | null) => void;
+  setResponseMatch: (messageId: string, optionId: string, match: InputMatch | null) => void;
+  setMessagePacing: (messageId: string, pacing: MessagePacing | null) => void;
+  // Attachments
+  addAttachment: (messageId: string, attachment: MessageAttachment, asset?: ScenarioAsset) => void;
+  updateAttachment: (messageId: string, attachmentId: string, updates: Partial<Omit<MessageAttachment, "id">>) => void;
+  removeAttachment: (messageId: string, attachmentId: string) => void;
+  // Speakers
+  addSpeaker: (name: string) => void;
+  updateSpeaker: (id: string, updates: Partial<Omit<Speaker, "id">>) => void;
+  deleteSpeaker: (id: string) => void;
+  setMessageSpeaker: (messageId: string, speakerId: string | null) => void;
+  // Sub-flows
+  addSubFlow: (name: string, position: NodePosition) => void;
+  createSubFlowFromMessages: (name: string, messageIds: string[]) => void;
+  updateSubFlow: (id: string, updates: Partial<Omit<SubFlow, "id">>) => void;
+  deleteSubFlow: (id: string) => void;
+  setMessageSubFlow: (messageId: string, subFlowId: string | null) => void;
+  addSubFlowCall: (subFlowId: string | null, position: NodePosition) => void;
+  setSubFlowCall: (messageId: string, subFlowId: string | null) => void;
+  // Annotations
+  addNote: (position: NodePosition) => void;
+  updateNote: (id: string, updates: Partial<Omit<StickyNote, "id">>) => void;
+  deleteNote: (id: string) => void;
+  addCommentThread: (messageId: string, optionId: string | null, text: string, author: string) => void;
+  replyToCommentThread: (threadId: string, text: string, author: string) => void;
+  setCommentThreadResolved: (threadId: string, resolved: boolean) => void;
+  deleteCommentThread: (threadId: string) => void;
+  // Frames
+  addFrame: (label: string, bounds: FrameBounds, messageIds?: string[]) => void;
+  updateFrame: (id: string, updates: Partial<Omit<CanvasFrame, "id">>) => void;
+  moveFrame: (id: string, position: NodePosition) => void;
+  deleteFrame: (id: string) => void;
+  setMessagesFrame: (messageIds: string[], frameId: string | null) => void;
+  // Test cases
+  addTestCase: (testCase: ScenarioTestCase) => void;
+  updateTestCase: (id: string, updates: Partial<Omit<ScenarioTestCase, "id">>) => void;
+  deleteTestCase: (id: string) => void;
+  // Export
+  updateExportSettings: (settings: Partial<ExportSettings>) => void;
   // Click-to-connect
   pendingConnection: PendingConnection | null;
   startConnection: (sourceMessageId: string, optionId: string | null) => void;
   cancelConnection: () => void;
   completeConnection: (targetMessageId: string) => void;
+  // Preview from here
+  previewRequest: PreviewRequest | null;
+  requestPreview: (messageId: string, variables: Record<string, VariableValue>) => void;
+  clearPreviewRequest: () => void;
+  previewTrail: PreviewTrail | null;
+  setPreviewTrail: (trail: PreviewTrail | null) => void;
   // Import/Export
   importScenario: (data: ScenarioData) => void;
   resetScenario: () => void;
+  // Library
+  openScenario: (id: string) => Promise<boolean>;
+  createNewScenario: () => Promise<string>;
+  // History
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 const ScenarioContext = createContext<ScenarioContextType | null>(null);
 
-// Local storage key
-const STORAGE_KEY = "chat-scenario-builder-autosave";
+// Delay before an edit is written to IndexedDB, so typing doesn't hit the database per keystroke
+const AUTOSAVE_DELAY_MS = 400;
+
+// Find the scenario to open on startup: legacy autosave, last opened, most recent, or a new one
+async function loadInitialScenario(): Promise<ScenarioData> {
+  const migrated = await migrateLegacyAutosave(migrateScenario);
+  if (migrated) return migrated;
+
+  const currentId = localStorage.getItem(CURRENT_SCENARIO_KEY);
+  if (currentId) {
+    const current = await getScenario(currentId);
+    if (current) return migrateScenario(current);
+  }
+
+  const [mostRecent] = await listScenarios();
+  if (mostRecent) {
+    const scenario = await getScenario(mostRecent.id);
+    if (scenario) return migrateScenario(scenario);
+  }
+
+  const fresh = createEmptyScenario();
+  await saveScenario(fresh);
+  return fresh;
+}
 
 // Provider component
 export function ScenarioProvider({ children }: { children: React.ReactNode }) {
-  const [scenario, dispatch] = useReducer(scenarioReducer, null, () => {
-    // Try to load from localStorage on init
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        return migrateScenario(parsed);
-      }
-    } catch (e) {
-      console.error("Failed to load saved scenario:", e);
-    }
-    return createEmptyScenario();
-  });
+  const [history, dispatch] = useReducer(scenarioHistoryReducer, null, () =>
+    createHistoryState(createEmptyScenario())
+  );
+  const scenario = history.present;
+  const [isLoaded, setIsLoaded] = useState(false);
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Pending connection state for click-to-connect
   const [pendingConnection, setPendingConnection] = useState<PendingConnection | null>(null);
 
-  // Auto-save to localStorage
+  // Preview start requested from a canvas node, picked up by ChatPreview
+  const [previewRequest, setPreviewRequest] = useState<PreviewRequest | null>(null);
+
+  // Position of the playing preview, published by ChatPreview
+  const [previewTrail, setPreviewTrail] = useState<PreviewTrail | null>(null);
+
+  // Load the last opened scenario from the library
   useEffect(() => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(scenario));
-    } catch (e) {
-      console.error("Failed to save scenario:", e);
-    }
-  }, [scenario]);
+    let cancelled = false;
+    loadInitialScenario()
+      .then((loaded) => {
+        if (!cancelled) dispatch({ type: "RESET_HISTORY", payload: loaded });
+      })
+      .catch((e) => {
+        console.error("Failed to load saved scenario:", e);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Auto-save to the library (debounced)
+  useEffect(() => {
+    if (!isLoaded) return;
+    localStorage.setItem(CURRENT_SCENARIO_KEY, scenario.id);
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    saveTimeoutRef.current = setTimeout(() => {
+      saveScenario(scenario).catch((e) => {
+        console.error("Failed to save scenario:", e);
+      });
+    }, AUTOSAVE_DELAY_MS);
+  }, [scenario, isLoaded]);
+
+  // Flush the pending save before the page goes away
+  const latestScenarioRef = useRef(scenario);
+  latestScenarioRef.current = scenario;
+  useEffect(() => {
+    const flush = () => {
+      if (saveTimeoutRef.current) {
+        clearTimeout(saveTimeoutRef.current);
+        saveTimeoutRef.current = null;
+        saveScenario(latestScenarioRef.current).catch(() => {});
+      }
+    };
+    window.addEventListener("beforeunload", flush);
+    return () => {
+      window.removeEventListener("beforeunload", flush);
+      flush();
+    };
+  }, []);
 
   const updateTheme = useCallback((theme: Partial<ChatTheme>) => {
     dispatch({ type: "UPDATE_THEME", payload: theme });
@@ -646,10 +1418,22 @@ export function ScenarioProvider({ children }: { children: React.ReactNode }) {
     dispatch({ type: "UPDATE_NODE_POSITION", payload: { id, position } });
   }, []);
 
+  const setNodePositions = useCallback((positions: Record<string, NodePosition>, frames?: Record<string, FrameBounds>) => {
+    dispatch({ type: "SET_NODE_POSITIONS", payload: { positions, frames } });
+  }, []);
+
   const deleteMessage = useCallback((id: string) => {
     dispatch({ type: "DELETE_MESSAGE", payload: id });
   }, []);
 
+  const deleteMessages = useCallback((ids: string[]) => {
+    dispatch({ type: "DELETE_MESSAGES", payload: ids });
+  }, []);
+
+  const pasteMessages = useCallback((plan: PastePlan) => {
+    dispatch({ type: "PASTE_MESSAGES", payload: plan });
+  }, []);
+
   const toggleEndpoint = useCallback((id: string) => {
     dispatch({ type: "TOGGLE_ENDPOINT", payload: id });
   }, []);
@@ -703,18 +1487,153 @@ export function ScenarioProvider({ children }: { children: React.ReactNode }) {
     dispatch({ type: "DELETE_VARIABLE", payload: id });
   }, []);
 
-  const setResponseVariableAssignment = useCallback((messageId: string, optionId: string, assignment: VariableAssignment | null) => {
-    dispatch({ type: "SET_RESPONSE_VARIABLE_ASSIGNMENT", payload: { messageId, optionId, assignment } });
+  const setResponseAssignments = useCallback((messageId: string, optionId: string, assignments: VariableAssignment[]) => {
+    dispatch({ type: "SET_RESPONSE_ASSIGNMENTS", payload: { messageId, optionId, assignments } });
   }, []);
 
-  const setResponseCondition = useCallback((messageId: string, optionId: string, condition: VariableCondition | null) => {
+  const setResponseCondition = useCallback((messageId: string, optionId: string, condition: Condition | null) => {
     dispatch({ type: "SET_RESPONSE_CONDITION", payload: { messageId, optionId, condition } });
   }, []);
 
-  const setMessageCondition = useCallback((messageId: string, condition: VariableCondition | null) => {
+  const setMessageCondition = useCallback((messageId: string, condition: Condition | null) => {
     dispatch({ type: "SET_MESSAGE_CONDITION", payload: { messageId, condition } });
   }, []);
 
+  // Text input actions
+  const setMessageInput = useCallback((messageId: string, input: TextInputSettings | null) => {
+    dispatch({ type: "SET_MESSAGE_INPUT", payload: { messageId, input } });
+  }, []);
+
+  const setResponseMatch = useCallback((messageId: string, optionId: string, match: InputMatch | null) => {
+    dispatch({ type: "SET_RESPONSE_MATCH", payload: { messageId, optionId, match } });
+  }, []);
+
+  const setMessagePacing = useCallback((messageId: string, pacing: MessagePacing | null) => {
+    dispatch({ type: "SET_MESSAGE_PACING", payload: { messageId, pacing } });
+  }, []);
+
+  // Attachment actions
+  const addAttachment = useCallback((messageId: string, attachment: MessageAttachment, asset?: ScenarioAsset) => {
+    dispatch({ type: "ADD_ATTACHMENT", payload: { messageId, attachment, asset } });
+  }, []);
+
+  const updateAttachment = useCallback((messageId: string, attachmentId: string, updates: Partial<Omit<MessageAttachment, "id">>) => {
+    dispatch({ type: "UPDATE_ATTACHMENT", payload: { messageId, attachmentId, updates } });
+  }, []);
+
+  const removeAttachment = useCallback((messageId: string, attachmentId: string) => {
+    dispatch({ type: "REMOVE_ATTACHMENT", payload: { messageId, attachmentId } });
+  }, []);
+
+  // Speaker actions
+  const addSpeaker = useCallback((name: string) => {
+    dispatch({ type: "ADD_SPEAKER", payload: { name } });
+  }, []);
+
+  const updateSpeaker = useCallback((id: string, updates: Partial<Omit<Speaker, "id">>) => {
+    dispatch({ type: "UPDATE_SPEAKER", payload: { id, updates } });
+  }, []);
+
+  const deleteSpeaker = useCallback((id: string) => {
+    dispatch({ type: "DELETE_SPEAKER", payload: id });
+  }, []);
+
+  const setMessageSpeaker = useCallback((messageId: string, speakerId: string | null) => {
+    dispatch({ type: "SET_MESSAGE_SPEAKER", payload: { messageId, speakerId } });
+  }, []);
+
+  const addSubFlow = useCallback((name: string, position: NodePosition) => {
+    dispatch({ type: "ADD_SUB_FLOW", payload: { name, position } });
+  }, []);
+
+  const createSubFlowFromMessages = useCallback((name: string, messageIds: string[]) => {
+    dispatch({ type: "CREATE_SUB_FLOW_FROM_MESSAGES", payload: { name, messageIds } });
+  }, []);
+
+  const updateSubFlow = useCallback((id: string, updates: Partial<Omit<SubFlow, "id">>) => {
+    dispatch({ type: "UPDATE_SUB_FLOW", payload: { id, updates } });
+  }, []);
+
+  const deleteSubFlow = useCallback((id: string) => {
+    dispatch({ type: "DELETE_SUB_FLOW", payload: id });
+  }, []);
+
+  const setMessageSubFlow = useCallback((messageId: string, subFlowId: string | null) => {
+    dispatch({ type: "SET_MESSAGE_SUB_FLOW", payload: { messageId, subFlowId } });
+  }, []);
+
+  const addSubFlowCall = useCallback((subFlowId: string | null, position: NodePosition) => {
+    dispatch({ type: "ADD_SUB_FLOW_CALL", payload: { subFlowId, position } });
+  }, []);
+
+  const setSubFlowCall = useCallback((messageId: string, subFlowId: string | null) => {
+    dispatch({ type: "SET_SUB_FLOW_CALL", payload: { messageId, subFlowId } });
+  }, []);
+
+  const addNote = useCallback((position: NodePosition) => {
+    dispatch({ type: "ADD_NOTE", payload: { position } });
+  }, []);
+
+  const updateNote = useCallback((id: string, updates: Partial<Omit<StickyNote, "id">>) => {
+    dispatch({ type: "UPDATE_NOTE", payload: { id, updates } });
+  }, []);
+
+  const deleteNote = useCallback((id: string) => {
+    dispatch({ type: "DELETE_NOTE", payload: id });
+  }, []);
+
+  const addCommentThread = useCallback((messageId: string, optionId: string | null, text: string, author: string) => {
+    dispatch({ type: "ADD_COMMENT_THREAD", payload: { messageId, optionId, text, author } });
+  }, []);
+
+  const replyToCommentThread = useCallback((threadId: string, text: string, author: string) => {
+    dispatch({ type: "REPLY_TO_COMMENT_THREAD", payload: { threadId, text, author } });
+  }, []);
+
+  const setCommentThreadResolved = useCallback((threadId: string, resolved: boolean) => {
+    dispatch({ type: "SET_COMMENT_THREAD_RESOLVED", payload: { threadId, resolved } });
+  }, []);
+
+  const deleteCommentThread = useCallback((threadId: string) => {
+    dispatch({ type: "DELETE_COMMENT_THREAD", payload: threadId });
+  }, []);
+
+  const addFrame = useCallback((label: string, bounds: FrameBounds, messageIds: string[] = []) => {
+    dispatch({ type: "ADD_FRAME", payload: { label, bounds, messageIds } });
+  }, []);
+
+  const updateFrame = useCallback((id: string, updates: Partial<Omit<CanvasFrame, "id">>) => {
+    dispatch({ type: "UPDATE_FRAME", payload: { id, updates } });
+  }, []);
+
+  const moveFrame = useCallback((id: string, position: NodePosition) => {
+    dispatch({ type: "MOVE_FRAME", payload: { id, position } });
+  }, []);
+
+  const deleteFrame = useCallback((id: string) => {
+    dispatch({ type: "DELETE_FRAME", payload: id });
+  }, []);
+
+  const setMessagesFrame = useCallback((messageIds: string[], frameId: string | null) => {
+    dispatch({ type: "SET_MESSAGES_FRAME", payload: { messageIds, frameId } });
+  }, []);
+
+  const addTestCase = useCallback((testCase: ScenarioTestCase) => {
+    dispatch({ type: "ADD_TEST_CASE", payload: testCase });
+  }, []);
+
+  const updateTestCase = useCallback((id: string, updates: Partial<Omit<ScenarioTestCase, "id">>) => {
+    dispatch({ type: "UPDATE_TEST_CASE", payload: { id, updates } });
+  }, []);
+
+  const deleteTestCase = useCallback((id: string) => {
+    dispatch({ type: "DELETE_TEST_CASE", payload: id });
+  }, []);
+
+  const updateExportSettings = useCallback((settings: Partial<ExportSettings>) => {
+    dispatch({ type: "UPDATE_EXPORT_SETTINGS", payload: settings });
+  }, []);
+
   // Click-to-connect actions
   const startConnection = useCallback((sourceMessageId: string, optionId: string | null) => {
     setPendingConnection({ sourceMessageId, optionId });
@@ -750,6 +1669,15 @@ export function ScenarioProvider({ children }: { children: React.ReactNode }) {
     }
   }, [pendingConnection]);
 
+  // Preview from here
+  const requestPreview = useCallback((messageId: string, variables: Record<string, VariableValue>) => {
+    setPreviewRequest({ messageId, variables });
+  }, []);
+
+  const clearPreviewRequest = useCallback(() => {
+    setPreviewRequest(null);
+  }, []);
+
   const importScenario = useCallback((data: ScenarioData) => {
     dispatch({ type: "SET_SCENARIO", payload: migrateScenario(data) });
   }, []);
@@ -758,6 +1686,36 @@ export function ScenarioProvider({ children }: { children: React.ReactNode }) {
     dispatch({ type: "RESET_SCENARIO" });
   }, []);
 
+  // Switch to another library scenario. History starts fresh since undo shouldn't cross scenarios.
+  const openScenario = useCallback(async (id: string) => {
+    const stored = await getScenario(id);
+    if (!stored) return false;
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+      await saveScenario(latestScenarioRef.current);
+    }
+    setPendingConnection(null);
+    setPreviewRequest(null);
+    dispatch({ type: "RESET_HISTORY", payload: migrateScenario(stored) });
+    return true;
+  }, []);
+
+  const createNewScenario = useCallback(async () => {
+    const fresh = createEmptyScenario();
+    await saveScenario(fresh);
+    await openScenario(fresh.id);
+    return fresh.id;
+  }, [openScenario]);
+
+  const undo = useCallback(() => {
+    dispatch({ type: "UNDO" });
+  }, []);
+
+  const redo = useCallback(() => {
+    dispatch({ type: "REDO" });
+  }, []);
+
   return (
     <ScenarioContext.Provider
       value={{
@@ -768,7 +1726,10 @@ export function ScenarioProvider({ children }: { children: React.ReactNode }) {
         addMessageAtPosition,
         updateMessage,
         updateNodePosition,
+        setNodePositions,
         deleteMessage,
+        deleteMessages,
+        pasteMessages,
         toggleEndpoint,
         addResponseOption,
         updateResponseOption,
@@ -783,20 +1744,77 @@ export function ScenarioProvider({ children }: { children: React.ReactNode }) {
         addVariable,
         updateVariable,
         deleteVariable,
-        setResponseVariableAssignment,
+        setResponseAssignments,
         setResponseCondition,
         setMessageCondition,
+        setMessageInput,
+        setResponseMatch,
+        setMessagePacing,
+        // Attachments
+        addAttachment,
+        updateAttachment,
+        removeAttachment,
+        // Speakers
+        addSpeaker,
+        updateSpeaker,
+        deleteSpeaker,
+        setMessageSpeaker,
+        addSubFlow,
+        createSubFlowFromMessages,
+        updateSubFlow,
+        deleteSubFlow,
+        setMessageSubFlow,
+        addSubFlowCall,
+        setSubFlowCall,
+        // Annotations
+        addNote,
+        updateNote,
+        deleteNote,
+        addCommentThread,
+        replyToCommentThread,
+        setCommentThreadResolved,
+        deleteCommentThread,
+        // Frames
+        addFrame,
+        updateFrame,
+        moveFrame,
+        deleteFrame,
+        setMessagesFrame,
+        // Test cases
+        addTestCase,
+        updateTestCase,
+        deleteTestCase,
+        // Export
+        updateExportSettings,
         // Click-to-connect
         pendingConnection,
         startConnection,
         cancelConnection,
         completeConnection,
+        // Preview from here
+        previewRequest,
+        requestPreview,
+        clearPreviewRequest,
+        previewTrail,
+        setPreviewTrail,
         // Import/Export
         importScenario,
         resetScenario,
+        // Library
+        openScenario,
+        createNewScenario,
+        // History
+        undo,
+        redo,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
       }}
     >
-      {children}
+      {isLoaded ? children : (
+        <div className="flex h-screen items-center justify-center text-sm text-muted-foreground" role="status">
+          Loading scenario…
+        </div>
+      )}
     </ScenarioContext.Provider>
   );
 }
@@ -0,0 +1,36 @@
+/**
+ * @file use-comment-author.ts
+ * @description Custom hook for the reviewer name shown on new comments, remembered in localStorage
+ *              so it carries over between scenarios
+ *
+ * @dependencies React useState, useCallback
+ * @usage Import in CommentThreads to sign new comments and replies
+ */
+
+import { useState, useCallback } from "react";
+
+const STORAGE_KEY = "chatScenarioCommentAuthor";
+
+function readAuthor(): string {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? "";
+  } catch {
+    // localStorage not available, comments stay unsigned
+    return "";
+  }
+}
+
+export function useCommentAuthor(): [string, (author: string) => void] {
+  const [author, setAuthorState] = useState(readAuthor);
+
+  const setAuthor = useCallback((value: string) => {
+    setAuthorState(value);
+    try {
+      localStorage.setItem(STORAGE_KEY, value);
+    } catch {
+      // Ignore localStorage errors
+    }
+  }, []);
+
+  return [author, setAuthor];
+}
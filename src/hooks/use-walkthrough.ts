@@ -74,7 +74,7 @@ export const WALKTHROUGH_STEPS: WalkthroughStep[] = [
     target: "import-export",
     title: "Save Your Work",
     description:
-      "Your work will not be saved. Be sure to export your scenario and re-import it to continue building where you left off.",
+      "Your work is saved automatically to the scenario library in this browser. Export a JSON copy to back it up or share it with others.",
   },
   {
     id: "finalize",
@@ -0,0 +1,62 @@
+/**
+ * @file annotations.ts
+ * @description Canvas annotations: keeping comment threads attached to messages and options that
+ *              still exist, labelling and counting threads, and leaving notes and comments out of
+ *              exported packages
+ *
+ * @dependencies scenario types
+ * @usage The reducer prunes threads after deletions; MessageFlowNode and CommentsPanel list them;
+ *        exportZip writes stripAnnotations(scenario) to the package
+ */
+
+import { ChatMessage, CommentThread, ScenarioData } from "@/types/scenario";
+
+/**
+ * Drops threads on deleted messages and moves threads on deleted options onto their message, so
+ * feedback about a removed response isn't lost. Returns `comments` itself when nothing changed.
+ */
+export function pruneCommentThreads(
+  comments: Record<string, CommentThread>,
+  messages: Record<string, ChatMessage>
+): Record<string, CommentThread> {
+  let changed = false;
+  const pruned: Record<string, CommentThread> = {};
+  Object.values(comments).forEach((thread) => {
+    const message = messages[thread.messageId];
+    if (!message) {
+      changed = true;
+      return;
+    }
+    if (thread.optionId && !message.responseOptions.some((option) => option.id === thread.optionId)) {
+      changed = true;
+      pruned[thread.id] = { ...thread, optionId: null };
+      return;
+    }
+    pruned[thread.id] = thread;
+  });
+  return changed ? pruned : comments;
+}
+
+// Threads on one message, open ones first, each group oldest first
+export function getMessageThreads(comments: Record<string, CommentThread>, messageId: string): CommentThread[] {
+  return Object.values(comments)
+    .filter((thread) => thread.messageId === messageId)
+    .sort((a, b) => Number(a.resolved) - Number(b.resolved) || a.comments[0].createdAt.localeCompare(b.comments[0].createdAt));
+}
+
+export function countOpenThreads(threads: CommentThread[]): number {
+  return threads.filter((thread) => !thread.resolved).length;
+}
+
+// What a thread is about, e.g. `Message` or `Response "Tell me more"`
+export function getThreadTargetLabel(thread: CommentThread, message: ChatMessage | undefined): string {
+  if (!thread.optionId) return "Message";
+  const option = message?.responseOptions.find((o) => o.id === thread.optionId);
+  return option ? `Response "${option.text || "Untitled"}"` : "Message";
+}
+
+// Sticky notes and review comments are for authors only, so packages never include them
+export function stripAnnotations(scenario: ScenarioData): Omit<ScenarioData, "notes" | "comments"> {
+  const { notes, comments, ...rest } = scenario;
+  return rest;
+}
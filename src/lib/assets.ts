@@ -0,0 +1,86 @@
+/**
+ * @file assets.ts
+ * @description Uploaded files for message attachments: reading files into scenario assets, picking
+ *              the attachment kind for a file, export file names, and finding assets no message uses
+ *
+ * @dependencies scenario types
+ * @usage MessageAttachments uploads through readFileAsAsset; the reducer prunes unused assets;
+ *        exportZip writes each asset to assets/ in the package
+ */
+
+import { AttachmentKind, ChatMessage, ScenarioAsset } from "@/types/scenario";
+
+// Assets live inside the scenario record in IndexedDB, so very large uploads are refused
+export const MAX_ASSET_BYTES = 15 * 1024 * 1024;
+
+export const ASSET_ACCEPT = "image/*,audio/*,video/*,application/pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt,.csv";
+
+export function getAttachmentKindForMime(mimeType: string): AttachmentKind {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("audio/")) return "audio";
+  if (mimeType.startsWith("video/")) return "video";
+  return "file";
+}
+
+export function readFileAsAsset(file: File): Promise<ScenarioAsset> {
+  return new Promise((resolve, reject) => {
+    if (file.size > MAX_ASSET_BYTES) {
+      reject(new Error(`${file.name} is larger than ${formatFileSize(MAX_ASSET_BYTES)}`));
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      resolve({
+        id: crypto.randomUUID(),
+        name: file.name,
+        mimeType: file.type || "application/octet-stream",
+        size: file.size,
+        data: event.target?.result as string,
+      });
+    };
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Path inside the export package, e.g. `assets/onboarding-call-3f2a9c1d.mp3`. The id suffix keeps
+// files with the same name apart.
+export function getAssetFileName(asset: ScenarioAsset): string {
+  const dot = asset.name.lastIndexOf(".");
+  const base = (dot > 0 ? asset.name.slice(0, dot) : asset.name)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "file";
+  const extension = dot > 0 ? asset.name.slice(dot + 1).toLowerCase().replace(/[^a-z0-9]/g, "") : "";
+  return `assets/${base}-${asset.id.slice(0, 8)}${extension ? `.${extension}` : ""}`;
+}
+
+// Link cards open in a new tab; anything but web and mail links (e.g. `javascript:`) is refused
+export function isSafeLinkUrl(url: string | undefined): boolean {
+  return !!url && /^(https?:|mailto:)/i.test(url.trim());
+}
+
+export function getLinkHostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+// Assets no attachment refers to any more, e.g. after removing an attachment or deleting a message
+export function findUnusedAssetIds(messages: Record<string, ChatMessage>, assets: Record<string, ScenarioAsset>): string[] {
+  const used = new Set<string>();
+  Object.values(messages).forEach((message) => {
+    (message.attachments ?? []).forEach((attachment) => {
+      if (attachment.assetId) used.add(attachment.assetId);
+    });
+  });
+  return Object.keys(assets).filter((id) => !used.has(id));
+}
@@ -0,0 +1,53 @@
+/**
+ * @file assignments.ts
+ * @description Helpers for response-option variable assignments: operation metadata per variable
+ *              type, clean-up when a variable is deleted, and human-readable descriptions
+ *
+ * @dependencies scenario types, conditions
+ * @usage Used by AssignmentEditor, ResponseOptionRow and the scenario reducer. Applying assignments
+ *        lives in scenarioEngine so the exported runtime shares it.
+ */
+
+import { AssignmentOperation, ScenarioVariable, VariableAssignment, VariableType } from "@/types/scenario";
+import { formatConditionValue } from "@/lib/conditions";
+
+export const ASSIGNMENT_OPERATIONS: Record<AssignmentOperation, { symbol: string; label: string }> = {
+  set: { symbol: "=", label: "set to" },
+  increment: { symbol: "+", label: "add" },
+  decrement: { symbol: "−", label: "subtract" },
+  append: { symbol: "+=", label: "append" },
+  toggle: { symbol: "toggle", label: "toggle" },
+};
+
+const OPERATIONS_BY_TYPE: Record<VariableType, AssignmentOperation[]> = {
+  boolean: ["set", "toggle"],
+  number: ["set", "increment", "decrement"],
+  text: ["set", "append"],
+};
+
+export function getOperationsForType(type: VariableType): AssignmentOperation[] {
+  return OPERATIONS_BY_TYPE[type];
+}
+
+// Returns undefined when nothing is left, and the same array when the variable was not used
+export function removeVariableFromAssignments(
+  assignments: VariableAssignment[] | undefined,
+  variableId: string
+): VariableAssignment[] | undefined {
+  if (!assignments) return undefined;
+  const remaining = assignments.filter((a) => a.variableId !== variableId);
+  if (remaining.length === 0) return undefined;
+  return remaining.length === assignments.length ? assignments : remaining;
+}
+
+// e.g. `score + 10`, `tone = "calm"`, `toggle escalated`
+export function describeAssignment(assignment: VariableAssignment, variables: Record<string, ScenarioVariable>): string {
+  const name = variables[assignment.variableId]?.name ?? "(deleted variable)";
+  const operation = assignment.operation ?? "set";
+  if (operation === "toggle") return `toggle ${name}`;
+  return `${name} ${ASSIGNMENT_OPERATIONS[operation].symbol} ${formatConditionValue(assignment.value)}`;
+}
+
+export function describeAssignments(assignments: VariableAssignment[], variables: Record<string, ScenarioVariable>): string {
+  return assignments.map((a) => describeAssignment(a, variables)).join(", ");
+}
@@ -0,0 +1,178 @@
+/**
+ * @file autoLayout.ts
+ * @description Layered auto-layout for the message graph: breaks loops, puts each message one layer
+ *              after its furthest parent, orders layers to reduce crossing edges, and spaces nodes
+ *              by their size, left-to-right or top-down
+ *
+ * @dependencies scenarioGraph, scenario types
+ * @usage FlowCanvas runs computeAutoLayout for the toolbar's Auto-arrange action and applies the
+ *        result with a single setNodePositions update
+ */
+
+import { ChatMessage, NodePosition } from "@/types/scenario";
+import { MessageGraph, buildMessageGraph } from "@/lib/scenarioGraph";
+
+export type LayoutDirection = "LR" | "TB";
+
+export interface NodeSize {
+  width: number;
+  height: number;
+}
+
+export interface AutoLayoutOptions {
+  direction: LayoutDirection;
+  sizes?: Record<string, NodeSize>; // Measured node sizes; missing ones use DEFAULT_NODE_SIZE
+  origin?: NodePosition; // Top-left corner of the layout
+}
+
+export const DEFAULT_NODE_SIZE: NodeSize = { width: 320, height: 220 };
+
+const LAYER_GAP = 120; // Between layers, along the flow direction
+const NODE_GAP = 48; // Between nodes in the same layer
+const ORDERING_SWEEPS = 4;
+
+// Drops edges that close a loop, found by depth-first search from the start message, so the rest
+// of the graph has a clear forward direction
+function removeBackEdges(graph: MessageGraph, startIds: string[]): MessageGraph {
+  const acyclic: MessageGraph = new Map();
+  const state = new Map<string, "active" | "done">();
+
+  const visit = (rootId: string) => {
+    const stack: { id: string; index: number }[] = [{ id: rootId, index: 0 }];
+    state.set(rootId, "active");
+    acyclic.set(rootId, []);
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const targets = graph.get(frame.id) ?? [];
+      if (frame.index >= targets.length) {
+        state.set(frame.id, "done");
+        stack.pop();
+        continue;
+      }
+      const target = targets[frame.index++];
+      const targetState = state.get(target);
+      if (targetState === "active") continue; // Back edge
+      acyclic.get(frame.id)!.push(target);
+      if (!targetState) {
+        state.set(target, "active");
+        acyclic.set(target, []);
+        stack.push({ id: target, index: 0 });
+      }
+    }
+  };
+
+  startIds.forEach((id) => {
+    if (graph.has(id) && !state.has(id)) visit(id);
+  });
+  graph.forEach((_, id) => {
+    if (!state.has(id)) visit(id);
+  });
+  return acyclic;
+}
+
+// Longest path from any source, so every edge points to a later layer
+function assignLayers(dag: MessageGraph, order: string[]): Map<string, number> {
+  const indegree = new Map<string, number>();
+  dag.forEach((_, id) => indegree.set(id, 0));
+  dag.forEach((targets) => targets.forEach((target) => indegree.set(target, (indegree.get(target) ?? 0) + 1)));
+
+  const layers = new Map<string, number>();
+  const queue = order.filter((id) => indegree.get(id) === 0);
+  queue.forEach((id) => layers.set(id, 0));
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const layer = layers.get(id)!;
+    dag.get(id)?.forEach((target) => {
+      layers.set(target, Math.max(layers.get(target) ?? 0, layer + 1));
+      const remaining = indegree.get(target)! - 1;
+      indegree.set(target, remaining);
+      if (remaining === 0) queue.push(target);
+    });
+  }
+  return layers;
+}
+
+// Barycenter heuristic: sort each layer by the average position of its neighbours in the layer
+// before (downward sweep) or after (upward sweep)
+function orderLayers(layers: string[][], dag: MessageGraph): string[][] {
+  const parents = new Map<string, string[]>();
+  dag.forEach((targets, id) => targets.forEach((target) => {
+    if (!parents.has(target)) parents.set(target, []);
+    parents.get(target)!.push(id);
+  }));
+
+  const ordered = layers.map((layer) => [...layer]);
+  const sortByNeighbours = (layerIndex: number, neighbourLayer: string[], getNeighbours: (id: string) => string[]) => {
+    const positions = new Map(neighbourLayer.map((id, index) => [id, index]));
+    const current = ordered[layerIndex];
+    const weights = new Map<string, number>();
+    current.forEach((id, index) => {
+      const linked = getNeighbours(id).filter((n) => positions.has(n)).map((n) => positions.get(n)!);
+      // Nodes without neighbours there keep their place
+      weights.set(id, linked.length > 0 ? linked.reduce((sum, p) => sum + p, 0) / linked.length : index);
+    });
+    ordered[layerIndex] = [...current].sort((a, b) => weights.get(a)! - weights.get(b)!);
+  };
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let i = 1; i < ordered.length; i++) sortByNeighbours(i, ordered[i - 1], (id) => parents.get(id) ?? []);
+    } else {
+      for (let i = ordered.length - 2; i >= 0; i--) sortByNeighbours(i, ordered[i + 1], (id) => dag.get(id) ?? []);
+    }
+  }
+  return ordered;
+}
+
+/**
+ * New positions for every message. Follows response and direct connections from the start message;
+ * messages nothing leads to start their own branches in the first layer.
+ */
+export function computeAutoLayout(
+  messages: Record<string, ChatMessage>,
+  rootMessageId: string | null,
+  { direction, sizes = {}, origin = { x: 100, y: 100 } }: AutoLayoutOptions
+): Record<string, NodePosition> {
+  const ids = Object.keys(messages);
+  if (ids.length === 0) return {};
+
+  const graph = buildMessageGraph(messages);
+  // The start message goes first so loops back to it are the edges that get dropped
+  const order = rootMessageId && messages[rootMessageId] ? [rootMessageId, ...ids.filter((id) => id !== rootMessageId)] : ids;
+  const dag = removeBackEdges(graph, order);
+  const layerOf = assignLayers(dag, order);
+
+  const layers: string[][] = [];
+  order.forEach((id) => {
+    const layer = layerOf.get(id) ?? 0;
+    (layers[layer] ??= []).push(id);
+  });
+  const ordered = orderLayers(layers.filter(Boolean), dag);
+
+  const sizeOf = (id: string) => sizes[id] ?? DEFAULT_NODE_SIZE;
+  // Along: the flow direction. Across: how nodes in one layer stack.
+  const along = (size: NodeSize) => (direction === "LR" ? size.width : size.height);
+  const across = (size: NodeSize) => (direction === "LR" ? size.height : size.width);
+
+  const layerExtents = ordered.map((layer) =>
+    layer.reduce((total, id, index) => total + across(sizeOf(id)) + (index > 0 ? NODE_GAP : 0), 0)
+  );
+  const widest = Math.max(...layerExtents);
+
+  const positions: Record<string, NodePosition> = {};
+  let offsetAlong = 0;
+  ordered.forEach((layer, layerIndex) => {
+    // Centre each layer against the widest one
+    let offsetAcross = (widest - layerExtents[layerIndex]) / 2;
+    layer.forEach((id) => {
+      const size = sizeOf(id);
+      positions[id] =
+        direction === "LR"
+          ? { x: origin.x + offsetAlong, y: origin.y + offsetAcross }
+          : { x: origin.x + offsetAcross, y: origin.y + offsetAlong };
+      offsetAcross += across(size) + NODE_GAP;
+    });
+    offsetAlong += Math.max(...layer.map((id) => along(sizeOf(id)))) + LAYER_GAP;
+  });
+  return positions;
+}
@@ -0,0 +1,92 @@
+/**
+ * @file canvasSearch.ts
+ * @description Canvas search: finds messages whose text, response options or variables match a
+ *              query, optionally narrowed to messages that use a variable or end the conversation
+ *
+ * @dependencies scenario types, markdown, clipboard
+ * @usage CanvasSearch lists the results, steps through them and dims every other message
+ */
+
+import { ChatMessage, ScenarioData } from "@/types/scenario";
+import { markdown } from "@/lib/markdown";
+import { getReferencedVariableIds } from "@/lib/clipboard";
+
+export type SearchMatchField = "content" | "option" | "variable";
+
+export interface SearchMatch {
+  field: SearchMatchField;
+  text: string;
+  optionId?: string;
+}
+
+export interface SearchResult {
+  messageId: string;
+  matches: SearchMatch[];
+}
+
+export interface SearchFilters {
+  variableId: string | null;
+  endpointsOnly: boolean;
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = { variableId: null, endpointsOnly: false };
+
+type SearchSource = Pick<ScenarioData, "messages" | "variables">;
+
+// Nothing to dim until there is a query or a filter
+export function isSearchActive(query: string, filters: SearchFilters): boolean {
+  return query.trim() !== "" || filters.variableId !== null || filters.endpointsOnly;
+}
+
+function matchesFilters(message: ChatMessage, scenario: SearchSource, filters: SearchFilters): boolean {
+  if (filters.endpointsOnly && !message.isEndpoint) return false;
+  if (filters.variableId && !getReferencedVariableIds(message, scenario.variables).includes(filters.variableId)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Messages matching `query` (case-insensitive) in canvas order. Content is matched as plain text so
+ * formatting marks don't get in the way. With only filters set, every message that passes is listed
+ * without matches.
+ */
+export function searchMessages(scenario: SearchSource, query: string, filters: SearchFilters): SearchResult[] {
+  if (!isSearchActive(query, filters)) return [];
+  const needle = query.trim().toLowerCase();
+  const results: SearchResult[] = [];
+
+  Object.values(scenario.messages).forEach((message) => {
+    if (!matchesFilters(message, scenario, filters)) return;
+    if (!needle) {
+      results.push({ messageId: message.id, matches: [] });
+      return;
+    }
+
+    const matches: SearchMatch[] = [];
+    const content = markdown.toPlainText(message.content);
+    if (content.toLowerCase().includes(needle)) matches.push({ field: "content", text: content });
+    message.responseOptions.forEach((option) => {
+      if (option.text.toLowerCase().includes(needle)) {
+        matches.push({ field: "option", text: option.text, optionId: option.id });
+      }
+    });
+    getReferencedVariableIds(message, scenario.variables).forEach((id) => {
+      const name = scenario.variables[id].name;
+      if (name.toLowerCase().includes(needle)) matches.push({ field: "variable", text: name });
+    });
+
+    if (matches.length > 0) results.push({ messageId: message.id, matches });
+  });
+
+  return results;
+}
+
+// A short excerpt of `text` around the first match, so long messages still show why they matched
+export function getSearchSnippet(text: string, query: string, radius = 30): string {
+  const index = text.toLowerCase().indexOf(query.trim().toLowerCase());
+  if (index < 0 || text.length <= radius * 2) return text;
+  const start = Math.max(0, index - radius);
+  const end = Math.min(text.length, index + query.trim().length + radius);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+}
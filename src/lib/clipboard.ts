@@ -0,0 +1,220 @@
+/**
+ * @file clipboard.ts
+ * @description Copy and paste of message subgraphs: collects the selected messages with the
+ *              variables, speakers and files they use, and turns a copy into new messages with fresh
+ *              ids, links between copied messages re-wired and links to anything else dropped.
+ *              Sub-flow membership and calls are kept when the scenario has that sub-flow; frame
+ *              membership is left for the paste position to decide.
+ *
+ * @dependencies scenario types, conditions
+ * @usage FlowCanvas copies with copyMessages and writes serializeClipboard to the system clipboard,
+ *        so messages can move between scenarios; pasting goes through preparePaste and pasteMessages.
+ *        canvasSearch reuses getReferencedVariableIds for its "uses variable" filter
+ */
+
+import {
+  ChatMessage,
+  Condition,
+  NodePosition,
+  ScenarioAsset,
+  ScenarioData,
+  ScenarioVariable,
+  Speaker,
+  VariableAssignment,
+} from "@/types/scenario";
+import { getConditionLeaves, isConditionGroup } from "@/lib/conditions";
+
+const CLIPBOARD_FORMAT = "chatatouille/messages";
+const CLIPBOARD_VERSION = 1;
+
+export interface ScenarioClipboard {
+  format: typeof CLIPBOARD_FORMAT;
+  version: number;
+  messages: ChatMessage[];
+  variables: ScenarioVariable[];
+  speakers: Speaker[];
+  assets: ScenarioAsset[];
+}
+
+// Everything a paste adds to the scenario; the reducer merges it as one undo step
+export interface PastePlan {
+  messages: Record<string, ChatMessage>;
+  variables: Record<string, ScenarioVariable>;
+  speakers: Record<string, Speaker>;
+  assets: Record<string, ScenarioAsset>;
+}
+
+type ClipboardSource = Pick<ScenarioData, "messages" | "variables" | "speakers" | "assets"> &
+  Partial<Pick<ScenarioData, "subFlows">>;
+
+const placeholderPattern = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// Variable ids a message uses in conditions, assignments, its input and {{name}} placeholders
+export function getReferencedVariableIds(message: ChatMessage, variables: Record<string, ScenarioVariable>): string[] {
+  const ids = new Set<string>();
+  getConditionLeaves(message.condition).forEach((leaf) => ids.add(leaf.variableId));
+  if (message.input?.variableId) ids.add(message.input.variableId);
+  message.responseOptions.forEach((option) => {
+    getConditionLeaves(option.condition).forEach((leaf) => ids.add(leaf.variableId));
+    (option.assignments ?? []).forEach((assignment) => ids.add(assignment.variableId));
+  });
+
+  const names = new Set<string>();
+  [message.content, ...message.responseOptions.map((option) => option.text)].forEach((text) => {
+    for (const match of (text ?? "").matchAll(placeholderPattern)) names.add(match[1]);
+  });
+  Object.values(variables).forEach((variable) => {
+    if (names.has(variable.name)) ids.add(variable.id);
+  });
+  return [...ids].filter((id) => variables[id]);
+}
+
+export function copyMessages(scenario: ClipboardSource, messageIds: string[]): ScenarioClipboard {
+  const messages = messageIds.map((id) => scenario.messages[id]).filter((message): message is ChatMessage => !!message);
+  const variableIds = new Set(messages.flatMap((message) => getReferencedVariableIds(message, scenario.variables)));
+  const speakerIds = new Set(messages.map((message) => message.speakerId).filter((id): id is string => !!id));
+  const assetIds = new Set(
+    messages.flatMap((message) => (message.attachments ?? []).map((a) => a.assetId)).filter((id): id is string => !!id)
+  );
+
+  return {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    messages,
+    variables: [...variableIds].map((id) => scenario.variables[id]),
+    speakers: [...speakerIds].map((id) => scenario.speakers[id]).filter((speaker): speaker is Speaker => !!speaker),
+    assets: [...assetIds].map((id) => scenario.assets[id]).filter((asset): asset is ScenarioAsset => !!asset),
+  };
+}
+
+export function serializeClipboard(clipboard: ScenarioClipboard): string {
+  return JSON.stringify(clipboard);
+}
+
+// Returns null for text that is not a copy of messages, so ordinary pastes are left alone
+export function parseClipboard(text: string): ScenarioClipboard | null {
+  try {
+    const data = JSON.parse(text) as Partial<ScenarioClipboard>;
+    if (data?.format !== CLIPBOARD_FORMAT || !Array.isArray(data.messages) || data.messages.length === 0) return null;
+    return {
+      format: CLIPBOARD_FORMAT,
+      version: data.version ?? CLIPBOARD_VERSION,
+      messages: data.messages,
+      variables: data.variables ?? [],
+      speakers: data.speakers ?? [],
+      assets: data.assets ?? [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+function remapCondition(condition: Condition | undefined, variableIds: Map<string, string>): Condition | undefined {
+  if (!condition) return undefined;
+  if (isConditionGroup(condition)) {
+    return { ...condition, conditions: condition.conditions.map((child) => remapCondition(child, variableIds)!) };
+  }
+  return { ...condition, variableId: variableIds.get(condition.variableId) ?? condition.variableId };
+}
+
+function remapAssignments(assignments: VariableAssignment[] | undefined, variableIds: Map<string, string>) {
+  return assignments?.map((a) => ({ ...a, variableId: variableIds.get(a.variableId) ?? a.variableId }));
+}
+
+function getUniqueName(name: string, taken: Set<string>): string {
+  if (!taken.has(name)) return name;
+  let index = 2;
+  while (taken.has(`${name} ${index}`)) index++;
+  return `${name} ${index}`;
+}
+
+/**
+ * Messages, variables, speakers and files to add for a paste. Copied messages keep their layout,
+ * moved so the top-left message lands on `position`. Variables and speakers that already exist in
+ * the scenario (same id, or same name and type) are reused instead of added again. A variable added
+ * under a new name because its name was taken has its {{name}} placeholders renamed to match.
+ */
+export function preparePaste(scenario: ClipboardSource, clipboard: ScenarioClipboard, position: NodePosition): PastePlan {
+  const plan: PastePlan = { messages: {}, variables: {}, speakers: {}, assets: {} };
+
+  const variableIds = new Map<string, string>();
+  const renamedVariables = new Map<string, string>(); // Old name → name it was added under
+  const variableNames = new Set(Object.values(scenario.variables).map((v) => v.name));
+  clipboard.variables.forEach((variable) => {
+    if (scenario.variables[variable.id]) {
+      variableIds.set(variable.id, variable.id);
+      return;
+    }
+    const sameName = Object.values(scenario.variables).find((v) => v.name === variable.name && v.type === variable.type);
+    if (sameName) {
+      variableIds.set(variable.id, sameName.id);
+      return;
+    }
+    const added = { ...variable, id: crypto.randomUUID(), name: getUniqueName(variable.name, variableNames) };
+    variableNames.add(added.name);
+    if (added.name !== variable.name) renamedVariables.set(variable.name, added.name);
+    variableIds.set(variable.id, added.id);
+    plan.variables[added.id] = added;
+  });
+
+  const speakerIds = new Map<string, string>();
+  clipboard.speakers.forEach((speaker) => {
+    const existing = scenario.speakers[speaker.id] ?? Object.values(scenario.speakers).find((s) => s.name === speaker.name);
+    if (existing) {
+      speakerIds.set(speaker.id, existing.id);
+      return;
+    }
+    plan.speakers[speaker.id] = speaker;
+    speakerIds.set(speaker.id, speaker.id);
+  });
+
+  // Files keep their ids when copied, so one already in the scenario is the same file
+  clipboard.assets.forEach((asset) => {
+    if (!scenario.assets[asset.id]) plan.assets[asset.id] = asset;
+  });
+
+  const renamePlaceholders = (text: string) =>
+    renamedVariables.size === 0
+      ? text
+      : text.replace(placeholderPattern, (match, name: string) => (renamedVariables.has(name) ? `{{${renamedVariables.get(name)}}}` : match));
+
+  const subFlows = scenario.subFlows ?? {};
+  const messageIds = new Map(clipboard.messages.map((message) => [message.id, crypto.randomUUID()]));
+  const linkTarget = (id: string | null | undefined) => (id ? messageIds.get(id) ?? null : null);
+  const left = Math.min(...clipboard.messages.map((m) => m.position.x));
+  const top = Math.min(...clipboard.messages.map((m) => m.position.y));
+
+  clipboard.messages.forEach((message) => {
+    const id = messageIds.get(message.id)!;
+    const copy: ChatMessage = {
+      ...message,
+      id,
+      content: renamePlaceholders(message.content),
+      position: { x: position.x + message.position.x - left, y: position.y + message.position.y - top },
+      condition: remapCondition(message.condition, variableIds),
+      responseOptions: message.responseOptions.map((option) => ({
+        ...option,
+        id: crypto.randomUUID(),
+        text: renamePlaceholders(option.text),
+        nextMessageId: linkTarget(option.nextMessageId),
+        condition: remapCondition(option.condition, variableIds),
+        assignments: remapAssignments(option.assignments, variableIds),
+      })),
+      attachments: message.attachments?.map((attachment) => ({ ...attachment, id: crypto.randomUUID() })),
+    };
+    if ("nextMessageId" in message) copy.nextMessageId = linkTarget(message.nextMessageId);
+    if (message.speakerId) copy.speakerId = speakerIds.get(message.speakerId);
+    if (message.input) {
+      const variableId = message.input.variableId;
+      copy.input = { ...message.input, variableId: variableId ? variableIds.get(variableId) ?? null : null };
+    }
+    // Sub-flows are not copied along; references to ones this scenario lacks are dropped
+    if (message.subFlowId && !subFlows[message.subFlowId]) delete copy.subFlowId;
+    if (message.call?.subFlowId && !subFlows[message.call.subFlowId]) copy.call = { subFlowId: null };
+    // Copies usually land away from the original, so FlowCanvas picks the frame they land in
+    delete copy.frameId;
+    plan.messages[id] = copy;
+  });
+
+  return plan;
+}
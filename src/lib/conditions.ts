@@ -0,0 +1,91 @@
+/**
+ * @file conditions.ts
+ * @description Helpers for compound visibility conditions: operator metadata, tree traversal,
+ *              clean-up when a variable is deleted, and human-readable descriptions
+ *
+ * @dependencies scenario types
+ * @usage Used by ConditionEditor, node badges, the scenario reducer and validation. Evaluation itself
+ *        lives in scenarioEngine so the exported runtime shares it.
+ */
+
+import {
+  Condition,
+  ConditionGroup,
+  ConditionOperator,
+  ScenarioVariable,
+  VariableCondition,
+  VariableType,
+  VariableValue,
+} from "@/types/scenario";
+
+export const CONDITION_OPERATORS: Record<ConditionOperator, { symbol: string; label: string }> = {
+  eq: { symbol: "=", label: "equals" },
+  neq: { symbol: "≠", label: "does not equal" },
+  gt: { symbol: ">", label: "greater than" },
+  lt: { symbol: "<", label: "less than" },
+  gte: { symbol: "≥", label: "at least" },
+  lte: { symbol: "≤", label: "at most" },
+  contains: { symbol: "contains", label: "contains" },
+};
+
+const OPERATORS_BY_TYPE: Record<VariableType, ConditionOperator[]> = {
+  boolean: ["eq", "neq"],
+  number: ["eq", "neq", "gt", "lt", "gte", "lte"],
+  text: ["eq", "neq", "contains"],
+};
+
+export function getOperatorsForType(type: VariableType): ConditionOperator[] {
+  return OPERATORS_BY_TYPE[type];
+}
+
+export function isConditionGroup(condition: Condition): condition is ConditionGroup {
+  return "conditions" in condition;
+}
+
+// The editor always works on a group; a lone comparison becomes a one-item AND group
+export function toConditionGroup(condition: Condition | undefined): ConditionGroup {
+  if (!condition) return { logic: "and", conditions: [] };
+  return isConditionGroup(condition) ? condition : { logic: "and", conditions: [condition] };
+}
+
+// Every comparison in the tree, depth first
+export function getConditionLeaves(condition: Condition | undefined): VariableCondition[] {
+  if (!condition) return [];
+  return isConditionGroup(condition) ? condition.conditions.flatMap(getConditionLeaves) : [condition];
+}
+
+/**
+ * Drop comparisons that use `variableId`, and any group left empty. Returns undefined when nothing
+ * is left, and the same object when the variable was not used.
+ */
+export function removeVariableFromCondition(condition: Condition | undefined, variableId: string): Condition | undefined {
+  if (!condition) return undefined;
+  if (!isConditionGroup(condition)) return condition.variableId === variableId ? undefined : condition;
+  const remaining = condition.conditions
+    .map((child) => removeVariableFromCondition(child, variableId))
+    .filter((child): child is Condition => !!child);
+  if (remaining.length === 0) return undefined;
+  const isUnchanged = remaining.length === condition.conditions.length && remaining.every((c, i) => c === condition.conditions[i]);
+  return isUnchanged ? condition : { ...condition, conditions: remaining };
+}
+
+export function formatConditionValue(value: VariableValue): string {
+  if (typeof value === "boolean") return value ? "true" : "false";
+  if (typeof value === "string") return `"${value}"`;
+  return String(value);
+}
+
+// e.g. `score ≥ 5 AND (role = "lead" OR vip = true)`
+export function describeCondition(condition: Condition, variables: Record<string, ScenarioVariable>): string {
+  if (isConditionGroup(condition)) {
+    const parts = condition.conditions.map((child) =>
+      isConditionGroup(child) && child.conditions.length > 1
+        ? `(${describeCondition(child, variables)})`
+        : describeCondition(child, variables)
+    );
+    return parts.join(condition.logic === "or" ? " OR " : " AND ");
+  }
+  const name = variables[condition.variableId]?.name ?? "deleted variable";
+  const operator = CONDITION_OPERATORS[condition.operator ?? "eq"].symbol;
+  return `${name} ${operator} ${formatConditionValue(condition.requiredValue)}`;
+}
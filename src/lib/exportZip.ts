@@ -1,14 +1,50 @@
 /**
  * @file exportZip.ts
  * @description ZIP export functionality to generate standalone HTML chat scenarios for Articulate Rise
- *              and other authoring tools. Creates a self-contained package with embedded CSS/JS.
+ *              and other authoring tools. Creates a self-contained package with embedded CSS/JS,
+ *              optionally packaged for SCORM 1.2 / 2004 LMSs or emitting xAPI / cmi5 statements.
+ *              Message attachments are written to assets/ and loaded by relative path. Sub-flow
+ *              calls are played by the embedded scenario engine. Sticky notes and review comments
+ *              are left out of the package. LRS credentials are only written into xAPI packages.
  *
- * @dependencies jszip, scenario types
+ * @dependencies jszip, scenario types, scenarioEngine, markdown, assets, annotations, scorm, xapi
  * @usage Called from TopBar when user clicks "Finalize" button
  */
 
 import JSZip from "jszip";
-import { ScenarioData } from "@/types/scenario";
+import { ScenarioData, ScenarioAsset, ExportTarget, ExportSettings, DEFAULT_EXPORT_SETTINGS } from "@/types/scenario";
+import { createScenarioEngine } from "@/lib/scenarioEngine";
+import { createMarkdownRenderer } from "@/lib/markdown";
+import { findUnusedAssetIds, getAssetFileName } from "@/lib/assets";
+import { stripAnnotations } from "@/lib/annotations";
+import { createScormConnection, generateScormManifest, ScormVersion } from "@/lib/scorm";
+import { createXapiClient, generateCmi5CourseStructure, getDefaultActivityId, XapiClientConfig, XapiMode } from "@/lib/xapi";
+
+const SCORM_VERSIONS: Partial<Record<ExportTarget, ScormVersion>> = {
+  scorm12: "1.2",
+  scorm2004: "2004",
+};
+
+const XAPI_MODES: Partial<Record<ExportTarget, XapiMode>> = {
+  xapi: "xapi",
+  cmi5: "cmi5",
+};
+
+// Basic auth header from an LRS key/secret pair (UTF-8 safe)
+function toBasicAuth(key: string, secret: string): string {
+  if (!key) return "";
+  const bytes = new TextEncoder().encode(`${key}:${secret}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+}
+
+/**
+ * The scenario without its LRS key and secret, for JSON that leaves the builder. Only the xAPI
+ * package needs them, and it embeds them in index.html on its own.
+ */
+export function stripLrsCredentials<T extends Pick<ScenarioData, "exportSettings">>(scenario: T): T {
+  if (!scenario.exportSettings) return scenario;
+  return { ...scenario, exportSettings: { ...scenario.exportSettings, lrsKey: "", lrsSecret: "" } };
+}
 
 export async function generateExportZip(scenario: ScenarioData): Promise<Blob> {
   const zip = new JSZip();
@@ -18,27 +54,133 @@ export async function generateExportZip(scenario: ScenarioData): Promise<Blob> {
   zip.file("index.html", html);
 
   // Add scenario data as JSON for reference
-  zip.file("scenario.json", JSON.stringify(scenario, null, 2));
+  zip.file("scenario.json", JSON.stringify(stripLrsCredentials(stripAnnotations(scenario)), null, 2));
+
+  const target = scenario.exportSettings?.target ?? "web";
 
   // Add a readme file
-  zip.file("README.txt", generateReadme(scenario.name));
+  zip.file("README.txt", generateReadme(scenario.name, target));
 
   // If there's a custom avatar image, add it
   if (scenario.theme.contactAvatar) {
-    // Extract base64 data and add as image file
-    const avatarData = scenario.theme.contactAvatar;
-    if (avatarData.startsWith("data:image")) {
-      const [header, base64] = avatarData.split(",");
-      const mimeMatch = header.match(/data:(image\/\w+);/);
-      const extension = mimeMatch ? mimeMatch[1].split("/")[1] : "png";
-      zip.file(`avatar.${extension}`, base64, { base64: true });
+    addAvatarFile(zip, "avatar", scenario.theme.contactAvatar);
+  }
+
+  // Speaker avatars are numbered in registry order
+  Object.values(scenario.speakers ?? {}).forEach((speaker, index) => {
+    if (speaker.avatar) {
+      addAvatarFile(zip, `speaker-${index + 1}`, speaker.avatar);
     }
+  });
+
+  // Attachments are kept as separate files so index.html stays small
+  getExportedAssets(scenario).forEach((asset) => {
+    const base64 = asset.data.slice(asset.data.indexOf(",") + 1);
+    zip.file(getAssetFileName(asset), base64, { base64: true });
+  });
+
+  if (target === "cmi5") {
+    const activityId = scenario.exportSettings.activityId.trim() || getDefaultActivityId(scenario);
+    zip.file("cmi5.xml", generateCmi5CourseStructure(scenario, activityId));
+  }
+
+  // The manifest goes in last so it can list every other file in the package
+  const scormVersion = SCORM_VERSIONS[target];
+  if (scormVersion) {
+    const files = Object.keys(zip.files).filter((path) => !zip.files[path].dir);
+    zip.file("imsmanifest.xml", generateScormManifest(scenario, scormVersion, files));
   }
 
   return zip.generateAsync({ type: "blob" });
 }
 
-function generateReadme(scenarioName: string): string {
+function getExportedAssets(scenario: ScenarioData): ScenarioAsset[] {
+  const assets = scenario.assets ?? {};
+  const unused = new Set(findUnusedAssetIds(scenario.messages, assets));
+  return Object.values(assets).filter((asset) => !unused.has(asset.id));
+}
+
+// Extract base64 data and add as image file
+function addAvatarFile(zip: JSZip, baseName: string, avatarData: string) {
+  if (avatarData.startsWith("data:image")) {
+    const [header, base64] = avatarData.split(",");
+    const mimeMatch = header.match(/data:(image\/\w+);/);
+    const extension = mimeMatch ? mimeMatch[1].split("/")[1] : "png";
+    zip.file(`${baseName}.${extension}`, base64, { base64: true });
+  }
+}
+
+function generateReadme(scenarioName: string, target: ExportTarget): string {
+  if (target === "cmi5") {
+    return `${scenarioName} - cmi5 Package
+=====================================
+
+Thank you so much for using Chatatouille!
+
+This ZIP is a cmi5 course. Import it as-is into a cmi5-capable LMS. The LMS supplies the
+LRS endpoint, learner and credentials when it launches the scenario.
+
+FILES INCLUDED:
+- cmi5.xml: Course structure with a single assignable unit.
+- index.html: The complete interactive chat scenario.
+- scenario.json: Raw scenario data for reference or reimport.
+- assets/: Images, audio, video and files attached to messages, if any.
+
+TRACKING:
+- "experienced" for each message shown, "answered" for each response picked (with message
+  id, option id and variable state), and completed/passed/failed at the end, with the
+  session duration.
+- When the LMS launches with a returnURL, an Exit button at the end of the conversation
+  sends "terminated" and returns the learner to the LMS.
+
+Made with ❤ by Chatatouille, a chat scenario builder tool created by Zainab Fawzul & Lovable. 
+`;
+  }
+
+  if (target === "xapi") {
+    return `${scenarioName} - xAPI Export
+=====================================
+
+Thank you so much for using Chatatouille!
+
+This folder contains a chat scenario that sends xAPI statements to a Learning Record Store.
+Host it or upload it like the standard web export.
+
+TRACKING:
+- "experienced" for each message shown, "answered" for each response picked (with message
+  id, option id and variable state), and "completed" at the end of the conversation.
+- WARNING: the LRS endpoint and credentials set at export time are embedded in index.html,
+  so every learner who opens the package can read them. Use a write-only key that can be
+  revoked. Launch parameters (?endpoint=...&auth=...&actor=...) override them.
+- scenario.json leaves the key and secret out.
+
+Made with ❤ by Chatatouille, a chat scenario builder tool created by Zainab Fawzul & Lovable. 
+`;
+  }
+
+  if (target === "scorm12" || target === "scorm2004") {
+    return `${scenarioName} - SCORM ${target === "scorm12" ? "1.2" : "2004"} Package
+=====================================
+
+Thank you so much for using Chatatouille!
+
+This ZIP is a SCORM package. Upload it as-is to Moodle, Cornerstone, or any LMS that
+accepts SCORM ${target === "scorm12" ? "1.2" : "2004"} content. Do not unzip it first.
+
+FILES INCLUDED:
+- imsmanifest.xml: Tells the LMS how to launch the scenario.
+- index.html: The complete interactive chat scenario.
+- scenario.json: Raw scenario data for reference or reimport.
+- assets/: Images, audio, video and files attached to messages, if any.
+
+TRACKING:
+- Completion, pass/fail and score are reported to the LMS each time the learner reaches
+  the end of the conversation.
+
+Made with ❤ by Chatatouille, a chat scenario builder tool created by Zainab Fawzul & Lovable. 
+`;
+  }
+
   return `${scenarioName} - Chat Scenario Export
 =====================================
 
@@ -50,6 +192,7 @@ Articulate Rise, Parta.io, or any authoring tool that lets you upload ZIP packag
 FILES INCLUDED:
 - index.html: The complete interactive chat scenario. This is a standard template.
 - scenario.json: Raw scenario data for reference or reimport. This file is the identity of your chat interaction.
+- assets/: Images, audio, video and files attached to messages, if any.
 
 HOW TO USE IN ARTICULATE RISE:
 1. Upload this entire ZIP folder to the Rise code block.
@@ -68,7 +211,7 @@ Made with ❤ by Chatatouille, a chat scenario builder tool created by Zainab Fa
 }
 
 function generateStandaloneHTML(scenario: ScenarioData): string {
-  const { theme, messages, variables, rootMessageId, name } = scenario;
+  const { theme, messages, variables, speakers, subFlows, rootMessageId, name } = scenario;
 
   // Start screen text with fallbacks
   const startTitle = theme.startScreenTitle ?? "Ready to Start";
@@ -83,9 +226,35 @@ function generateStandaloneHTML(scenario: ScenarioData): string {
   const conversationType = theme.conversationType ?? "chat";
   const isRegularMode = conversationType === "regular";
   const enableRiseCompletion = theme.enableRiseCompletion ?? false;
+  const exportSettings = scenario.exportSettings ?? DEFAULT_EXPORT_SETTINGS;
+  const scormVersion = SCORM_VERSIONS[exportSettings.target] ?? null;
+  const xapiMode = XAPI_MODES[exportSettings.target] ?? null;
+  const xapiConfig: XapiClientConfig | null = xapiMode
+    ? {
+        mode: xapiMode,
+        endpoint: xapiMode === "xapi" ? exportSettings.lrsEndpoint.trim() : "",
+        auth: xapiMode === "xapi" ? toBasicAuth(exportSettings.lrsKey, exportSettings.lrsSecret) : "",
+        activityId: exportSettings.activityId.trim() || getDefaultActivityId(scenario),
+        scenarioName: name,
+      }
+    : null;
+  // The runtime only scores the learner; the rest of the export settings stay in the builder
+  const scoring: Pick<ExportSettings, "scoreVariableId" | "maxScore" | "passingScore"> = {
+    scoreVariableId: exportSettings.scoreVariableId,
+    maxScore: exportSettings.maxScore,
+    passingScore: exportSettings.passingScore,
+  };
 
   // Escape for safe JSON embedding in script
-  const scenarioJSON = JSON.stringify({ messages, variables, rootMessageId, theme });
+  const runtimeScenario = { messages, variables, speakers: speakers ?? {}, subFlows: subFlows ?? {}, rootMessageId, theme };
+  const scenarioJSON = JSON.stringify(runtimeScenario).replace(/</g, "\\u003c");
+
+  // Attachment files by asset id; the file data itself lives in assets/
+  const assetFiles: Record<string, { path: string; name: string; size: number }> = {};
+  getExportedAssets(scenario).forEach((asset) => {
+    assetFiles[asset.id] = { path: getAssetFileName(asset), name: asset.name, size: asset.size };
+  });
+  const assetFilesJSON = JSON.stringify(assetFiles).replace(/</g, "\\u003c");
 
   // Response panel theming with fallbacks
   const responsePanelBackground = theme.responsePanelBackground ?? "0 0% 100%";
@@ -463,6 +632,24 @@ function generateStandaloneHTML(scenario: ScenarioData): string {
       color: hsl(${theme.avatarTextColor ?? "0 0% 100%"});
     }
 
+    .message-column {
+      display: flex;
+      flex-direction: column;
+      max-width: 75%;
+    }
+
+    .message-column .message-bubble {
+      max-width: 100%;
+    }
+
+    .message-sender {
+      font-size: 0.75rem;
+      font-weight: 500;
+      color: hsl(220 9% 35%);
+      margin-bottom: 0.25rem;
+      padding: 0 0.25rem;
+    }
+
     .message-avatar img {
       width: 100%;
       height: 100%;
@@ -497,6 +684,92 @@ function generateStandaloneHTML(scenario: ScenarioData): string {
       border-bottom-left-radius: ${(theme.senderBorderRadius?.bottomLeft ?? 16) / 16}rem;
     }
 
+    .message-attachments {
+      display: flex;
+      flex-direction: column;
+      gap: 0.5rem;
+    }
+
+    .message-text + .message-attachments {
+      margin-top: 0.5rem;
+    }
+
+    .message-text p {
+      margin: 0;
+    }
+
+    .message-text p + p,
+    .message-text p + ul,
+    .message-text p + ol,
+    .message-text ul + p,
+    .message-text ol + p {
+      margin-top: 0.5rem;
+    }
+
+    .message-text ul,
+    .message-text ol {
+      margin: 0;
+      padding-left: 1.25rem;
+    }
+
+    .message-text a {
+      color: inherit;
+      text-decoration: underline;
+    }
+
+    .message-text code {
+      padding: 0 0.25rem;
+      border-radius: 0.25rem;
+      background: hsl(0 0% 0% / 0.1);
+      font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+      font-size: 0.9em;
+    }
+
+    .attachment-image,
+    .attachment-video {
+      display: block;
+      width: 100%;
+      max-height: 16rem;
+      border-radius: 0.5rem;
+      object-fit: cover;
+    }
+
+    .attachment-audio {
+      display: block;
+      width: 100%;
+    }
+
+    .attachment-file,
+    .attachment-link {
+      display: block;
+      padding: 0.5rem 0.75rem;
+      border-radius: 0.5rem;
+      background: hsl(0 0% 100% / 0.2);
+      color: inherit;
+      text-decoration: none;
+    }
+
+    .attachment-file:hover,
+    .attachment-link:hover {
+      background: hsl(0 0% 100% / 0.3);
+    }
+
+    .attachment-link {
+      border: 1px solid hsl(0 0% 50% / 0.3);
+    }
+
+    .attachment-title {
+      display: block;
+      font-size: 0.875rem;
+      font-weight: 600;
+    }
+
+    .attachment-meta {
+      display: block;
+      font-size: 0.75rem;
+      opacity: 0.7;
+    }
+
     .typing-indicator {
       display: flex;
       align-items: center;
@@ -543,6 +816,23 @@ function generateStandaloneHTML(scenario: ScenarioData): string {
       background: #10b981;
     }
 
+    .exit-btn {
+      display: block;
+      margin: 0.75rem auto 0;
+      padding: 0.5rem 1.25rem;
+      border: 1px solid #d1d5db;
+      border-radius: 2rem;
+      background: #ffffff;
+      color: #374151;
+      font-size: 0.875rem;
+      cursor: pointer;
+    }
+
+    .exit-btn:focus-visible {
+      outline: 2px solid #2563eb;
+      outline-offset: 2px;
+    }
+
     .response-options {
       border-top: 1px solid #e5e7eb;
       padding: 1rem;
@@ -593,6 +883,29 @@ function generateStandaloneHTML(scenario: ScenarioData): string {
       cursor: not-allowed;
     }
 
+    .answer-form {
+      display: flex;
+      gap: 0.5rem;
+    }
+
+    .answer-input {
+      flex: 1;
+      min-width: 0;
+      padding: 0.5rem 0.75rem;
+      border-radius: ${responseOptionBorderRadius / 16}rem;
+      border: 1px solid #e5e7eb;
+      background: hsl(${responseOptionBackground});
+      color: hsl(${responseOptionTextColor});
+      font-family: inherit;
+      font-size: ${messageSizePx / 16}rem;
+    }
+
+    .answer-input:focus-visible {
+      outline: 2px solid #2563eb;
+      outline-offset: 2px;
+      box-shadow: 0 0 0 4px rgba(37, 99, 235, 0.2);
+    }
+
     .start-screen {
       flex: 1;
       display: flex;
@@ -669,6 +982,20 @@ function generateStandaloneHTML(scenario: ScenarioData): string {
       transform: none;
     }
 
+    /* Reduced motion: typing dots and fades hold still for learners who ask for less motion; pacing is unchanged */
+    @media (prefers-reduced-motion: reduce) {
+      *,
+      *::before,
+      *::after {
+        animation: none !important;
+        transition: none !important;
+      }
+
+      .typing-dot {
+        opacity: 0.6;
+      }
+    }
+
     /* Mobile responsive adjustments */
     @media (max-width: 480px) {
       .chat-header {
@@ -773,18 +1100,28 @@ function generateStandaloneHTML(scenario: ScenarioData): string {
   <script>
     (function() {
       const scenario = ${scenarioJSON};
-      const { messages, variables, rootMessageId, theme } = scenario;
+      const { messages, variables, speakers, rootMessageId, theme } = scenario;
+      const assetFiles = ${assetFilesJSON};
+
+      // Branching logic shared with the builder preview
+      const createScenarioEngine = ${createScenarioEngine.toString()};
+      const engine = createScenarioEngine(scenario);
+
+      // Message formatting shared with the builder preview
+      const createMarkdownRenderer = ${createMarkdownRenderer.toString()};
+      const markdown = createMarkdownRenderer();
 
       let chatHistory = [];
-      let currentMessageId = null;
+      let engineState = null; // null until the learner presses Start
       let isPlaying = false;
       let isTyping = false;
-      let variableState = {};
+      let typingSpeakerId = null;
 
-      // Customizable text
-      const startTitle = ${JSON.stringify(startTitle)};
-      const startSubtitle = ${JSON.stringify(startSubtitle)};
-      const startButtonText = ${JSON.stringify(startButtonText)};
+      // Customizable text; start screen placeholders resolve to default values
+      const defaultVariables = engine.getDefaultVariables();
+      const startTitle = interpolateHtml(${JSON.stringify(startTitle)}, defaultVariables);
+      const startSubtitle = interpolateHtml(${JSON.stringify(startSubtitle)}, defaultVariables);
+      const startButtonText = interpolateHtml(${JSON.stringify(startButtonText)}, defaultVariables);
       const showResetButton = ${JSON.stringify(showResetButton)};
       
       // Conversation type and Rise integration
@@ -802,29 +1139,108 @@ function generateStandaloneHTML(scenario: ScenarioData): string {
         }
       }
 
-      // Initialize variable state from defaults
-      Object.values(variables || {}).forEach(v => {
-        variableState[v.id] = v.defaultValue;
-      });
+      // LMS tracking (SCORM packages only)
+      const scoring = ${JSON.stringify(scoring)};
+      const scormVersion = ${JSON.stringify(scormVersion)};
+      const createScormConnection = ${scormVersion ? createScormConnection.toString() : "null"};
+      const lms = scormVersion ? createScormConnection(scormVersion, window) : null;
+      if (lms) {
+        lms.initialize();
+        window.addEventListener('pagehide', function() { lms.terminate(); });
+      }
+
+      // Score from the chosen number variable, or full marks when the scenario isn't scored
+      function getLmsResult() {
+        const scoreVariable = scoring.scoreVariableId ? variables[scoring.scoreVariableId] : null;
+        if (!scoreVariable) {
+          return { scoreRaw: 100, scoreMin: 0, scoreMax: 100, passed: true };
+        }
+        const scoreRaw = Number(engineState.variables[scoreVariable.id]) || 0;
+        return {
+          scoreRaw: scoreRaw,
+          scoreMin: 0,
+          scoreMax: scoring.maxScore,
+          passed: scoreRaw >= scoring.passingScore
+        };
+      }
+
+      // xAPI / cmi5 statements
+      const createXapiClient = ${xapiConfig ? createXapiClient.toString() : "null"};
+      const xapi = createXapiClient && typeof window.fetch === 'function' ? createXapiClient(${JSON.stringify(xapiConfig)}, {
+        fetch: window.fetch.bind(window),
+        search: window.location.search,
+        uuid: window.crypto && window.crypto.randomUUID ? function() { return window.crypto.randomUUID(); } : undefined,
+        navigate: function(url) { window.location.assign(url); }
+      }) : null;
+      if (xapi) {
+        xapi.initialize();
+        window.addEventListener('pagehide', function() { xapi.terminate(); });
+      }
+
+      function trackExperienced(messageId, content) {
+        if (xapi) xapi.experienced({ id: messageId, content: content }, Object.assign({}, engineState.variables));
+      }
+
+      // shownOptions are the choices the learner saw, captured before the pick changed any variables
+      function trackAnswered(message, shownOptions, option) {
+        if (!xapi) return;
+        const options = shownOptions.map(function(o) { return { id: o.id, text: o.text }; });
+        xapi.answered({ id: message.id, content: message.content, options: options }, { id: option.id, text: option.text }, Object.assign({}, engineState.variables));
+      }
+
+      function trackAnsweredText(message, answer, route) {
+        if (!xapi) return;
+        xapi.answeredText({ id: message.id, content: message.content }, answer, route ? { id: route.id, text: route.text } : null, Object.assign({}, engineState.variables));
+      }
+
+      // Called whenever the learner reaches the end of the conversation; only endpoints count as
+      // completing it for the LMS, dead ends are unfinished branches
+      function notifyCompletion() {
+        notifyRiseCompletion();
+        const message = engine.getMessage(engineState);
+        if (!message || !message.isEndpoint) return;
+        const result = getLmsResult();
+        if (lms) lms.reportResult(result);
+        if (xapi) xapi.completed(result, Object.assign({}, engineState.variables));
+      }
 
       function getInitials(name) {
         return name.split(' ').map(w => w[0]).join('').toUpperCase().slice(0, 2);
       }
 
-      function checkCondition(condition) {
-        if (!condition) return true;
-        return variableState[condition.variableId] === condition.requiredValue;
+      // Speakers for group chats; messages without a speaker come from the theme's contact
+      const isGroupChat = Object.keys(speakers || {}).length > 0;
+      const contactSpeaker = {
+        name: theme.contactName,
+        avatar: theme.contactAvatar,
+        avatarBackgroundColor: theme.avatarBackgroundColor,
+        avatarTextColor: theme.avatarTextColor,
+        bubbleColor: theme.receiverBubbleColor,
+        textColor: theme.receiverTextColor
+      };
+
+      function getSpeaker(speakerId) {
+        return (speakerId && speakers && speakers[speakerId]) || contactSpeaker;
       }
 
-      function applyVariableAssignment(assignment) {
-        if (assignment) {
-          variableState[assignment.variableId] = assignment.value;
+      function renderAvatar(speaker) {
+        let html = '<div class="message-avatar" aria-hidden="true"';
+        if (speaker !== contactSpeaker) {
+          html += ' style="background: linear-gradient(135deg, hsl(' + speaker.avatarBackgroundColor + '), hsl(' + speaker.avatarBackgroundColor + ' / 0.7)); color: hsl(' + speaker.avatarTextColor + ');"';
+        }
+        html += '>';
+        if (speaker.avatar) {
+          html += '<img src="' + speaker.avatar + '" alt="">';
+        } else {
+          html += escapeHtml(getInitials(speaker.name));
         }
+        html += '</div>';
+        return html;
       }
 
-      function getVisibleOptions(message) {
-        if (!message || !message.responseOptions) return [];
-        return message.responseOptions.filter(opt => checkCondition(opt.condition));
+      function getBubbleStyle(speaker) {
+        if (speaker === contactSpeaker) return '';
+        return ' style="background: hsl(' + speaker.bubbleColor + '); color: hsl(' + speaker.textColor + ');"';
       }
 
       // Frame preset
@@ -839,21 +1255,6 @@ function generateStandaloneHTML(scenario: ScenarioData): string {
         }
       }
 
-      // Check for auto-advance (message with no responses but has direct connection)
-      function checkAutoAdvance(msg, callback) {
-        if (msg && msg.responseOptions.length === 0 && !msg.isEndpoint && msg.nextMessageId) {
-          const nextMsg = messages[msg.nextMessageId];
-          if (nextMsg && checkCondition(nextMsg.condition)) {
-            setTimeout(function() {
-              currentMessageId = msg.nextMessageId;
-              addContactMessage(msg.nextMessageId, nextMsg.content, callback);
-            }, isRegularMode ? 500 : 300);
-            return true;
-          }
-        }
-        return false;
-      }
-
       // Focus management helper
       function focusElement(selector, fallbackSelector) {
         setTimeout(function() {
@@ -867,20 +1268,89 @@ function generateStandaloneHTML(scenario: ScenarioData): string {
         }, 100);
       }
 
+      function escapeHtml(str) {
+        return String(str).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+      }
+
+      // Variables can hold typed answers, so their values are escaped before they reach the page
+      function interpolateHtml(text, values) {
+        const safeValues = {};
+        Object.keys(values).forEach(function(id) {
+          safeValues[id] = typeof values[id] === 'string' ? escapeHtml(values[id]) : values[id];
+        });
+        return engine.interpolate(text, safeValues);
+      }
+
+      // Typed answers may contain Markdown, so variable values are inserted literally
+      function interpolateMarkdown(text, values) {
+        const literalValues = {};
+        Object.keys(values).forEach(function(id) {
+          literalValues[id] = typeof values[id] === 'string' ? markdown.escape(values[id]) : values[id];
+        });
+        return engine.interpolate(text, literalValues);
+      }
+
+      function formatFileSize(bytes) {
+        if (bytes < 1024) return bytes + ' B';
+        if (bytes < 1024 * 1024) return Math.round(bytes / 1024) + ' KB';
+        return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+      }
+
+      function getLinkHostname(url) {
+        try {
+          return new URL(url).hostname.replace(/^www\\./, '');
+        } catch (e) {
+          return url;
+        }
+      }
+
+      function renderAttachment(attachment) {
+        if (attachment.kind === 'link') {
+          // Only web and mail links become cards
+          if (!attachment.url || !/^(https?:|mailto:)/i.test(attachment.url.trim())) return '';
+          const hostname = escapeHtml(getLinkHostname(attachment.url));
+          let html = '<a class="attachment-link" href="' + escapeHtml(attachment.url) + '" target="_blank" rel="noopener noreferrer">';
+          html += '<span class="attachment-title">' + (attachment.title ? escapeHtml(attachment.title) : hostname) + '</span>';
+          if (attachment.description) html += '<span class="attachment-meta">' + escapeHtml(attachment.description) + '</span>';
+          html += '<span class="attachment-meta">' + hostname + '</span></a>';
+          return html;
+        }
+
+        const file = attachment.assetId ? assetFiles[attachment.assetId] : null;
+        if (!file) return '';
+        const src = escapeHtml(file.path);
+        const label = escapeHtml(attachment.description || file.name);
+        switch (attachment.kind) {
+          case 'image':
+            return '<img class="attachment-image" src="' + src + '" alt="' + escapeHtml(attachment.description || '') + '">';
+          case 'audio':
+            return '<audio class="attachment-audio" src="' + src + '" controls aria-label="' + label + '"></audio>';
+          case 'video':
+            return '<video class="attachment-video" src="' + src + '" controls aria-label="' + label + '"></video>';
+          default:
+            return '<a class="attachment-file" href="' + src + '" download="' + escapeHtml(file.name) + '">' +
+              '<span class="attachment-title">' + escapeHtml(file.name) + '</span>' +
+              '<span class="attachment-meta">' + formatFileSize(file.size) + '</span></a>';
+        }
+      }
+
+      function renderAttachments(attachments) {
+        if (!attachments || attachments.length === 0) return '';
+        return '<div class="message-attachments">' + attachments.map(renderAttachment).join('') + '</div>';
+      }
+
       function escapeForAriaLabel(str) {
         return str.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
       }
 
       function render() {
         const app = document.getElementById('app');
-        const currentMessage = currentMessageId ? messages[currentMessageId] : null;
+        const currentMessage = engine.getMessage(engineState);
         const rootMessage = rootMessageId ? messages[rootMessageId] : null;
 
-        const visibleOptions = getVisibleOptions(currentMessage);
-        // Only ended if: endpoint OR (no visible responses AND no direct connection)
-        const isEnded = isPlaying && currentMessage && !isTyping &&
-          (currentMessage.isEndpoint || (visibleOptions.length === 0 && !currentMessage.nextMessageId));
-        const isDeadEnd = isPlaying && !currentMessageId && chatHistory.length > 0 && !isTyping;
+        const visibleOptions = engine.getVisibleOptions(engineState);
+        const isEnded = isPlaying && currentMessage && !isTyping && engine.isEnded(engineState);
+        const isDeadEnd = isPlaying && !currentMessage && chatHistory.length > 0 && !isTyping;
 
         // Update aria-label with contact name
         app.setAttribute('aria-label', 'Chat conversation with ' + theme.contactName);
@@ -929,55 +1399,63 @@ function generateStandaloneHTML(scenario: ScenarioData): string {
           html += '<div class="sr-only" tabindex="0" role="region" aria-label="Message history. Use arrow keys to scroll." id="message-history-sr">';
           html += 'Message history: ';
           chatHistory.forEach(function(bubble) {
-            html += (bubble.isUser ? 'You' : theme.contactName) + ': ' + (bubble.content || 'Empty message') + '. ';
+            html += (bubble.isUser ? 'You' : escapeHtml(getSpeaker(bubble.speakerId).name)) + ': ' + escapeHtml(bubble.plainText || 'Empty message') + '. ';
           });
           html += '</div>';
 
           // Messages area with log role for screen readers
           html += '<main class="chat-messages" role="log" aria-live="polite" aria-atomic="false" aria-label="Conversation messages" tabindex="-1" id="messages-area">';
           chatHistory.forEach(function(bubble) {
-            const senderName = bubble.isUser ? 'You' : theme.contactName;
-            const bubbleContent = bubble.content || 'Empty message';
-            const ariaLabel = senderName + ' said: ' + escapeForAriaLabel(bubbleContent);
+            const speaker = getSpeaker(bubble.speakerId);
+            const senderName = bubble.isUser ? 'You' : speaker.name;
+            const bubbleText = bubble.plainText || 'Empty message';
+            const ariaLabel = escapeForAriaLabel(senderName) + ' said: ' + escapeForAriaLabel(bubbleText);
             
             html += '<div class="message-row ' + (bubble.isUser ? 'user' : 'contact') + '" role="article" aria-label="' + ariaLabel + '">';
             // Show avatar only in chat mode
             if (!bubble.isUser && !isRegularMode) {
-              html += '<div class="message-avatar" aria-hidden="true">';
-              if (theme.contactAvatar) {
-                html += '<img src="' + theme.contactAvatar + '" alt="">';
-              } else {
-                html += getInitials(theme.contactName);
+              html += renderAvatar(speaker);
+            }
+            if (bubble.isUser) {
+              html += '<div class="message-bubble user">';
+            } else {
+              html += '<div class="message-column">';
+              if (isGroupChat) {
+                html += '<span class="message-sender" aria-hidden="true">' + escapeHtml(speaker.name) + '</span>';
               }
-              html += '</div>';
+              html += '<div class="message-bubble contact"' + getBubbleStyle(speaker) + '>';
+            }
+            const hasAttachments = bubble.attachments && bubble.attachments.length > 0;
+            if (bubble.content) {
+              html += '<div class="message-text">' + bubble.content + '</div>';
+            } else if (!hasAttachments) {
+              html += '<em style="opacity:0.6">Empty message</em>';
             }
-            html += '<div class="message-bubble ' + (bubble.isUser ? 'user' : 'contact') + '">';
-            html += bubble.content || '<em style="opacity:0.6">Empty message</em>';
-            html += '</div></div>';
+            html += renderAttachments(bubble.attachments);
+            html += bubble.isUser ? '</div></div>' : '</div></div></div>';
           });
 
           // Typing indicator - only in chat mode
           if (isTyping && !isRegularMode) {
-            html += '<div class="message-row contact" role="status" aria-label="' + theme.contactName + ' is typing">';
-            html += '<div class="message-avatar" aria-hidden="true">';
-            if (theme.contactAvatar) {
-              html += '<img src="' + theme.contactAvatar + '" alt="">';
-            } else {
-              html += getInitials(theme.contactName);
-            }
-            html += '</div>';
-            html += '<div class="message-bubble contact"><div class="typing-indicator" aria-hidden="true">';
-            html += '<span class="typing-dot"></span>';
-            html += '<span class="typing-dot"></span>';
-            html += '<span class="typing-dot"></span>';
-            html += '</div><span class="sr-only">' + theme.contactName + ' is typing</span></div></div>';
+            const typingSpeaker = getSpeaker(typingSpeakerId);
+            const typingDot = '<span class="typing-dot"' + (typingSpeaker !== contactSpeaker ? ' style="background: hsl(' + typingSpeaker.textColor + ' / 0.5);"' : '') + '></span>';
+            html += '<div class="message-row contact" role="status" aria-label="' + escapeForAriaLabel(typingSpeaker.name) + ' is typing">';
+            html += renderAvatar(typingSpeaker);
+            html += '<div class="message-bubble contact"' + getBubbleStyle(typingSpeaker) + '><div class="typing-indicator" aria-hidden="true">';
+            html += typingDot + typingDot + typingDot;
+            html += '</div><span class="sr-only">' + escapeHtml(typingSpeaker.name) + ' is typing</span></div></div>';
           }
 
           if (isEnded || isDeadEnd) {
             html += '<div class="end-indicator" role="status"><span class="end-badge">';
             html += '<span class="end-badge-dot" aria-hidden="true"></span>';
             html += isEnded ? 'Conversation Complete' : 'End of Branch';
-            html += '</span></div>';
+            html += '</span>';
+            // cmi5 launches with a returnURL expect the learner to leave through the content
+            if (isEnded && xapi && xapi.canReturn()) {
+              html += '<button class="exit-btn" onclick="handleExit()">Exit</button>';
+            }
+            html += '</div>';
           }
           html += '</main>';
 
@@ -988,8 +1466,9 @@ function generateStandaloneHTML(scenario: ScenarioData): string {
             html += '<p class="sr-only" id="options-instruction">Use Tab to navigate between options, Enter or Space to select. After options, Tab to access Reset button or message history.</p>';
             html += '<div class="options-container" role="list">';
             visibleOptions.forEach(function(opt, index) {
-              html += '<button class="option-btn" role="listitem" id="option-' + opt.id + '" onclick="handleSelect(\\'' + opt.id + '\\')"' + (!opt.text ? ' disabled aria-disabled="true"' : '') + ' aria-label="Respond with: ' + escapeForAriaLabel(opt.text || 'Empty option') + '">';
-              html += opt.text || 'Empty option';
+              const optText = interpolateHtml(opt.text, engineState.variables);
+              html += '<button class="option-btn" role="listitem" id="option-' + opt.id + '" onclick="handleSelect(\\'' + opt.id + '\\')"' + (!optText ? ' disabled aria-disabled="true"' : '') + ' aria-label="Respond with: ' + escapeForAriaLabel(optText || 'Empty option') + '">';
+              html += optText || 'Empty option';
               html += '</button>';
             });
             html += '</div>';
@@ -997,83 +1476,98 @@ function generateStandaloneHTML(scenario: ScenarioData): string {
             html += '<a href="#message-history-sr" class="sr-only" style="position:absolute;">Review message history</a>';
             html += '</nav>';
           }
+
+          // Typed answer for text input messages (hide while typing)
+          if (engine.isAwaitingInput(engineState) && !isTyping) {
+            html += '<form class="response-options answer-form" onsubmit="return handleAnswer(event)">';
+            html += '<label class="sr-only" for="answer-input">Your answer</label>';
+            html += '<input class="answer-input" id="answer-input" type="text" autocomplete="off" placeholder="' + escapeHtml(currentMessage.input.placeholder || 'Type your answer...') + '">';
+            html += '<button class="option-btn" type="submit">Send</button>';
+            html += '</form>';
+          }
         }
 
         app.innerHTML = html;
       }
 
-      function addContactMessage(messageId, content, callback) {
-        const msg = messages[messageId];
-        
-        if (isRegularMode) {
-          // In regular mode, show message immediately without typing indicator
+      // Show the engine's current message, then auto-advance or wait for a choice
+      function deliverCurrentMessage() {
+        const state = engineState;
+        const msg = engine.getMessage(state);
+        if (!msg) return;
+        const speakerId = msg.speakerId;
+        const speakerName = getSpeaker(speakerId).name;
+        const text = interpolateMarkdown(msg.content, state.variables);
+        const plainText = markdown.toPlainText(text);
+
+        function show() {
+          // The conversation was reset or moved on while this message was pending
+          if (engineState !== state) return;
           chatHistory.push({
-            id: messageId,
-            content: content,
-            isUser: false
+            id: msg.id,
+            content: markdown.toHtml(text),
+            plainText: plainText,
+            isUser: false,
+            speakerId: speakerId,
+            attachments: msg.attachments
           });
-          announceStatus(theme.contactName + ' says: ' + content);
+          isTyping = false;
+          typingSpeakerId = null;
+          trackExperienced(msg.id, msg.content);
+          announceStatus(speakerName + ' says: ' + plainText);
           render();
-          
-          // Check for auto-advance before calling callback
-          if (!checkAutoAdvance(msg, callback)) {
-            if (callback) callback();
-            focusElement('.option-btn', '#messages-area');
+
+          if (engine.getAutoAdvanceTarget(state)) {
+            setTimeout(function() {
+              if (engineState !== state) return;
+              engineState = engine.advance(state);
+              deliverCurrentMessage();
+            }, engine.getAutoAdvanceDelay());
+            return;
           }
+          if (engine.isEnded(state)) notifyCompletion();
+          // Focus the answer box or first option if available, otherwise focus messages area
+          focusElement(engine.isAwaitingInput(state) ? '#answer-input' : '.option-btn', '#messages-area');
+        }
+
+        if (isRegularMode) {
+          // In regular mode, show message immediately without typing indicator
+          show();
         } else {
           // In chat mode, show typing indicator first
           isTyping = true;
-          announceStatus(theme.contactName + ' is typing');
+          typingSpeakerId = speakerId;
+          announceStatus(speakerName + ' is typing');
           render();
-          
-          setTimeout(function() {
-            chatHistory.push({
-              id: messageId,
-              content: content,
-              isUser: false
-            });
-            isTyping = false;
-            announceStatus(theme.contactName + ' says: ' + content);
-            render();
-            
-            // Check for auto-advance before calling callback
-            if (!checkAutoAdvance(msg, callback)) {
-              if (callback) callback();
-              // Focus first option if available, otherwise focus messages area
-              focusElement('.option-btn', '#messages-area');
-            }
-          }, 1000);
+          setTimeout(show, engine.getTypingDelay(msg, plainText));
         }
       }
 
       window.handleStart = function() {
-        if (!rootMessageId || !messages[rootMessageId]) return;
-        
-        // Reset variable state
-        Object.values(variables || {}).forEach(function(v) {
-          variableState[v.id] = v.defaultValue;
-        });
+        const state = engine.start();
+        if (!state) return;
 
         isPlaying = true;
         chatHistory = [];
-        currentMessageId = rootMessageId;
+        engineState = state;
         
         announceStatus('Conversation started with ' + theme.contactName);
         
         // Show typing indicator, then message
-        addContactMessage(rootMessageId, messages[rootMessageId].content);
+        deliverCurrentMessage();
+      };
+
+      // cmi5 exit: terminate the session and return to the LMS
+      window.handleExit = function() {
+        if (xapi) xapi.exit();
       };
 
       window.handleReset = function() {
         isPlaying = false;
         isTyping = false;
+        typingSpeakerId = null;
         chatHistory = [];
-        currentMessageId = null;
-        
-        // Reset variable state
-        Object.values(variables || {}).forEach(function(v) {
-          variableState[v.id] = v.defaultValue;
-        });
+        engineState = null;
         
         announceStatus('Conversation reset');
         render();
@@ -1083,51 +1577,70 @@ function generateStandaloneHTML(scenario: ScenarioData): string {
       };
 
       window.handleSelect = function(optionId) {
-        const currentMessage = messages[currentMessageId];
-        if (!currentMessage) return;
-
-        const option = currentMessage.responseOptions.find(function(o) { return o.id === optionId; });
-        if (!option) return;
-
-        // Apply variable assignment
-        applyVariableAssignment(option.setsVariable);
+        const currentMessage = engine.getMessage(engineState);
+        if (!currentMessage || isTyping) return;
+
+        // Capture the options the learner saw before the choice changes any variables
+        const shownOptions = engine.getVisibleOptions(engineState);
+        const shownVariables = engineState.variables;
+        const choice = engine.choose(engineState, optionId);
+        if (!choice) return;
+        // Show the option as it read when chosen, before its assignments apply
+        const optionText = engine.interpolate(choice.option.text, shownVariables);
+        engineState = choice.state;
+        trackAnswered(currentMessage, shownOptions, choice.option);
 
         // Add user response immediately
         chatHistory.push({
           id: 'user-' + optionId,
-          content: option.text,
+          content: escapeHtml(optionText),
+          plainText: optionText,
           isUser: true
         });
-        announceStatus('You selected: ' + option.text);
+        announceStatus('You selected: ' + optionText);
         render();
 
         // Add next message with typing indicator if exists
-        if (option.nextMessageId && messages[option.nextMessageId]) {
-          const nextMsg = messages[option.nextMessageId];
-          // Check if next message meets its condition
-          if (checkCondition(nextMsg.condition)) {
-            currentMessageId = option.nextMessageId;
-            addContactMessage(option.nextMessageId, nextMsg.content, function() {
-              // Check if this new message is an endpoint
-              const newCurrentMessage = messages[option.nextMessageId];
-              if (newCurrentMessage && (newCurrentMessage.isEndpoint || getVisibleOptions(newCurrentMessage).length === 0)) {
-                notifyRiseCompletion();
-              }
-            });
-          } else {
-            currentMessageId = null;
-            announceStatus('End of conversation branch');
-            notifyRiseCompletion();
-            render();
-          }
+        if (engineState.currentMessageId) {
+          deliverCurrentMessage();
         } else {
-          currentMessageId = null;
           announceStatus('Conversation complete');
-          notifyRiseCompletion();
+          notifyCompletion();
           render();
         }
       };
 
+      window.handleAnswer = function(event) {
+        event.preventDefault();
+        const currentMessage = engine.getMessage(engineState);
+        const inputEl = document.getElementById('answer-input');
+        const text = inputEl ? inputEl.value.trim() : '';
+        if (!currentMessage || isTyping || !text) return false;
+
+        const result = engine.submit(engineState, text);
+        if (!result) return false;
+        engineState = result.state;
+        trackAnsweredText(currentMessage, text, result.route);
+
+        chatHistory.push({
+          id: 'user-' + currentMessage.id + '-' + chatHistory.length,
+          content: escapeHtml(text),
+          plainText: text,
+          isUser: true
+        });
+        announceStatus('You answered: ' + text);
+        render();
+
+        if (engineState.currentMessageId) {
+          deliverCurrentMessage();
+        } else {
+          announceStatus('Conversation complete');
+          notifyCompletion();
+          render();
+        }
+        return false;
+      };
+
       // Keyboard event handling
       document.addEventListener('keydown', function(e) {
         // Escape to reset conversation
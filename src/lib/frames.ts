@@ -0,0 +1,89 @@
+/**
+ * @file frames.ts
+ * @description Canvas frames: fitting a frame around messages, finding the frame under a point,
+ *              counting links into and out of a frame, and which canvas node stands in for a
+ *              message hidden in a collapsed frame
+ *
+ * @dependencies scenario types, autoLayout
+ * @usage FlowCanvas builds frame nodes, membership and rerouted edges from these; FrameNode shows
+ *        the link counts of collapsed frames
+ */
+
+import { CanvasFrame, ChatMessage, NodePosition } from "@/types/scenario";
+import { DEFAULT_NODE_SIZE, NodeSize } from "@/lib/autoLayout";
+
+// Space between a frame's edge and its messages; the top leaves room for the label bar
+export const FRAME_PADDING = { top: 64, side: 40, bottom: 40 };
+
+export const COLLAPSED_FRAME_SIZE: NodeSize = { width: 260, height: 104 };
+
+export const MIN_FRAME_SIZE: NodeSize = { width: 240, height: 160 };
+
+export interface FrameBounds {
+  position: NodePosition;
+  width: number;
+  height: number;
+}
+
+export interface FrameLinkCounts {
+  incoming: number;
+  outgoing: number;
+}
+
+// Smallest frame enclosing the messages with padding, or null for none
+export function fitFrameToMessages(messages: ChatMessage[], sizes: Record<string, NodeSize> = {}): FrameBounds | null {
+  if (messages.length === 0) return null;
+  const sizeOf = (id: string) => sizes[id] ?? DEFAULT_NODE_SIZE;
+  const left = Math.min(...messages.map((m) => m.position.x));
+  const top = Math.min(...messages.map((m) => m.position.y));
+  const right = Math.max(...messages.map((m) => m.position.x + sizeOf(m.id).width));
+  const bottom = Math.max(...messages.map((m) => m.position.y + sizeOf(m.id).height));
+  return {
+    position: { x: left - FRAME_PADDING.side, y: top - FRAME_PADDING.top },
+    width: right - left + FRAME_PADDING.side * 2,
+    height: bottom - top + FRAME_PADDING.top + FRAME_PADDING.bottom,
+  };
+}
+
+// The expanded frame containing the point; nested or overlapping frames resolve to the smallest
+export function findFrameAt(frames: Record<string, CanvasFrame>, point: NodePosition): CanvasFrame | null {
+  let found: CanvasFrame | null = null;
+  Object.values(frames).forEach((frame) => {
+    if (frame.collapsed) return;
+    const inside =
+      point.x >= frame.position.x &&
+      point.x <= frame.position.x + frame.width &&
+      point.y >= frame.position.y &&
+      point.y <= frame.position.y + frame.height;
+    if (inside && (!found || frame.width * frame.height < found.width * found.height)) found = frame;
+  });
+  return found;
+}
+
+function getLinkTargets(message: ChatMessage): string[] {
+  const targets = message.responseOptions.map((option) => option.nextMessageId);
+  if (message.nextMessageId) targets.push(message.nextMessageId);
+  return targets.filter((id): id is string => !!id);
+}
+
+// Links from other messages into the frame's members, and from its members out
+export function countFrameLinks(messages: Record<string, ChatMessage>, frameId: string): FrameLinkCounts {
+  const counts: FrameLinkCounts = { incoming: 0, outgoing: 0 };
+  Object.values(messages).forEach((message) => {
+    const isMember = message.frameId === frameId;
+    getLinkTargets(message).forEach((targetId) => {
+      const target = messages[targetId];
+      if (!target) return;
+      const targetIsMember = target.frameId === frameId;
+      if (!isMember && targetIsMember) counts.incoming++;
+      if (isMember && !targetIsMember) counts.outgoing++;
+    });
+  });
+  return counts;
+}
+
+// The canvas node a message's edges attach to: the frame itself while it is collapsed
+export function getVisibleNodeId(message: ChatMessage, frames: Record<string, CanvasFrame>): string {
+  const frame = message.frameId ? frames[message.frameId] : undefined;
+  return frame?.collapsed ? frame.id : message.id;
+}
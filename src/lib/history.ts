@@ -0,0 +1,111 @@
+/**
+ * @file history.ts
+ * @description Generic undo/redo wrapper for reducers. Keeps a capped stack of past/future
+ *              states and merges bursts of related actions (typing, dragging) into one step.
+ *
+ * @dependencies None (pure functions)
+ * @usage Wrap a reducer with createHistoryReducer and feed it to useReducer (see ScenarioContext)
+ */
+
+export interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Group key and time of the last recorded action, used to merge bursts
+  lastGroupKey: string | null;
+  lastActionAt: number;
+}
+
+export type HistoryControlAction<T> =
+  | { type: "UNDO" }
+  | { type: "REDO" }
+  | { type: "RESET_HISTORY"; payload: T };
+
+export interface HistoryOptions<T, A> {
+  // Maximum number of undo steps kept in memory
+  limit: number;
+  // Actions with the same non-null key arriving within groupWindowMs collapse into one step
+  getGroupKey?: (action: A, state: T) => string | null;
+  groupWindowMs?: number;
+  // Clock injection for tests
+  now?: () => number;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export function createHistoryState<T>(present: T): HistoryState<T> {
+  return { past: [], present, future: [], lastGroupKey: null, lastActionAt: 0 };
+}
+
+export function createHistoryReducer<T, A extends { type: string }>(
+  reducer: (state: T, action: A) => T,
+  options: HistoryOptions<T, A>
+) {
+  const { limit, getGroupKey, groupWindowMs = 1000, now = Date.now } = options;
+
+  return function historyReducer(
+    history: HistoryState<T>,
+    action: A | HistoryControlAction<T>
+  ): HistoryState<T> {
+    switch (action.type) {
+      case "UNDO": {
+        if (history.past.length === 0) return history;
+        const previous = history.past[history.past.length - 1];
+        return {
+          past: history.past.slice(0, -1),
+          present: previous,
+          future: [history.present, ...history.future],
+          lastGroupKey: null,
+          lastActionAt: 0,
+        };
+      }
+
+      case "REDO": {
+        if (history.future.length === 0) return history;
+        const [next, ...rest] = history.future;
+        return {
+          past: [...history.past, history.present],
+          present: next,
+          future: rest,
+          lastGroupKey: null,
+          lastActionAt: 0,
+        };
+      }
+
+      case "RESET_HISTORY":
+        return createHistoryState((action as { payload: T }).payload);
+
+      default: {
+        const nextPresent = reducer(history.present, action as A);
+        // No-op actions must not create empty undo steps
+        if (nextPresent === history.present) return history;
+
+        const timestamp = now();
+        const groupKey = getGroupKey?.(action as A, history.present) ?? null;
+        const isSameGroup =
+          groupKey !== null &&
+          groupKey === history.lastGroupKey &&
+          timestamp - history.lastActionAt <= groupWindowMs;
+
+        if (isSameGroup) {
+          // Replace the present but keep the snapshot taken at the start of the burst
+          return {
+            ...history,
+            present: nextPresent,
+            future: [],
+            lastActionAt: timestamp,
+          };
+        }
+
+        const past = [...history.past, history.present];
+        return {
+          past: past.length > limit ? past.slice(past.length - limit) : past,
+          present: nextPresent,
+          future: [],
+          lastGroupKey: groupKey,
+          lastActionAt: timestamp,
+        };
+      }
+    }
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * @file markdown.ts
+ * @description Limited, safe Markdown for message content: **bold**, *italic*, `code`, [links](url),
+ *              bullet and numbered lists, and line breaks. HTML in the source is always escaped and
+ *              only web and mail links are kept. Also plain-text rendering for screen-reader labels
+ *              and the formatting edits behind the node toolbar.
+ *
+ * @dependencies none
+ * @usage ChatPreview and MessageFlowNode use `markdown`; exportZip embeds createMarkdownRenderer in
+ *        the standalone HTML, so it must stay self-contained (no imports or module references)
+ */
+
+export interface MarkdownRenderer {
+  toHtml: (text: string) => string;
+  toPlainText: (text: string) => string;
+  escape: (text: string) => string; // Makes text render literally, e.g. typed answers inserted via {{variable}}
+}
+
+export function createMarkdownRenderer(): MarkdownRenderer {
+  // Characters that a backslash makes literal
+  const ESCAPE_PATTERN = /\\([\\`*_[\]()#+\-.!~])/g;
+  const ESCAPABLE_PATTERN = /[\\`*_[\]()#+\-.!~]/g;
+  const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+  const NUMBERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+  const LINK_PATTERN = /\[([^\]]+)\]\(([^)\s]+)\)/g;
+  const CODE_PATTERN = /`([^`]+)`/g;
+
+  // Placeholders use private-use characters that are stripped from the source first
+  const clean = (text: string) => String(text ?? "").replace(/[\uE000\uE001]/g, "");
+  const protectEscapes = (text: string) =>
+    text.replace(ESCAPE_PATTERN, (_, char: string) => "\uE001" + char.charCodeAt(0) + "\uE001");
+
+  const escapeHtml = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+  const applyEmphasis = (html: string, open: (tag: string) => string, close: (tag: string) => string) =>
+    html
+      .replace(/\*\*(?=\S)(.+?)\*\*/g, (_, inner: string) => open("strong") + inner + close("strong"))
+      .replace(/__(?=\S)(.+?)__/g, (_, inner: string) => open("strong") + inner + close("strong"))
+      .replace(/\*(?=\S)(.+?)\*/g, (_, inner: string) => open("em") + inner + close("em"))
+      // Underscores inside words (snake_case) are not emphasis
+      .replace(/(^|[^\w])_(?=\S)(.+?)_(?!\w)/g, (_, before: string, inner: string) => before + open("em") + inner + close("em"));
+
+  function renderInline(line: string): string {
+    const tokens: string[] = [];
+    const hold = (html: string) => "\uE000" + (tokens.push(html) - 1) + "\uE000";
+
+    let html = protectEscapes(line).replace(CODE_PATTERN, (_, code: string) => hold("<code>" + escapeHtml(code) + "</code>"));
+    html = escapeHtml(html).replace(LINK_PATTERN, (_, label: string, href: string) => {
+      const labelHtml = applyEmphasis(label, (tag) => "<" + tag + ">", (tag) => "</" + tag + ">");
+      // href is already escaped, so it cannot break out of the attribute
+      if (!/^(https?:|mailto:)/i.test(href)) return hold(labelHtml);
+      return hold('<a href="' + href + '" target="_blank" rel="noopener noreferrer">' + labelHtml + "</a>");
+    });
+    html = applyEmphasis(html, (tag) => "<" + tag + ">", (tag) => "</" + tag + ">");
+
+    return html
+      .replace(/\uE000(\d+)\uE000/g, (_, index: string) => tokens[Number(index)])
+      .replace(/\uE001(\d+)\uE001/g, (_, code: string) => "&#" + code + ";");
+  }
+
+  function inlineToPlainText(line: string): string {
+    const text = protectEscapes(line)
+      .replace(CODE_PATTERN, "$1")
+      .replace(LINK_PATTERN, "$1");
+    return applyEmphasis(text, () => "", () => "").replace(/\uE001(\d+)\uE001/g, (_, code: string) =>
+      String.fromCharCode(Number(code))
+    );
+  }
+
+  function toHtml(text: string): string {
+    const blocks: string[] = [];
+    let paragraph: string[] = [];
+    let list: { tag: "ul" | "ol"; items: string[] } | null = null;
+
+    const flushParagraph = () => {
+      if (paragraph.length > 0) blocks.push("<p>" + paragraph.map(renderInline).join("<br>") + "</p>");
+      paragraph = [];
+    };
+    const flushList = () => {
+      if (list) blocks.push("<" + list.tag + ">" + list.items.map((item) => "<li>" + renderInline(item) + "</li>").join("") + "</" + list.tag + ">");
+      list = null;
+    };
+
+    clean(text).split(/\r?\n/).forEach((line) => {
+      const bullet = line.match(BULLET_PATTERN);
+      const numbered = bullet ? null : line.match(NUMBERED_PATTERN);
+      if (bullet || numbered) {
+        const tag = bullet ? "ul" : "ol";
+        flushParagraph();
+        if (list && list.tag !== tag) flushList();
+        if (!list) list = { tag, items: [] };
+        list.items.push((bullet ?? numbered)![1]);
+      } else if (line.trim() === "") {
+        flushParagraph();
+        flushList();
+      } else {
+        flushList();
+        paragraph.push(line);
+      }
+    });
+    flushParagraph();
+    flushList();
+    return blocks.join("");
+  }
+
+  function toPlainText(text: string): string {
+    return clean(text)
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== "")
+      .map((line) => {
+        const item = line.match(BULLET_PATTERN) ?? line.match(NUMBERED_PATTERN);
+        return inlineToPlainText(item ? item[1] : line);
+      })
+      .join("\n");
+  }
+
+  function escape(text: string): string {
+    return String(text).replace(ESCAPABLE_PATTERN, "\\$&");
+  }
+
+  return { toHtml, toPlainText, escape };
+}
+
+export const markdown = createMarkdownRenderer();
+
+export type MarkdownFormat = "bold" | "italic" | "code" | "link" | "bulletList" | "numberedList";
+
+export interface MarkdownEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const INLINE_MARKERS: Record<"bold" | "italic" | "code", { marker: string; placeholder: string }> = {
+  bold: { marker: "**", placeholder: "bold text" },
+  italic: { marker: "*", placeholder: "italic text" },
+  code: { marker: "`", placeholder: "code" },
+};
+
+// Applies a toolbar action to the selected text; the returned selection covers the text to edit next
+export function applyMarkdownFormat(value: string, start: number, end: number, format: MarkdownFormat): MarkdownEdit {
+  const before = value.slice(0, start);
+  const selected = value.slice(start, end);
+  const after = value.slice(end);
+
+  if (format === "link") {
+    const label = selected || "link text";
+    const url = "https://";
+    const next = `${before}[${label}](${url})${after}`;
+    const urlStart = start + label.length + 3;
+    return { value: next, selectionStart: urlStart, selectionEnd: urlStart + url.length };
+  }
+
+  if (format === "bulletList" || format === "numberedList") {
+    // Lists work on whole lines
+    const lineStart = value.lastIndexOf("\n", start - 1) + 1;
+    const lineEndIndex = value.indexOf("\n", end);
+    const lineEnd = lineEndIndex === -1 ? value.length : lineEndIndex;
+    const lines = value.slice(lineStart, lineEnd).split("\n");
+    const pattern = format === "bulletList" ? /^\s*[-*+]\s+/ : /^\s*\d+[.)]\s+/;
+    const isList = lines.every((line) => pattern.test(line));
+    const block = lines
+      .map((line, index) => {
+        if (isList) return line.replace(pattern, "");
+        const text = line.replace(/^\s*([-*+]|\d+[.)])\s+/, "");
+        return format === "bulletList" ? `- ${text}` : `${index + 1}. ${text}`;
+      })
+      .join("\n");
+    return {
+      value: value.slice(0, lineStart) + block + value.slice(lineEnd),
+      selectionStart: lineStart,
+      selectionEnd: lineStart + block.length,
+    };
+  }
+
+  const { marker, placeholder } = INLINE_MARKERS[format];
+  // Toggle off when the selection is already wrapped
+  if (before.endsWith(marker) && after.startsWith(marker) && selected) {
+    return {
+      value: before.slice(0, -marker.length) + selected + after.slice(marker.length),
+      selectionStart: start - marker.length,
+      selectionEnd: end - marker.length,
+    };
+  }
+  const text = selected || placeholder;
+  return {
+    value: `${before}${marker}${text}${marker}${after}`,
+    selectionStart: start + marker.length,
+    selectionEnd: start + marker.length + text.length,
+  };
+}
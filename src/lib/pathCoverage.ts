@@ -0,0 +1,278 @@
+/**
+ * @file pathCoverage.ts
+ * @description Automated play-through of every distinct path from the start message, following the
+ *              scenario engine so variable assignments and conditions apply, with loops and length
+ *              bounded. Reports each path as a transcript, which messages and responses no path
+ *              reaches, and formats the report as Markdown or CSV for sign-off.
+ *
+ * @dependencies scenarioEngine, markdown, scenario types
+ * @usage CoveragePanel runs enumeratePaths on the open scenario and downloads the formatted report
+ */
+
+import { InputMatch, ScenarioData, VariableValue, getMessageSpeaker } from "@/types/scenario";
+import { createScenarioEngine, EngineState } from "@/lib/scenarioEngine";
+import { markdown } from "@/lib/markdown";
+
+export type PathOutcome = "endpoint" | "dead-end" | "loop" | "too-long";
+
+export const PATH_OUTCOMES: Record<PathOutcome, string> = {
+  endpoint: "Reaches an endpoint",
+  "dead-end": "Dead end",
+  loop: "Cut off at a loop",
+  "too-long": "Cut off, too long",
+};
+
+export type TranscriptStep =
+  | { kind: "message"; messageId: string; text: string }
+  | { kind: "choice"; messageId: string; optionId: string; text: string }
+  | { kind: "answer"; messageId: string; optionId: string | null; text: string }; // null: no route matched
+
+export interface ScenarioPath {
+  steps: TranscriptStep[];
+  outcome: PathOutcome;
+  finalMessageId: string | null; // Last message shown
+  variables: Record<string, VariableValue>; // Values when the path stopped
+}
+
+export interface CoverageReport {
+  paths: ScenarioPath[];
+  isTruncated: boolean; // More paths exist than the limit allowed
+  unreachedMessageIds: string[];
+  unusedOptions: { messageId: string; optionId: string }[]; // On reached messages, never taken
+  messageCount: number;
+  reachedMessageCount: number;
+  optionCount: number;
+  takenOptionCount: number;
+}
+
+export interface PathLimits {
+  maxLoopVisits: number; // Times one path may show the same message
+  maxSteps: number; // Messages one path may show
+  maxPaths: number;
+}
+
+export const DEFAULT_PATH_LIMITS: PathLimits = { maxLoopVisits: 2, maxSteps: 200, maxPaths: 500 };
+
+type CoverageScenario = Pick<ScenarioData, "messages" | "variables" | "rootMessageId" | "subFlows" | "theme">;
+
+/**
+ * A typed answer that takes the route: the first keyword or exact phrase. Patterns can't be
+ * reversed into an answer, so those store an empty answer and are described instead.
+ */
+function getSampleAnswer(match: InputMatch | undefined): { answer: string; label: string } {
+  if (!match || match.type === "regex") {
+    return { answer: "", label: match?.pattern ? `(answer matching /${match.pattern}/)` : "(answer matching this route)" };
+  }
+  const first = match.pattern.split(",").map((part) => part.trim()).find((part) => part !== "") ?? "";
+  return { answer: first, label: first };
+}
+
+export function enumeratePaths(scenario: CoverageScenario, limits: PathLimits = DEFAULT_PATH_LIMITS): CoverageReport {
+  const engine = createScenarioEngine(scenario);
+  const paths: ScenarioPath[] = [];
+  const reached = new Set<string>();
+  const taken = new Set<string>();
+  const visits = new Map<string, number>();
+  let isTruncated = false;
+
+  // Call nodes are never current in the engine, so they count as reached when a link leads to one
+  const reachLink = (targetId: string | null | undefined) => {
+    if (targetId && scenario.messages[targetId]?.call) reached.add(targetId);
+  };
+
+  const walk = (state: EngineState, steps: TranscriptStep[]) => {
+    if (paths.length >= limits.maxPaths) {
+      isTruncated = true;
+      return;
+    }
+    const finish = (outcome: PathOutcome, finalSteps: TranscriptStep[]) => {
+      const shown = finalSteps.filter((step) => step.kind === "message");
+      paths.push({
+        steps: finalSteps,
+        outcome,
+        finalMessageId: shown.length > 0 ? shown[shown.length - 1].messageId : null,
+        variables: state.variables,
+      });
+    };
+
+    const message = engine.getMessage(state);
+    if (!message) return finish("dead-end", steps);
+    const visitCount = (visits.get(message.id) ?? 0) + 1;
+    if (visitCount > limits.maxLoopVisits) return finish("loop", steps);
+    if (steps.filter((step) => step.kind === "message").length >= limits.maxSteps) return finish("too-long", steps);
+
+    reached.add(message.id);
+    visits.set(message.id, visitCount);
+    const text = markdown.toPlainText(engine.interpolate(message.content, state.variables));
+    const shownSteps: TranscriptStep[] = [...steps, { kind: "message", messageId: message.id, text }];
+
+    if (message.isEndpoint) {
+      finish("endpoint", shownSteps);
+    } else if (engine.isAwaitingInput(state)) {
+      // Every route whose condition allows it, then an answer no route matches
+      message.responseOptions.forEach((route) => {
+        const sample = getSampleAnswer(route.match);
+        const result = engine.followRoute(state, sample.answer, route.id);
+        if (!result) return;
+        taken.add(`${message.id}:${route.id}`);
+        reachLink(route.nextMessageId);
+        walk(result.state, [...shownSteps, { kind: "answer", messageId: message.id, optionId: route.id, text: sample.label }]);
+      });
+      const fallback = engine.followRoute(state, "", null);
+      if (fallback) {
+        reachLink(message.nextMessageId);
+        walk(fallback.state, [...shownSteps, { kind: "answer", messageId: message.id, optionId: null, text: "(any other answer)" }]);
+      }
+    } else {
+      const options = engine.getVisibleOptions(state);
+      if (options.length > 0) {
+        options.forEach((option) => {
+          const choice = engine.choose(state, option.id);
+          if (!choice) return;
+          taken.add(`${message.id}:${option.id}`);
+          reachLink(option.nextMessageId);
+          walk(choice.state, [
+            ...shownSteps,
+            { kind: "choice", messageId: message.id, optionId: option.id, text: engine.interpolate(option.text, state.variables) },
+          ]);
+        });
+      } else if (engine.getAutoAdvanceTarget(state)) {
+        reachLink(message.nextMessageId);
+        walk(engine.advance(state), shownSteps);
+      } else {
+        finish("dead-end", shownSteps);
+      }
+    }
+    visits.set(message.id, visitCount - 1);
+  };
+
+  const start = engine.start();
+  if (start) {
+    reachLink(scenario.rootMessageId);
+    walk(start, []);
+  }
+
+  const messageList = Object.values(scenario.messages);
+  const unusedOptions = messageList
+    .filter((message) => reached.has(message.id))
+    .flatMap((message) =>
+      message.responseOptions
+        .filter((option) => !taken.has(`${message.id}:${option.id}`))
+        .map((option) => ({ messageId: message.id, optionId: option.id }))
+    );
+  const optionCount = messageList.reduce((count, message) => count + message.responseOptions.length, 0);
+
+  return {
+    paths,
+    isTruncated,
+    unreachedMessageIds: messageList.filter((message) => !reached.has(message.id)).map((message) => message.id),
+    unusedOptions,
+    messageCount: messageList.length,
+    reachedMessageCount: reached.size,
+    optionCount,
+    takenOptionCount: taken.size,
+  };
+}
+
+function formatPercent(part: number, total: number): string {
+  return total === 0 ? "100%" : `${Math.round((part / total) * 100)}%`;
+}
+
+// "Speaker: text" and "Learner: text" lines
+export function formatTranscript(path: ScenarioPath, scenario: Pick<ScenarioData, "messages" | "theme" | "speakers">): string[] {
+  return path.steps.map((step) => {
+    if (step.kind !== "message") return `Learner: ${step.text}`;
+    const speaker = getMessageSpeaker(scenario, scenario.messages[step.messageId]?.speakerId);
+    return `${speaker.name}: ${step.text || "(empty message)"}`;
+  });
+}
+
+export function formatCoverageSummary(report: CoverageReport): string[] {
+  const counts = (Object.keys(PATH_OUTCOMES) as PathOutcome[])
+    .map((outcome) => ({ outcome, count: report.paths.filter((path) => path.outcome === outcome).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ outcome, count }) => `${count} ${PATH_OUTCOMES[outcome].toLowerCase()}`);
+  return [
+    `Paths: ${report.paths.length}${report.isTruncated ? " (limit reached, more exist)" : ""}${counts.length > 0 ? `; ${counts.join(", ")}` : ""}`,
+    `Messages reached: ${report.reachedMessageCount} of ${report.messageCount} (${formatPercent(report.reachedMessageCount, report.messageCount)})`,
+    `Responses taken: ${report.takenOptionCount} of ${report.optionCount} (${formatPercent(report.takenOptionCount, report.optionCount)})`,
+  ];
+}
+
+// Node numbers match the badges on the canvas
+function getNodeNumbers(scenario: Pick<ScenarioData, "messages">): Map<string, number> {
+  return new Map(Object.keys(scenario.messages).map((id, index) => [id, index + 1]));
+}
+
+function getMessageLabel(scenario: Pick<ScenarioData, "messages">, messageId: string): string {
+  const message = scenario.messages[messageId];
+  if (!message) return "Deleted message";
+  if (message.call) return "Sub-flow call";
+  return markdown.toPlainText(message.content) || "Empty message";
+}
+
+export function coverageReportToMarkdown(report: CoverageReport, scenario: ScenarioData): string {
+  const numbers = getNodeNumbers(scenario);
+  const lines: string[] = [`# Path coverage: ${scenario.name}`, ""];
+  formatCoverageSummary(report).forEach((line) => lines.push(`- ${line}`));
+
+  lines.push("", "## Messages never reached", "");
+  if (report.unreachedMessageIds.length === 0) lines.push("None");
+  report.unreachedMessageIds.forEach((id) => lines.push(`- #${numbers.get(id)} ${getMessageLabel(scenario, id)}`));
+
+  lines.push("", "## Responses never taken", "");
+  if (report.unusedOptions.length === 0) lines.push("None");
+  report.unusedOptions.forEach(({ messageId, optionId }) => {
+    const option = scenario.messages[messageId]?.responseOptions.find((o) => o.id === optionId);
+    lines.push(`- #${numbers.get(messageId)} "${option?.text || "Untitled response"}"`);
+  });
+
+  lines.push("", "## Paths");
+  report.paths.forEach((path, index) => {
+    const end = path.finalMessageId ? ` at #${numbers.get(path.finalMessageId)}` : "";
+    lines.push("", `### Path ${index + 1}: ${PATH_OUTCOMES[path.outcome]}${end}`, "");
+    formatTranscript(path, scenario).forEach((line, stepIndex) => lines.push(`${stepIndex + 1}. ${line}`));
+  });
+  return lines.join("\n") + "\n";
+}
+
+function toCsvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvRow(values: (string | number)[]): string {
+  return values.map(toCsvCell).join(",");
+}
+
+/**
+ * One row per path, then a blank row and one row per message and response with whether any path
+ * reached it. Transcript lines are joined with " / " so each path stays on one row.
+ */
+export function coverageReportToCsv(report: CoverageReport, scenario: ScenarioData): string {
+  const numbers = getNodeNumbers(scenario);
+  const unreached = new Set(report.unreachedMessageIds);
+  const unused = new Set(report.unusedOptions.map(({ messageId, optionId }) => `${messageId}:${optionId}`));
+  const rows = [toCsvRow(["Path", "Outcome", "Last message", "Steps", "Transcript"])];
+  report.paths.forEach((path, index) => {
+    rows.push(
+      toCsvRow([
+        index + 1,
+        PATH_OUTCOMES[path.outcome],
+        path.finalMessageId ? `#${numbers.get(path.finalMessageId)}` : "",
+        path.steps.length,
+        formatTranscript(path, scenario).join(" / "),
+      ])
+    );
+  });
+  rows.push("", toCsvRow(["Item", "Message", "Text", "Reached"]));
+  Object.values(scenario.messages).forEach((message) => {
+    const isReached = !unreached.has(message.id);
+    rows.push(toCsvRow(["Message", `#${numbers.get(message.id)}`, getMessageLabel(scenario, message.id), isReached ? "Yes" : "No"]));
+    message.responseOptions.forEach((option) => {
+      const isTaken = isReached && !unused.has(`${message.id}:${option.id}`);
+      rows.push(toCsvRow(["Response", `#${numbers.get(message.id)}`, option.text || "Untitled response", isTaken ? "Yes" : "No"]));
+    });
+  });
+  return rows.join("\n") + "\n";
+}
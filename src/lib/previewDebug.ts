@@ -0,0 +1,70 @@
+/**
+ * @file previewDebug.ts
+ * @description Explains the preview's state for debugging: how each comparison in an option's
+ *              condition evaluated against the current variables, and which options are shown or hidden
+ *
+ * @dependencies scenarioEngine, conditions, scenario types
+ * @usage ChatPreview's debug drawer renders these traces. Evaluation goes through the engine so the
+ *        traces always agree with what the preview shows.
+ */
+
+import { Condition, ResponseOption, ScenarioVariable, VariableValue } from "@/types/scenario";
+import { EngineState, ScenarioEngine } from "@/lib/scenarioEngine";
+import { describeCondition, formatConditionValue, isConditionGroup } from "@/lib/conditions";
+
+// One node of a condition tree with its result; comparisons also carry the value they were checked against
+export interface ConditionTrace {
+  description: string;
+  passed: boolean;
+  logic?: "and" | "or";
+  actualValue?: string;
+  children: ConditionTrace[];
+}
+
+export interface OptionTrace {
+  option: ResponseOption;
+  visible: boolean;
+  condition: ConditionTrace | null; // null when the option has no condition
+}
+
+export function traceCondition(
+  engine: ScenarioEngine,
+  condition: Condition,
+  values: Record<string, VariableValue>,
+  variables: Record<string, ScenarioVariable>
+): ConditionTrace {
+  const passed = engine.checkCondition(condition, values);
+  if (isConditionGroup(condition)) {
+    return {
+      description: condition.conditions.length > 0 ? describeCondition(condition, variables) : "Always",
+      passed,
+      logic: condition.logic,
+      children: condition.conditions.map((child) => traceCondition(engine, child, values, variables)),
+    };
+  }
+  const value = values[condition.variableId];
+  return {
+    description: describeCondition(condition, variables),
+    passed,
+    actualValue: value === undefined ? "not set" : formatConditionValue(value),
+    children: [],
+  };
+}
+
+/**
+ * Every option of the current message with whether its condition holds. For text input messages
+ * the options are answer routes, so "visible" means the route is still eligible for a match.
+ */
+export function traceOptions(
+  engine: ScenarioEngine,
+  state: EngineState | null,
+  variables: Record<string, ScenarioVariable>
+): OptionTrace[] {
+  const message = engine.getMessage(state);
+  if (!state || !message || message.isEndpoint) return [];
+  return message.responseOptions.map((option) => ({
+    option,
+    visible: engine.checkCondition(option.condition, state.variables),
+    condition: option.condition ? traceCondition(engine, option.condition, state.variables, variables) : null,
+  }));
+}
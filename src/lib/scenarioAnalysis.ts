@@ -0,0 +1,297 @@
+/**
+ * @file scenarioAnalysis.ts
+ * @description Scenario validation: unconnected options, messages and text input fallbacks,
+ *              messages unreachable from the start, loops with no way out, branches that never
+ *              reach an endpoint, conditions that can never be true given the assignments
+ *              upstream, {{placeholders}} that name no variable, and sub-flow calls with nothing to
+ *              play. Links that lead nowhere inside a sub-flow return to the caller, so they are fine.
+ *
+ * @dependencies scenario types, scenarioGraph, scenarioEngine, conditions
+ * @usage FlowCanvas runs analyzeScenario while validation is open; ValidationPanel lists the issues
+ */
+
+import { ChatTheme, Condition, ScenarioData, VariableValue } from "@/types/scenario";
+import { isConditionGroup } from "@/lib/conditions";
+import { createScenarioEngine } from "@/lib/scenarioEngine";
+import {
+  buildMessageGraph,
+  findReachable,
+  findStronglyConnectedComponents,
+  getSubFlowReturnTargets,
+  MessageGraph,
+  reverseGraph,
+} from "@/lib/scenarioGraph";
+
+export type ValidationSeverity = "error" | "warning";
+
+export type ValidationIssueType =
+  | "unconnected-option"
+  | "missing-connection"
+  | "missing-fallback"
+  | "trapped-loop"
+  | "unreachable"
+  | "no-endpoint"
+  | "impossible-condition"
+  | "unknown-variable"
+  | "empty-call";
+
+export interface ValidationIssue {
+  type: ValidationIssueType;
+  severity: ValidationSeverity;
+  messageId: string; // Node to jump to
+  optionId?: string; // Set when the issue is about a response option
+  relatedMessageIds?: string[]; // Every message involved, e.g. all messages in a loop
+  references?: string[]; // Placeholder names that match no variable
+  themeField?: InterpolatedThemeField; // Set when the issue is about start screen text
+}
+
+// Start screen strings that may contain {{placeholders}}, with how to name them
+export type InterpolatedThemeField = Extract<keyof ChatTheme, "startScreenTitle" | "startScreenSubtitle" | "startButtonText">;
+
+export const INTERPOLATED_THEME_FIELDS: Record<InterpolatedThemeField, string> = {
+  startScreenTitle: "Start screen title",
+  startScreenSubtitle: "Start screen subtitle",
+  startButtonText: "Start button",
+};
+
+export const VALIDATION_ISSUE_TYPES: Record<
+  ValidationIssueType,
+  { label: string; description: string; severity: ValidationSeverity }
+> = {
+  "unconnected-option": {
+    label: "Unconnected responses",
+    description: "Choosing these responses ends the conversation without an endpoint.",
+    severity: "error",
+  },
+  "missing-connection": {
+    label: "Missing connections",
+    description: "These messages have no responses, no connection and are not endpoints.",
+    severity: "error",
+  },
+  "missing-fallback": {
+    label: "Text inputs without a fallback",
+    description: "Answers that match no route end the conversation without an endpoint.",
+    severity: "error",
+  },
+  "trapped-loop": {
+    label: "Loops with no way out",
+    description: "Once a learner enters one of these loops they can never finish.",
+    severity: "error",
+  },
+  unreachable: {
+    label: "Unreachable messages",
+    description: "No path from the start message leads here.",
+    severity: "warning",
+  },
+  "no-endpoint": {
+    label: "Never reach an endpoint",
+    description: "Every path from these messages ends without an endpoint.",
+    severity: "warning",
+  },
+  "impossible-condition": {
+    label: "Impossible conditions",
+    description: "No earlier response sets the variables to values that pass the condition.",
+    severity: "warning",
+  },
+  "unknown-variable": {
+    label: "Unknown variables",
+    description: "These texts use {{placeholders}} that match no variable name, so learners see them as written.",
+    severity: "warning",
+  },
+  "empty-call": {
+    label: "Empty sub-flow calls",
+    description: "These call nodes have no sub-flow or its entry message is missing, so they are skipped.",
+    severity: "warning",
+  },
+};
+
+type AnalyzedScenario = Pick<ScenarioData, "messages" | "variables" | "rootMessageId"> &
+  Partial<Pick<ScenarioData, "theme" | "subFlows">>;
+
+function createIssue(type: ValidationIssueType, messageId: string, extra: Partial<ValidationIssue> = {}): ValidationIssue {
+  return { type, severity: VALIDATION_ISSUE_TYPES[type].severity, messageId, ...extra };
+}
+
+/**
+ * Whether a condition can hold when the learner is at `messageId`. A variable can hold its default
+ * or any value set by a reachable response on a path into the message; a comparison is possible if
+ * one of those values passes it. Arithmetic, append and toggle make the value unknowable, so any
+ * comparison on that variable counts as possible. Deliberately optimistic: comparisons in an AND
+ * group are checked independently, so it never flags a condition that some path could satisfy.
+ */
+function createConditionChecker(scenario: AnalyzedScenario, graph: MessageGraph, reachable: Set<string>) {
+  const returnTargets = getSubFlowReturnTargets(scenario.messages, scenario.subFlows);
+  const reachCache = new Map<string, Set<string>>();
+  const reachFrom = (id: string) => {
+    if (!reachCache.has(id)) reachCache.set(id, findReachable(graph, [id]));
+    return reachCache.get(id)!;
+  };
+
+  // Assignments made by responses the learner can actually see, with where they lead
+  const assignments: { variableId: string; value: VariableValue; isSet: boolean; targetId: string }[] = [];
+  reachable.forEach((messageId) => {
+    const message = scenario.messages[messageId];
+    // A typed answer can be anything, wherever the learner goes next
+    const answerVariableId = message.input?.variableId;
+    if (answerVariableId && !message.isEndpoint) {
+      graph.get(messageId)!.forEach((targetId) => {
+        assignments.push({ variableId: answerVariableId, value: "", isSet: false, targetId });
+      });
+    }
+    message.responseOptions.forEach((option) => {
+      const isLinked = !!option.nextMessageId && !!scenario.messages[option.nextMessageId];
+      // Unlinked responses in a sub-flow carry their assignments back to the caller
+      const targetIds = isLinked ? [option.nextMessageId!] : message.subFlowId ? returnTargets.get(message.subFlowId) ?? [] : [];
+      (option.assignments ?? []).forEach((assignment) => {
+        targetIds.forEach((targetId) => {
+          assignments.push({
+            variableId: assignment.variableId,
+            value: assignment.value,
+            isSet: (assignment.operation ?? "set") === "set",
+            targetId,
+          });
+        });
+      });
+    });
+  });
+
+  const { checkCondition } = createScenarioEngine(scenario);
+
+  const isSatisfiable = (condition: Condition, messageId: string): boolean => {
+    if (isConditionGroup(condition)) {
+      if (condition.conditions.length === 0) return true;
+      return condition.logic === "or"
+        ? condition.conditions.some((child) => isSatisfiable(child, messageId))
+        : condition.conditions.every((child) => isSatisfiable(child, messageId));
+    }
+    const variable = scenario.variables[condition.variableId];
+    if (!variable) return false;
+    const upstream = assignments.filter(
+      (a) => a.variableId === condition.variableId && reachFrom(a.targetId).has(messageId)
+    );
+    if (upstream.some((a) => !a.isSet)) return true;
+    const possibleValues = [variable.defaultValue].concat(upstream.map((a) => a.value));
+    return possibleValues.some((value) => checkCondition(condition, { [condition.variableId]: value }));
+  };
+  return isSatisfiable;
+}
+
+export function analyzeScenario(scenario: AnalyzedScenario): ValidationIssue[] {
+  const { messages, rootMessageId } = scenario;
+  const issues: ValidationIssue[] = [];
+  const subFlows = scenario.subFlows ?? {};
+  const graph = buildMessageGraph(messages, subFlows);
+  const messageList = Object.values(messages);
+
+  // Structural gaps: places where the conversation stops without an endpoint. Inside a sub-flow
+  // these are exits that return to the caller.
+  const deadEndIds = new Set<string>();
+  messageList.forEach((message) => {
+    if (message.call) {
+      const entryId = message.call.subFlowId ? subFlows[message.call.subFlowId]?.entryMessageId : null;
+      if (!entryId || !messages[entryId]) issues.push(createIssue("empty-call", message.id));
+    }
+    if (message.isEndpoint || message.subFlowId) return;
+    message.responseOptions.forEach((option) => {
+      if (!option.nextMessageId || !messages[option.nextMessageId]) {
+        deadEndIds.add(message.id);
+        issues.push(createIssue("unconnected-option", message.id, { optionId: option.id }));
+      }
+    });
+    const hasDirectConnection = !!(message.nextMessageId && messages[message.nextMessageId]);
+    if (message.responseOptions.length === 0 && !hasDirectConnection) {
+      deadEndIds.add(message.id);
+      issues.push(createIssue("missing-connection", message.id));
+    } else if (message.input && !hasDirectConnection) {
+      deadEndIds.add(message.id);
+      issues.push(createIssue("missing-fallback", message.id));
+    }
+  });
+
+  // Placeholders naming no variable, wherever the learner would read them
+  const { getUnknownReferences } = createScenarioEngine(scenario);
+  messageList.forEach((message) => {
+    const references = getUnknownReferences(message.content);
+    if (references.length > 0) issues.push(createIssue("unknown-variable", message.id, { references }));
+    message.responseOptions.forEach((option) => {
+      const optionReferences = getUnknownReferences(option.text);
+      if (optionReferences.length > 0) {
+        issues.push(createIssue("unknown-variable", message.id, { optionId: option.id, references: optionReferences }));
+      }
+    });
+  });
+
+  // Without a start message there is no flow to analyse
+  if (!rootMessageId || !messages[rootMessageId]) return issues;
+
+  // Start screen text is reported against the message it leads into
+  const { theme } = scenario;
+  if (theme) {
+    (Object.keys(INTERPOLATED_THEME_FIELDS) as InterpolatedThemeField[]).forEach((themeField) => {
+      const references = getUnknownReferences(theme[themeField] ?? "");
+      if (references.length > 0) issues.push(createIssue("unknown-variable", rootMessageId, { themeField, references }));
+    });
+  }
+
+  const reachable = findReachable(graph, [rootMessageId]);
+  messageList.forEach((message) => {
+    if (!reachable.has(message.id)) issues.push(createIssue("unreachable", message.id));
+  });
+
+  // Loops whose messages only lead back into the loop, with no endpoint or dead end inside
+  const trappedIds = new Set<string>();
+  findStronglyConnectedComponents(graph).forEach((component) => {
+    if (!reachable.has(component[0])) return;
+    const members = new Set(component);
+    const isCycle = component.length > 1 || graph.get(component[0])!.includes(component[0]);
+    if (!isCycle) return;
+    const hasExit = component.some(
+      (id) =>
+        messages[id].isEndpoint ||
+        deadEndIds.has(id) ||
+        graph.get(id)!.some((target) => !members.has(target))
+    );
+    if (hasExit) return;
+    // Report in canvas order so the jump target is stable
+    const ordered = messageList.map((m) => m.id).filter((id) => members.has(id));
+    ordered.forEach((id) => trappedIds.add(id));
+    issues.push(createIssue("trapped-loop", ordered[0], { relatedMessageIds: ordered }));
+  });
+
+  // Reachable messages with no path to any endpoint (trapped loops are already reported)
+  const endpointIds = messageList.filter((m) => m.isEndpoint).map((m) => m.id);
+  const canReachEndpoint = findReachable(reverseGraph(graph), endpointIds);
+  messageList.forEach((message) => {
+    if (reachable.has(message.id) && !canReachEndpoint.has(message.id) && !trappedIds.has(message.id)) {
+      issues.push(createIssue("no-endpoint", message.id));
+    }
+  });
+
+  // Conditions no upstream assignment can satisfy. The engine never checks the root's condition.
+  const isSatisfiable = createConditionChecker(scenario, graph, reachable);
+  messageList.forEach((message) => {
+    if (!reachable.has(message.id)) return;
+    if (message.condition && message.id !== rootMessageId && !isSatisfiable(message.condition, message.id)) {
+      issues.push(createIssue("impossible-condition", message.id));
+    }
+    if (message.isEndpoint) return;
+    message.responseOptions.forEach((option) => {
+      if (option.condition && !isSatisfiable(option.condition, message.id)) {
+        issues.push(createIssue("impossible-condition", message.id, { optionId: option.id }));
+      }
+    });
+  });
+
+  return issues;
+}
+
+// Worst severity per message, for highlighting nodes on the canvas
+export function getMessageSeverities(issues: ValidationIssue[]): Map<string, ValidationSeverity> {
+  const severities = new Map<string, ValidationSeverity>();
+  issues.forEach((issue) => {
+    (issue.relatedMessageIds ?? [issue.messageId]).forEach((id) => {
+      if (severities.get(id) !== "error") severities.set(id, issue.severity);
+    });
+  });
+  return severities;
+}
@@ -0,0 +1,364 @@
+/**
+ * @file scenarioEngine.ts
+ * @description Headless branching state machine shared by the live preview and the exported
+ *              runtime: start (from the root or any message), visible options, choosing an option,
+ *              typed answers and their routes, auto-advance, sub-flow calls and returns, message pacing,
+ *              variable state, condition evaluation, assignment operations and {{variable}} interpolation
+ *
+ * @dependencies scenario types
+ * @usage ChatPreview drives it with React state; exportZip embeds it in the standalone HTML; pathCoverage
+ *        walks every choice and route with it
+ */
+
+import {
+  ChatMessage,
+  ChatTheme,
+  Condition,
+  InputMatch,
+  ResponseOption,
+  ScenarioData,
+  VariableAssignment,
+  VariableCondition,
+  VariableValue,
+} from "@/types/scenario";
+
+export type EngineScenario = Pick<ScenarioData, "messages" | "variables" | "rootMessageId"> &
+  Partial<Pick<ScenarioData, "subFlows">> & {
+  theme?: Partial<Pick<ChatTheme, "pacing" | "autoAdvanceDelay" | "conversationType">>;
+};
+
+// Snapshot of a play-through. Transitions return new snapshots and never mutate the old one.
+export interface EngineState {
+  currentMessageId: string | null; // null once a choice leads nowhere
+  variables: Record<string, VariableValue>;
+  callStack: string[]; // Call nodes of the sub-flows being played, innermost last
+}
+
+export interface EngineChoice {
+  state: EngineState;
+  option: ResponseOption;
+}
+
+export interface EngineAnswer {
+  state: EngineState;
+  route: ResponseOption | null; // null when no route matched and the fallback connection was followed
+}
+
+/**
+ * Create an engine for a scenario. This function is serialised with toString() into the exported
+ * HTML, so it must stay self-contained: no imports, no references to module scope.
+ *
+ * The host runs the timers: it shows the typing indicator for getTypingDelay(), then after showing
+ * the message asks getAutoAdvanceTarget() whether to call advance() after getAutoAdvanceDelay(), or
+ * waits for choose() or, when isAwaitingInput(), for submit().
+ *
+ * Call nodes are never current: entering one moves straight into its sub-flow, and a link that
+ * leads nowhere inside a sub-flow returns to the message after the innermost call.
+ */
+export function createScenarioEngine(scenario: EngineScenario) {
+  const messages = scenario.messages || {};
+  const variables = scenario.variables || {};
+  const subFlows = scenario.subFlows || {};
+
+  function getDefaultVariables(): Record<string, VariableValue> {
+    const values: Record<string, VariableValue> = {};
+    Object.keys(variables).forEach((id) => {
+      values[id] = variables[id].defaultValue;
+    });
+    return values;
+  }
+
+  function compare(condition: VariableCondition, values: Record<string, VariableValue>): boolean {
+    const value = values[condition.variableId];
+    const required = condition.requiredValue;
+    // Ordering only makes sense between numbers; anything else fails the comparison
+    const isNumeric = typeof value === "number" && !isNaN(Number(required)) && required !== "";
+    switch (condition.operator || "eq") {
+      case "neq": return value !== required;
+      case "gt": return isNumeric && (value as number) > Number(required);
+      case "lt": return isNumeric && (value as number) < Number(required);
+      case "gte": return isNumeric && (value as number) >= Number(required);
+      case "lte": return isNumeric && (value as number) <= Number(required);
+      case "contains":
+        return value !== undefined && String(value).toLowerCase().indexOf(String(required).toLowerCase()) !== -1;
+      default: return value === required;
+    }
+  }
+
+  // Groups combine their children with AND / OR; an empty group always passes
+  function checkCondition(condition: Condition | undefined, values: Record<string, VariableValue>): boolean {
+    if (!condition) return true;
+    if ("conditions" in condition) {
+      if (condition.conditions.length === 0) return true;
+      return condition.logic === "or"
+        ? condition.conditions.some((child) => checkCondition(child, values))
+        : condition.conditions.every((child) => checkCondition(child, values));
+    }
+    return compare(condition, values);
+  }
+
+  // Apply assignments in order to a copy of the values
+  function applyAssignments(
+    assignments: VariableAssignment[] | undefined,
+    values: Record<string, VariableValue>
+  ): Record<string, VariableValue> {
+    const next = Object.assign({}, values);
+    (assignments || []).forEach((assignment) => {
+      const current = next[assignment.variableId];
+      switch (assignment.operation || "set") {
+        case "increment":
+          next[assignment.variableId] = (Number(current) || 0) + (Number(assignment.value) || 0);
+          break;
+        case "decrement":
+          next[assignment.variableId] = (Number(current) || 0) - (Number(assignment.value) || 0);
+          break;
+        case "append":
+          next[assignment.variableId] = (current === undefined ? "" : String(current)) + String(assignment.value);
+          break;
+        case "toggle":
+          next[assignment.variableId] = !current;
+          break;
+        default:
+          next[assignment.variableId] = assignment.value;
+      }
+    });
+    return next;
+  }
+
+  // {{name}} placeholders refer to variables by name; spaces inside the braces are ignored
+  const placeholderPattern = /\{\{\s*([^{}]+?)\s*\}\}/g;
+  const variableIdsByName: Record<string, string> = {};
+  Object.keys(variables).forEach((id) => {
+    variableIdsByName[variables[id].name] = id;
+  });
+
+  // Replace placeholders with current values. Unknown names are left as written so they stay visible.
+  function interpolate(text: string, values: Record<string, VariableValue>): string {
+    if (!text || text.indexOf("{{") === -1) return text;
+    return text.replace(placeholderPattern, (placeholder: string, name: string) => {
+      const id = variableIdsByName[name];
+      if (!id) return placeholder;
+      const value = id in values ? values[id] : variables[id].defaultValue;
+      return String(value);
+    });
+  }
+
+  // Placeholder names in the text that match no variable, without duplicates
+  function getUnknownReferences(text: string): string[] {
+    const unknown: string[] = [];
+    if (!text) return unknown;
+    text.replace(placeholderPattern, (placeholder: string, name: string) => {
+      if (!variableIdsByName[name] && unknown.indexOf(name) === -1) unknown.push(name);
+      return placeholder;
+    });
+    return unknown;
+  }
+
+  // Answers and patterns are compared as lower-case words, so punctuation and spacing don't matter
+  function toWords(text: string): string {
+    return " " + text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim() + " ";
+  }
+
+  // Keywords match whole words or phrases anywhere in the answer; exact needs the whole answer
+  function matchesInput(match: InputMatch | undefined, answer: string): boolean {
+    if (!match) return false;
+    if (match.type === "regex") {
+      try {
+        return match.pattern !== "" && new RegExp(match.pattern, "i").test(answer.trim());
+      } catch (e) {
+        return false; // An invalid pattern never matches
+      }
+    }
+    const answerWords = toWords(answer);
+    return match.pattern.split(",").some((part) => {
+      const words = toWords(part);
+      if (words === "  ") return false;
+      return match.type === "exact" ? answerWords === words : answerWords.indexOf(words) !== -1;
+    });
+  }
+
+  function getMessage(state: EngineState | null): ChatMessage | null {
+    if (!state || !state.currentMessageId) return null;
+    return messages[state.currentMessageId] || null;
+  }
+
+  // The current message wants a typed answer rather than a choice
+  function isAwaitingInput(state: EngineState | null): boolean {
+    const message = getMessage(state);
+    return !!message && !!message.input && !message.isEndpoint;
+  }
+
+  // Text input messages offer no choices: their options are routes for the typed answer
+  function getVisibleOptions(state: EngineState | null): ResponseOption[] {
+    const message = getMessage(state);
+    if (!state || !message || message.isEndpoint || message.input) return [];
+    return message.responseOptions.filter((option) => checkCondition(option.condition, state.variables));
+  }
+
+  // Sub-flows calling themselves stop here instead of growing the stack forever
+  const MAX_CALL_DEPTH = 20;
+  const MAX_STEPS = 1000;
+
+  /**
+   * The state after following a link. A message is only entered if it exists and its condition
+   * holds. Call nodes push themselves and move to their sub-flow's entry; a missing link pops the
+   * innermost call and follows that call node's connection instead.
+   */
+  function enter(messageId: string | null | undefined, values: Record<string, VariableValue>, callStack: string[]): EngineState {
+    let targetId = messageId || null;
+    let stack = callStack;
+    for (let step = 0; step < MAX_STEPS; step++) {
+      if (!targetId) {
+        if (stack.length === 0) break;
+        const callId = stack[stack.length - 1];
+        stack = stack.slice(0, -1);
+        targetId = messages[callId] ? messages[callId].nextMessageId || null : null;
+        continue;
+      }
+      const message = messages[targetId];
+      if (!message || !checkCondition(message.condition, values)) break;
+      if (!message.call) return { currentMessageId: targetId, variables: values, callStack: stack };
+      if (stack.length >= MAX_CALL_DEPTH) break;
+      const subFlow = message.call.subFlowId ? subFlows[message.call.subFlowId] : null;
+      stack = stack.concat(targetId);
+      // A call without a playable sub-flow returns at once and moves on
+      targetId = subFlow ? subFlow.entryMessageId : null;
+    }
+    return { currentMessageId: null, variables: values, callStack: [] };
+  }
+
+  // Where to move without learner input, when the current message offers no visible choices
+  function getAutoAdvanceState(state: EngineState | null): EngineState | null {
+    const message = getMessage(state);
+    if (!state || !message || message.isEndpoint || message.input) return null;
+    if (getVisibleOptions(state).length > 0) return null;
+    const next = enter(message.nextMessageId, state.variables, state.callStack);
+    return next.currentMessageId ? next : null;
+  }
+
+  // The message to move to without learner input, when the current one offers no visible choices
+  function getAutoAdvanceTarget(state: EngineState | null): string | null {
+    const next = getAutoAdvanceState(state);
+    return next ? next.currentMessageId : null;
+  }
+
+  // Words-per-minute delays stay between these bounds so one-word and very long messages feel natural
+  const MIN_WPM_DELAY = 500;
+  const MAX_WPM_DELAY = 8000;
+
+  // Typing indicator time before a message appears; text is the message as shown (after interpolation)
+  function getTypingDelay(message: ChatMessage, text?: string): number {
+    const theme = scenario.theme || {};
+    const pacing = message.pacing || theme.pacing || { mode: "fixed", delayMs: 1000, wordsPerMinute: 180 };
+    if (pacing.mode === "wpm") {
+      const words = String(text === undefined ? message.content : text).split(/\s+/).filter(Boolean).length;
+      const delay = (words / Math.max(1, pacing.wordsPerMinute)) * 60000;
+      return Math.round(Math.min(MAX_WPM_DELAY, Math.max(MIN_WPM_DELAY, delay)));
+    }
+    return Math.max(0, pacing.delayMs);
+  }
+
+  function storeAnswer(message: ChatMessage, values: Record<string, VariableValue>, answer: string): Record<string, VariableValue> {
+    const next = Object.assign({}, values);
+    const variableId = message.input ? message.input.variableId : null;
+    if (variableId && variables[variableId]) next[variableId] = answer;
+    return next;
+  }
+
+  // Store the answer and take the given route without matching it, or the direct connection for a
+  // null route. Null when the route's condition fails. Path enumeration uses this to try every route.
+  function followRoute(state: EngineState, answer: string, routeId: string | null): EngineAnswer | null {
+    const message = getMessage(state);
+    if (!message || !isAwaitingInput(state)) return null;
+    let values = storeAnswer(message, state.variables, answer);
+    const route = routeId ? message.responseOptions.find((option) => option.id === routeId) || null : null;
+    if (routeId && (!route || !checkCondition(route.condition, values))) return null;
+    if (route) values = applyAssignments(route.assignments, values);
+    return {
+      state: enter(route ? route.nextMessageId : message.nextMessageId, values, state.callStack),
+      route: route,
+    };
+  }
+
+  // Play-through at any message with the given values on top of the defaults. The message's own
+  // condition is not checked, and a message inside a sub-flow plays without a call to return to.
+  function startAt(messageId: string, values: Record<string, VariableValue>): EngineState | null {
+    const message = messages[messageId];
+    if (!message) return null;
+    const initial = Object.assign(getDefaultVariables(), values);
+    if (!message.call) return { currentMessageId: messageId, variables: initial, callStack: [] };
+    const state = enter(messageId, initial, []);
+    return state.currentMessageId ? state : null;
+  }
+
+  // Pause after a message without choices before the next one starts
+  function getAutoAdvanceDelay(): number {
+    const theme = scenario.theme || {};
+    if (typeof theme.autoAdvanceDelay === "number") return Math.max(0, theme.autoAdvanceDelay);
+    return theme.conversationType === "regular" ? 500 : 300;
+  }
+
+  return {
+    getDefaultVariables,
+    checkCondition,
+    applyAssignments,
+    interpolate,
+    getUnknownReferences,
+    matchesInput,
+    getMessage,
+    isAwaitingInput,
+    getVisibleOptions,
+    getAutoAdvanceTarget,
+    getTypingDelay,
+    getAutoAdvanceDelay,
+    startAt,
+
+    // Fresh play-through at the root message, or null when there is nothing to play. The root's
+    // condition is not checked; a root call node starts inside its sub-flow.
+    start(): EngineState | null {
+      const rootId = scenario.rootMessageId;
+      return rootId ? startAt(rootId, {}) : null;
+    },
+
+    // Pick one of the visible options: apply its assignments, then follow its connection
+    choose(state: EngineState, optionId: string): EngineChoice | null {
+      const option = getVisibleOptions(state).find((o) => o.id === optionId);
+      if (!option) return null;
+      const values = applyAssignments(option.assignments, state.variables);
+      return {
+        state: enter(option.nextMessageId, values, state.callStack),
+        option: option,
+      };
+    },
+
+    // Answer a text input message: store the answer, then take the first route whose condition holds
+    // and whose match accepts it, or the message's direct connection when none does
+    submit(state: EngineState, answer: string): EngineAnswer | null {
+      const message = getMessage(state);
+      if (!message || !isAwaitingInput(state)) return null;
+      const values = storeAnswer(message, state.variables, answer);
+      const route =
+        message.responseOptions.find((option) => checkCondition(option.condition, values) && matchesInput(option.match, answer)) ||
+        null;
+      return followRoute(state, answer, route ? route.id : null);
+    },
+
+    followRoute,
+
+    advance(state: EngineState): EngineState {
+      return getAutoAdvanceState(state) || state;
+    },
+
+    // Nothing left to show: an endpoint, a dead end, or a message with no way forward
+    isEnded(state: EngineState | null): boolean {
+      if (!state) return false;
+      const message = getMessage(state);
+      if (!message) return true;
+      if (message.isEndpoint) return true;
+      if (isAwaitingInput(state)) return false;
+      return getVisibleOptions(state).length === 0 && !getAutoAdvanceTarget(state);
+    },
+  };
+}
+
+export type ScenarioEngine = ReturnType<typeof createScenarioEngine>;
@@ -0,0 +1,153 @@
+/**
+ * @file scenarioGraph.ts
+ * @description Directed graph view of a scenario's messages: outgoing links, sub-flow calls and
+ *              returns, reachability and strongly connected components
+ *
+ * @dependencies scenario types
+ * @usage Used by scenarioAnalysis for validation; links mirror what the scenario engine can follow
+ */
+
+import { ChatMessage, SubFlow } from "@/types/scenario";
+
+export type MessageGraph = Map<string, string[]>;
+
+/**
+ * Where the conversation goes when each sub-flow returns: the direct connections of the call nodes
+ * that use it. A call node without one returns from its own sub-flow in turn.
+ */
+export function getSubFlowReturnTargets(
+  messages: Record<string, ChatMessage>,
+  subFlows: Record<string, SubFlow> = {}
+): Map<string, string[]> {
+  const returnTargets = new Map<string, string[]>();
+  const resolve = (subFlowId: string, visiting: Set<string>): string[] => {
+    if (returnTargets.has(subFlowId)) return returnTargets.get(subFlowId)!;
+    if (visiting.has(subFlowId)) return [];
+    visiting.add(subFlowId);
+    const targets = new Set<string>();
+    Object.values(messages).forEach((message) => {
+      if (message.call?.subFlowId !== subFlowId) return;
+      if (message.nextMessageId && messages[message.nextMessageId]) targets.add(message.nextMessageId);
+      else if (message.subFlowId) resolve(message.subFlowId, visiting).forEach((id) => targets.add(id));
+    });
+    returnTargets.set(subFlowId, [...targets]);
+    return returnTargets.get(subFlowId)!;
+  };
+  Object.keys(subFlows).forEach((id) => resolve(id, new Set()));
+  return returnTargets;
+}
+
+// Messages a learner can move to from this one. Endpoints stop the conversation, and links to
+// deleted messages are ignored. Inside a sub-flow a missing link returns to `returnTargets`; a call
+// node leads into its sub-flow, or straight on when it has nothing to play.
+export function getOutgoingMessageIds(
+  message: ChatMessage,
+  messages: Record<string, ChatMessage>,
+  subFlows: Record<string, SubFlow> = {},
+  returnTargets: string[] = []
+): string[] {
+  if (message.isEndpoint) return [];
+  const follow = (id: string | null | undefined) => (id && messages[id] ? [id] : message.subFlowId ? returnTargets : []);
+  if (message.call) {
+    const entryId = message.call.subFlowId ? subFlows[message.call.subFlowId]?.entryMessageId : null;
+    return entryId && messages[entryId] ? [entryId] : [...new Set(follow(message.nextMessageId))];
+  }
+  const targets = message.responseOptions.flatMap((option) => follow(option.nextMessageId));
+  // The engine follows a direct connection whenever no option is visible
+  targets.push(...follow(message.nextMessageId));
+  return [...new Set(targets)];
+}
+
+export function buildMessageGraph(messages: Record<string, ChatMessage>, subFlows: Record<string, SubFlow> = {}): MessageGraph {
+  const returnTargets = getSubFlowReturnTargets(messages, subFlows);
+  const graph: MessageGraph = new Map();
+  Object.values(messages).forEach((message) => {
+    const returns = message.subFlowId ? returnTargets.get(message.subFlowId) ?? [] : [];
+    graph.set(message.id, getOutgoingMessageIds(message, messages, subFlows, returns));
+  });
+  return graph;
+}
+
+export function reverseGraph(graph: MessageGraph): MessageGraph {
+  const reversed: MessageGraph = new Map();
+  graph.forEach((_, id) => reversed.set(id, []));
+  graph.forEach((targets, id) => {
+    targets.forEach((target) => reversed.get(target)?.push(id));
+  });
+  return reversed;
+}
+
+// Every message reachable from the start ids, including the start ids themselves
+export function findReachable(graph: MessageGraph, startIds: Iterable<string>): Set<string> {
+  const visited = new Set<string>();
+  const stack = [...startIds].filter((id) => graph.has(id));
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    graph.get(id)?.forEach((target) => {
+      if (!visited.has(target)) stack.push(target);
+    });
+  }
+  return visited;
+}
+
+/**
+ * Tarjan's algorithm, iterative so long chains of messages cannot overflow the call stack.
+ * Components come out in reverse topological order.
+ */
+export function findStronglyConnectedComponents(graph: MessageGraph): string[][] {
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  graph.forEach((_, rootId) => {
+    if (indexes.has(rootId)) return;
+    const work: { id: string; edge: number }[] = [{ id: rootId, edge: 0 }];
+    indexes.set(rootId, nextIndex);
+    lowLinks.set(rootId, nextIndex);
+    nextIndex++;
+    stack.push(rootId);
+    onStack.add(rootId);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const targets = graph.get(frame.id) ?? [];
+      if (frame.edge < targets.length) {
+        const target = targets[frame.edge++];
+        if (!indexes.has(target)) {
+          indexes.set(target, nextIndex);
+          lowLinks.set(target, nextIndex);
+          nextIndex++;
+          stack.push(target);
+          onStack.add(target);
+          work.push({ id: target, edge: 0 });
+        } else if (onStack.has(target)) {
+          lowLinks.set(frame.id, Math.min(lowLinks.get(frame.id)!, indexes.get(target)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].id;
+        lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(frame.id)!));
+      }
+      if (lowLinks.get(frame.id) === indexes.get(frame.id)) {
+        const component: string[] = [];
+        let id: string;
+        do {
+          id = stack.pop()!;
+          onStack.delete(id);
+          component.push(id);
+        } while (id !== frame.id);
+        components.push(component);
+      }
+    }
+  });
+
+  return components;
+}
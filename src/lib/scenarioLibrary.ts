@@ -0,0 +1,150 @@
+/**
+ * @file scenarioLibrary.ts
+ * @description IndexedDB-backed scenario library. Stores every scenario keyed by ScenarioData.id
+ *              so large base64 avatars don't run into the localStorage quota. Also moves the legacy
+ *              localStorage autosave into the library once.
+ *
+ * @dependencies IndexedDB (browser), scenario types
+ * @usage Used by ScenarioContext for autosave/loading and by the Library page for list/duplicate/delete
+ */
+
+import { ScenarioData } from "@/types/scenario";
+
+const DB_NAME = "chat-scenario-builder";
+const DB_VERSION = 1;
+const STORE_NAME = "scenarios";
+
+// localStorage key remembering which scenario was open last
+export const CURRENT_SCENARIO_KEY = "chat-scenario-builder-current-id";
+
+// localStorage key of the single autosave slot used before the library existed
+export const LEGACY_AUTOSAVE_KEY = "chat-scenario-builder-autosave";
+
+// localStorage key keeping a legacy autosave that could not be read, so it is not retried on every load
+export const LEGACY_AUTOSAVE_BACKUP_KEY = "chat-scenario-builder-autosave-unreadable";
+
+export interface ScenarioSummary {
+  id: string;
+  name: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// Run a single request against the scenarios store and resolve with its result
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? request.error);
+  });
+}
+
+function toSummary(scenario: ScenarioData): ScenarioSummary {
+  return {
+    id: scenario.id,
+    name: scenario.name,
+    messageCount: Object.keys(scenario.messages ?? {}).length,
+    createdAt: scenario.createdAt,
+    updatedAt: scenario.updatedAt,
+  };
+}
+
+// List all scenarios, most recently edited first
+export async function listScenarios(): Promise<ScenarioSummary[]> {
+  const all = await withStore<ScenarioData[]>("readonly", (store) => store.getAll());
+  return all
+    .map(toSummary)
+    .sort((a, b) => (b.updatedAt || "").localeCompare(a.updatedAt || ""));
+}
+
+export async function getScenario(id: string): Promise<ScenarioData | null> {
+  const result = await withStore<ScenarioData | undefined>("readonly", (store) => store.get(id));
+  return result ?? null;
+}
+
+export async function saveScenario(scenario: ScenarioData): Promise<void> {
+  await withStore("readwrite", (store) => store.put(scenario));
+}
+
+export async function deleteScenario(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+// Copy a stored scenario under a fresh id. Message ids can stay as they are scoped to the scenario.
+export async function duplicateScenario(id: string): Promise<ScenarioData | null> {
+  const original = await getScenario(id);
+  if (!original) return null;
+  const now = new Date().toISOString();
+  const copy: ScenarioData = {
+    ...original,
+    id: crypto.randomUUID(),
+    name: `Copy of ${original.name}`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveScenario(copy);
+  return copy;
+}
+
+/**
+ * Move the legacy localStorage autosave into the library, then remove it so this only happens once.
+ * `migrate` brings the stored data up to the current shape. Resolves with the moved scenario, or
+ * null when there is no legacy autosave or it is unreadable; an unreadable one is set aside under
+ * LEGACY_AUTOSAVE_BACKUP_KEY.
+ */
+export async function migrateLegacyAutosave(migrate: (data: ScenarioData) => ScenarioData): Promise<ScenarioData | null> {
+  const legacy = localStorage.getItem(LEGACY_AUTOSAVE_KEY);
+  if (!legacy) return null;
+  let migrated: ScenarioData;
+  try {
+    migrated = migrate(JSON.parse(legacy));
+  } catch (e) {
+    console.warn("Could not read the legacy autosave; keeping it aside.", e);
+    localStorage.setItem(LEGACY_AUTOSAVE_BACKUP_KEY, legacy);
+    localStorage.removeItem(LEGACY_AUTOSAVE_KEY);
+    return null;
+  }
+  await saveScenario(migrated);
+  localStorage.removeItem(LEGACY_AUTOSAVE_KEY);
+  return migrated;
+}
+
+export async function renameScenario(id: string, name: string): Promise<void> {
+  const scenario = await getScenario(id);
+  if (!scenario) return;
+  await saveScenario({ ...scenario, name, updatedAt: new Date().toISOString() });
+}
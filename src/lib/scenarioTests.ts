@@ -0,0 +1,118 @@
+/**
+ * @file scenarioTests.ts
+ * @description Headless runner for scripted scenario test cases: plays the recorded steps through the
+ *              scenario engine without timers, then checks where the conversation rests and the
+ *              values of the expected variables
+ *
+ * @dependencies scenarioEngine, conditions, markdown, scenario types
+ * @usage TestCasesPanel runs a scenario's test cases as it is edited; tests in src/test run them with
+ *        vitest, including scenario files saved in src/test/scenarios
+ */
+
+import { ScenarioData, ScenarioTestCase, VariableValue } from "@/types/scenario";
+import { createScenarioEngine, EngineState, ScenarioEngine } from "@/lib/scenarioEngine";
+import { formatConditionValue } from "@/lib/conditions";
+import { markdown } from "@/lib/markdown";
+
+export interface TestCaseResult {
+  testCaseId: string;
+  passed: boolean;
+  failures: string[];
+  endMessageId: string | null; // Where the conversation rested, or null once it ended
+  variables: Record<string, VariableValue>;
+}
+
+type TestScenario = Pick<ScenarioData, "messages" | "variables" | "rootMessageId" | "subFlows" | "theme">;
+
+// Auto-advance chains stop here so a scenario looping on itself can't hang a run
+const MAX_AUTO_ADVANCE = 1000;
+
+// Follow connections without choices the way the preview does after its timers, until the
+// conversation waits for the learner or ends
+export function settle(engine: ScenarioEngine, state: EngineState): EngineState {
+  let current = state;
+  for (let step = 0; step < MAX_AUTO_ADVANCE && engine.getAutoAdvanceTarget(current); step++) {
+    current = engine.advance(current);
+  }
+  return current;
+}
+
+function describeMessage(scenario: TestScenario, messageId: string | null): string {
+  if (!messageId) return "the end of the conversation";
+  const number = Object.keys(scenario.messages).indexOf(messageId) + 1;
+  const message = scenario.messages[messageId];
+  if (!message) return "a deleted message";
+  const text = markdown.toPlainText(message.content);
+  return `#${number} "${text.length > 40 ? `${text.slice(0, 40)}…` : text || "Empty message"}"`;
+}
+
+export function runTestCase(scenario: TestScenario, testCase: ScenarioTestCase): TestCaseResult {
+  const engine = createScenarioEngine(scenario);
+  const failures: string[] = [];
+  const started = testCase.startMessageId
+    ? engine.startAt(testCase.startMessageId, testCase.startVariables)
+    : engine.start();
+  if (!started) {
+    return {
+      testCaseId: testCase.id,
+      passed: false,
+      failures: [testCase.startMessageId ? "The start message no longer exists" : "The scenario has no start message"],
+      endMessageId: null,
+      variables: {},
+    };
+  }
+
+  let state = settle(engine, started);
+  for (let index = 0; index < testCase.steps.length; index++) {
+    const step = testCase.steps[index];
+    const at = describeMessage(scenario, state.currentMessageId);
+    if (step.kind === "choose") {
+      const choice = engine.choose(state, step.optionId);
+      if (!choice) {
+        const option = Object.values(scenario.messages)
+          .flatMap((message) => message.responseOptions)
+          .find((o) => o.id === step.optionId);
+        failures.push(`Step ${index + 1}: ${option ? `"${option.text}"` : "a deleted response"} is not offered at ${at}`);
+        break;
+      }
+      state = settle(engine, choice.state);
+    } else {
+      const result = engine.submit(state, step.text);
+      if (!result) {
+        failures.push(`Step ${index + 1}: ${at} does not ask for a typed answer`);
+        break;
+      }
+      state = settle(engine, result.state);
+    }
+  }
+
+  if (failures.length === 0) {
+    if (state.currentMessageId !== testCase.expectedMessageId) {
+      failures.push(
+        `Expected to end at ${describeMessage(scenario, testCase.expectedMessageId)}, ended at ${describeMessage(scenario, state.currentMessageId)}`
+      );
+    }
+    Object.keys(testCase.expectedVariables).forEach((variableId) => {
+      const expected = testCase.expectedVariables[variableId];
+      const actual = state.variables[variableId];
+      if (actual === expected) return;
+      const name = scenario.variables[variableId]?.name ?? "deleted variable";
+      failures.push(
+        `Expected ${name} = ${formatConditionValue(expected)}, got ${actual === undefined ? "no value" : formatConditionValue(actual)}`
+      );
+    });
+  }
+
+  return {
+    testCaseId: testCase.id,
+    passed: failures.length === 0,
+    failures,
+    endMessageId: state.currentMessageId,
+    variables: state.variables,
+  };
+}
+
+// Every test case of the scenario, in the order they were added
+export function runTestCases(scenario: TestScenario & Partial<Pick<ScenarioData, "testCases">>): TestCaseResult[] {
+  return Object.values(scenario.testCases ?? {}).map((testCase) => runTestCase(scenario, testCase));
+}
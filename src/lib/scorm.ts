@@ -0,0 +1,237 @@
+/**
+ * @file scorm.ts
+ * @description SCORM 1.2 and SCORM 2004 packaging: imsmanifest.xml generation and the LMS runtime
+ *              adapter embedded in the exported HTML
+ *
+ * @dependencies scenario types
+ * @usage Called from exportZip when the export target is a SCORM package
+ */
+
+import { ScenarioData } from "@/types/scenario";
+
+export type ScormVersion = "1.2" | "2004";
+
+// Result reported to the LMS when the learner reaches an endpoint
+export interface LmsResult {
+  scoreRaw: number;
+  scoreMin: number;
+  scoreMax: number;
+  passed: boolean;
+}
+
+// The LMS runtime APIs from the SCORM 1.2 and SCORM 2004 run-time environment specs
+export interface Scorm12Api {
+  LMSInitialize(param: string): string;
+  LMSGetValue(element: string): string;
+  LMSSetValue(element: string, value: string): string;
+  LMSCommit(param: string): string;
+  LMSFinish(param: string): string;
+  LMSGetLastError(): string;
+}
+
+export interface Scorm2004Api {
+  Initialize(param: string): string;
+  GetValue(element: string): string;
+  SetValue(element: string, value: string): string;
+  Commit(param: string): string;
+  Terminate(param: string): string;
+  GetLastError(): string;
+}
+
+export type ScormApi = Scorm12Api | Scorm2004Api;
+
+// An LMS frame exposes the 1.2 API as window.API and the 2004 API as window.API_1484_11
+type ScormWindow = Window & { API?: Scorm12Api; API_1484_11?: Scorm2004Api };
+
+function escapeXML(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Build imsmanifest.xml for a single-SCO package.
+ * `files` lists every file in the ZIP so the LMS can import the resource completely.
+ */
+export function generateScormManifest(scenario: ScenarioData, version: ScormVersion, files: string[]): string {
+  const { exportSettings } = scenario;
+  const title = escapeXML(scenario.name || "Chat Scenario");
+  const identifier = `chatatouille-${scenario.id}`;
+  const isScored = !!exportSettings.scoreVariableId && exportSettings.maxScore > 0;
+  const fileEntries = files.map((file) => `      <file href="${escapeXML(file)}"/>`).join("\n");
+
+  if (version === "1.2") {
+    // SCORM 1.2 mastery score is a percentage, which the schema limits to 0-100
+    const masteryPercent = Math.max(0, Math.min(100, Math.round((exportSettings.passingScore / exportSettings.maxScore) * 100)));
+    const masteryScore = isScored ? `\n        <adlcp:masteryscore>${masteryPercent}</adlcp:masteryscore>` : "";
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}" version="1.0"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.imsglobal.org/xsd/imsmd_rootv1p2p1 imsmd_rootv1p2p1.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="org-1">
+    <organization identifier="org-1">
+      <title>${title}</title>
+      <item identifier="item-1" identifierref="resource-1">
+        <title>${title}</title>${masteryScore}
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="resource-1" type="webcontent" adlcp:scormtype="sco" href="index.html">
+${fileEntries}
+    </resource>
+  </resources>
+</manifest>
+`;
+  }
+
+  // SCORM 2004 lets the LMS judge success from the scaled score
+  const sequencing = isScored
+    ? `
+        <imsss:sequencing>
+          <imsss:objectives>
+            <imsss:primaryObjective objectiveID="primary" satisfiedByMeasure="true">
+              <imsss:minNormalizedMeasure>${Math.min(1, exportSettings.passingScore / exportSettings.maxScore).toFixed(2)}</imsss:minNormalizedMeasure>
+            </imsss:primaryObjective>
+          </imsss:objectives>
+        </imsss:sequencing>`
+    : "";
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}" version="1"
+  xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+  xmlns:adlseq="http://www.adlnet.org/xsd/adlseq_v1p3"
+  xmlns:adlnav="http://www.adlnet.org/xsd/adlnav_v1p3"
+  xmlns:imsss="http://www.imsglobal.org/xsd/imsss"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 imscp_v1p1.xsd http://www.adlnet.org/xsd/adlcp_v1p3 adlcp_v1p3.xsd http://www.adlnet.org/xsd/adlseq_v1p3 adlseq_v1p3.xsd http://www.adlnet.org/xsd/adlnav_v1p3 adlnav_v1p3.xsd http://www.imsglobal.org/xsd/imsss imsss_v1p0.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>2004 4th Edition</schemaversion>
+  </metadata>
+  <organizations default="org-1">
+    <organization identifier="org-1">
+      <title>${title}</title>
+      <item identifier="item-1" identifierref="resource-1">
+        <title>${title}</title>${sequencing}
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="resource-1" type="webcontent" adlcp:scormType="sco" href="index.html">
+${fileEntries}
+    </resource>
+  </resources>
+</manifest>
+`;
+}
+
+/**
+ * LMS runtime adapter. This function is serialised with toString() into the exported HTML,
+ * so it must stay self-contained: no imports, no references to module scope.
+ */
+export function createScormConnection(version: ScormVersion, startWindow: Window) {
+  const is2004 = version === "2004";
+  let api: ScormApi | null = null;
+  let isActive = false;
+
+  // Standard API discovery: walk up the parent frames, then try the opener's frames
+  function findApi(start: ScormWindow | null): ScormApi | null {
+    let win = start;
+    let attempts = 0;
+    while (win && attempts < 500) {
+      try {
+        const found = is2004 ? win.API_1484_11 : win.API;
+        if (found) return found;
+        if (!win.parent || win.parent === win) break;
+        win = win.parent as ScormWindow;
+      } catch (e) {
+        // Cross-origin frame, stop searching this chain
+        break;
+      }
+      attempts++;
+    }
+    return null;
+  }
+
+  function call(name12: keyof Scorm12Api, name2004: keyof Scorm2004Api, ...args: string[]): string {
+    if (!api) return "";
+    try {
+      // Every API method takes string arguments and returns a string
+      const method = (is2004 ? (api as Scorm2004Api)[name2004] : (api as Scorm12Api)[name12]) as (...params: string[]) => string;
+      return String(method.apply(api, args));
+    } catch (e) {
+      console.warn("SCORM call failed:", is2004 ? name2004 : name12, e);
+      return "";
+    }
+  }
+
+  function setValue(name: string, value: string | number) {
+    call("LMSSetValue", "SetValue", name, String(value));
+  }
+
+  function getValue(name: string): string {
+    return call("LMSGetValue", "GetValue", name);
+  }
+
+  return {
+    initialize(): boolean {
+      api = findApi(startWindow);
+      if (!api && startWindow.opener) api = findApi(startWindow.opener as ScormWindow);
+      if (!api) {
+        console.warn("SCORM API not found; progress will not be reported.");
+        return false;
+      }
+      isActive = call("LMSInitialize", "Initialize", "") === "true";
+      if (!isActive) return false;
+
+      // Mark the attempt as started unless the learner already finished it
+      if (is2004) {
+        const completion = getValue("cmi.completion_status");
+        if (completion !== "completed") setValue("cmi.completion_status", "incomplete");
+      } else {
+        const status = getValue("cmi.core.lesson_status");
+        if (status === "not attempted" || status === "") setValue("cmi.core.lesson_status", "incomplete");
+      }
+      call("LMSCommit", "Commit", "");
+      return true;
+    },
+
+    reportResult(result: LmsResult) {
+      if (!isActive) return;
+      const range = result.scoreMax - result.scoreMin;
+      const raw = Math.max(result.scoreMin, Math.min(result.scoreMax, result.scoreRaw));
+      if (is2004) {
+        setValue("cmi.score.raw", raw);
+        setValue("cmi.score.min", result.scoreMin);
+        setValue("cmi.score.max", result.scoreMax);
+        setValue("cmi.score.scaled", range > 0 ? ((raw - result.scoreMin) / range).toFixed(4) : 1);
+        setValue("cmi.completion_status", "completed");
+        setValue("cmi.success_status", result.passed ? "passed" : "failed");
+      } else {
+        setValue("cmi.core.score.raw", raw);
+        setValue("cmi.core.score.min", result.scoreMin);
+        setValue("cmi.core.score.max", result.scoreMax);
+        // SCORM 1.2 folds completion and success into lesson_status
+        setValue("cmi.core.lesson_status", result.passed ? "passed" : "failed");
+      }
+      call("LMSCommit", "Commit", "");
+    },
+
+    terminate() {
+      if (!isActive) return;
+      isActive = false;
+      if (is2004) setValue("cmi.exit", "normal");
+      call("LMSFinish", "Terminate", "");
+    },
+  };
+}
@@ -0,0 +1,371 @@
+/**
+ * @file xapi.ts
+ * @description xAPI / cmi5 statement client embedded in the exported runtime, plus the cmi5 course
+ *              structure file for cmi5 packages
+ *
+ * @dependencies scenario types, scorm (LmsResult)
+ * @usage Called from exportZip when the export target is xAPI or cmi5; tested against a mock LRS
+ */
+
+import { ScenarioData } from "@/types/scenario";
+import type { LmsResult } from "@/lib/scorm";
+
+export type XapiMode = "xapi" | "cmi5";
+
+export interface XapiClientConfig {
+  mode: XapiMode;
+  endpoint: string; // LRS endpoint (xAPI mode); cmi5 takes it from the launch URL
+  auth: string; // Authorization header value (xAPI mode); cmi5 fetches a token
+  activityId: string; // IRI for the scenario activity
+  scenarioName: string;
+}
+
+export interface XapiClientDeps {
+  fetch: typeof fetch;
+  search: string; // window.location.search, carrying launch parameters
+  now?: () => string;
+  uuid?: () => string;
+  navigate?: (url: string) => void; // Leaves the page; cmi5 exit goes to the launch's returnURL
+}
+
+// Fallback activity IRI when none is configured
+export function getDefaultActivityId(scenario: Pick<ScenarioData, "id">): string {
+  return `urn:chatatouille:scenario:${scenario.id}`;
+}
+
+function escapeXML(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// cmi5.xml describing a course with a single AU that launches index.html
+export function generateCmi5CourseStructure(scenario: ScenarioData, activityId: string): string {
+  const title = escapeXML(scenario.name || "Chat Scenario");
+  const { scoreVariableId, maxScore, passingScore } = scenario.exportSettings;
+  const isScored = !!scoreVariableId && maxScore > 0;
+  const auAttributes = isScored
+    ? ` moveOn="CompletedAndPassed" masteryScore="${Math.min(1, passingScore / maxScore).toFixed(2)}"`
+    : ` moveOn="Completed"`;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<courseStructure xmlns="https://w3id.org/xapi/profiles/cmi5/v1/CourseStructure.xsd">
+  <course id="${escapeXML(activityId)}">
+    <title><langstring lang="en-US">${title}</langstring></title>
+    <description><langstring lang="en-US">Branching chat scenario</langstring></description>
+  </course>
+  <au id="${escapeXML(activityId)}/au"${auAttributes} launchMethod="AnyWindow">
+    <title><langstring lang="en-US">${title}</langstring></title>
+    <description><langstring lang="en-US">Branching chat scenario</langstring></description>
+    <url>index.html</url>
+  </au>
+</courseStructure>
+`;
+}
+
+/**
+ * Statement client for the exported runtime. Serialised with toString() into the exported HTML,
+ * so it must stay self-contained: no imports, no references to module scope.
+ *
+ * xAPI mode uses the configured endpoint/auth, overridable by the usual launch parameters
+ * (endpoint, auth, actor, registration). cmi5 mode reads endpoint, fetch, actor, registration
+ * and activityId from the launch URL, exchanges the fetch URL for a token, and wraps the
+ * session in initialized/terminated statements. Completion and termination report the session
+ * duration, and exiting returns to the launch's returnURL.
+ */
+export function createXapiClient(config: XapiClientConfig, deps: XapiClientDeps) {
+  type Json = Record<string, unknown>;
+  const VERBS: Record<string, string> = {
+    initialized: "http://adlnet.gov/expapi/verbs/initialized",
+    experienced: "http://adlnet.gov/expapi/verbs/experienced",
+    answered: "http://adlnet.gov/expapi/verbs/answered",
+    completed: "http://adlnet.gov/expapi/verbs/completed",
+    passed: "http://adlnet.gov/expapi/verbs/passed",
+    failed: "http://adlnet.gov/expapi/verbs/failed",
+    terminated: "http://adlnet.gov/expapi/verbs/terminated",
+  };
+  const CMI5_CATEGORY = "https://w3id.org/xapi/cmi5/context/categories/cmi5";
+  const MOVEON_CATEGORY = "https://w3id.org/xapi/cmi5/context/categories/moveon";
+
+  const params = new URLSearchParams(deps.search || "");
+  const now = deps.now || (() => new Date().toISOString());
+  const uuid = deps.uuid || (() =>
+    "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+      const r = (Math.random() * 16) | 0;
+      return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+    }));
+
+  const isCmi5 = config.mode === "cmi5";
+  const endpoint = (params.get("endpoint") || config.endpoint || "").replace(/\/+$/, "");
+  let auth = params.get("auth") || config.auth || "";
+  const activityId = (isCmi5 && params.get("activityId")) || params.get("activity_id") || config.activityId;
+  const registration = params.get("registration") || null;
+  const returnUrl = (isCmi5 && params.get("returnURL")) || null;
+  let actor: Json = { objectType: "Agent", name: "Anonymous learner", account: { homePage: activityId, name: "anonymous" } };
+  try {
+    const actorParam = params.get("actor");
+    if (actorParam) {
+      const parsed = JSON.parse(actorParam);
+      // Tin Can launch may pass name/mbox/account as single-item arrays
+      actor = Object.keys(parsed).reduce((acc: Json, key) => {
+        acc[key] = Array.isArray(parsed[key]) ? parsed[key][0] : parsed[key];
+        return acc;
+      }, {});
+    }
+  } catch (e) {
+    console.warn("xAPI: could not parse actor launch parameter", e);
+  }
+
+  let contextTemplate: Json = {};
+  let isReady = false;
+  let hasCompleted = false;
+  let hasTerminated = false;
+  let sessionStart = Date.parse(now());
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // ISO 8601 duration since initialize, to the hundredth of a second as xAPI recommends
+  function sessionDuration(): string {
+    const centiseconds = Math.max(0, Math.round((Date.parse(now()) - sessionStart) / 10));
+    const hours = Math.floor(centiseconds / 360000);
+    const minutes = Math.floor((centiseconds % 360000) / 6000);
+    const seconds = (centiseconds % 6000) / 100;
+    return "PT" + (hours ? hours + "H" : "") + (hours || minutes ? minutes + "M" : "") + Number(seconds.toFixed(2)) + "S";
+  }
+
+  function extensionKey(name: string) {
+    return activityId + "/extensions/" + name;
+  }
+
+  function buildContext(extensions: Json, categories?: string[]): Json {
+    const base = JSON.parse(JSON.stringify(contextTemplate || {}));
+    if (registration) base.registration = registration;
+    base.extensions = Object.assign({}, base.extensions || {}, extensions);
+    const activities = base.contextActivities || {};
+    activities.parent = activities.parent || [{ id: activityId, objectType: "Activity" }];
+    if (categories && categories.length) {
+      activities.category = (activities.category || []).concat(categories.map((id) => ({ id: id, objectType: "Activity" })));
+    }
+    base.contextActivities = activities;
+    return base;
+  }
+
+  async function post(statement: Json) {
+    if (!endpoint) return;
+    const response = await deps.fetch(endpoint + "/statements", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Experience-API-Version": "1.0.3",
+        Authorization: auth,
+      },
+      body: JSON.stringify(statement),
+      keepalive: true,
+    });
+    if (!response.ok) {
+      throw new Error("LRS rejected statement: " + response.status);
+    }
+  }
+
+  function buildStatement(verb: string, object: Json, extensions: Json, categories?: string[], result?: Json, timestamp?: string): Json {
+    const statement: Json = {
+      id: uuid(),
+      timestamp: timestamp || now(),
+      actor: actor,
+      verb: { id: VERBS[verb], display: { "en-US": verb } },
+      object: object,
+      context: buildContext(extensions, categories),
+    };
+    if (result) statement.result = result;
+    return statement;
+  }
+
+  // Statements are sent one at a time, in order, once initialisation has finished. The statement
+  // is built when it is posted so it picks up the actor and context template from the handshake.
+  function send(verb: string, object: Json, extensions: Json, categories?: string[], result?: Json) {
+    const timestamp = now();
+    queue = queue.then(() => (isReady ? post(buildStatement(verb, object, extensions, categories, result, timestamp)) : undefined)).catch((e) => {
+      console.warn("xAPI: failed to send " + verb + " statement", e);
+    });
+    return queue;
+  }
+
+  function scenarioActivity(): Json {
+    return {
+      objectType: "Activity",
+      id: activityId,
+      definition: { name: { "en-US": config.scenarioName }, type: "http://adlnet.gov/expapi/activities/simulation" },
+    };
+  }
+
+  // Messages answered with a choice or typed text are interactions; others are plain chat messages
+  function messageActivity(
+    message: { id: string; content: string },
+    options?: { id: string; text: string }[],
+    isFillIn?: boolean
+  ): Json {
+    const definition: Json = {
+      name: { "en-US": message.content.slice(0, 120) || "Message" },
+      type: options || isFillIn ? "http://adlnet.gov/expapi/activities/cmi.interaction" : "http://id.tincanapi.com/activitytype/chat-message",
+    };
+    if (options) {
+      definition.interactionType = "choice";
+      definition.choices = options.map((opt) => ({ id: opt.id, description: { "en-US": opt.text } }));
+    } else if (isFillIn) {
+      definition.interactionType = "fill-in";
+    }
+    return { objectType: "Activity", id: activityId + "/messages/" + message.id, definition: definition };
+  }
+
+  async function initializeCmi5() {
+    const fetchUrl = params.get("fetch");
+    if (!endpoint || !fetchUrl) {
+      console.warn("cmi5: missing endpoint or fetch launch parameter; statements will not be sent.");
+      return false;
+    }
+    const tokenResponse = await deps.fetch(fetchUrl, { method: "POST" });
+    const tokenBody = await tokenResponse.json();
+    if (!tokenBody["auth-token"]) {
+      console.warn("cmi5: fetch URL did not return an auth token", tokenBody);
+      return false;
+    }
+    auth = "Basic " + tokenBody["auth-token"];
+
+    // LMS.LaunchData carries the context template every statement must include
+    try {
+      const query = new URLSearchParams({
+        stateId: "LMS.LaunchData",
+        activityId: activityId,
+        agent: JSON.stringify(actor),
+      });
+      if (registration) query.set("registration", registration);
+      const stateResponse = await deps.fetch(endpoint + "/activities/state?" + query.toString(), {
+        headers: { Authorization: auth, "X-Experience-API-Version": "1.0.3" },
+      });
+      if (stateResponse.ok) {
+        const launchData = await stateResponse.json();
+        contextTemplate = launchData.contextTemplate || {};
+      }
+    } catch (e) {
+      console.warn("cmi5: could not read LMS.LaunchData", e);
+    }
+    return true;
+  }
+
+  function terminate() {
+    if (!isCmi5 || hasTerminated || !isReady) return queue;
+    hasTerminated = true;
+    return send("terminated", { objectType: "Activity", id: activityId }, {}, [CMI5_CATEGORY], { duration: sessionDuration() });
+  }
+
+  return {
+    initialize(): Promise<boolean> {
+      sessionStart = Date.parse(now());
+      const init = (async () => {
+        try {
+          if (isCmi5) {
+            if (!(await initializeCmi5())) return false;
+            await post(buildStatement("initialized", { objectType: "Activity", id: activityId }, {}, [CMI5_CATEGORY]));
+          } else if (!endpoint) {
+            console.warn("xAPI: no LRS endpoint configured; statements will not be sent.");
+            return false;
+          }
+          isReady = true;
+          return true;
+        } catch (e) {
+          console.warn("xAPI: initialisation failed", e);
+          return false;
+        }
+      })();
+      // Hold statements emitted during the launch handshake until it finishes
+      queue = queue.then(() => init);
+      return init;
+    },
+
+    experienced(message: { id: string; content: string }, variables: Json) {
+      return send("experienced", messageActivity(message), {
+        [extensionKey("message-id")]: message.id,
+        [extensionKey("variables")]: variables,
+      });
+    },
+
+    answered(
+      message: { id: string; content: string; options: { id: string; text: string }[] },
+      option: { id: string; text: string },
+      variables: Json
+    ) {
+      return send("answered", messageActivity(message, message.options), {
+        [extensionKey("message-id")]: message.id,
+        [extensionKey("option-id")]: option.id,
+        [extensionKey("option-text")]: option.text,
+        [extensionKey("variables")]: variables,
+      }, undefined, { response: option.id, completion: true });
+    },
+
+    // A typed answer; `route` is the route it matched, or null when it fell through to the fallback
+    answeredText(
+      message: { id: string; content: string },
+      answer: string,
+      route: { id: string; text: string } | null,
+      variables: Json
+    ) {
+      const extensions: Json = {
+        [extensionKey("message-id")]: message.id,
+        [extensionKey("variables")]: variables,
+      };
+      if (route) {
+        extensions[extensionKey("option-id")] = route.id;
+        extensions[extensionKey("option-text")] = route.text;
+      }
+      return send("answered", messageActivity(message, undefined, true), extensions, undefined, {
+        response: answer,
+        completion: true,
+      });
+    },
+
+    completed(result: LmsResult, variables: Json) {
+      const range = result.scoreMax - result.scoreMin;
+      const score = {
+        raw: result.scoreRaw,
+        min: result.scoreMin,
+        max: result.scoreMax,
+        scaled: range > 0 ? Math.max(0, Math.min(1, (result.scoreRaw - result.scoreMin) / range)) : 1,
+      };
+      const extensions = { [extensionKey("variables")]: variables };
+      const duration = sessionDuration();
+      if (!isCmi5) {
+        return send("completed", scenarioActivity(), extensions, undefined, {
+          completion: true,
+          success: result.passed,
+          score: score,
+          duration: duration,
+        });
+      }
+      // cmi5 allows a single completed and a single passed/failed per registration
+      if (hasCompleted) return queue;
+      hasCompleted = true;
+      const categories = [CMI5_CATEGORY, MOVEON_CATEGORY];
+      send("completed", { objectType: "Activity", id: activityId }, extensions, categories, { completion: true, duration: duration });
+      return send(result.passed ? "passed" : "failed", { objectType: "Activity", id: activityId }, extensions, categories, {
+        success: result.passed,
+        score: score,
+        duration: duration,
+      });
+    },
+
+    terminate: terminate,
+
+    // Whether the LMS asked to be returned to when the learner exits
+    canReturn(): boolean {
+      return !!returnUrl;
+    },
+
+    // Ends the session, then goes back to the LMS once the terminated statement has been sent
+    exit() {
+      return terminate().then(() => {
+        if (returnUrl && deps.navigate) deps.navigate(returnUrl);
+      });
+    },
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * @file Library.tsx
+ * @description Library page component that renders the scenario library
+ *
+ * @dependencies ScenarioLibrary component
+ * @usage Rendered at the "/library" route in App.tsx
+ */
+
+import { ScenarioLibrary } from "@/components/library/ScenarioLibrary";
+
+const Library = () => {
+  return <ScenarioLibrary />;
+};
+
+export default Library;
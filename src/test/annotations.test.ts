@@ -0,0 +1,83 @@
+/**
+ * @file annotations.test.ts
+ * @description Tests for canvas annotations: keeping comment threads attached after deletions,
+ *              ordering and labelling threads, and leaving notes and comments out of exports
+ *
+ * @dependencies vitest, jszip, annotations, exportZip, scenario types, test fixtures
+ * @usage Run with `npm test`
+ */
+
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { getMessageThreads, getThreadTargetLabel, pruneCommentThreads, stripAnnotations } from "@/lib/annotations";
+import { generateExportZip } from "@/lib/exportZip";
+import { CommentThread, createEmptyScenario, createStickyNote } from "@/types/scenario";
+import { message, option } from "@/test/fixtures";
+
+function thread(id: string, messageId: string, optionId: string | null = null, extra: Partial<CommentThread> = {}): CommentThread {
+  return {
+    id,
+    messageId,
+    optionId,
+    resolved: false,
+    comments: [{ id: `${id}-c`, author: "Sam", text: `Comment ${id}`, createdAt: "2024-01-01T00:00:00.000Z" }],
+    ...extra,
+  };
+}
+
+describe("pruneCommentThreads", () => {
+  it("drops threads on deleted messages and moves threads on deleted options to the message", () => {
+    const comments = { t1: thread("t1", "a"), t2: thread("t2", "gone"), t3: thread("t3", "a", "removed-option") };
+    const pruned = pruneCommentThreads(comments, { a: message("a") });
+
+    expect(Object.keys(pruned)).toEqual(["t1", "t3"]);
+    expect(pruned.t3.optionId).toBeNull();
+  });
+
+  it("returns the same object when every thread is still attached", () => {
+    const comments = { t1: thread("t1", "a", "o1") };
+    expect(pruneCommentThreads(comments, { a: message("a", { responseOptions: [option("o1", null)] }) })).toBe(comments);
+  });
+});
+
+describe("thread helpers", () => {
+  it("lists open threads first, each group oldest first", () => {
+    const comments = {
+      resolved: thread("resolved", "a", null, { resolved: true }),
+      newer: thread("newer", "a", null, {
+        comments: [{ id: "n", author: "", text: "Later", createdAt: "2024-02-01T00:00:00.000Z" }],
+      }),
+      older: thread("older", "a"),
+      other: thread("other", "b"),
+    };
+
+    expect(getMessageThreads(comments, "a").map((t) => t.id)).toEqual(["older", "newer", "resolved"]);
+  });
+
+  it("labels threads by the message or option they are about", () => {
+    const a = message("a", { responseOptions: [option("o1", null, { text: "Track order" })] });
+    expect(getThreadTargetLabel(thread("t", "a"), a)).toBe("Message");
+    expect(getThreadTargetLabel(thread("t", "a", "o1"), a)).toBe('Response "Track order"');
+  });
+});
+
+describe("exports", () => {
+  it("leave sticky notes and comments out of the package", async () => {
+    const scenario = createEmptyScenario();
+    const note = { ...createStickyNote({ x: 0, y: 0 }), text: "Reviewer sticky note" };
+    const messageId = scenario.rootMessageId!;
+    scenario.notes = { [note.id]: note };
+    scenario.comments = { t1: thread("t1", messageId, null, { comments: [{ id: "c", author: "Sam", text: "Needs a refund path", createdAt: "2024-01-01T00:00:00.000Z" }] }) };
+
+    expect(stripAnnotations(scenario)).not.toHaveProperty("comments");
+
+    const zip = await JSZip.loadAsync(await generateExportZip(scenario));
+    const scenarioJson = await zip.file("scenario.json")!.async("string");
+    const html = await zip.file("index.html")!.async("string");
+
+    expect(scenarioJson).not.toContain("Needs a refund path");
+    expect(scenarioJson).not.toContain("Reviewer sticky note");
+    expect(html).not.toContain("Needs a refund path");
+    expect(html).not.toContain("Reviewer sticky note");
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * @file assets.test.ts
+ * @description Tests for attachment asset helpers: kind detection, export file names, link safety,
+ *              and finding assets no message uses
+ *
+ * @dependencies vitest, assets, scenario types, test fixtures
+ * @usage Run with `npm test`
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  findUnusedAssetIds,
+  formatFileSize,
+  getAssetFileName,
+  getAttachmentKindForMime,
+  isSafeLinkUrl,
+} from "@/lib/assets";
+import { ScenarioAsset, createAttachment } from "@/types/scenario";
+import { message } from "@/test/fixtures";
+
+function asset(id: string, name: string): ScenarioAsset {
+  return { id, name, mimeType: "application/octet-stream", size: 10, data: "data:application/octet-stream;base64,AAAA" };
+}
+
+describe("assets", () => {
+  it("picks the attachment kind from the MIME type", () => {
+    expect(getAttachmentKindForMime("image/png")).toBe("image");
+    expect(getAttachmentKindForMime("audio/mpeg")).toBe("audio");
+    expect(getAttachmentKindForMime("video/mp4")).toBe("video");
+    expect(getAttachmentKindForMime("application/pdf")).toBe("file");
+  });
+
+  it("builds safe, distinct export paths", () => {
+    expect(getAssetFileName(asset("3f2a9c1d-0000", "Onboarding Call.MP3"))).toBe("assets/onboarding-call-3f2a9c1d.mp3");
+    expect(getAssetFileName(asset("aaaaaaaa-1111", "My <Report>!.PDF"))).toBe("assets/my-report-aaaaaaaa.pdf");
+    expect(getAssetFileName(asset("bbbbbbbb-2222", ".env"))).toBe("assets/env-bbbbbbbb");
+  });
+
+  it("only treats web and mail links as safe", () => {
+    expect(isSafeLinkUrl("https://example.com")).toBe(true);
+    expect(isSafeLinkUrl("mailto:help@example.com")).toBe(true);
+    expect(isSafeLinkUrl("javascript:alert(1)")).toBe(false);
+    expect(isSafeLinkUrl(undefined)).toBe(false);
+  });
+
+  it("finds assets no attachment refers to", () => {
+    const messages = { m1: message("m1", { attachments: [createAttachment("file", { assetId: "a1" })] }), m2: message("m2") };
+    const assets = { a1: asset("a1", "one.pdf"), a2: asset("a2", "two.pdf") };
+    expect(findUnusedAssetIds(messages, assets)).toEqual(["a2"]);
+  });
+
+  it("formats file sizes", () => {
+    expect(formatFileSize(512)).toBe("512 B");
+    expect(formatFileSize(2048)).toBe("2 KB");
+    expect(formatFileSize(5 * 1024 * 1024)).toBe("5.0 MB");
+  });
+});
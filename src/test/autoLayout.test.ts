@@ -0,0 +1,71 @@
+/**
+ * @file autoLayout.test.ts
+ * @description Tests for the layered auto-layout: layer order along edges, loops, unreachable
+ *              messages, direction and node sizes
+ *
+ * @dependencies vitest, autoLayout, test fixtures
+ * @usage Run with `npm test`
+ */
+
+import { describe, it, expect } from "vitest";
+import { computeAutoLayout, DEFAULT_NODE_SIZE } from "@/lib/autoLayout";
+import { linksTo, message, toRecord } from "@/test/fixtures";
+
+describe("computeAutoLayout", () => {
+  it("places each message one layer after its furthest parent", () => {
+    // start -> a -> c, start -> b -> c directly, start -> c
+    const messages = toRecord([
+      message("start", { responseOptions: linksTo("start", ["a", "b", "c"]) }),
+      message("a", { nextMessageId: "c" }),
+      message("b", { responseOptions: linksTo("b", ["c"]) }),
+      message("c"),
+    ]);
+    const positions = computeAutoLayout(messages, "start", { direction: "LR" });
+
+    expect(positions.start.x).toBe(100);
+    expect(positions.a.x).toBe(positions.b.x);
+    expect(positions.a.x).toBeGreaterThan(positions.start.x);
+    expect(positions.c.x).toBeGreaterThan(positions.a.x);
+    expect(positions.a.y).not.toBe(positions.b.y);
+  });
+
+  it("keeps the start message first when a loop leads back to it", () => {
+    const messages = toRecord([
+      message("start", { responseOptions: linksTo("start", ["next"]) }),
+      message("next", { responseOptions: linksTo("next", ["start", "end"]) }),
+      message("end"),
+    ]);
+    const positions = computeAutoLayout(messages, "start", { direction: "TB" });
+
+    expect(positions.start.y).toBeLessThan(positions.next.y);
+    expect(positions.next.y).toBeLessThan(positions.end.y);
+  });
+
+  it("lays out messages nothing leads to as extra branches", () => {
+    const messages = toRecord([
+      message("start", { responseOptions: linksTo("start", ["a"]) }),
+      message("a"),
+      message("orphan", { responseOptions: linksTo("orphan", ["a"]) }),
+    ]);
+    const positions = computeAutoLayout(messages, "start", { direction: "LR" });
+
+    expect(Object.keys(positions).sort()).toEqual(["a", "orphan", "start"]);
+    expect(positions.orphan.x).toBe(positions.start.x);
+    expect(positions.orphan.y).not.toBe(positions.start.y);
+  });
+
+  it("spaces layers by the measured node sizes", () => {
+    const messages = toRecord([message("start", { responseOptions: linksTo("start", ["a"]) }), message("a")]);
+    const sizes = { start: { width: 500, height: 100 } };
+    const leftToRight = computeAutoLayout(messages, "start", { direction: "LR", sizes, origin: { x: 0, y: 0 } });
+    const topDown = computeAutoLayout(messages, "start", { direction: "TB", sizes, origin: { x: 0, y: 0 } });
+
+    expect(leftToRight.a.x).toBeGreaterThan(500);
+    expect(topDown.a.y).toBeGreaterThan(100);
+    expect(topDown.a.y).toBeLessThan(DEFAULT_NODE_SIZE.height + 100);
+  });
+
+  it("returns nothing for an empty scenario", () => {
+    expect(computeAutoLayout({}, null, { direction: "LR" })).toEqual({});
+  });
+});
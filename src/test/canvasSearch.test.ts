@@ -0,0 +1,70 @@
+/**
+ * @file canvasSearch.test.ts
+ * @description Tests for canvas search: matching content, options and variable names, the
+ *              "uses variable" and "endpoints only" filters, and result snippets
+ *
+ * @dependencies vitest, canvasSearch, scenario types, test fixtures
+ * @usage Run with `npm test`
+ */
+
+import { describe, it, expect } from "vitest";
+import { EMPTY_SEARCH_FILTERS, getSearchSnippet, isSearchActive, searchMessages } from "@/lib/canvasSearch";
+import { ScenarioData } from "@/types/scenario";
+import { message } from "@/test/fixtures";
+
+const scenario: Pick<ScenarioData, "messages" | "variables"> = {
+  messages: {
+    a: message("a", {
+      content: "Can I get a **refund**?",
+      responseOptions: [{ id: "a-o", text: "Ask about shipping", nextMessageId: "b" }],
+    }),
+    b: message("b", {
+      content: "Your order ships today",
+      condition: { variableId: "paid", requiredValue: true },
+    }),
+    c: message("c", { content: "Refunds take 5 days, {{customer}}", isEndpoint: true }),
+  },
+  variables: {
+    paid: { id: "paid", name: "hasPaid", type: "boolean", defaultValue: false },
+    customer: { id: "customer", name: "customer", type: "text", defaultValue: "" },
+  },
+};
+
+describe("searchMessages", () => {
+  it("matches message text without formatting, case-insensitively, in canvas order", () => {
+    const results = searchMessages(scenario, "REFUND", EMPTY_SEARCH_FILTERS);
+
+    expect(results.map((r) => r.messageId)).toEqual(["a", "c"]);
+    expect(results[0].matches).toEqual([{ field: "content", text: "Can I get a refund?" }]);
+  });
+
+  it("matches response options and the names of variables a message uses", () => {
+    expect(searchMessages(scenario, "shipping", EMPTY_SEARCH_FILTERS)[0].matches).toEqual([
+      { field: "option", text: "Ask about shipping", optionId: "a-o" },
+    ]);
+    expect(searchMessages(scenario, "paid", EMPTY_SEARCH_FILTERS)).toEqual([
+      { messageId: "b", matches: [{ field: "variable", text: "hasPaid" }] },
+    ]);
+    expect(searchMessages(scenario, "customer", EMPTY_SEARCH_FILTERS).map((r) => r.messageId)).toEqual(["c"]);
+  });
+
+  it("narrows results with filters, listing every passing message without a query", () => {
+    expect(searchMessages(scenario, "", { variableId: "paid", endpointsOnly: false })).toEqual([
+      { messageId: "b", matches: [] },
+    ]);
+    expect(searchMessages(scenario, "refund", { variableId: null, endpointsOnly: true }).map((r) => r.messageId)).toEqual([
+      "c",
+    ]);
+    expect(searchMessages(scenario, "  ", EMPTY_SEARCH_FILTERS)).toEqual([]);
+    expect(isSearchActive("", { variableId: null, endpointsOnly: true })).toBe(true);
+  });
+});
+
+describe("getSearchSnippet", () => {
+  it("trims long text around the first match", () => {
+    const text = `${"a".repeat(50)} refund ${"b".repeat(50)}`;
+
+    expect(getSearchSnippet(text, "refund", 5)).toBe("…aaaa refund bbbb…");
+    expect(getSearchSnippet("short refund", "refund")).toBe("short refund");
+  });
+});
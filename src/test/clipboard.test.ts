@@ -0,0 +1,111 @@
+/**
+ * @file clipboard.test.ts
+ * @description Tests for copying and pasting messages: fresh ids, re-wired links between copied
+ *              messages, variables kept across scenarios with their placeholders, and parsing clipboard text
+ *
+ * @dependencies vitest, clipboard, scenario types, test fixtures
+ * @usage Run with `npm test`
+ */
+
+import { describe, it, expect } from "vitest";
+import { copyMessages, parseClipboard, preparePaste, serializeClipboard } from "@/lib/clipboard";
+import { ScenarioVariable } from "@/types/scenario";
+import { linksTo, message, scenarioWith, toRecord } from "@/test/fixtures";
+
+const score: ScenarioVariable = { id: "score", name: "score", type: "number", defaultValue: 0 };
+
+describe("preparePaste", () => {
+  it("gives copies fresh ids and re-wires links between them", () => {
+    const source = scenarioWith([
+      message("a", { responseOptions: linksTo("a", ["b", "outside"]), position: { x: 100, y: 50 } }),
+      message("b", { nextMessageId: "a", position: { x: 400, y: 50 } }),
+      message("outside"),
+    ]);
+    const plan = preparePaste(source, copyMessages(source, ["a", "b"]), { x: 0, y: 0 });
+    const copies = Object.values(plan.messages);
+    const copyA = copies.find((m) => m.content === "a")!;
+    const copyB = copies.find((m) => m.content === "b")!;
+
+    expect(copies).toHaveLength(2);
+    expect(copyA.id).not.toBe("a");
+    expect(copyA.responseOptions[0].id).not.toBe("a-o0");
+    expect(copyA.responseOptions[0].nextMessageId).toBe(copyB.id);
+    expect(copyA.responseOptions[1].nextMessageId).toBeNull();
+    expect(copyB.nextMessageId).toBe(copyA.id);
+    expect(copyA.position).toEqual({ x: 0, y: 0 });
+    expect(copyB.position).toEqual({ x: 300, y: 0 });
+  });
+
+  it("keeps variable references when pasting into the same scenario", () => {
+    const source = scenarioWith(
+      [message("a", { responseOptions: linksTo("a", [null]), condition: { variableId: "score", operator: "gt", requiredValue: 1 } })],
+      { variables: toRecord([score]) }
+    );
+    source.messages.a.responseOptions[0].assignments = [{ variableId: "score", operation: "increment", value: 1 }];
+    const plan = preparePaste(source, copyMessages(source, ["a"]), { x: 0, y: 0 });
+    const copy = Object.values(plan.messages)[0];
+
+    expect(plan.variables).toEqual({});
+    expect(copy.condition).toEqual({ variableId: "score", operator: "gt", requiredValue: 1 });
+    expect(copy.responseOptions[0].assignments?.[0].variableId).toBe("score");
+  });
+
+  it("adds or matches variables when pasting into another scenario", () => {
+    const source = scenarioWith(
+      [
+        message("a", {
+          content: "Hi {{name}}",
+          condition: { logic: "and", conditions: [{ variableId: "score", requiredValue: 2 }] },
+          input: { variableId: "answer" },
+        }),
+      ],
+      {
+        variables: toRecord([
+          score,
+          { id: "name", name: "name", type: "text", defaultValue: "" },
+          { id: "answer", name: "answer", type: "text", defaultValue: "" },
+        ]),
+      }
+    );
+    const target = scenarioWith([], {
+      variables: toRecord([
+        { id: "other-score", name: "score", type: "number", defaultValue: 0 },
+        { id: "other-answer", name: "answer", type: "boolean", defaultValue: false },
+      ]),
+    });
+    const plan = preparePaste(target, copyMessages(source, ["a"]), { x: 0, y: 0 });
+    const copy = Object.values(plan.messages)[0];
+    const added = Object.values(plan.variables);
+
+    expect(copy.condition).toEqual({ logic: "and", conditions: [{ variableId: "other-score", requiredValue: 2 }] });
+    expect(added.map((v) => v.name).sort()).toEqual(["answer 2", "name"]);
+    expect(plan.variables[copy.input!.variableId!].name).toBe("answer 2");
+  });
+
+  it("renames placeholders of a variable added under a new name", () => {
+    const mood: ScenarioVariable = { id: "mood", name: "mood", type: "text", defaultValue: "" };
+    const source = scenarioWith(
+      [message("a", { content: "You feel {{ mood }}, {{name}}", responseOptions: linksTo("a", [null]) })],
+      { variables: toRecord([mood]) }
+    );
+    source.messages.a.responseOptions[0].text = "Still {{mood}}?";
+    const target = scenarioWith([], { variables: toRecord([{ id: "other-mood", name: "mood", type: "number", defaultValue: 0 }]) });
+    const plan = preparePaste(target, copyMessages(source, ["a"]), { x: 0, y: 0 });
+    const copy = Object.values(plan.messages)[0];
+
+    expect(Object.values(plan.variables).map((v) => v.name)).toEqual(["mood 2"]);
+    expect(copy.content).toBe("You feel {{mood 2}}, {{name}}");
+    expect(copy.responseOptions[0].text).toBe("Still {{mood 2}}?");
+  });
+});
+
+describe("parseClipboard", () => {
+  it("reads serialized copies and ignores other text", () => {
+    const source = scenarioWith([message("a")]);
+    const parsed = parseClipboard(serializeClipboard(copyMessages(source, ["a"])));
+
+    expect(parsed?.messages.map((m) => m.id)).toEqual(["a"]);
+    expect(parseClipboard("hello")).toBeNull();
+    expect(parseClipboard(JSON.stringify({ messages: [] }))).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @file exportZip.test.ts
+ * @description Tests for the ZIP export: LRS credentials stay out of every package except xAPI, and out
+ *              of scenario.json; the exported runtime only reports completion to the LMS at endpoints
+ *              and keeps scenario text inside its script
+ *
+ * @dependencies vitest, jszip, jsdom, exportZip, scorm, scenario types, test fixtures
+ * @usage Run with `npm test`
+ */
+
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { JSDOM, VirtualConsole } from "jsdom";
+import { generateExportZip, stripLrsCredentials } from "@/lib/exportZip";
+import { Scorm12Api } from "@/lib/scorm";
+import { ExportTarget, ScenarioData, createEmptyScenario } from "@/types/scenario";
+import { message, option, scenarioWith } from "@/test/fixtures";
+
+const SECRET = "top-secret-lrs-password";
+
+function buildScenario(target: ExportTarget) {
+  const scenario = createEmptyScenario();
+  scenario.exportSettings = {
+    ...scenario.exportSettings,
+    target,
+    lrsEndpoint: "https://lrs.example.com/xapi",
+    lrsKey: "author-key",
+    lrsSecret: SECRET,
+  };
+  return scenario;
+}
+
+async function readPackage(target: ExportTarget) {
+  const zip = await JSZip.loadAsync(await generateExportZip(buildScenario(target)));
+  return {
+    html: await zip.file("index.html")!.async("string"),
+    json: await zip.file("scenario.json")!.async("string"),
+  };
+}
+
+describe("generateExportZip", () => {
+  it.each<ExportTarget>(["web", "scorm12", "scorm2004", "cmi5"])("leaves LRS credentials out of %s packages", async (target) => {
+    const { html, json } = await readPackage(target);
+
+    expect(html).not.toContain(SECRET);
+    expect(html).not.toContain("author-key");
+    expect(json).not.toContain(SECRET);
+    expect(json).not.toContain("author-key");
+  });
+
+  it("embeds credentials in xAPI packages only as the runtime's auth header", async () => {
+    const { html, json } = await readPackage("xapi");
+
+    expect(html).toContain(`Basic ${btoa(`author-key:${SECRET}`)}`);
+    expect(html).not.toContain(`"lrsSecret"`);
+    expect(json).not.toContain(SECRET);
+  });
+});
+
+describe("stripLrsCredentials", () => {
+  it("blanks the key and secret and keeps the other settings", () => {
+    const stripped = stripLrsCredentials(buildScenario("xapi"));
+
+    expect(stripped.exportSettings).toMatchObject({ target: "xapi", lrsEndpoint: "https://lrs.example.com/xapi", lrsKey: "", lrsSecret: "" });
+  });
+});
+
+// Runs an exported SCORM 1.2 package against an LMS API that keeps the values it is given
+async function runScormPackage(scenario: ScenarioData) {
+  const zip = await JSZip.loadAsync(await generateExportZip(scenario));
+  const values: Record<string, string> = {};
+  const api: Scorm12Api = {
+    LMSInitialize: () => "true",
+    LMSGetValue: (element) => values[element] ?? "",
+    LMSSetValue: (element, value) => {
+      values[element] = value;
+      return "true";
+    },
+    LMSCommit: () => "true",
+    LMSFinish: () => "true",
+    LMSGetLastError: () => "0",
+  };
+  const dom = new JSDOM(await zip.file("index.html")!.async("string"), {
+    runScripts: "dangerously",
+    // jsdom cannot parse some of the package's CSS; the runtime's behaviour is what is under test
+    virtualConsole: new VirtualConsole(),
+    beforeParse: (window) => Object.assign(window, { API: api }),
+  });
+  return { window: dom.window, values };
+}
+
+describe("exported runtime", () => {
+  // Regular mode shows each message at once, without the typing delay
+  const flow = () => {
+    const scenario = scenarioWith([
+      message("start", { responseOptions: [option("finish", "end"), option("stray", "dead")] }),
+      message("end", { isEndpoint: true }),
+      message("dead"),
+    ]);
+    scenario.theme = { ...scenario.theme, conversationType: "regular" };
+    scenario.exportSettings = { ...scenario.exportSettings, target: "scorm12" };
+    return scenario;
+  };
+
+  it("reports completion to the LMS when an endpoint is reached", async () => {
+    const { window, values } = await runScormPackage(flow());
+    window.handleStart();
+    window.handleSelect("finish");
+
+    expect(values["cmi.core.lesson_status"]).toBe("passed");
+    expect(values["cmi.core.score.raw"]).toBe("100");
+  });
+
+  it("does not report a dead end as completion", async () => {
+    const { window, values } = await runScormPackage(flow());
+    window.handleStart();
+    window.handleSelect("stray");
+
+    expect(window.document.body.textContent).toContain("End of Branch");
+    expect(values["cmi.core.lesson_status"]).toBe("incomplete");
+    expect(values["cmi.core.score.raw"]).toBeUndefined();
+  });
+
+  it("keeps text containing a closing script tag inside the scenario data", async () => {
+    const scenario = flow();
+    scenario.messages.start.content = "Type </script><script>window.injected = true</script> to finish";
+    const { window } = await runScormPackage(scenario);
+    window.handleStart();
+
+    expect(window.injected).toBeUndefined();
+    expect(window.document.getElementById("messages-area").textContent).toContain("</script><script>");
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * @file fixtures.ts
+ * @description Shared factories for test scenarios: messages, response options and scenarios with
+ *              neutral defaults, so each spec only states the fields that matter to it
+ *
+ * @dependencies scenario types
+ * @usage Imported by the specs in src/test
+ */
+
+import { ChatMessage, ResponseOption, ScenarioData, createEmptyScenario } from "@/types/scenario";
+
+// A message at the origin whose content is its id, with no responses
+export function message(id: string, overrides: Partial<ChatMessage> = {}): ChatMessage {
+  return { id, content: id, isEndpoint: false, responseOptions: [], position: { x: 0, y: 0 }, ...overrides };
+}
+
+// A response whose text is its id
+export function option(id: string, nextMessageId: string | null, overrides: Partial<ResponseOption> = {}): ResponseOption {
+  return { id, text: id, nextMessageId, ...overrides };
+}
+
+// One response per target, with ids `${messageId}-o0`, `${messageId}-o1`, ...
+export function linksTo(messageId: string, targets: (string | null)[]): ResponseOption[] {
+  return targets.map((target, index) => option(`${messageId}-o${index}`, target));
+}
+
+export function toRecord<T extends { id: string }>(items: T[]): Record<string, T> {
+  return Object.fromEntries(items.map((item) => [item.id, item]));
+}
+
+// A scenario with just `messages` and no variables, starting at the first message unless overridden
+export function scenarioWith(messages: ChatMessage[], overrides: Partial<ScenarioData> = {}): ScenarioData {
+  return {
+    ...createEmptyScenario(),
+    messages: toRecord(messages),
+    variables: {},
+    rootMessageId: messages[0]?.id ?? null,
+    ...overrides,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * @file frames.test.ts
+ * @description Tests for canvas frames: fitting frames around messages, finding the frame under a
+ *              point, counting links across a frame's edge and rerouting edges of collapsed frames
+ *
+ * @dependencies vitest, frames, autoLayout, scenario types, test fixtures
+ * @usage Run with `npm test`
+ */
+
+import { describe, it, expect } from "vitest";
+import { FRAME_PADDING, countFrameLinks, findFrameAt, fitFrameToMessages, getVisibleNodeId } from "@/lib/frames";
+import { DEFAULT_NODE_SIZE } from "@/lib/autoLayout";
+import { CanvasFrame, createFrame } from "@/types/scenario";
+import { message } from "@/test/fixtures";
+
+function frame(id: string, x: number, y: number, width: number, height: number, collapsed = false): CanvasFrame {
+  return { ...createFrame(id, { x, y }, width, height), id, collapsed };
+}
+
+describe("fitFrameToMessages", () => {
+  it("encloses every message with padding, using measured sizes where known", () => {
+    const bounds = fitFrameToMessages([message("a"), message("b", { position: { x: 500, y: 300 } })], { a: { width: 200, height: 100 } });
+
+    expect(bounds).toEqual({
+      position: { x: -FRAME_PADDING.side, y: -FRAME_PADDING.top },
+      width: 500 + DEFAULT_NODE_SIZE.width + FRAME_PADDING.side * 2,
+      height: 300 + DEFAULT_NODE_SIZE.height + FRAME_PADDING.top + FRAME_PADDING.bottom,
+    });
+    expect(fitFrameToMessages([])).toBeNull();
+  });
+});
+
+describe("findFrameAt", () => {
+  it("picks the smallest expanded frame under the point", () => {
+    const frames = {
+      outer: frame("outer", 0, 0, 1000, 1000),
+      inner: frame("inner", 100, 100, 300, 300),
+      folded: frame("folded", 150, 150, 100, 100, true),
+    };
+
+    expect(findFrameAt(frames, { x: 200, y: 200 })?.id).toBe("inner");
+    expect(findFrameAt(frames, { x: 800, y: 800 })?.id).toBe("outer");
+    expect(findFrameAt(frames, { x: 1200, y: 0 })).toBeNull();
+  });
+});
+
+describe("frame links", () => {
+  const messages = {
+    start: message("start", { nextMessageId: "a" }),
+    a: message("a", {
+      frameId: "f",
+      responseOptions: [
+        { id: "o1", text: "Stay", nextMessageId: "b" },
+        { id: "o2", text: "Leave", nextMessageId: "end" },
+      ],
+    }),
+    b: message("b", { frameId: "f", nextMessageId: "end" }),
+    end: message("end", { isEndpoint: true }),
+  };
+
+  it("counts links into and out of the frame, ignoring links inside it", () => {
+    expect(countFrameLinks(messages, "f")).toEqual({ incoming: 1, outgoing: 2 });
+  });
+
+  it("attaches members of a collapsed frame to the frame itself", () => {
+    expect(getVisibleNodeId(messages.a, { f: frame("f", 0, 0, 400, 400, true) })).toBe("f");
+    expect(getVisibleNodeId(messages.a, { f: frame("f", 0, 0, 400, 400) })).toBe("a");
+    expect(getVisibleNodeId(messages.start, { f: frame("f", 0, 0, 400, 400, true) })).toBe("start");
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @file history.test.ts
+ * @description Tests for the undo/redo history reducer: stepping, grouping of bursts, and the stack cap
+ *
+ * @dependencies vitest, history
+ * @usage Run with `npm test`
+ */
+
+import { describe, it, expect } from "vitest";
+import { createHistoryReducer, createHistoryState } from "@/lib/history";
+
+type CounterAction =
+  | { type: "ADD"; payload: number }
+  | { type: "TYPE"; payload: { field: string; value: number } }
+  | { type: "NOOP" };
+
+const counterReducer = (state: number, action: CounterAction): number => {
+  switch (action.type) {
+    case "ADD":
+      return state + action.payload;
+    case "TYPE":
+      return action.payload.value;
+    default:
+      return state;
+  }
+};
+
+function setup(limit = 100) {
+  let clock = 0;
+  const reducer = createHistoryReducer(counterReducer, {
+    limit,
+    getGroupKey: (action) => (action.type === "TYPE" ? action.payload.field : null),
+    groupWindowMs: 1000,
+    now: () => clock,
+  });
+  return {
+    reducer,
+    advance: (ms: number) => {
+      clock += ms;
+    },
+  };
+}
+
+describe("createHistoryReducer", () => {
+  it("undoes and redoes single steps", () => {
+    const { reducer } = setup();
+    let state = createHistoryState(0);
+    state = reducer(state, { type: "ADD", payload: 1 });
+    state = reducer(state, { type: "ADD", payload: 2 });
+    expect(state.present).toBe(3);
+
+    state = reducer(state, { type: "UNDO" });
+    expect(state.present).toBe(1);
+    state = reducer(state, { type: "UNDO" });
+    expect(state.present).toBe(0);
+    state = reducer(state, { type: "UNDO" });
+    expect(state.present).toBe(0);
+
+    state = reducer(state, { type: "REDO" });
+    expect(state.present).toBe(1);
+    expect(state.future).toHaveLength(1);
+  });
+
+  it("drops the redo stack after a new action", () => {
+    const { reducer } = setup();
+    let state = createHistoryState(0);
+    state = reducer(state, { type: "ADD", payload: 1 });
+    state = reducer(state, { type: "UNDO" });
+    state = reducer(state, { type: "ADD", payload: 5 });
+    expect(state.future).toHaveLength(0);
+    expect(state.present).toBe(5);
+  });
+
+  it("ignores actions that do not change state", () => {
+    const { reducer } = setup();
+    const state = createHistoryState(0);
+    expect(reducer(state, { type: "NOOP" })).toBe(state);
+  });
+
+  it("groups bursts with the same key inside the window", () => {
+    const { reducer, advance } = setup();
+    let state = createHistoryState(0);
+    state = reducer(state, { type: "TYPE", payload: { field: "a", value: 1 } });
+    advance(200);
+    state = reducer(state, { type: "TYPE", payload: { field: "a", value: 2 } });
+    advance(200);
+    state = reducer(state, { type: "TYPE", payload: { field: "a", value: 3 } });
+    expect(state.past).toEqual([0]);
+
+    // A pause longer than the window starts a new step
+    advance(1500);
+    state = reducer(state, { type: "TYPE", payload: { field: "a", value: 4 } });
+    expect(state.past).toEqual([0, 3]);
+
+    // A different key starts a new step too
+    state = reducer(state, { type: "TYPE", payload: { field: "b", value: 5 } });
+    expect(state.past).toEqual([0, 3, 4]);
+
+    state = reducer(state, { type: "UNDO" });
+    state = reducer(state, { type: "UNDO" });
+    expect(state.present).toBe(3);
+  });
+
+  it("caps the number of undo steps", () => {
+    const { reducer } = setup(3);
+    let state = createHistoryState(0);
+    for (let i = 0; i < 10; i++) {
+      state = reducer(state, { type: "ADD", payload: 1 });
+    }
+    expect(state.past).toHaveLength(3);
+    expect(state.past[0]).toBe(7);
+  });
+
+  it("resets history when asked", () => {
+    const { reducer } = setup();
+    let state = createHistoryState(0);
+    state = reducer(state, { type: "ADD", payload: 1 });
+    state = reducer(state, { type: "RESET_HISTORY", payload: 42 });
+    expect(state.present).toBe(42);
+    expect(state.past).toHaveLength(0);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @file markdown.test.ts
+ * @description Tests for the message Markdown subset: inline formatting, lists, HTML and link
+ *              sanitising, plain-text output, literal escaping, and toolbar edits
+ *
+ * @dependencies vitest, markdown
+ * @usage Run with `npm test`
+ */
+
+import { describe, it, expect } from "vitest";
+import { applyMarkdownFormat, createMarkdownRenderer } from "@/lib/markdown";
+
+const markdown = createMarkdownRenderer();
+
+describe("markdown rendering", () => {
+  it("renders bold, italic, code and links", () => {
+    expect(markdown.toHtml("**Hi** _there_ *you* `x*y*`")).toBe(
+      "<p><strong>Hi</strong> <em>there</em> <em>you</em> <code>x*y*</code></p>"
+    );
+    expect(markdown.toHtml("See [the **guide**](https://example.com/a_b_c)")).toBe(
+      '<p>See <a href="https://example.com/a_b_c" target="_blank" rel="noopener noreferrer">the <strong>guide</strong></a></p>'
+    );
+  });
+
+  it("leaves underscores inside words alone", () => {
+    expect(markdown.toHtml("use snake_case_names")).toBe("<p>use snake_case_names</p>");
+  });
+
+  it("groups lines into paragraphs and lists", () => {
+    expect(markdown.toHtml("Steps:\n- one\n- two\n\n1. first\n2. second\nDone\nreally")).toBe(
+      "<p>Steps:</p><ul><li>one</li><li>two</li></ul><ol><li>first</li><li>second</li></ol><p>Done<br>really</p>"
+    );
+  });
+
+  it("escapes HTML and drops unsafe links", () => {
+    expect(markdown.toHtml('<img src=x onerror="alert(1)">')).toBe(
+      "<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</p>"
+    );
+    expect(markdown.toHtml("[click](javascript:alert(1))")).not.toContain("<a");
+    expect(markdown.toHtml('[x](https://a.com/"onmouseover=alert(1))')).not.toContain('"onmouseover');
+  });
+
+  it("renders escaped text literally", () => {
+    const typed = "**not bold** [x](https://evil.com) - item";
+    expect(markdown.toHtml(markdown.escape(typed))).not.toMatch(/<strong>|<a |<ul>/);
+    expect(markdown.toPlainText(markdown.escape(typed))).toBe(typed);
+    expect(markdown.toHtml(markdown.escape("- item"))).toBe("<p>&#45; item</p>");
+  });
+
+  it("produces plain text for labels", () => {
+    expect(markdown.toPlainText("**Hi** [guide](https://x.com)\n\n- `one`\n- _two_")).toBe("Hi guide\none\ntwo");
+  });
+});
+
+describe("applyMarkdownFormat", () => {
+  it("wraps the selection and toggles it off again", () => {
+    const bold = applyMarkdownFormat("say hi now", 4, 6, "bold");
+    expect(bold).toEqual({ value: "say **hi** now", selectionStart: 6, selectionEnd: 8 });
+    expect(applyMarkdownFormat(bold.value, bold.selectionStart, bold.selectionEnd, "bold").value).toBe("say hi now");
+  });
+
+  it("inserts a placeholder when nothing is selected", () => {
+    expect(applyMarkdownFormat("", 0, 0, "italic")).toEqual({ value: "*italic text*", selectionStart: 1, selectionEnd: 12 });
+  });
+
+  it("selects the URL of a new link", () => {
+    const edit = applyMarkdownFormat("docs", 0, 4, "link");
+    expect(edit.value).toBe("[docs](https://)");
+    expect(edit.value.slice(edit.selectionStart, edit.selectionEnd)).toBe("https://");
+  });
+
+  it("prefixes whole lines for lists and toggles them off", () => {
+    const edit = applyMarkdownFormat("Intro\none\ntwo", 7, 11, "numberedList");
+    expect(edit.value).toBe("Intro\n1. one\n2. two");
+    const bullets = applyMarkdownFormat(edit.value, edit.selectionStart, edit.selectionEnd, "bulletList");
+    expect(bullets.value).toBe("Intro\n- one\n- two");
+    expect(applyMarkdownFormat(bullets.value, bullets.selectionStart, bullets.selectionEnd, "bulletList").value).toBe(
+      "Intro\none\ntwo"
+    );
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * @file pathCoverage.test.ts
+ * @description Tests for path enumeration and coverage: conditions and assignments along each path,
+ *              typed answer routes, bounded loops, unreached messages and responses, and the
+ *              Markdown and CSV reports
+ *
+ * @dependencies vitest, pathCoverage, scenario types, test fixtures
+ * @usage Run with `npm test`
+ */
+
+import { describe, it, expect } from "vitest";
+import { coverageReportToCsv, coverageReportToMarkdown, enumeratePaths } from "@/lib/pathCoverage";
+import { ScenarioData } from "@/types/scenario";
+import { message, scenarioWith } from "@/test/fixtures";
+
+// start → (help: sets helped → done | vip: hidden unless vip → done | loop: back to start)
+function buildScenario(): ScenarioData {
+  return scenarioWith(
+    [
+      message("start", {
+        content: "How can I **help**?",
+        responseOptions: [
+          { id: "help", text: "Help me", nextMessageId: "done", assignments: [{ variableId: "helped", value: true }] },
+          { id: "vip", text: "VIP line", nextMessageId: "done", condition: { variableId: "vip", requiredValue: true } },
+          { id: "again", text: "Say that again", nextMessageId: "start" },
+        ],
+      }),
+      message("done", { content: "Done", isEndpoint: true }),
+      message("orphan", { content: "Nobody gets here" }),
+    ],
+    {
+      name: "Support, chat",
+      variables: {
+        helped: { id: "helped", name: "helped", type: "boolean", defaultValue: false },
+        vip: { id: "vip", name: "vip", type: "boolean", defaultValue: false },
+      },
+    }
+  );
+}
+
+describe("enumeratePaths", () => {
+  it("follows every visible choice, applying assignments, and bounds loops", () => {
+    const report = enumeratePaths(buildScenario(), { maxLoopVisits: 2, maxSteps: 50, maxPaths: 100 });
+
+    expect(report.paths.map((path) => path.outcome)).toEqual(["endpoint", "endpoint", "loop"]);
+    expect(report.paths[0].variables.helped).toBe(true);
+    expect(report.paths[0].steps.map((step) => step.text)).toEqual(["How can I help?", "Help me", "Done"]);
+    expect(report.unreachedMessageIds).toEqual(["orphan"]);
+    expect(report.unusedOptions).toEqual([{ messageId: "start", optionId: "vip" }]);
+    expect(report.takenOptionCount).toBe(2);
+    expect(report.isTruncated).toBe(false);
+  });
+
+  it("tries each typed answer route and an unmatched answer", () => {
+    const scenario = buildScenario();
+    scenario.messages.start = message("start", {
+      input: { variableId: null },
+      nextMessageId: null,
+      responseOptions: [{ id: "refund", text: "Refund", nextMessageId: "done", match: { type: "keywords", pattern: " refund, money back" } }],
+    });
+    const report = enumeratePaths(scenario);
+
+    expect(report.paths.map((path) => [path.outcome, path.steps[1].text])).toEqual([
+      ["endpoint", "refund"],
+      ["dead-end", "(any other answer)"],
+    ]);
+  });
+
+  it("stops at the path limit and says so", () => {
+    const report = enumeratePaths(buildScenario(), { maxLoopVisits: 5, maxSteps: 50, maxPaths: 2 });
+
+    expect(report.paths).toHaveLength(2);
+    expect(report.isTruncated).toBe(true);
+  });
+});
+
+describe("coverage reports", () => {
+  it("format as Markdown and CSV with transcripts and coverage", () => {
+    const scenario = buildScenario();
+    const report = enumeratePaths(scenario);
+    const markdown = coverageReportToMarkdown(report, scenario);
+    const csv = coverageReportToCsv(report, scenario);
+
+    expect(markdown).toContain("# Path coverage: Support, chat");
+    expect(markdown).toContain("- Messages reached: 2 of 3 (67%)");
+    expect(markdown).toContain("- #3 Nobody gets here");
+    expect(markdown).toContain('- #1 "VIP line"');
+    expect(markdown).toContain("2. Learner: Help me");
+
+    expect(csv.split("\n")[0]).toBe("Path,Outcome,Last message,Steps,Transcript");
+    expect(csv).toContain("1,Reaches an endpoint,#2,3,Contact: How can I help? / Learner: Help me / Contact: Done");
+    expect(csv).toContain("Response,#1,VIP line,No");
+    expect(csv).toContain("Message,#3,Nobody gets here,No");
+  });
+});
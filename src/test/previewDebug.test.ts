@@ -0,0 +1,76 @@
+/**
+ * @file previewDebug.test.ts
+ * @description Tests for the preview debugger's condition traces and shown / hidden option lists
+ *
+ * @dependencies vitest, previewDebug, scenarioEngine, scenario types
+ * @usage Run with `npm test`
+ */
+
+import { describe, it, expect } from "vitest";
+import { traceCondition, traceOptions } from "@/lib/previewDebug";
+import { createScenarioEngine, EngineScenario } from "@/lib/scenarioEngine";
+import { ScenarioVariable } from "@/types/scenario";
+
+const variables: Record<string, ScenarioVariable> = {
+  score: { id: "score", name: "score", type: "number", defaultValue: 3 },
+  vip: { id: "vip", name: "vip", type: "boolean", defaultValue: false },
+};
+
+function buildScenario(): EngineScenario {
+  return {
+    rootMessageId: "start",
+    variables,
+    messages: {
+      start: {
+        id: "start",
+        content: "Hi",
+        isEndpoint: false,
+        position: { x: 0, y: 0 },
+        responseOptions: [
+          { id: "plain", text: "Plain", nextMessageId: null },
+          {
+            id: "gated",
+            text: "Gated",
+            nextMessageId: null,
+            condition: {
+              logic: "or",
+              conditions: [
+                { variableId: "score", operator: "gte", requiredValue: 5 },
+                { variableId: "vip", requiredValue: true },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  };
+}
+
+describe("traceCondition", () => {
+  it("reports each comparison with the value it was checked against", () => {
+    const engine = createScenarioEngine(buildScenario());
+    const condition = buildScenario().messages.start.responseOptions[1].condition!;
+    const trace = traceCondition(engine, condition, { score: 7, vip: false }, variables);
+
+    expect(trace.passed).toBe(true);
+    expect(trace.logic).toBe("or");
+    expect(trace.children.map((child) => [child.description, child.passed, child.actualValue])).toEqual([
+      ["score ≥ 5", true, "7"],
+      ["vip = true", false, "false"],
+    ]);
+  });
+});
+
+describe("traceOptions", () => {
+  it("lists hidden options alongside shown ones, in message order", () => {
+    const engine = createScenarioEngine(buildScenario());
+    const traces = traceOptions(engine, engine.start(), variables);
+
+    expect(traces.map((t) => [t.option.id, t.visible])).toEqual([
+      ["plain", true],
+      ["gated", false],
+    ]);
+    expect(traces[0].condition).toBeNull();
+    expect(traceOptions(engine, null, variables)).toEqual([]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * @file scenarioAnalysis.test.ts
+ * @description Tests for scenario validation: reachability, trapped loops, endpoint reachability,
+ *              impossible conditions, text input fallbacks, unknown variable placeholders and sub-flows
+ *
+ * @dependencies vitest, scenarioAnalysis, test fixtures
+ * @usage Run with `npm test`
+ */
+
+import { describe, it, expect } from "vitest";
+import { analyzeScenario, getMessageSeverities } from "@/lib/scenarioAnalysis";
+import { ChatMessage, DEFAULT_THEME } from "@/types/scenario";
+import { message, option, scenarioWith } from "@/test/fixtures";
+
+// Every flow here knows a boolean `paid`; a fresh copy each time since some tests add variables
+const scenario = (messages: ChatMessage[]) =>
+  scenarioWith(messages, { variables: { paid: { id: "paid", name: "paid", type: "boolean", defaultValue: false } } });
+
+const summarize = (issues: ReturnType<typeof analyzeScenario>) =>
+  issues.map((issue) => `${issue.type}:${issue.messageId}${issue.optionId ? "/" + issue.optionId : ""}`).sort();
+
+describe("analyzeScenario", () => {
+  it("reports nothing for a clean flow", () => {
+    const issues = analyzeScenario(
+      scenario([
+        message("start", { responseOptions: [option("a", "end"), option("b", "middle")] }),
+        message("middle", { nextMessageId: "end" }),
+        message("end", { isEndpoint: true }),
+      ])
+    );
+    expect(issues).toEqual([]);
+  });
+
+  it("flags unconnected options, missing connections and unreachable messages", () => {
+    const issues = analyzeScenario(
+      scenario([
+        message("start", { responseOptions: [option("a", "end"), option("b", null)] }),
+        message("end", { isEndpoint: true }),
+        message("orphan"),
+      ])
+    );
+    expect(summarize(issues)).toEqual([
+      "missing-connection:orphan",
+      "unconnected-option:start/b",
+      "unreachable:orphan",
+    ]);
+  });
+
+  it("flags loops with no way out once, and not as missing an endpoint", () => {
+    const issues = analyzeScenario(
+      scenario([
+        message("start", { responseOptions: [option("in", "loop-a"), option("done", "end")] }),
+        message("loop-a", { nextMessageId: "loop-b" }),
+        message("loop-b", { responseOptions: [option("again", "loop-a")] }),
+        message("end", { isEndpoint: true }),
+      ])
+    );
+    expect(issues).toEqual([
+      { type: "trapped-loop", severity: "error", messageId: "loop-a", relatedMessageIds: ["loop-a", "loop-b"] },
+    ]);
+    expect(getMessageSeverities(issues).get("loop-b")).toBe("error");
+  });
+
+  it("does not flag loops that can be left", () => {
+    const issues = analyzeScenario(
+      scenario([
+        message("start", { responseOptions: [option("retry", "start"), option("finish", "end")] }),
+        message("end", { isEndpoint: true }),
+      ])
+    );
+    expect(issues).toEqual([]);
+  });
+
+  it("flags branches that can only end without an endpoint", () => {
+    const issues = analyzeScenario(
+      scenario([
+        message("start", { responseOptions: [option("a", "end"), option("b", "stuck")] }),
+        message("stuck", { responseOptions: [option("c", null)] }),
+        message("end", { isEndpoint: true }),
+      ])
+    );
+    expect(summarize(issues)).toEqual(["no-endpoint:stuck", "unconnected-option:stuck/c"]);
+  });
+
+  it("flags conditions that no upstream assignment can satisfy", () => {
+    const paid = { variableId: "paid", requiredValue: true };
+    const flow = scenario([
+      message("start", {
+        responseOptions: [option("skip", "receipt"), option("vip", "end", { condition: paid })],
+      }),
+      message("receipt", { condition: paid, nextMessageId: "end" }),
+      message("end", { isEndpoint: true }),
+    ]);
+    expect(summarize(analyzeScenario(flow))).toEqual(["impossible-condition:receipt", "impossible-condition:start/vip"]);
+
+    // Paying upstream of the receipt makes its condition possible, but not the option before it
+    flow.messages.start.responseOptions[0].assignments = [{ variableId: "paid", value: true }];
+    expect(summarize(analyzeScenario(flow))).toEqual(["impossible-condition:start/vip"]);
+  });
+
+  it("checks each branch of a compound condition", () => {
+    const flow = scenario([
+      message("start", { responseOptions: [option("pay", "gate", { assignments: [{ variableId: "paid", value: true }] })] }),
+      message("gate", {
+        responseOptions: [
+          option("either", "end", { condition: { logic: "or", conditions: [{ variableId: "paid", requiredValue: true }, { variableId: "gone", requiredValue: 1 }] } }),
+          option("both", "end", { condition: { logic: "and", conditions: [{ variableId: "paid", requiredValue: true }, { variableId: "gone", requiredValue: 1 }] } }),
+          option("unpaid", "end", { condition: { variableId: "paid", operator: "neq", requiredValue: true } }),
+        ],
+      }),
+      message("end", { isEndpoint: true }),
+    ]);
+    expect(summarize(analyzeScenario(flow))).toEqual(["impossible-condition:gate/both"]);
+  });
+
+  it("treats variables changed by arithmetic upstream as able to hold any value", () => {
+    const flow = scenario([
+      message("start", { responseOptions: [option("skip", "gate"), option("bump", "gate")] }),
+      message("gate", {
+        responseOptions: [option("high", "end", { condition: { variableId: "score", operator: "gte", requiredValue: 10 } })],
+      }),
+      message("end", { isEndpoint: true }),
+    ]);
+    flow.variables.score = { id: "score", name: "score", type: "number", defaultValue: 0 };
+    expect(summarize(analyzeScenario(flow))).toEqual(["impossible-condition:gate/high"]);
+
+    flow.messages.start.responseOptions[1].assignments = [{ variableId: "score", operation: "increment", value: 5 }];
+    expect(analyzeScenario(flow)).toEqual([]);
+  });
+
+  it("flags placeholders that name no variable in messages, options and the start screen", () => {
+    const flow = scenario([
+      message("start", {
+        content: "Hello {{learnerName}}, paid: {{paid}}",
+        responseOptions: [option("a", "end", { text: "I have {{score}} points" }), option("b", "end", { text: "{{paid}}" })],
+      }),
+      message("end", { isEndpoint: true }),
+    ]);
+    const issues = analyzeScenario({ ...flow, theme: { ...DEFAULT_THEME, startScreenTitle: "Welcome {{learnerName}}" } });
+
+    expect(issues).toEqual([
+      { type: "unknown-variable", severity: "warning", messageId: "start", references: ["learnerName"] },
+      { type: "unknown-variable", severity: "warning", messageId: "start", optionId: "a", references: ["score"] },
+      { type: "unknown-variable", severity: "warning", messageId: "start", themeField: "startScreenTitle", references: ["learnerName"] },
+    ]);
+  });
+
+  it("requires a fallback for text input routes and treats typed answers as any value", () => {
+    const flow = scenario([
+      message("start", {
+        input: { variableId: "name" },
+        responseOptions: [option("boss", "end", { match: { type: "keywords", pattern: "boss" } })],
+      }),
+      message("greet", { condition: { variableId: "name", requiredValue: "Sam" }, nextMessageId: "end" }),
+      message("end", { isEndpoint: true }),
+    ]);
+    flow.variables.name = { id: "name", name: "name", type: "text", defaultValue: "" };
+    expect(summarize(analyzeScenario(flow))).toEqual(["missing-fallback:start", "unreachable:greet"]);
+
+    flow.messages.start.nextMessageId = "greet";
+    expect(analyzeScenario(flow)).toEqual([]);
+  });
+
+  it("treats sub-flow exits as returns to the caller and flags empty calls", () => {
+    const flow = {
+      ...scenario([
+        message("start", { call: { subFlowId: "verify" }, nextMessageId: "gate" }),
+        message("gate", { condition: { variableId: "paid", requiredValue: true }, nextMessageId: "end" }),
+        message("end", { isEndpoint: true }),
+        message("check", { subFlowId: "verify", responseOptions: [option("pay", null, { assignments: [{ variableId: "paid", value: true }] })] }),
+        message("skip", { call: { subFlowId: null }, nextMessageId: "end" }),
+      ]),
+      subFlows: { verify: { id: "verify", name: "Verify", entryMessageId: "check" } },
+    };
+
+    expect(summarize(analyzeScenario(flow))).toEqual(["empty-call:skip", "unreachable:skip"]);
+
+    flow.subFlows.verify.entryMessageId = null;
+    expect(summarize(analyzeScenario(flow))).toEqual([
+      "empty-call:skip",
+      "empty-call:start",
+      "impossible-condition:gate",
+      "unreachable:check",
+      "unreachable:skip",
+    ]);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * @file scenarioEngine.test.ts
+ * @description Tests for the headless scenario engine: start and starting from any message, condition operators and groups, assignments,
+ *              interpolation, typed answers and routes, auto-advance, sub-flow calls and end detection
+ *
+ * @dependencies vitest, scenarioEngine, test fixtures
+ * @usage Run with `npm test`
+ */
+
+import { describe, it, expect } from "vitest";
+import { createScenarioEngine, EngineScenario } from "@/lib/scenarioEngine";
+import { message } from "@/test/fixtures";
+
+// greeting → (ask | vip-only) ; ask → auto-advance to reply (only when asked) ; reply is an endpoint
+function buildScenario(): EngineScenario {
+  return {
+    rootMessageId: "greeting",
+    variables: {
+      asked: { id: "asked", name: "asked", type: "boolean", defaultValue: false },
+      vip: { id: "vip", name: "vip", type: "boolean", defaultValue: false },
+    },
+    messages: {
+      greeting: message("greeting", {
+        responseOptions: [
+          { id: "ask", text: "Ask", nextMessageId: "ask", assignments: [{ variableId: "asked", value: true }] },
+          { id: "vip-only", text: "VIP", nextMessageId: "reply", condition: { variableId: "vip", requiredValue: true } },
+          { id: "leave", text: "Leave", nextMessageId: null },
+        ],
+      }),
+      ask: message("ask", { nextMessageId: "reply" }),
+      reply: message("reply", { isEndpoint: true, condition: { variableId: "asked", requiredValue: true } }),
+    },
+  };
+}
+
+describe("createScenarioEngine", () => {
+  it("starts at the root with default variables", () => {
+    const engine = createScenarioEngine(buildScenario());
+    const state = engine.start();
+
+    expect(state).toEqual({ currentMessageId: "greeting", variables: { asked: false, vip: false }, callStack: [] });
+    expect(engine.start()).not.toBe(state);
+    expect(createScenarioEngine({ ...buildScenario(), rootMessageId: null }).start()).toBeNull();
+  });
+
+  it("starts from any message with seeded values, skipping that message's condition", () => {
+    const engine = createScenarioEngine(buildScenario());
+
+    expect(engine.startAt("reply", { vip: true })).toEqual({
+      currentMessageId: "reply",
+      variables: { asked: false, vip: true },
+      callStack: [],
+    });
+    expect(engine.startAt("missing", {})).toBeNull();
+  });
+
+  it("hides options whose condition fails and refuses to choose them", () => {
+    const engine = createScenarioEngine(buildScenario());
+    const state = engine.start()!;
+
+    expect(engine.getVisibleOptions(state).map((o) => o.id)).toEqual(["ask", "leave"]);
+    expect(engine.choose(state, "vip-only")).toBeNull();
+    expect(engine.choose(state, "missing")).toBeNull();
+  });
+
+  it("applies assignments without mutating the previous state", () => {
+    const engine = createScenarioEngine(buildScenario());
+    const state = engine.start()!;
+    const choice = engine.choose(state, "ask")!;
+
+    expect(choice.option.id).toBe("ask");
+    expect(choice.state).toEqual({ currentMessageId: "ask", variables: { asked: true, vip: false }, callStack: [] });
+    expect(state.variables.asked).toBe(false);
+  });
+
+  it("applies every assignment operation in order", () => {
+    const { applyAssignments } = createScenarioEngine(buildScenario());
+    const values = { score: 4, notes: "a", asked: false };
+
+    expect(
+      applyAssignments(
+        [
+          { variableId: "score", operation: "increment", value: 10 },
+          { variableId: "score", operation: "decrement", value: 3 },
+          { variableId: "notes", operation: "append", value: "b" },
+          { variableId: "asked", operation: "toggle", value: false },
+          { variableId: "asked", operation: "toggle", value: false },
+          { variableId: "vip", value: true },
+        ],
+        values
+      )
+    ).toEqual({ score: 11, notes: "ab", asked: false, vip: true });
+    expect(values).toEqual({ score: 4, notes: "a", asked: false });
+    expect(applyAssignments(undefined, values)).toEqual(values);
+  });
+
+  it("auto-advances through direct connections whose condition holds", () => {
+    const engine = createScenarioEngine(buildScenario());
+    const asked = engine.choose(engine.start()!, "ask")!.state;
+
+    expect(engine.getAutoAdvanceTarget(asked)).toBe("reply");
+    expect(engine.isEnded(asked)).toBe(false);
+
+    const reply = engine.advance(asked);
+    expect(reply.currentMessageId).toBe("reply");
+    expect(engine.isEnded(reply)).toBe(true);
+    expect(engine.getVisibleOptions(reply)).toEqual([]);
+  });
+
+  it("ends instead of stalling when the next message's condition fails", () => {
+    const engine = createScenarioEngine(buildScenario());
+    const state = { currentMessageId: "ask", variables: { asked: false, vip: false }, callStack: [] };
+
+    expect(engine.getAutoAdvanceTarget(state)).toBeNull();
+    expect(engine.advance(state)).toBe(state);
+    expect(engine.isEnded(state)).toBe(true);
+  });
+
+  it("ends on a choice that leads nowhere", () => {
+    const engine = createScenarioEngine(buildScenario());
+    const left = engine.choose(engine.start()!, "leave")!.state;
+
+    expect(left.currentMessageId).toBeNull();
+    expect(engine.getMessage(left)).toBeNull();
+    expect(engine.isEnded(left)).toBe(true);
+  });
+
+  it("evaluates comparison operators and AND / OR groups", () => {
+    const { checkCondition } = createScenarioEngine(buildScenario());
+    const values = { score: 7, role: "Team Lead", vip: false };
+
+    expect(checkCondition({ variableId: "score", operator: "gt", requiredValue: 5 }, values)).toBe(true);
+    expect(checkCondition({ variableId: "score", operator: "lte", requiredValue: 6 }, values)).toBe(false);
+    expect(checkCondition({ variableId: "score", operator: "gte", requiredValue: 7 }, values)).toBe(true);
+    expect(checkCondition({ variableId: "role", operator: "gt", requiredValue: 5 }, values)).toBe(false);
+    expect(checkCondition({ variableId: "role", operator: "contains", requiredValue: "lead" }, values)).toBe(true);
+    expect(checkCondition({ variableId: "vip", operator: "neq", requiredValue: true }, values)).toBe(true);
+    // Conditions saved before operators existed compare for equality
+    expect(checkCondition({ variableId: "vip", requiredValue: false }, values)).toBe(true);
+
+    const lead = { variableId: "role", operator: "contains" as const, requiredValue: "lead" };
+    const vip = { variableId: "vip", requiredValue: true };
+    const highScore = { variableId: "score", operator: "gte" as const, requiredValue: 9 };
+    expect(checkCondition({ logic: "and", conditions: [lead, vip] }, values)).toBe(false);
+    expect(checkCondition({ logic: "or", conditions: [lead, vip] }, values)).toBe(true);
+    expect(checkCondition({ logic: "and", conditions: [lead, { logic: "or", conditions: [vip, highScore] }] }, values)).toBe(false);
+    expect(checkCondition({ logic: "and", conditions: [] }, values)).toBe(true);
+  });
+
+  it("fills {{placeholders}} by variable name and leaves unknown ones as written", () => {
+    const { interpolate, getUnknownReferences } = createScenarioEngine(buildScenario());
+    const values = { asked: true };
+
+    expect(interpolate("Asked: {{asked}}, VIP: {{ vip }}", values)).toBe("Asked: true, VIP: false");
+    expect(interpolate("Hi {{learnerName}}", values)).toBe("Hi {{learnerName}}");
+    expect(interpolate("No placeholders", values)).toBe("No placeholders");
+    expect(getUnknownReferences("{{learnerName}} {{asked}} {{ learnerName }} {{score}}")).toEqual(["learnerName", "score"]);
+  });
+
+  it("matches typed answers by keywords, exact words and patterns", () => {
+    const { matchesInput } = createScenarioEngine(buildScenario());
+
+    expect(matchesInput({ type: "keywords", pattern: "yes, of course" }, "Of course!")).toBe(true);
+    expect(matchesInput({ type: "keywords", pattern: "no" }, "I know")).toBe(false);
+    expect(matchesInput({ type: "exact", pattern: "yes, y" }, "  YES. ")).toBe(true);
+    expect(matchesInput({ type: "exact", pattern: "yes" }, "yes please")).toBe(false);
+    expect(matchesInput({ type: "regex", pattern: "^\\d{4}$" }, " 2024 ")).toBe(true);
+    expect(matchesInput({ type: "regex", pattern: "([" }, "anything")).toBe(false);
+    expect(matchesInput({ type: "keywords", pattern: " , " }, "anything")).toBe(false);
+    expect(matchesInput(undefined, "anything")).toBe(false);
+  });
+
+  it("stores typed answers and follows the first matching route or the fallback", () => {
+    const scenario = buildScenario();
+    scenario.variables.name = { id: "name", name: "name", type: "text", defaultValue: "" };
+    scenario.messages.greeting = message("greeting", {
+      input: { variableId: "name" },
+      nextMessageId: "ask",
+      responseOptions: [
+        { id: "vip", text: "VIP", nextMessageId: "reply", match: { type: "keywords", pattern: "boss" }, condition: { variableId: "vip", requiredValue: true } },
+        { id: "boss", text: "Boss", nextMessageId: "reply", match: { type: "keywords", pattern: "boss" }, assignments: [{ variableId: "asked", value: true }] },
+      ],
+    });
+    const engine = createScenarioEngine(scenario);
+    const state = engine.start()!;
+
+    expect(engine.isAwaitingInput(state)).toBe(true);
+    expect(engine.getVisibleOptions(state)).toEqual([]);
+    expect(engine.getAutoAdvanceTarget(state)).toBeNull();
+    expect(engine.isEnded(state)).toBe(false);
+    expect(engine.choose(state, "boss")).toBeNull();
+
+    const routed = engine.submit(state, "The Boss")!;
+    expect(routed.route?.id).toBe("boss");
+    expect(routed.state).toEqual({ currentMessageId: "reply", variables: { asked: true, vip: false, name: "The Boss" }, callStack: [] });
+
+    const fallback = engine.submit(state, "Sam")!;
+    expect(fallback.route).toBeNull();
+    expect(fallback.state).toEqual({ currentMessageId: "ask", variables: { asked: false, vip: false, name: "Sam" }, callStack: [] });
+    expect(engine.submit(fallback.state, "again")).toBeNull();
+  });
+
+  it("behaves the same after being serialised into the exported runtime", () => {
+    const revived = new Function(`return (${createScenarioEngine.toString()});`)() as typeof createScenarioEngine;
+    const engine = revived(buildScenario());
+    const state = engine.advance(engine.choose(engine.start()!, "ask")!.state);
+
+    expect(state).toEqual({ currentMessageId: "reply", variables: { asked: true, vip: false }, callStack: [] });
+    expect(engine.isEnded(state)).toBe(true);
+    expect(engine.interpolate("{{asked}}", state.variables)).toBe("true");
+  });
+
+  it("paces typing by the message, the theme default, or reading speed", () => {
+    const scenario = buildScenario();
+    const engine = createScenarioEngine(scenario);
+    const short = message("short", { content: "Hi" });
+    expect(engine.getTypingDelay(short)).toBe(1000);
+    expect(engine.getAutoAdvanceDelay()).toBe(300);
+
+    const themed = createScenarioEngine({
+      ...scenario,
+      theme: { pacing: { mode: "wpm", delayMs: 0, wordsPerMinute: 120 }, autoAdvanceDelay: 0, conversationType: "regular" },
+    });
+    // 120 wpm is two words a second, within the 0.5s to 8s bounds
+    expect(themed.getTypingDelay(message("m", { content: "one two three four" }))).toBe(2000);
+    expect(themed.getTypingDelay(short)).toBe(500);
+    expect(themed.getTypingDelay(message("long", { content: "word ".repeat(400) }))).toBe(8000);
+    expect(themed.getTypingDelay(short, "now with interpolated words")).toBe(2000);
+    expect(themed.getTypingDelay(message("m", { pacing: { mode: "fixed", delayMs: 250, wordsPerMinute: 120 } }))).toBe(250);
+    expect(themed.getAutoAdvanceDelay()).toBe(0);
+    expect(createScenarioEngine({ ...scenario, theme: { conversationType: "regular" } }).getAutoAdvanceDelay()).toBe(500);
+  });
+
+  it("plays a sub-flow from each call node and returns to the message after it", () => {
+    // start → call verify → middle → call verify → end; verify: check → (ok: returns | fail: endpoint)
+    const engine = createScenarioEngine({
+      rootMessageId: "start",
+      variables: {},
+      subFlows: { verify: { id: "verify", name: "Verify", entryMessageId: "check" } },
+      messages: {
+        start: message("start", { nextMessageId: "call-1" }),
+        "call-1": message("call-1", { call: { subFlowId: "verify" }, nextMessageId: "middle" }),
+        middle: message("middle", { nextMessageId: "call-2" }),
+        "call-2": message("call-2", { call: { subFlowId: "verify" }, nextMessageId: "end" }),
+        end: message("end", { isEndpoint: true }),
+        check: message("check", {
+          subFlowId: "verify",
+          responseOptions: [
+            { id: "ok", text: "OK", nextMessageId: null },
+            { id: "fail", text: "Fail", nextMessageId: "locked" },
+          ],
+        }),
+        locked: message("locked", { subFlowId: "verify", isEndpoint: true }),
+      },
+    });
+
+    const inFirstCall = engine.advance(engine.start()!);
+    expect(inFirstCall).toMatchObject({ currentMessageId: "check", callStack: ["call-1"] });
+    expect(engine.getAutoAdvanceTarget(engine.start())).toBe("check");
+
+    const middle = engine.choose(inFirstCall, "ok")!.state;
+    expect(middle).toMatchObject({ currentMessageId: "middle", callStack: [] });
+
+    const inSecondCall = engine.advance(middle);
+    expect(inSecondCall).toMatchObject({ currentMessageId: "check", callStack: ["call-2"] });
+    expect(engine.choose(inSecondCall, "ok")!.state).toMatchObject({ currentMessageId: "end", callStack: [] });
+    expect(engine.isEnded(engine.choose(inSecondCall, "fail")!.state)).toBe(true);
+  });
+
+  it("skips calls with nothing to play and stops runaway recursion", () => {
+    const engine = createScenarioEngine({
+      rootMessageId: "call",
+      variables: {},
+      subFlows: { loop: { id: "loop", name: "Loop", entryMessageId: "again" } },
+      messages: {
+        call: message("call", { call: { subFlowId: null }, nextMessageId: "after" }),
+        after: message("after", { nextMessageId: "again" }),
+        again: message("again", { subFlowId: "loop", call: { subFlowId: "loop" } }),
+      },
+    });
+
+    const state = engine.start()!;
+    expect(state).toMatchObject({ currentMessageId: "after", callStack: [] });
+    expect(engine.advance(state)).toBe(state);
+    expect(engine.isEnded(state)).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * @file scenarioLibrary.test.ts
+ * @description Tests for the IndexedDB scenario library against an in-memory IndexedDB: saving,
+ *              listing by last edit, duplicating, renaming and deleting, and the one-time move of the
+ *              legacy localStorage autosave
+ *
+ * @dependencies vitest, fake-indexeddb, scenarioLibrary, scenario types
+ * @usage Run with `npm test`
+ */
+
+import "fake-indexeddb/auto";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  LEGACY_AUTOSAVE_BACKUP_KEY,
+  LEGACY_AUTOSAVE_KEY,
+  deleteScenario,
+  duplicateScenario,
+  getScenario,
+  listScenarios,
+  migrateLegacyAutosave,
+  renameScenario,
+  saveScenario,
+} from "@/lib/scenarioLibrary";
+import { ScenarioData, createEmptyScenario } from "@/types/scenario";
+
+function storedScenario(name: string, updatedAt: string): ScenarioData {
+  return { ...createEmptyScenario(), name, createdAt: updatedAt, updatedAt };
+}
+
+beforeEach(async () => {
+  const stored = await listScenarios();
+  await Promise.all(stored.map((summary) => deleteScenario(summary.id)));
+  localStorage.clear();
+});
+
+describe("scenario library", () => {
+  it("saves, reads and lists scenarios, most recently edited first", async () => {
+    const older = storedScenario("Older", "2026-01-01T00:00:00.000Z");
+    const newest = storedScenario("Newest", "2026-03-01T00:00:00.000Z");
+    const middle = storedScenario("Middle", "2026-02-01T00:00:00.000Z");
+    await saveScenario(older);
+    await saveScenario(newest);
+    await saveScenario(middle);
+
+    expect((await listScenarios()).map((summary) => summary.name)).toEqual(["Newest", "Middle", "Older"]);
+    expect(await getScenario(older.id)).toEqual(older);
+    expect((await listScenarios())[0]).toEqual({
+      id: newest.id,
+      name: "Newest",
+      messageCount: Object.keys(newest.messages).length,
+      createdAt: newest.createdAt,
+      updatedAt: newest.updatedAt,
+    });
+    expect(await getScenario("missing")).toBeNull();
+  });
+
+  it("overwrites a scenario saved again under the same id", async () => {
+    const scenario = storedScenario("Draft", "2026-01-01T00:00:00.000Z");
+    await saveScenario(scenario);
+    await saveScenario({ ...scenario, name: "Final" });
+
+    expect((await listScenarios()).map((summary) => summary.name)).toEqual(["Final"]);
+  });
+
+  it("duplicates under a fresh id and renames, both counting as the latest edit", async () => {
+    const original = storedScenario("Onboarding", "2026-01-01T00:00:00.000Z");
+    await saveScenario(original);
+    const copy = await duplicateScenario(original.id);
+
+    expect(copy?.id).not.toBe(original.id);
+    expect(copy?.name).toBe("Copy of Onboarding");
+    expect(copy?.messages).toEqual(original.messages);
+
+    await renameScenario(original.id, "Onboarding v2");
+    const list = await listScenarios();
+    expect(list.map((summary) => summary.name).sort()).toEqual(["Copy of Onboarding", "Onboarding v2"]);
+    list.forEach((summary) => expect(summary.updatedAt > original.updatedAt).toBe(true));
+    expect(await duplicateScenario("missing")).toBeNull();
+  });
+
+  it("deletes scenarios", async () => {
+    const scenario = storedScenario("Temporary", "2026-01-01T00:00:00.000Z");
+    await saveScenario(scenario);
+    await deleteScenario(scenario.id);
+
+    expect(await getScenario(scenario.id)).toBeNull();
+    expect(await listScenarios()).toEqual([]);
+  });
+});
+
+describe("migrateLegacyAutosave", () => {
+  it("moves the legacy autosave into the library once and removes the legacy key", async () => {
+    const legacy = storedScenario("Autosaved", "2025-12-01T00:00:00.000Z");
+    localStorage.setItem(LEGACY_AUTOSAVE_KEY, JSON.stringify(legacy));
+    const migrate = (data: ScenarioData) => ({ ...data, testCases: data.testCases ?? {} });
+
+    const migrated = await migrateLegacyAutosave(migrate);
+
+    expect(migrated?.id).toBe(legacy.id);
+    expect(await getScenario(legacy.id)).toEqual(migrated);
+    expect(localStorage.getItem(LEGACY_AUTOSAVE_KEY)).toBeNull();
+
+    expect(await migrateLegacyAutosave(migrate)).toBeNull();
+    expect(await listScenarios()).toHaveLength(1);
+  });
+
+  it("sets an unreadable legacy autosave aside instead of failing every load", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    localStorage.setItem(LEGACY_AUTOSAVE_KEY, '{"name": "Trunc');
+
+    expect(await migrateLegacyAutosave((data) => data)).toBeNull();
+    expect(localStorage.getItem(LEGACY_AUTOSAVE_KEY)).toBeNull();
+    expect(localStorage.getItem(LEGACY_AUTOSAVE_BACKUP_KEY)).toBe('{"name": "Trunc');
+    expect(await listScenarios()).toEqual([]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("does nothing without a legacy autosave", async () => {
+    expect(await migrateLegacyAutosave((data) => data)).toBeNull();
+    expect(await listScenarios()).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * @file scenarioTests.test.ts
+ * @description Tests for the scripted test case runner: choices, typed answers and seeded starts, failure
+ *              messages when the scenario no longer matches the script, and every test case saved with
+ *              the scenario files in src/test/scenarios
+ *
+ * @dependencies vitest, scenarioTests, scenario types, test fixtures
+ * @usage Run with `npm test`; export a scenario as JSON into src/test/scenarios to run its test cases here
+ */
+
+import { describe, it, expect } from "vitest";
+import { runTestCase, runTestCases } from "@/lib/scenarioTests";
+import { ScenarioData, createTestCase } from "@/types/scenario";
+import { message, scenarioWith } from "@/test/fixtures";
+
+// start → (help: sets helped → name | vip: hidden unless vip → done); name asks for a typed answer → done
+function buildScenario(): ScenarioData {
+  return scenarioWith(
+    [
+      message("start", {
+        content: "How can I help?",
+        responseOptions: [
+          { id: "help", text: "Help me", nextMessageId: "ask", assignments: [{ variableId: "helped", value: true }] },
+          { id: "vip", text: "VIP line", nextMessageId: "done", condition: { variableId: "vip", requiredValue: true } },
+        ],
+      }),
+      message("ask", { content: "Your name?", input: { variableId: "name" }, nextMessageId: "thanks" }),
+      message("thanks", { content: "Thanks {{name}}", nextMessageId: "done" }),
+      message("done", { content: "Done", isEndpoint: true }),
+    ],
+    {
+      variables: {
+        helped: { id: "helped", name: "helped", type: "boolean", defaultValue: false },
+        vip: { id: "vip", name: "vip", type: "boolean", defaultValue: false },
+        name: { id: "name", name: "name", type: "text", defaultValue: "" },
+      },
+    }
+  );
+}
+
+describe("runTestCase", () => {
+  it("replays choices and answers, following auto-advance, and checks the end", () => {
+    const testCase = createTestCase("Help flow", {
+      startMessageId: null,
+      startVariables: {},
+      steps: [
+        { kind: "choose", optionId: "help" },
+        { kind: "answer", text: "Ada" },
+      ],
+      expectedMessageId: "done",
+      expectedVariables: { helped: true, name: "Ada" },
+    });
+    const result = runTestCase(buildScenario(), testCase);
+
+    expect(result.failures).toEqual([]);
+    expect(result.passed).toBe(true);
+    expect(result.endMessageId).toBe("done");
+  });
+
+  it("starts from a message with seeded values", () => {
+    const testCase = createTestCase("VIP", {
+      startMessageId: "start",
+      startVariables: { vip: true },
+      steps: [{ kind: "choose", optionId: "vip" }],
+      expectedMessageId: "done",
+      expectedVariables: { helped: false },
+    });
+
+    expect(runTestCase(buildScenario(), testCase).passed).toBe(true);
+  });
+
+  it("explains why a script no longer matches the scenario", () => {
+    const hidden = createTestCase("Hidden choice", {
+      startMessageId: null,
+      startVariables: {},
+      steps: [{ kind: "choose", optionId: "vip" }],
+      expectedMessageId: "done",
+      expectedVariables: {},
+    });
+    const wrongEnd = createTestCase("Wrong end", {
+      startMessageId: null,
+      startVariables: {},
+      steps: [{ kind: "choose", optionId: "help" }],
+      expectedMessageId: "done",
+      expectedVariables: { helped: false },
+    });
+    const scenario = buildScenario();
+
+    expect(runTestCase(scenario, hidden).failures).toEqual(['Step 1: "VIP line" is not offered at #1 "How can I help?"']);
+    expect(runTestCase(scenario, wrongEnd).failures).toEqual([
+      'Expected to end at #4 "Done", ended at #2 "Your name?"',
+      "Expected helped = false, got true",
+    ]);
+
+    delete scenario.messages.start;
+    expect(runTestCase(scenario, wrongEnd).failures).toEqual(["The scenario has no start message"]);
+  });
+});
+
+// Scenario files exported from the builder, each run as its own suite
+const scenarioFiles = import.meta.glob<ScenarioData>("./scenarios/*.json", { eager: true, import: "default" });
+
+describe.each(Object.entries(scenarioFiles))("%s", (_file, scenario) => {
+  const results = runTestCases(scenario);
+
+  it.each(Object.values(scenario.testCases ?? {}).map((testCase, index) => [testCase.name, results[index]] as const))(
+    "%s",
+    (_name, result) => {
+      expect(result.failures).toEqual([]);
+    }
+  );
+});
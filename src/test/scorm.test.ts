@@ -0,0 +1,105 @@
+/**
+ * @file scorm.test.ts
+ * @description Tests for the SCORM runtime adapter: finding the LMS API in a parent frame and reporting
+ *              the result through the SCORM 1.2 and 2004 calls, and the manifest mastery score
+ *
+ * @dependencies vitest, scorm, scenario types
+ * @usage Run with `npm test`
+ */
+
+import { describe, it, expect } from "vitest";
+import { createScormConnection, generateScormManifest, Scorm12Api, Scorm2004Api } from "@/lib/scorm";
+import { createEmptyScenario } from "@/types/scenario";
+
+// Records the calls an API receives and the values set through it
+function createStore() {
+  const values: Record<string, string> = {};
+  const calls: string[] = [];
+  const set = (element: string, value: string) => {
+    values[element] = value;
+    return "true";
+  };
+  return { values, calls, set };
+}
+
+function record(store: ReturnType<typeof createStore>, name: string): string {
+  store.calls.push(name);
+  return "true";
+}
+
+function create12Api(store: ReturnType<typeof createStore>): Scorm12Api {
+  return {
+    LMSInitialize: () => record(store, "LMSInitialize"),
+    LMSGetValue: (element) => store.values[element] ?? "",
+    LMSSetValue: (element, value) => store.set(element, value),
+    LMSCommit: () => record(store, "LMSCommit"),
+    LMSFinish: () => record(store, "LMSFinish"),
+    LMSGetLastError: () => "0",
+  };
+}
+
+function create2004Api(store: ReturnType<typeof createStore>): Scorm2004Api {
+  return {
+    Initialize: () => record(store, "Initialize"),
+    GetValue: (element) => store.values[element] ?? "",
+    SetValue: (element, value) => store.set(element, value),
+    Commit: () => record(store, "Commit"),
+    Terminate: () => record(store, "Terminate"),
+    GetLastError: () => "0",
+  };
+}
+
+// A content frame inside an LMS frame that exposes the API
+function frameWithParent(parentApis: { API?: Scorm12Api; API_1484_11?: Scorm2004Api }): Window {
+  const lmsWindow = { ...parentApis } as unknown as Window & { parent: Window };
+  lmsWindow.parent = lmsWindow;
+  return { parent: lmsWindow, opener: null } as unknown as Window;
+}
+
+describe("createScormConnection", () => {
+  it("finds the SCORM 1.2 API in a parent frame and reports pass or fail in lesson_status", () => {
+    const store = createStore();
+    const lms = createScormConnection("1.2", frameWithParent({ API: create12Api(store) }));
+
+    expect(lms.initialize()).toBe(true);
+    expect(store.values["cmi.core.lesson_status"]).toBe("incomplete");
+
+    lms.reportResult({ scoreRaw: 120, scoreMin: 0, scoreMax: 100, passed: true });
+    lms.terminate();
+
+    expect(store.values["cmi.core.score.raw"]).toBe("100");
+    expect(store.values["cmi.core.lesson_status"]).toBe("passed");
+    expect(store.calls).toEqual(["LMSInitialize", "LMSCommit", "LMSCommit", "LMSFinish"]);
+  });
+
+  it("uses the SCORM 2004 API and ignores a 1.2 API on the way", () => {
+    const store = createStore();
+    const lms = createScormConnection("2004", frameWithParent({ API: create12Api(createStore()), API_1484_11: create2004Api(store) }));
+
+    expect(lms.initialize()).toBe(true);
+    lms.reportResult({ scoreRaw: 40, scoreMin: 0, scoreMax: 80, passed: false });
+    lms.terminate();
+
+    expect(store.values["cmi.score.scaled"]).toBe("0.5000");
+    expect(store.values["cmi.success_status"]).toBe("failed");
+    expect(store.values["cmi.exit"]).toBe("normal");
+    expect(store.calls).toEqual(["Initialize", "Commit", "Commit", "Terminate"]);
+  });
+
+  it("reports nothing when no LMS API is found", () => {
+    const lms = createScormConnection("1.2", frameWithParent({}));
+
+    expect(lms.initialize()).toBe(false);
+    expect(() => lms.reportResult({ scoreRaw: 1, scoreMin: 0, scoreMax: 1, passed: true })).not.toThrow();
+  });
+});
+
+describe("generateScormManifest", () => {
+  it("keeps the mastery score within 0-100 when the passing score exceeds the maximum", () => {
+    const scenario = createEmptyScenario();
+    scenario.exportSettings = { ...scenario.exportSettings, scoreVariableId: "score", maxScore: 10, passingScore: 15 };
+
+    expect(generateScormManifest(scenario, "1.2", ["index.html"])).toContain("<adlcp:masteryscore>100</adlcp:masteryscore>");
+    expect(generateScormManifest(scenario, "2004", ["index.html"])).toContain("<imsss:minNormalizedMeasure>1.00</imsss:minNormalizedMeasure>");
+  });
+});
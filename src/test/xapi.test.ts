@@ -0,0 +1,245 @@
+/**
+ * @file xapi.test.ts
+ * @description Tests for the exported xAPI / cmi5 statement client against a local mock LRS
+ *
+ * @dependencies vitest, xapi
+ * @usage Run with `npm test`
+ */
+
+import { describe, it, expect } from "vitest";
+import { createXapiClient, XapiClientConfig } from "@/lib/xapi";
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown> | null;
+}
+
+// Minimal in-memory LRS: accepts statements, serves LMS.LaunchData and a cmi5 token endpoint
+function createMockLrs(launchData: Record<string, unknown> = {}) {
+  const requests: RecordedRequest[] = [];
+  const statements: Record<string, unknown>[] = [];
+
+  const fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input);
+    const method = init?.method ?? "GET";
+    const body = init?.body ? JSON.parse(String(init.body)) : null;
+    requests.push({ url, method, headers: (init?.headers ?? {}) as Record<string, string>, body });
+
+    if (url.startsWith("https://lms.test/token")) {
+      return new Response(JSON.stringify({ "auth-token": "dG9rZW4=" }), { status: 200 });
+    }
+    if (url.includes("/activities/state")) {
+      return new Response(JSON.stringify(launchData), { status: 200 });
+    }
+    if (url.endsWith("/statements") && method === "POST") {
+      statements.push(body);
+      return new Response(JSON.stringify([body?.id]), { status: 200 });
+    }
+    return new Response("Not found", { status: 404 });
+  }) as typeof fetch;
+
+  return { fetch, requests, statements };
+}
+
+const baseConfig: XapiClientConfig = {
+  mode: "xapi",
+  endpoint: "https://lrs.test/xapi/",
+  auth: "Basic a2V5OnNlY3JldA==",
+  activityId: "https://example.com/scenarios/onboarding",
+  scenarioName: "Onboarding",
+};
+
+const message = {
+  id: "m1",
+  content: "How would you respond?",
+  options: [
+    { id: "o1", text: "Apologise" },
+    { id: "o2", text: "Escalate" },
+  ],
+};
+
+const verbOf = (statement: Record<string, unknown>) => (statement.verb as { display: Record<string, string> }).display["en-US"];
+const extensionsOf = (statement: Record<string, unknown>) =>
+  (statement.context as { extensions: Record<string, unknown> }).extensions;
+
+describe("createXapiClient (xAPI mode)", () => {
+  it("sends experienced, answered and completed statements in order", async () => {
+    const lrs = createMockLrs();
+    const client = createXapiClient(baseConfig, { fetch: lrs.fetch, search: "" });
+
+    expect(await client.initialize()).toBe(true);
+    client.experienced(message, { score: 0 });
+    client.answered(message, message.options[0], { score: 5 });
+    await client.completed({ scoreRaw: 5, scoreMin: 0, scoreMax: 10, passed: false }, { score: 5 });
+
+    expect(lrs.statements.map(verbOf)).toEqual(["experienced", "answered", "completed"]);
+    expect(lrs.requests[0].url).toBe("https://lrs.test/xapi/statements");
+    expect(lrs.requests[0].headers.Authorization).toBe(baseConfig.auth);
+    expect(lrs.requests[0].headers["X-Experience-API-Version"]).toBe("1.0.3");
+
+    const answered = lrs.statements[1];
+    expect((answered.object as { id: string }).id).toBe("https://example.com/scenarios/onboarding/messages/m1");
+    expect((answered.result as { response: string }).response).toBe("o1");
+    const extensions = extensionsOf(answered);
+    expect(extensions["https://example.com/scenarios/onboarding/extensions/message-id"]).toBe("m1");
+    expect(extensions["https://example.com/scenarios/onboarding/extensions/option-id"]).toBe("o1");
+    expect(extensions["https://example.com/scenarios/onboarding/extensions/variables"]).toEqual({ score: 5 });
+
+    const completed = lrs.statements[2];
+    expect(completed.result).toMatchObject({ completion: true, success: false, score: { raw: 5, max: 10, scaled: 0.5 } });
+  });
+
+  it("sends typed answers as fill-in interactions", async () => {
+    const lrs = createMockLrs();
+    const client = createXapiClient(baseConfig, { fetch: lrs.fetch, search: "" });
+
+    await client.initialize();
+    client.answeredText({ id: "m2", content: "What's your name?" }, "Sam", null, { name: "Sam" });
+    await client.answeredText({ id: "m3", content: "Ready?" }, "yes please", { id: "r1", text: "Said yes" }, { name: "Sam" });
+
+    const [fallback, routed] = lrs.statements;
+    expect((fallback.object as { definition: Record<string, unknown> }).definition).toMatchObject({ interactionType: "fill-in" });
+    expect(fallback.result).toEqual({ response: "Sam", completion: true });
+    expect(extensionsOf(fallback)["https://example.com/scenarios/onboarding/extensions/option-id"]).toBeUndefined();
+    expect(extensionsOf(routed)["https://example.com/scenarios/onboarding/extensions/option-id"]).toBe("r1");
+  });
+
+  it("lets launch parameters override the endpoint and actor", async () => {
+    const lrs = createMockLrs();
+    const actor = { mbox: ["mailto:learner@example.com"], name: ["Learner"] };
+    const search = `?endpoint=${encodeURIComponent("https://other.test/lrs")}&auth=${encodeURIComponent("Basic b3RoZXI=")}&actor=${encodeURIComponent(JSON.stringify(actor))}&registration=reg-1`;
+    const client = createXapiClient(baseConfig, { fetch: lrs.fetch, search });
+
+    await client.initialize();
+    await client.experienced(message, {});
+
+    expect(lrs.requests[0].url).toBe("https://other.test/lrs/statements");
+    expect(lrs.requests[0].headers.Authorization).toBe("Basic b3RoZXI=");
+    expect(lrs.statements[0].actor).toEqual({ mbox: "mailto:learner@example.com", name: "Learner" });
+    expect((lrs.statements[0].context as { registration: string }).registration).toBe("reg-1");
+  });
+
+  it("does not send anything without an endpoint", async () => {
+    const lrs = createMockLrs();
+    const client = createXapiClient({ ...baseConfig, endpoint: "" }, { fetch: lrs.fetch, search: "" });
+
+    expect(await client.initialize()).toBe(false);
+    await client.experienced(message, {});
+    expect(lrs.requests).toHaveLength(0);
+  });
+
+  it("still works after being serialised into the exported runtime", async () => {
+    const lrs = createMockLrs();
+    const revived = new Function(`return (${createXapiClient.toString()});`)() as typeof createXapiClient;
+    const client = revived(baseConfig, { fetch: lrs.fetch, search: "" });
+
+    await client.initialize();
+    await client.experienced(message, {});
+    expect(lrs.statements.map(verbOf)).toEqual(["experienced"]);
+  });
+});
+
+describe("createXapiClient (cmi5 mode)", () => {
+  const launch = (activityId: string) =>
+    "?" + new URLSearchParams({
+      endpoint: "https://lrs.test/xapi",
+      fetch: "https://lms.test/token?session=1",
+      actor: JSON.stringify({ objectType: "Agent", account: { homePage: "https://lms.test", name: "learner-1" } }),
+      registration: "reg-42",
+      activityId,
+    }).toString();
+
+  it("fetches a token, applies the context template and brackets the session", async () => {
+    const lrs = createMockLrs({
+      contextTemplate: { extensions: { "https://w3id.org/xapi/cmi5/context/extensions/sessionid": "session-1" } },
+    });
+    const client = createXapiClient({ ...baseConfig, mode: "cmi5", endpoint: "", auth: "" }, {
+      fetch: lrs.fetch,
+      search: launch("https://lms.test/au/1"),
+    });
+
+    // Statements emitted during the handshake wait for it to finish
+    const started = client.initialize();
+    client.experienced(message, {});
+    expect(await started).toBe(true);
+    client.completed({ scoreRaw: 9, scoreMin: 0, scoreMax: 10, passed: true }, {});
+    client.completed({ scoreRaw: 9, scoreMin: 0, scoreMax: 10, passed: true }, {});
+    await client.terminate();
+
+    expect(lrs.requests[0]).toMatchObject({ url: "https://lms.test/token?session=1", method: "POST" });
+    expect(lrs.statements.map(verbOf)).toEqual(["initialized", "experienced", "completed", "passed", "terminated"]);
+
+    for (const statement of lrs.statements) {
+      expect(statement.actor).toEqual({ objectType: "Agent", account: { homePage: "https://lms.test", name: "learner-1" } });
+      expect((statement.context as { registration: string }).registration).toBe("reg-42");
+      expect(extensionsOf(statement)["https://w3id.org/xapi/cmi5/context/extensions/sessionid"]).toBe("session-1");
+    }
+    expect(lrs.requests.find((r) => r.url.endsWith("/statements"))?.headers.Authorization).toBe("Basic dG9rZW4=");
+
+    const passed = lrs.statements[3];
+    expect((passed.object as { id: string }).id).toBe("https://lms.test/au/1");
+    const categories = (passed.context as { contextActivities: { category: { id: string }[] } }).contextActivities.category;
+    expect(categories.map((c) => c.id)).toEqual([
+      "https://w3id.org/xapi/cmi5/context/categories/cmi5",
+      "https://w3id.org/xapi/cmi5/context/categories/moveon",
+    ]);
+  });
+
+  it("reports the session duration on completed, passed and terminated, then returns to the LMS", async () => {
+    const lrs = createMockLrs();
+    let clock = Date.parse("2026-01-05T10:00:00.000Z");
+    const navigated: string[] = [];
+    const client = createXapiClient({ ...baseConfig, mode: "cmi5", endpoint: "", auth: "" }, {
+      fetch: lrs.fetch,
+      search: launch("https://lms.test/au/1") + "&returnURL=" + encodeURIComponent("https://lms.test/course?done=1"),
+      now: () => new Date(clock).toISOString(),
+      navigate: (url) => navigated.push(url),
+    });
+
+    await client.initialize();
+    clock += 65_250;
+    await client.completed({ scoreRaw: 3, scoreMin: 0, scoreMax: 10, passed: false }, {});
+    clock += 3_600_000;
+    expect(client.canReturn()).toBe(true);
+    await client.exit();
+
+    expect(lrs.statements.map(verbOf)).toEqual(["initialized", "completed", "failed", "terminated"]);
+    expect(lrs.statements[0].result).toBeUndefined();
+    expect(lrs.statements[1].result).toEqual({ completion: true, duration: "PT1M5.25S" });
+    expect(lrs.statements[2].result).toEqual({
+      success: false,
+      score: { raw: 3, min: 0, max: 10, scaled: 0.3 },
+      duration: "PT1M5.25S",
+    });
+    expect(lrs.statements[3].result).toEqual({ duration: "PT1H1M5.25S" });
+    expect(navigated).toEqual(["https://lms.test/course?done=1"]);
+  });
+
+  it("stays on the page on exit without a returnURL", async () => {
+    const lrs = createMockLrs();
+    const navigated: string[] = [];
+    const client = createXapiClient({ ...baseConfig, mode: "cmi5", endpoint: "", auth: "" }, {
+      fetch: lrs.fetch,
+      search: launch("https://lms.test/au/1"),
+      navigate: (url) => navigated.push(url),
+    });
+
+    await client.initialize();
+    expect(client.canReturn()).toBe(false);
+    await client.exit();
+
+    expect(lrs.statements.map(verbOf)).toEqual(["initialized", "terminated"]);
+    expect(navigated).toEqual([]);
+  });
+
+  it("refuses to start without the fetch launch parameter", async () => {
+    const lrs = createMockLrs();
+    const client = createXapiClient({ ...baseConfig, mode: "cmi5" }, { fetch: lrs.fetch, search: "?endpoint=https://lrs.test/xapi" });
+
+    expect(await client.initialize()).toBe(false);
+    await client.experienced(message, {});
+    expect(lrs.statements).toHaveLength(0);
+  });
+});
@@ -1,7 +1,8 @@
 /**
  * @file scenario.ts
  * @description TypeScript type definitions for scenario data structures including ChatMessage,
- *              ChatTheme, ResponseOption, ScenarioVariable, and factory functions
+ *              ChatTheme, ResponseOption, ScenarioVariable, Speaker, SubFlow, canvas annotations (sticky
+ *              notes, comment threads and frames), and factory functions
  * 
  * @dependencies None (pure types)
  * @usage Imported throughout the app for type safety
@@ -25,22 +26,144 @@ export interface ScenarioVariable {
   defaultValue: VariableValue;
 }
 
+export type ConditionOperator = "eq" | "neq" | "gt" | "lt" | "gte" | "lte" | "contains";
+
+// A single comparison against a variable's current value
 export interface VariableCondition {
   variableId: string;
+  operator?: ConditionOperator; // Unset means "eq" (conditions saved before operators existed)
   requiredValue: VariableValue;
 }
 
+// Comparisons (or nested groups) combined with AND / OR
+export interface ConditionGroup {
+  logic: "and" | "or";
+  conditions: Condition[];
+}
+
+export type Condition = VariableCondition | ConditionGroup;
+
+export type AssignmentOperation = "set" | "increment" | "decrement" | "append" | "toggle";
+
 export interface VariableAssignment {
   variableId: string;
-  value: VariableValue;
+  operation?: AssignmentOperation; // Unset means "set" (assignments saved before operations existed)
+  value: VariableValue; // Ignored by "toggle"
+}
+
+// How a typed answer is matched against a route. Matching ignores case and surrounding spaces.
+export type InputMatchType = "keywords" | "exact" | "regex";
+
+export interface InputMatch {
+  type: InputMatchType;
+  pattern: string; // Comma-separated words for "keywords" and "exact"; a regular expression for "regex"
 }
 
 export interface ResponseOption {
   id: string;
   text: string;
   nextMessageId: string | null; // null if this is an endpoint
-  setsVariable?: VariableAssignment; // When chosen, set this variable
-  condition?: VariableCondition; // Only show if condition is met
+  assignments?: VariableAssignment[]; // When chosen, applied in order
+  condition?: Condition; // Only show if condition is met
+  match?: InputMatch; // On text input messages, the option is a route taken when the answer matches
+}
+
+export type AttachmentKind = "image" | "audio" | "video" | "file" | "link";
+
+// An uploaded file, stored once per scenario and referenced by attachments
+export interface ScenarioAsset {
+  id: string;
+  name: string; // Original file name
+  mimeType: string;
+  size: number; // Bytes
+  data: string; // Base64 data URL
+}
+
+export interface MessageAttachment {
+  id: string;
+  kind: AttachmentKind;
+  assetId?: string; // Uploaded file for image, audio, video and file attachments
+  url?: string; // Target of link cards
+  title?: string; // Link card heading
+  description?: string; // Alt text for images and videos, summary for link cards
+}
+
+// A call node plays a sub-flow from its entry message, then continues along its direct connection
+export interface SubFlowCall {
+  subFlowId: string | null; // null until a sub-flow is chosen, or after it was deleted
+}
+
+// A reusable group of messages, played wherever a call node uses it. Its messages live in
+// ScenarioData.messages with subFlowId set; links that lead nowhere return to the caller.
+export interface SubFlow {
+  id: string;
+  name: string;
+  entryMessageId: string | null;
+}
+
+export type StickyNoteColor = 'yellow' | 'pink' | 'blue' | 'green';
+
+// A free-floating note on the canvas. Authoring only: never part of the exported runtime.
+export interface StickyNote {
+  id: string;
+  text: string;
+  color: StickyNoteColor;
+  position: NodePosition;
+}
+
+export interface ThreadComment {
+  id: string;
+  author: string; // Blank when the reviewer didn't give a name
+  text: string;
+  createdAt: string;
+}
+
+// Review feedback attached to a message or one of its options, so it follows the message around
+// instead of its node number. Authoring only, like sticky notes.
+export interface CommentThread {
+  id: string;
+  messageId: string;
+  optionId: string | null; // null when the thread is about the message itself
+  resolved: boolean;
+  comments: ThreadComment[]; // Oldest first; the first one opened the thread
+}
+
+export type FrameColor = 'blue' | 'green' | 'yellow' | 'pink' | 'gray';
+
+// A labelled area grouping related messages on the canvas. Layout only: the conversation ignores it.
+// Member messages set frameId and keep absolute positions, so moving the frame moves them too.
+export interface CanvasFrame {
+  id: string;
+  label: string;
+  color: FrameColor;
+  position: NodePosition; // Top-left corner
+  width: number;
+  height: number;
+  collapsed: boolean; // Shown as a single summary node with its members hidden
+}
+
+// One learner action in a scripted test: picking a response by id, or typing an answer
+export type TestStep =
+  | { kind: 'choose'; optionId: string }
+  | { kind: 'answer'; text: string };
+
+// A scripted play-through checked against the branching logic. The steps run from the start (or a
+// chosen message with seeded values), then the conversation must rest on the expected message with
+// the expected values. Only the variables listed are checked.
+export interface ScenarioTestCase {
+  id: string;
+  name: string;
+  startMessageId: string | null; // null starts at the root
+  startVariables: Record<string, VariableValue>; // On top of the defaults
+  steps: TestStep[];
+  expectedMessageId: string | null; // null expects the conversation to have ended without a message
+  expectedVariables: Record<string, VariableValue>;
+}
+
+// A message that asks the learner to type an answer instead of picking a response
+export interface TextInputSettings {
+  variableId: string | null; // Text variable that stores the answer
+  placeholder?: string;
 }
 
 export interface ChatMessage {
@@ -49,8 +172,36 @@ export interface ChatMessage {
   isEndpoint: boolean;
   responseOptions: ResponseOption[];
   position: NodePosition;
-  condition?: VariableCondition; // Message only shown if condition is met
-  nextMessageId?: string | null; // Direct connection for messages without responses
+  condition?: Condition; // Message only shown if condition is met
+  nextMessageId?: string | null; // Direct connection for messages without responses; the fallback for text input
+  speakerId?: string; // Speaker who sends this message; unset means the theme's contact
+  input?: TextInputSettings; // Set when the learner types an answer; response options become routes
+  attachments?: MessageAttachment[]; // Shown below the text, in order
+  pacing?: MessagePacing; // Overrides the theme's default typing delay
+  subFlowId?: string; // Sub-flow this message belongs to
+  call?: SubFlowCall; // Set on call nodes, which are never shown themselves
+  frameId?: string; // Canvas frame this message is grouped in
+}
+
+// How long the typing indicator shows before a contact message appears. 'wpm' scales the delay
+// with the message length at a typing speed in words per minute.
+export type PacingMode = 'fixed' | 'wpm';
+
+export interface MessagePacing {
+  mode: PacingMode;
+  delayMs: number; // Used by 'fixed'
+  wordsPerMinute: number; // Used by 'wpm'
+}
+
+// A character who can send contact messages. The theme's contact is the implicit default speaker.
+export interface Speaker {
+  id: string;
+  name: string;
+  avatar: string | null; // Base64 image or null for initials
+  avatarBackgroundColor: string; // HSL
+  avatarTextColor: string; // HSL
+  bubbleColor: string; // HSL
+  textColor: string; // HSL
 }
 
 export interface BubbleBorderRadius {
@@ -105,16 +256,42 @@ export interface ChatTheme {
   frameBorderColor: string; // HSL
   // Conversation type
   conversationType: 'chat' | 'regular'; // 'chat' shows header & typing, 'regular' is cleaner
+  // Pacing
+  pacing: MessagePacing; // Default typing delay for every contact message
+  autoAdvanceDelay?: number; // ms before a message without choices moves on; unset uses 300 (chat) or 500 (regular)
   // Rise 360 integration
   enableRiseCompletion: boolean; // Post completion message to parent frame
 }
 
+// Package format produced by Finalize
+export type ExportTarget = 'web' | 'scorm12' | 'scorm2004' | 'xapi' | 'cmi5';
+
+export interface ExportSettings {
+  target: ExportTarget;
+  scoreVariableId: string | null; // Number variable reported as the score; null reports full marks on completion
+  maxScore: number;
+  passingScore: number; // Raw score needed to pass, out of maxScore
+  // xAPI / cmi5
+  activityId: string; // Activity IRI for statements; blank derives one from the scenario id
+  lrsEndpoint: string; // xAPI mode only; cmi5 gets the endpoint from the launch URL
+  lrsKey: string;
+  lrsSecret: string;
+}
+
 export interface ScenarioData {
   id: string;
   name: string;
   theme: ChatTheme;
   messages: Record<string, ChatMessage>;
   variables: Record<string, ScenarioVariable>; // Scenario-level variables
+  speakers: Record<string, Speaker>; // Additional speakers for group chats
+  assets: Record<string, ScenarioAsset>; // Uploaded files used by message attachments
+  subFlows: Record<string, SubFlow>; // Reusable message groups played by call nodes
+  notes: Record<string, StickyNote>; // Canvas sticky notes
+  comments: Record<string, CommentThread>; // Review comment threads by thread id
+  frames: Record<string, CanvasFrame>; // Canvas frames grouping messages
+  testCases: Record<string, ScenarioTestCase>; // Scripted regression tests
+  exportSettings: ExportSettings;
   rootMessageId: string | null;
   createdAt: string;
   updatedAt: string;
@@ -169,10 +346,23 @@ export const DEFAULT_THEME: ChatTheme = {
   frameBorderColor: "220 13% 91%", // Light gray border
   // Conversation type
   conversationType: 'chat',
+  // Pacing
+  pacing: { mode: 'fixed', delayMs: 1000, wordsPerMinute: 180 },
   // Rise 360 integration
   enableRiseCompletion: false,
 };
 
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  target: 'web',
+  scoreVariableId: null,
+  maxScore: 100,
+  passingScore: 80,
+  activityId: '',
+  lrsEndpoint: '',
+  lrsKey: '',
+  lrsSecret: '',
+};
+
 export const createEmptyScenario = (): ScenarioData => {
   // Create IDs upfront so we can link them
   const variableId = crypto.randomUUID();
@@ -222,6 +412,14 @@ export const createEmptyScenario = (): ScenarioData => {
         defaultValue: false,
       },
     },
+    speakers: {},
+    assets: {},
+    subFlows: {},
+    notes: {},
+    comments: {},
+    frames: {},
+    testCases: {},
+    exportSettings: { ...DEFAULT_EXPORT_SETTINGS },
     rootMessageId: message1Id,
     createdAt: now,
     updatedAt: now,
@@ -242,6 +440,15 @@ export const createResponseOption = (text: string = ""): ResponseOption => ({
   nextMessageId: null,
 });
 
+export const createAttachment = (
+  kind: AttachmentKind,
+  fields: Partial<Omit<MessageAttachment, "id" | "kind">> = {}
+): MessageAttachment => ({
+  id: crypto.randomUUID(),
+  kind,
+  ...fields,
+});
+
 const getDefaultValueForType = (type: VariableType): VariableValue => {
   switch (type) {
     case "text": return "";
@@ -256,3 +463,90 @@ export const createVariable = (name: string, type: VariableType = "boolean"): Sc
   type,
   defaultValue: getDefaultValueForType(type),
 });
+
+export const createSpeaker = (name: string): Speaker => ({
+  id: crypto.randomUUID(),
+  name,
+  avatar: null,
+  avatarBackgroundColor: "262 52% 47%", // Purple - WCAG AA compliant with white
+  avatarTextColor: "0 0% 100%",
+  bubbleColor: DEFAULT_THEME.receiverBubbleColor,
+  textColor: DEFAULT_THEME.receiverTextColor,
+});
+
+export const createSubFlow = (name: string, entryMessageId: string | null = null): SubFlow => ({
+  id: crypto.randomUUID(),
+  name,
+  entryMessageId,
+});
+
+export const createStickyNote = (position: NodePosition, color: StickyNoteColor = 'yellow'): StickyNote => ({
+  id: crypto.randomUUID(),
+  text: "",
+  color,
+  position,
+});
+
+export const createThreadComment = (text: string, author: string): ThreadComment => ({
+  id: crypto.randomUUID(),
+  author,
+  text,
+  createdAt: new Date().toISOString(),
+});
+
+export const createCommentThread = (
+  messageId: string,
+  optionId: string | null,
+  comment: ThreadComment
+): CommentThread => ({
+  id: crypto.randomUUID(),
+  messageId,
+  optionId,
+  resolved: false,
+  comments: [comment],
+});
+
+export const createFrame = (
+  label: string,
+  position: NodePosition,
+  width: number,
+  height: number,
+  color: FrameColor = 'blue'
+): CanvasFrame => ({
+  id: crypto.randomUUID(),
+  label,
+  color,
+  position,
+  width,
+  height,
+  collapsed: false,
+});
+
+export const createTestCase = (
+  name: string,
+  script: Omit<ScenarioTestCase, 'id' | 'name'>
+): ScenarioTestCase => ({
+  id: crypto.randomUUID(),
+  name,
+  ...script,
+});
+
+// The theme's contact expressed as a speaker, used for messages without a speakerId
+export const getContactSpeaker = (theme: ChatTheme): Speaker => ({
+  id: "contact",
+  name: theme.contactName,
+  avatar: theme.contactAvatar,
+  avatarBackgroundColor: theme.avatarBackgroundColor,
+  avatarTextColor: theme.avatarTextColor,
+  bubbleColor: theme.receiverBubbleColor,
+  textColor: theme.receiverTextColor,
+});
+
+// Resolve who sends a message, falling back to the contact for unset or deleted speakers
+export const getMessageSpeaker = (
+  scenario: Pick<ScenarioData, "theme" | "speakers">,
+  speakerId: string | undefined
+): Speaker => {
+  const speaker = speakerId ? scenario.speakers?.[speakerId] : undefined;
+  return speaker ?? getContactSpeaker(scenario.theme);
+};